@@ -16,6 +16,10 @@ export default defineConfig({
 	},
 	server: {
 		port: 4173,
+		fs: {
+			// Shared content block schema in ../src/shared
+			allow: ['..']
+		},
 		proxy: {
 			'/api': {
 				target: 'http://localhost:4000',
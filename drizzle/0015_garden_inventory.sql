@@ -0,0 +1,36 @@
+CREATE TABLE "user_items" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"item_id" text NOT NULL,
+	"quantity" integer DEFAULT 1 NOT NULL,
+	"acquired_at" timestamp DEFAULT now() NOT NULL,
+	"created" timestamp DEFAULT now() NOT NULL,
+	"updated" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_items_user_item_unique" UNIQUE("user_id","item_id")
+);
+--> statement-breakpoint
+CREATE TABLE "user_seeds" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"balance" integer DEFAULT 0 NOT NULL,
+	"created" timestamp DEFAULT now() NOT NULL,
+	"updated" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_seeds_user_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "seed_ledger" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"balance_after" integer NOT NULL,
+	"reason" text NOT NULL,
+	"item_id" text,
+	"created" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_items" ADD CONSTRAINT "user_items_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_items" ADD CONSTRAINT "user_items_item_id_items_id_fk" FOREIGN KEY ("item_id") REFERENCES "public"."items"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_seeds" ADD CONSTRAINT "user_seeds_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "seed_ledger" ADD CONSTRAINT "seed_ledger_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_items_user_idx" ON "user_items" USING btree ("user_id" text_ops);--> statement-breakpoint
+CREATE INDEX "seed_ledger_user_idx" ON "seed_ledger" USING btree ("user_id" text_ops,"created" timestamp_ops);
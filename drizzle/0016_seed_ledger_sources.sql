@@ -0,0 +1,3 @@
+ALTER TABLE "seed_ledger" ADD COLUMN "source_type" text;--> statement-breakpoint
+ALTER TABLE "seed_ledger" ADD COLUMN "source_id" text;--> statement-breakpoint
+ALTER TABLE "seed_ledger" ADD CONSTRAINT "seed_ledger_source_unique" UNIQUE("user_id","source_type","source_id");
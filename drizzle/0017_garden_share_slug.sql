@@ -0,0 +1,2 @@
+ALTER TABLE "gardens" ADD COLUMN "share_slug" text;--> statement-breakpoint
+ALTER TABLE "gardens" ADD CONSTRAINT "gardens_share_slug_unique" UNIQUE("share_slug");
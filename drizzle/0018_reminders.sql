@@ -0,0 +1,19 @@
+CREATE TABLE "reminders" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"title" text NOT NULL,
+	"message" text NOT NULL,
+	"scheduled_for" timestamp NOT NULL,
+	"timezone" text DEFAULT 'Europe/Berlin' NOT NULL,
+	"recurring" text,
+	"recurring_data" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"last_sent" timestamp,
+	"next_occurrence" timestamp,
+	"created" timestamp DEFAULT now() NOT NULL,
+	"updated" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "reminders" ADD CONSTRAINT "reminders_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "reminders_user_idx" ON "reminders" USING btree ("user_id" text_ops);--> statement-breakpoint
+CREATE INDEX "reminders_due_idx" ON "reminders" USING btree ("active" bool_ops,"next_occurrence" timestamp_ops);
@@ -0,0 +1,14 @@
+CREATE TABLE "job_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_name" text NOT NULL,
+	"trigger" text DEFAULT 'schedule' NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"triggered_by" text,
+	"result" text,
+	"error" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"duration_ms" integer
+);
+--> statement-breakpoint
+CREATE INDEX "job_runs_job_started_idx" ON "job_runs" USING btree ("job_name" text_ops,"started_at" DESC NULLS FIRST timestamp_ops);
@@ -0,0 +1,10 @@
+ALTER TABLE "memory_extraction_queue" ADD COLUMN "chat_id" text;--> statement-breakpoint
+ALTER TABLE "memory_extraction_queue" ADD COLUMN "locale" text DEFAULT 'de' NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_extraction_queue" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_extraction_queue" ADD COLUMN "max_attempts" integer DEFAULT 5 NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_extraction_queue" ADD COLUMN "next_attempt_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_extraction_queue" ADD COLUMN "locked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "memory_extraction_queue" ADD COLUMN "last_error" text;--> statement-breakpoint
+ALTER TABLE "memory_extraction_queue" ADD COLUMN "completed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "memory_extraction_queue" ADD CONSTRAINT "memory_extraction_queue_chat_id_chats_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "memory_extraction_queue_next_attempt_idx" ON "memory_extraction_queue" USING btree ("status" text_ops,"next_attempt_at" timestamp_ops);
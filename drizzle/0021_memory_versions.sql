@@ -0,0 +1,17 @@
+CREATE TABLE "memory_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"memory_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"version" integer NOT NULL,
+	"source" text NOT NULL,
+	"key" text,
+	"value" text NOT NULL,
+	"type" text NOT NULL,
+	"person_name" text,
+	"priority" real NOT NULL,
+	"created" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "memory_versions_memory_version_unique" UNIQUE("memory_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "memory_versions" ADD CONSTRAINT "memory_versions_memory_id_memories_id_fk" FOREIGN KEY ("memory_id") REFERENCES "public"."memories"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "memory_versions_user_source_idx" ON "memory_versions" USING btree ("user_id" text_ops,"source" text_ops);
@@ -0,0 +1,36 @@
+CREATE TABLE "people" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"relationship" text,
+	"notes" text,
+	"created" timestamp DEFAULT now() NOT NULL,
+	"updated" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "person_aliases" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"person_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"alias" text NOT NULL,
+	"normalized_alias" text NOT NULL,
+	"created" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "person_aliases_user_alias_unique" UNIQUE("user_id","normalized_alias")
+);
+--> statement-breakpoint
+CREATE TABLE "person_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"person_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" text NOT NULL,
+	"created" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "person_links_person_entity_unique" UNIQUE("person_id","entity_type","entity_id")
+);
+--> statement-breakpoint
+ALTER TABLE "people" ADD CONSTRAINT "people_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "person_aliases" ADD CONSTRAINT "person_aliases_person_id_people_id_fk" FOREIGN KEY ("person_id") REFERENCES "public"."people"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "person_links" ADD CONSTRAINT "person_links_person_id_people_id_fk" FOREIGN KEY ("person_id") REFERENCES "public"."people"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "people_user_idx" ON "people" USING btree ("user_id" text_ops);--> statement-breakpoint
+CREATE INDEX "person_aliases_person_idx" ON "person_aliases" USING btree ("person_id" uuid_ops);--> statement-breakpoint
+CREATE INDEX "person_links_entity_idx" ON "person_links" USING btree ("entity_type" text_ops,"entity_id" text_ops);
@@ -0,0 +1,2 @@
+ALTER TABLE "user" ADD COLUMN "allowed_memory_types" text;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "off_the_record" boolean DEFAULT false NOT NULL;
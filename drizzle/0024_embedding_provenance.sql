@@ -0,0 +1,6 @@
+ALTER TABLE "memories" ADD COLUMN "embedding_provider" text;--> statement-breakpoint
+ALTER TABLE "memories" ADD COLUMN "embedding_model" text;--> statement-breakpoint
+ALTER TABLE "nvc_knowledge" ADD COLUMN "embedding_provider" text;--> statement-breakpoint
+ALTER TABLE "nvc_knowledge" ADD COLUMN "embedding_model" text;--> statement-breakpoint
+UPDATE "memories" SET "embedding_provider" = 'gemini', "embedding_model" = 'gemini-embedding-001' WHERE "embedding" IS NOT NULL;--> statement-breakpoint
+UPDATE "nvc_knowledge" SET "embedding_provider" = 'gemini', "embedding_model" = 'gemini-embedding-001' WHERE "embedding" IS NOT NULL;
@@ -0,0 +1,31 @@
+CREATE TABLE "embedding_reindex_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"dimensions" integer NOT NULL,
+	"tables" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"batch_size" integer DEFAULT 50 NOT NULL,
+	"total_rows" integer DEFAULT 0 NOT NULL,
+	"processed_rows" integer DEFAULT 0 NOT NULL,
+	"failed_rows" integer DEFAULT 0 NOT NULL,
+	"started_by" text,
+	"locked_at" timestamp,
+	"last_error" text,
+	"created" timestamp DEFAULT now() NOT NULL,
+	"updated" timestamp DEFAULT now() NOT NULL,
+	"swapped_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "embedding_reindex_failures" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" uuid NOT NULL,
+	"table_name" text NOT NULL,
+	"row_id" uuid NOT NULL,
+	"error" text NOT NULL,
+	"created" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "embedding_reindex_failures_job_row_unique" UNIQUE("job_id","table_name","row_id")
+);
+--> statement-breakpoint
+ALTER TABLE "embedding_reindex_failures" ADD CONSTRAINT "embedding_reindex_failures_job_id_embedding_reindex_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."embedding_reindex_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "embedding_reindex_jobs_status_idx" ON "embedding_reindex_jobs" USING btree ("status" text_ops);
@@ -0,0 +1,2 @@
+ALTER TABLE "nvc_knowledge" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector(CASE WHEN language = 'de' THEN 'german'::regconfig ELSE 'english'::regconfig END, coalesce(title, '')), 'A') || setweight(to_tsvector(CASE WHEN language = 'de' THEN 'german'::regconfig ELSE 'english'::regconfig END, coalesce(content, '')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "nvc_knowledge_search_idx" ON "nvc_knowledge" USING gin ("search_vector");
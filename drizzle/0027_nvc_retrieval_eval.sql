@@ -0,0 +1,24 @@
+CREATE TABLE "nvc_eval_queries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"query" text NOT NULL,
+	"language" text DEFAULT 'de' NOT NULL,
+	"expected_knowledge_ids" text NOT NULL,
+	"notes" text,
+	"created_by" text,
+	"created" timestamp DEFAULT now() NOT NULL,
+	"updated" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "nvc_eval_queries_query_language_unique" UNIQUE("query","language")
+);
+--> statement-breakpoint
+CREATE TABLE "nvc_eval_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"label" text,
+	"config" text NOT NULL,
+	"metrics" text NOT NULL,
+	"results" text NOT NULL,
+	"triggered_by" text,
+	"duration_ms" integer,
+	"created" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "nvc_eval_runs_created_idx" ON "nvc_eval_runs" USING btree ("created" DESC NULLS FIRST timestamp_ops);
@@ -0,0 +1,28 @@
+ALTER TABLE "nvc_knowledge" ADD COLUMN "status" text DEFAULT 'published' NOT NULL;--> statement-breakpoint
+CREATE INDEX "nvc_knowledge_status_idx" ON "nvc_knowledge" USING btree ("status" text_ops);--> statement-breakpoint
+CREATE TABLE "nvc_knowledge_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entry_id" uuid NOT NULL,
+	"knowledge_id" uuid,
+	"revision" integer NOT NULL,
+	"action" text NOT NULL,
+	"snapshot" text NOT NULL,
+	"diff" text NOT NULL,
+	"author_id" text,
+	"note" text,
+	"created" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "nvc_knowledge_revisions_entry_revision_unique" UNIQUE("entry_id","revision")
+);
+--> statement-breakpoint
+CREATE INDEX "nvc_knowledge_revisions_knowledge_id_idx" ON "nvc_knowledge_revisions" USING btree ("knowledge_id" uuid_ops);--> statement-breakpoint
+-- Baseline revision for existing entries so the first edit has something to roll back to
+INSERT INTO "nvc_knowledge_revisions" ("entry_id", "knowledge_id", "revision", "action", "snapshot", "diff", "author_id", "note", "created")
+SELECT
+	"id", "knowledge_id", 1, 'create',
+	json_build_object(
+		'knowledgeId', "knowledge_id", 'language', "language", 'title', "title", 'content', "content",
+		'category', "category", 'subcategory', "subcategory", 'source', "source", 'tags', "tags",
+		'priority', "priority", 'isActive', "is_active", 'status', "status"
+	)::text,
+	'{}', "created_by", 'Baseline before revision history', "created"
+FROM "nvc_knowledge";
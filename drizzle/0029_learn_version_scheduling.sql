@@ -0,0 +1,2 @@
+ALTER TABLE "learn_topic_versions" ADD COLUMN "scheduled_publish_at" timestamp;--> statement-breakpoint
+CREATE INDEX "learn_topic_versions_scheduled_idx" ON "learn_topic_versions" USING btree ("scheduled_publish_at" timestamp_ops) WHERE scheduled_publish_at IS NOT NULL;
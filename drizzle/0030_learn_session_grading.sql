@@ -0,0 +1,2 @@
+ALTER TABLE "learn_sessions" ADD COLUMN "grading" text;--> statement-breakpoint
+ALTER TABLE "learn_sessions" ADD COLUMN "score" real;
@@ -0,0 +1,22 @@
+CREATE TABLE "learn_reviews" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"topic_id" text NOT NULL,
+	"block_index" integer,
+	"topic_version_id" text NOT NULL,
+	"session_id" text,
+	"ease_factor" real DEFAULT 2.5 NOT NULL,
+	"interval_days" integer DEFAULT 0 NOT NULL,
+	"repetitions" integer DEFAULT 0 NOT NULL,
+	"last_quality" integer,
+	"last_reviewed_at" timestamp NOT NULL,
+	"due_at" timestamp NOT NULL,
+	"notified_at" timestamp,
+	"created" timestamp DEFAULT now() NOT NULL,
+	"updated" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "learn_reviews" ADD CONSTRAINT "learn_reviews_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "learn_reviews_topic_unique" ON "learn_reviews" USING btree ("user_id" text_ops,"topic_id" text_ops) WHERE block_index IS NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "learn_reviews_block_unique" ON "learn_reviews" USING btree ("user_id" text_ops,"topic_id" text_ops,"block_index" int4_ops) WHERE block_index IS NOT NULL;--> statement-breakpoint
+CREATE INDEX "learn_reviews_due_idx" ON "learn_reviews" USING btree ("due_at" timestamp_ops);
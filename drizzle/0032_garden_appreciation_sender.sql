@@ -0,0 +1,2 @@
+-- Appreciations no longer expose the visitor's user id; keep only the hash used for rate limiting
+UPDATE "messages" SET "reminder_data" = '{"visitorHash":"' || encode(sha256(convert_to('garden_appreciation:' || "from_user_id", 'UTF8')), 'hex') || '"}', "from_user_id" = NULL WHERE "type" = 'garden_appreciation' AND "from_user_id" IS NOT NULL;
@@ -0,0 +1,17 @@
+-- Extracted memories used to store 1/2/3 by confidence; move them to the 0-1 type priority scale
+UPDATE "memories" SET "priority" = CASE "type"
+	WHEN 'core_identity' THEN 1.0
+	WHEN 'patterns' THEN 0.8
+	WHEN 'preferences' THEN 0.6
+	WHEN 'episodic' THEN 0.4
+	WHEN 'contextual' THEN 0.2
+	ELSE LEAST("priority" / 3, 1)
+END WHERE "priority" > 1 OR ("priority" = 1 AND "type" <> 'core_identity');--> statement-breakpoint
+UPDATE "memory_versions" SET "priority" = CASE "type"
+	WHEN 'core_identity' THEN 1.0
+	WHEN 'patterns' THEN 0.8
+	WHEN 'preferences' THEN 0.6
+	WHEN 'episodic' THEN 0.4
+	WHEN 'contextual' THEN 0.2
+	ELSE LEAST("priority" / 3, 1)
+END WHERE "priority" > 1 OR ("priority" = 1 AND "type" <> 'core_identity');
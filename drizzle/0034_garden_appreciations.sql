@@ -0,0 +1,11 @@
+CREATE TABLE "garden_appreciations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"garden_id" text NOT NULL,
+	"visitor_key" text NOT NULL,
+	"created" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "garden_appreciations" ADD CONSTRAINT "garden_appreciations_garden_id_gardens_id_fk" FOREIGN KEY ("garden_id") REFERENCES "public"."gardens"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "garden_appreciations_visitor_idx" ON "garden_appreciations" USING btree ("visitor_key" text_ops,"created" timestamp_ops);--> statement-breakpoint
+-- The unsalted visitor hashes from 0032 went back to owners with their messages
+UPDATE "messages" SET "reminder_data" = NULL WHERE "type" = 'garden_appreciation';
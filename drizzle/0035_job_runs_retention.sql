@@ -0,0 +1 @@
+CREATE INDEX "job_runs_started_idx" ON "job_runs" USING btree ("started_at" timestamp_ops);
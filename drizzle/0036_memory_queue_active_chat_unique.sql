@@ -0,0 +1,6 @@
+-- Keep the oldest active job per chat before enforcing uniqueness
+DELETE FROM "memory_extraction_queue" a USING "memory_extraction_queue" b
+WHERE a.chat_id = b.chat_id
+	AND a.status IN ('pending', 'processing') AND b.status IN ('pending', 'processing')
+	AND (a.created, a.id) > (b.created, b.id);--> statement-breakpoint
+CREATE UNIQUE INDEX "memory_extraction_queue_active_chat_unique" ON "memory_extraction_queue" USING btree ("chat_id" text_ops) WHERE status IN ('pending', 'processing');
@@ -0,0 +1,8 @@
+CREATE TABLE "embedding_settings" (
+	"id" text PRIMARY KEY NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"dimensions" integer NOT NULL,
+	"job_id" uuid,
+	"updated" timestamp DEFAULT now() NOT NULL
+);
@@ -1,4 +1,11 @@
-import { boolean, foreignKey, index, integer, jsonb, pgTable, real, text, timestamp, unique, uuid, vector } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { boolean, customType, foreignKey, index, integer, jsonb, pgTable, real, text, timestamp, unique, uniqueIndex, uuid, vector } from "drizzle-orm/pg-core";
+
+const tsvector = customType<{ data: string }>({
+	dataType() {
+		return "tsvector";
+	},
+});
 
 
 
@@ -11,7 +18,11 @@ export const memories = pgTable("memories", {
 	key: text(),
 	value: text().notNull(),
 	personName: text("person_name"),
-	embedding: vector({ dimensions: 768 }),
+	embedding: vector({ dimensions: 768 }), // embedding_settings.dimensions; update after a re-embedding job that changed dimensions
+	embeddingProvider: text("embedding_provider"), // e.g. "gemini", "local"
+	embeddingModel: text("embedding_model"), // e.g. "gemini-embedding-001"
+	// While a re-embedding job runs, the table also has transient embedding_next /
+	// embedding_next_source shadow columns (see src/lib/embedding-reindex.ts)
 	chatId: text("chat_id"),
 	relevanceScore: real("relevance_score").default(1).notNull(),
 	accessCount: integer("access_count").default(0).notNull(),
@@ -61,6 +72,7 @@ export const user = pgTable("user", {
 	toneOfVoice: text("tone_of_voice"),
 	nvcKnowledge: text("nvc_knowledge"),
 	inspirationalQuote: text("inspirational_quote"),
+	allowedMemoryTypes: text("allowed_memory_types"), // JSON array of MemoryType, null = all types
 }, (table) => [
 	unique("user_email_unique").on(table.email),
 ]);
@@ -197,6 +209,7 @@ export const chats = pgTable("chats", {
 	feelings: text(), // JSON stored as text
 	needs: text(), // JSON stored as text
 	memoryProcessed: boolean("memory_processed").default(false),
+	offTheRecord: boolean("off_the_record").default(false).notNull(), // never used for memory extraction
 	analyzed: boolean().default(false),
 	analysisId: text("analysis_id"), // relation to analyses
 	pathState: text("path_state"), // JSON stored as text
@@ -303,6 +316,7 @@ export const gardens = pgTable("gardens", {
 	totalPlants: integer("total_plants").default(0),
 	gardenLevel: integer("garden_level").default(1),
 	isPublic: boolean("is_public").default(false),
+	shareSlug: text("share_slug"), // public identifier for visitors, never the user id
 	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
 	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
 }, (table) => [
@@ -313,6 +327,22 @@ export const gardens = pgTable("gardens", {
 		}).onDelete("cascade"),
 	index("gardens_user_idx").using("btree", table.userId.asc().nullsLast().op("text_ops")),
 	index("gardens_public_idx").using("btree", table.isPublic.asc().nullsLast().op("bool_ops")),
+	unique("gardens_share_slug_unique").on(table.shareSlug),
+]);
+
+// Rate-limit ledger for garden appreciations; kept out of messages so owners never see who sent one
+export const gardenAppreciations = pgTable("garden_appreciations", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	gardenId: text("garden_id").notNull(),
+	visitorKey: text("visitor_key").notNull(), // HMAC of the visitor id, see src/lib/garden-sharing.ts
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	foreignKey({
+			columns: [table.gardenId],
+			foreignColumns: [gardens.id],
+			name: "garden_appreciations_garden_id_gardens_id_fk"
+		}).onDelete("cascade"),
+	index("garden_appreciations_visitor_idx").using("btree", table.visitorKey.asc().nullsLast().op("text_ops"), table.created.asc().nullsLast().op("timestamp_ops")),
 ]);
 
 export const items = pgTable("items", {
@@ -333,6 +363,64 @@ export const items = pgTable("items", {
 	index("items_rarity_idx").using("btree", table.rarity.asc().nullsLast().op("text_ops")),
 ]);
 
+export const userItems = pgTable("user_items", {
+	id: text().primaryKey().notNull(),
+	userId: text("user_id").notNull(),
+	itemId: text("item_id").notNull(),
+	quantity: integer().default(1).notNull(),
+	acquiredAt: timestamp("acquired_at", { mode: 'string' }).defaultNow().notNull(),
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	foreignKey({
+			columns: [table.userId],
+			foreignColumns: [user.id],
+			name: "user_items_user_id_user_id_fk"
+		}).onDelete("cascade"),
+	foreignKey({
+			columns: [table.itemId],
+			foreignColumns: [items.id],
+			name: "user_items_item_id_items_id_fk"
+		}).onDelete("cascade"),
+	index("user_items_user_idx").using("btree", table.userId.asc().nullsLast().op("text_ops")),
+	unique("user_items_user_item_unique").on(table.userId, table.itemId),
+]);
+
+export const userSeeds = pgTable("user_seeds", {
+	id: text().primaryKey().notNull(),
+	userId: text("user_id").notNull(),
+	balance: integer().default(0).notNull(),
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	foreignKey({
+			columns: [table.userId],
+			foreignColumns: [user.id],
+			name: "user_seeds_user_id_user_id_fk"
+		}).onDelete("cascade"),
+	unique("user_seeds_user_unique").on(table.userId),
+]);
+
+export const seedLedger = pgTable("seed_ledger", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	userId: text("user_id").notNull(),
+	amount: integer().notNull(), // positive = earned, negative = spent
+	balanceAfter: integer("balance_after").notNull(),
+	reason: text().notNull(), // e.g. "welcome", "purchase", "chat_completed"
+	itemId: text("item_id"), // set for purchases
+	sourceType: text("source_type"), // event that earned the seeds, e.g. "chat", "learn_topic"
+	sourceId: text("source_id"), // id of that event, unique per user and source type
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	foreignKey({
+			columns: [table.userId],
+			foreignColumns: [user.id],
+			name: "seed_ledger_user_id_user_id_fk"
+		}).onDelete("cascade"),
+	index("seed_ledger_user_idx").using("btree", table.userId.asc().nullsLast().op("text_ops"), table.created.asc().nullsLast().op("timestamp_ops")),
+	unique("seed_ledger_source_unique").on(table.userId, table.sourceType, table.sourceId),
+]);
+
 export const learnSessions = pgTable("learn_sessions", {
 	id: text().primaryKey().notNull(),
 	userId: text("user_id").notNull(),
@@ -343,6 +431,8 @@ export const learnSessions = pgTable("learn_sessions", {
 	completed: boolean().default(false),
 	completedAt: timestamp("completed_at", { mode: 'string' }),
 	feedback: text(), // JSON stored as text
+	grading: text(), // JSON: per-response results and page scores, computed server-side
+	score: real(), // 0-1 over all gradable blocks of the pinned version, null if it has none
 	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
 	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
 }, (table) => [
@@ -356,10 +446,68 @@ export const learnSessions = pgTable("learn_sessions", {
 	index("learn_sessions_completed_idx").using("btree", table.completed.asc().nullsLast().op("bool_ops")),
 ]);
 
+// SM-2 spaced repetition state per user and completed topic, or per quiz block of that topic
+export const learnReviews = pgTable("learn_reviews", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	userId: text("user_id").notNull(),
+	topicId: text("topic_id").notNull(),
+	blockIndex: integer("block_index"), // null = the whole topic, else a block of topicVersionId
+	topicVersionId: text("topic_version_id").notNull(), // version the block index points into
+	sessionId: text("session_id"), // session of the last review
+	easeFactor: real("ease_factor").default(2.5).notNull(),
+	intervalDays: integer("interval_days").default(0).notNull(),
+	repetitions: integer().default(0).notNull(),
+	lastQuality: integer("last_quality"), // 0-5
+	lastReviewedAt: timestamp("last_reviewed_at", { mode: 'string' }).notNull(),
+	dueAt: timestamp("due_at", { mode: 'string' }).notNull(),
+	notifiedAt: timestamp("notified_at", { mode: 'string' }), // message sent for the current dueAt
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	foreignKey({
+			columns: [table.userId],
+			foreignColumns: [user.id],
+			name: "learn_reviews_user_id_user_id_fk"
+		}).onDelete("cascade"),
+	uniqueIndex("learn_reviews_topic_unique").using("btree", table.userId.asc().nullsLast().op("text_ops"), table.topicId.asc().nullsLast().op("text_ops")).where(sql`block_index IS NULL`),
+	uniqueIndex("learn_reviews_block_unique").using("btree", table.userId.asc().nullsLast().op("text_ops"), table.topicId.asc().nullsLast().op("text_ops"), table.blockIndex.asc().nullsLast().op("int4_ops")).where(sql`block_index IS NOT NULL`),
+	index("learn_reviews_due_idx").using("btree", table.dueAt.asc().nullsLast().op("timestamp_ops")),
+]);
+
+export const memoryVersions = pgTable("memory_versions", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	memoryId: uuid("memory_id").notNull(),
+	userId: text("user_id").notNull(),
+	version: integer().notNull(),
+	source: text().notNull(), // "ai" (as inferred) | "user" (correction)
+	key: text(),
+	value: text().notNull(),
+	type: text().notNull(),
+	personName: text("person_name"),
+	priority: real().notNull(),
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	foreignKey({
+			columns: [table.memoryId],
+			foreignColumns: [memories.id],
+			name: "memory_versions_memory_id_memories_id_fk"
+		}).onDelete("cascade"),
+	index("memory_versions_user_source_idx").using("btree", table.userId.asc().nullsLast().op("text_ops"), table.source.asc().nullsLast().op("text_ops")),
+	unique("memory_versions_memory_version_unique").on(table.memoryId, table.version),
+]);
+
 export const memoryExtractionQueue = pgTable("memory_extraction_queue", {
 	id: text().primaryKey().notNull(),
 	userId: text("user_id").notNull(),
-	status: text().default('pending').notNull(),
+	chatId: text("chat_id"), // null extracts from all unprocessed chats of the user
+	locale: text().default('de').notNull(),
+	status: text().default('pending').notNull(), // "pending" | "processing" | "done" | "failed"
+	attempts: integer().default(0).notNull(),
+	maxAttempts: integer("max_attempts").default(5).notNull(),
+	nextAttemptAt: timestamp("next_attempt_at", { mode: 'string' }).defaultNow().notNull(),
+	lockedAt: timestamp("locked_at", { mode: 'string' }),
+	lastError: text("last_error"),
+	completedAt: timestamp("completed_at", { mode: 'string' }),
 	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
 	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
 }, (table) => [
@@ -368,8 +516,16 @@ export const memoryExtractionQueue = pgTable("memory_extraction_queue", {
 			foreignColumns: [user.id],
 			name: "memory_extraction_queue_user_id_user_id_fk"
 		}).onDelete("cascade"),
+	foreignKey({
+			columns: [table.chatId],
+			foreignColumns: [chats.id],
+			name: "memory_extraction_queue_chat_id_chats_id_fk"
+		}).onDelete("cascade"),
 	index("memory_extraction_queue_user_idx").using("btree", table.userId.asc().nullsLast().op("text_ops")),
 	index("memory_extraction_queue_status_idx").using("btree", table.status.asc().nullsLast().op("text_ops")),
+	index("memory_extraction_queue_next_attempt_idx").using("btree", table.status.asc().nullsLast().op("text_ops"), table.nextAttemptAt.asc().nullsLast().op("timestamp_ops")),
+	// At most one queued or running job per chat
+	uniqueIndex("memory_extraction_queue_active_chat_unique").using("btree", table.chatId.asc().nullsLast().op("text_ops")).where(sql`status IN ('pending', 'processing')`),
 ]);
 
 export const messages = pgTable("messages", {
@@ -403,6 +559,144 @@ export const messages = pgTable("messages", {
 	index("messages_scheduled_idx").using("btree", table.scheduledFor.asc().nullsLast().op("timestamp_ops")),
 ]);
 
+export const reminders = pgTable("reminders", {
+	id: text().primaryKey().notNull(),
+	userId: text("user_id").notNull(),
+	title: text().notNull(),
+	message: text().notNull(),
+	scheduledFor: timestamp("scheduled_for", { mode: 'string' }).notNull(), // first occurrence (UTC)
+	timezone: text().default('Europe/Berlin').notNull(), // IANA zone the recurrence is evaluated in
+	recurring: text(), // null | "daily" | "weekly" | "monthly"
+	recurringData: text("recurring_data"), // JSON stored as text: { interval, weekdays, dayOfMonth }
+	active: boolean().default(true).notNull(),
+	lastSent: timestamp("last_sent", { mode: 'string' }),
+	nextOccurrence: timestamp("next_occurrence", { mode: 'string' }),
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	foreignKey({
+			columns: [table.userId],
+			foreignColumns: [user.id],
+			name: "reminders_user_id_user_id_fk"
+		}).onDelete("cascade"),
+	index("reminders_user_idx").using("btree", table.userId.asc().nullsLast().op("text_ops")),
+	index("reminders_due_idx").using("btree", table.active.asc().nullsLast().op("bool_ops"), table.nextOccurrence.asc().nullsLast().op("timestamp_ops")),
+]);
+
+export const jobRuns = pgTable("job_runs", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	jobName: text("job_name").notNull(),
+	trigger: text().default('schedule').notNull(), // "schedule" | "manual"
+	status: text().default('running').notNull(), // "running" | "success" | "failed"
+	triggeredBy: text("triggered_by"), // admin user id for manual runs
+	result: text(), // JSON stored as text
+	error: text(),
+	startedAt: timestamp("started_at", { mode: 'string' }).defaultNow().notNull(),
+	finishedAt: timestamp("finished_at", { mode: 'string' }),
+	durationMs: integer("duration_ms"),
+}, (table) => [
+	index("job_runs_job_started_idx").using("btree", table.jobName.asc().nullsLast().op("text_ops"), table.startedAt.desc().nullsFirst().op("timestamp_ops")),
+	index("job_runs_started_idx").using("btree", table.startedAt.asc().nullsLast().op("timestamp_ops")),
+]);
+
+export const embeddingReindexJobs = pgTable("embedding_reindex_jobs", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	provider: text().notNull(), // target provider, e.g. "local"
+	model: text().notNull(), // target model, e.g. "hashed-ngram-v1"
+	dimensions: integer().notNull(),
+	tables: text().notNull(), // JSON array: ["memories", "nvc_knowledge"]
+	status: text().default('running').notNull(), // "running" | "ready" | "completed" | "cancelled" | "failed"
+	batchSize: integer("batch_size").default(50).notNull(),
+	totalRows: integer("total_rows").default(0).notNull(),
+	processedRows: integer("processed_rows").default(0).notNull(),
+	failedRows: integer("failed_rows").default(0).notNull(),
+	startedBy: text("started_by"), // admin user id, null for the CLI
+	lockedAt: timestamp("locked_at", { mode: 'string' }),
+	lastError: text("last_error"),
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
+	swappedAt: timestamp("swapped_at", { mode: 'string' }),
+}, (table) => [
+	index("embedding_reindex_jobs_status_idx").using("btree", table.status.asc().nullsLast().op("text_ops")),
+]);
+
+export const embeddingReindexFailures = pgTable("embedding_reindex_failures", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	jobId: uuid("job_id").notNull(),
+	tableName: text("table_name").notNull(), // "memories" | "nvc_knowledge"
+	rowId: uuid("row_id").notNull(),
+	error: text().notNull(),
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	foreignKey({
+			columns: [table.jobId],
+			foreignColumns: [embeddingReindexJobs.id],
+			name: "embedding_reindex_failures_job_id_embedding_reindex_jobs_id_fk"
+		}).onDelete("cascade"),
+	unique("embedding_reindex_failures_job_row_unique").on(table.jobId, table.tableName, table.rowId),
+]);
+
+// Single row ("active"): the embedding provider every instance uses, written by the re-embedding swap
+export const embeddingSettings = pgTable("embedding_settings", {
+	id: text().primaryKey().notNull(),
+	provider: text().notNull(),
+	model: text().notNull(),
+	dimensions: integer().notNull(),
+	jobId: uuid("job_id"), // job that swapped these settings in, null when seeded from the environment
+	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
+});
+
+export const people = pgTable("people", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	userId: text("user_id").notNull(),
+	name: text().notNull(),
+	relationship: text(), // e.g. "partner", "mother", "colleague"
+	notes: text(),
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	foreignKey({
+			columns: [table.userId],
+			foreignColumns: [user.id],
+			name: "people_user_id_user_id_fk"
+		}).onDelete("cascade"),
+	index("people_user_idx").using("btree", table.userId.asc().nullsLast().op("text_ops")),
+]);
+
+export const personAliases = pgTable("person_aliases", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	personId: uuid("person_id").notNull(),
+	userId: text("user_id").notNull(),
+	alias: text().notNull(), // as written, e.g. "mein Partner"
+	normalizedAlias: text("normalized_alias").notNull(), // e.g. "partner"
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	foreignKey({
+			columns: [table.personId],
+			foreignColumns: [people.id],
+			name: "person_aliases_person_id_people_id_fk"
+		}).onDelete("cascade"),
+	index("person_aliases_person_idx").using("btree", table.personId.asc().nullsLast().op("uuid_ops")),
+	unique("person_aliases_user_alias_unique").on(table.userId, table.normalizedAlias),
+]);
+
+export const personLinks = pgTable("person_links", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	personId: uuid("person_id").notNull(),
+	userId: text("user_id").notNull(),
+	entityType: text("entity_type").notNull(), // "memory" | "analysis" | "chat"
+	entityId: text("entity_id").notNull(),
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	foreignKey({
+			columns: [table.personId],
+			foreignColumns: [people.id],
+			name: "person_links_person_id_people_id_fk"
+		}).onDelete("cascade"),
+	index("person_links_entity_idx").using("btree", table.entityType.asc().nullsLast().op("text_ops"), table.entityId.asc().nullsLast().op("text_ops")),
+	unique("person_links_person_entity_unique").on(table.personId, table.entityType, table.entityId),
+]);
+
 export const streaks = pgTable("streaks", {
 	id: text().primaryKey().notNull(),
 	userId: text("user_id").notNull(),
@@ -492,13 +786,18 @@ export const nvcKnowledge = pgTable("nvc_knowledge", {
 	language: text().notNull(), // 'de' | 'en'
 	title: text().notNull(),
 	content: text().notNull(),
-	embedding: vector({ dimensions: 768 }),
+	embedding: vector({ dimensions: 768 }), // embedding_settings.dimensions, see memories.embedding
+	embeddingProvider: text("embedding_provider"), // e.g. "gemini", "local"
+	embeddingModel: text("embedding_model"), // e.g. "gemini-embedding-001"
+	// Full-text search over title (weight A) and content (weight B), stemmed per language
+	searchVector: tsvector("search_vector").generatedAlwaysAs(sql`setweight(to_tsvector(CASE WHEN language = 'de' THEN 'german'::regconfig ELSE 'english'::regconfig END, coalesce(title, '')), 'A') || setweight(to_tsvector(CASE WHEN language = 'de' THEN 'german'::regconfig ELSE 'english'::regconfig END, coalesce(content, '')), 'B')`),
 	category: text().notNull(), // e.g., "principles", "examples", "techniques"
 	subcategory: text(), // optional, e.g., "observation", "feelings", "needs"
 	source: text(), // e.g., "Marshall Rosenberg", "NVC Foundation"
 	tags: text().array(), // language-agnostic tags
 	priority: integer().default(3).notNull(), // 1-5 for relevance ranking
 	isActive: boolean("is_active").default(true).notNull(), // for soft deletion/archiving
+	status: text().default('published').notNull(), // 'draft' | 'review' | 'published'; only published entries are retrieved
 	createdBy: text("created_by"), // user_id, nullable for system entries
 	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
 	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
@@ -508,6 +807,51 @@ export const nvcKnowledge = pgTable("nvc_knowledge", {
 	index("nvc_knowledge_language_idx").using("btree", table.language.asc().nullsLast().op("text_ops")),
 	index("nvc_knowledge_knowledge_id_idx").using("btree", table.knowledgeId.asc().nullsLast().op("uuid_ops")),
 	index("nvc_knowledge_is_active_idx").using("btree", table.isActive.asc().nullsLast().op("bool_ops")),
+	index("nvc_knowledge_search_idx").using("gin", table.searchVector),
+	index("nvc_knowledge_status_idx").using("btree", table.status.asc().nullsLast().op("text_ops")),
+]);
+
+// Audit trail of nvc_knowledge edits; no foreign key so the history outlives hard deletes
+export const nvcKnowledgeRevisions = pgTable("nvc_knowledge_revisions", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	entryId: uuid("entry_id").notNull(),
+	knowledgeId: uuid("knowledge_id"),
+	revision: integer().notNull(), // 1-based, per entry
+	action: text().notNull(), // 'create' | 'update' | 'delete' | 'status' | 'rollback' | 'import'
+	snapshot: text().notNull(), // JSON: entry fields after this change
+	diff: text().notNull(), // JSON: { field: { from, to } }
+	authorId: text("author_id"), // user_id, null for scripts
+	note: text(),
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	unique("nvc_knowledge_revisions_entry_revision_unique").on(table.entryId, table.revision),
+	index("nvc_knowledge_revisions_knowledge_id_idx").using("btree", table.knowledgeId.asc().nullsLast().op("uuid_ops")),
+]);
+
+export const nvcEvalQueries = pgTable("nvc_eval_queries", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	query: text().notNull(),
+	language: text().default('de').notNull(), // 'de' | 'en'
+	expectedKnowledgeIds: text("expected_knowledge_ids").notNull(), // JSON array of nvc_knowledge.knowledge_id
+	notes: text(),
+	createdBy: text("created_by"),
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+	updated: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	unique("nvc_eval_queries_query_language_unique").on(table.query, table.language),
+]);
+
+export const nvcEvalRuns = pgTable("nvc_eval_runs", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	label: text(),
+	config: text().notNull(), // JSON: pipeline, mode, k, thresholds, embedding/chat provider
+	metrics: text().notNull(), // JSON: { recallAtK, mrr, ndcg, queries }
+	results: text().notNull(), // JSON: per-query ranks and metrics
+	triggeredBy: text("triggered_by"), // admin user id, null for the CLI
+	durationMs: integer("duration_ms"),
+	created: timestamp({ mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+	index("nvc_eval_runs_created_idx").using("btree", table.created.desc().nullsFirst().op("timestamp_ops")),
 ]);
 
 export const learnCategories = pgTable("learn_categories", {
@@ -563,9 +907,10 @@ export const learnTopicVersions = pgTable("learn_topic_versions", {
 	language: text().default('de').notNull(),
 	image: text(),
 	content: jsonb("content").$type<any>(),
-	status: text().default('draft').notNull(),
+	status: text().default('draft').notNull(), // 'draft' | 'review' | 'scheduled' | 'published' | 'archived'
 	isPublished: boolean("is_published").default(false).notNull(),
 	publishedAt: timestamp("published_at", { mode: 'string' }),
+	scheduledPublishAt: timestamp("scheduled_publish_at", { mode: 'string' }), // set while status is 'scheduled'
 	createdBy: text("created_by"),
 	notes: text(),
 	metadata: jsonb("metadata").$type<any>(),
@@ -574,4 +919,5 @@ export const learnTopicVersions = pgTable("learn_topic_versions", {
 }, (table) => [
 	index("learn_topic_versions_topic_idx").using("btree", table.topicId.asc().nullsLast().op("uuid_ops")),
 	index("learn_topic_versions_category_idx").using("btree", table.categoryId.asc().nullsLast().op("uuid_ops")),
+	index("learn_topic_versions_scheduled_idx").using("btree", table.scheduledPublishAt.asc().nullsLast().op("timestamp_ops")).where(sql`scheduled_publish_at IS NOT NULL`),
 ]);
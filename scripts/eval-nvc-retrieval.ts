@@ -0,0 +1,83 @@
+/**
+ * Evaluate NVC knowledge retrieval against the labeled queries in nvc_eval_queries
+ * Run with: npx tsx scripts/eval-nvc-retrieval.ts [--label <name>] [--pipeline search|retrieve] [--mode hybrid|vector|lexical]
+ *           [--k 5] [--min-similarity 0.5] [--priority-weight 0.1] [--compare <runId>] [--offline]
+ *
+ * --queries <file.json>  Import labeled queries first: [{ "query", "language", "expectedKnowledgeIds": [...] }]
+ * --offline              Use the local embedding provider and the scripted chat provider (no network).
+ *                        Vector results then only come from rows embedded with the local provider.
+ */
+
+import { readFile } from 'fs/promises';
+import { createScriptedChatProvider, setChatModelProvider } from '../src/lib/chat-models.js';
+import { createHashedNgramEmbeddingProvider, setEmbeddingProvider } from '../src/lib/embeddings.js';
+import { compareEvalRuns, runNVCRetrievalEval, saveEvalQuery, validateEvalConfig, validateEvalQuery } from '../src/lib/nvc-eval.js';
+
+function getOption(args: string[], name: string): string | undefined {
+	const index = args.indexOf(`--${name}`);
+	return index >= 0 ? args[index + 1] : undefined;
+}
+
+function getNumber(args: string[], name: string): number | undefined {
+	const value = getOption(args, name);
+	return value !== undefined ? Number(value) : undefined;
+}
+
+async function evaluate(args: string[] = process.argv.slice(2)) {
+	if (args.includes('--offline')) {
+		setEmbeddingProvider(createHashedNgramEmbeddingProvider());
+		// Concept extraction gets no usable JSON and falls back to the raw query
+		setChatModelProvider(createScriptedChatProvider(['{}']));
+	}
+
+	const queriesFile = getOption(args, 'queries');
+	if (queriesFile) {
+		const entries = JSON.parse(await readFile(queriesFile, 'utf8'));
+		if (!Array.isArray(entries)) {
+			throw new Error(`${queriesFile} must contain a JSON array`);
+		}
+		for (const entry of entries) {
+			await saveEvalQuery(validateEvalQuery(entry));
+		}
+		console.log(`📥 Imported ${entries.length} labeled queries`);
+	}
+
+	const run = await runNVCRetrievalEval({
+		...validateEvalConfig({
+			pipeline: getOption(args, 'pipeline'),
+			mode: getOption(args, 'mode'),
+			k: getNumber(args, 'k'),
+			minSimilarity: getNumber(args, 'min-similarity'),
+			priorityWeight: getNumber(args, 'priority-weight')
+		}),
+		label: getOption(args, 'label')
+	});
+
+	console.log('\n📋 Per query:');
+	for (const result of run.results as Array<{ query: string; recall: number; reciprocalRank: number; missed: string[] }>) {
+		const status = result.missed.length === 0 ? '✅' : result.recall > 0 ? '🟡' : '❌';
+		console.log(`   ${status} "${result.query}" recall=${result.recall.toFixed(2)} RR=${result.reciprocalRank.toFixed(2)}`);
+	}
+
+	const baselineId = getOption(args, 'compare');
+	if (baselineId) {
+		const comparison = await compareEvalRuns(baselineId, run.id);
+		const sign = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(3)}`;
+		console.log(`\n📊 Against ${baselineId}: recall ${sign(comparison.delta.recallAtK)}, MRR ${sign(comparison.delta.mrr)}, nDCG ${sign(comparison.delta.ndcg)}`);
+		if (!comparison.comparable) {
+			console.log('   ⚠️ Runs used different k values');
+		}
+	}
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+	evaluate()
+		.then(() => process.exit(0))
+		.catch(error => {
+			console.error('❌', error?.message || error);
+			process.exit(1);
+		});
+}
+
+export { evaluate };
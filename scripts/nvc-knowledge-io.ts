@@ -0,0 +1,107 @@
+/**
+ * Bulk import/export of the NVC knowledge base
+ * Run with:
+ *   npx tsx scripts/nvc-knowledge-io.ts export [--format jsonl|csv] [--language de|en] [--include-inactive] [--out <file>]
+ *   npx tsx scripts/nvc-knowledge-io.ts import <file|folder> [--format jsonl|csv|markdown] [--apply]
+ *
+ * Imports are dry runs unless --apply is passed: the diff against the current
+ * knowledge base is printed and nothing is written. A folder is imported as
+ * markdown files (one entry per *.md file with front matter).
+ */
+
+import { readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+import {
+	exportNVCKnowledge,
+	importNVCKnowledge,
+	type ImportFile,
+	type NVCExportFormat,
+	type NVCImportFormat
+} from '../src/lib/nvc-knowledge-io.js';
+
+function getOption(args: string[], name: string): string | undefined {
+	const index = args.indexOf(`--${name}`);
+	return index >= 0 ? args[index + 1] : undefined;
+}
+
+function readImportInput(path: string, format?: string): { format: NVCImportFormat; input: string | ImportFile[] } {
+	if (statSync(path).isDirectory()) {
+		const files = readdirSync(path)
+			.filter(name => name.endsWith('.md'))
+			.sort()
+			.map(name => ({ name, content: readFileSync(join(path, name), 'utf-8') }));
+		return { format: 'markdown', input: files };
+	}
+
+	const content = readFileSync(path, 'utf-8');
+	const resolved = format || extname(path).slice(1);
+	if (resolved === 'md' || resolved === 'markdown') {
+		return { format: 'markdown', input: [{ name: basename(path), content }] };
+	}
+	if (resolved !== 'jsonl' && resolved !== 'csv') {
+		throw new Error(`Cannot guess import format of ${path}, pass --format jsonl|csv|markdown`);
+	}
+	return { format: resolved, input: content };
+}
+
+async function nvcKnowledgeIO(args: string[] = process.argv.slice(2)) {
+	const [command, target] = args;
+
+	if (command === 'export') {
+		const format = (getOption(args, 'format') || 'jsonl') as NVCExportFormat;
+		if (format !== 'jsonl' && format !== 'csv') {
+			throw new Error('Export format must be jsonl or csv');
+		}
+		const language = getOption(args, 'language') as 'de' | 'en' | undefined;
+		const output = await exportNVCKnowledge(format, {
+			language,
+			includeInactive: args.includes('--include-inactive')
+		});
+
+		const out = getOption(args, 'out');
+		if (out) {
+			writeFileSync(out, output);
+			console.log(`📦 Exported NVC knowledge to ${out}`);
+		} else {
+			process.stdout.write(output);
+		}
+		return;
+	}
+
+	if (command === 'import') {
+		if (!target || target.startsWith('--')) {
+			throw new Error('Usage: import <file|folder> [--format jsonl|csv|markdown] [--apply]');
+		}
+		const { format, input } = readImportInput(target, getOption(args, 'format'));
+		const report = await importNVCKnowledge(format, input, { dryRun: !args.includes('--apply') });
+
+		console.log(`\n📚 ${report.dryRun ? 'Dry run' : 'Import'}: ${report.summary.new} new, ${report.summary.changed} changed, ${report.summary.unchanged} unchanged, ${report.summary.invalid} invalid`);
+		console.log(`   Embeddings to compute: ${report.summary.embeddings}`);
+		for (const item of report.items) {
+			if (item.action === 'unchanged') continue;
+			const fields = item.action === 'changed' ? ` (${item.changedFields.join(', ')})` : '';
+			console.log(`   ${item.action === 'new' ? '+' : '~'} [${item.language}] ${item.title}${fields}  ← ${item.source}`);
+		}
+		for (const error of report.errors) {
+			console.log(`   ❌ ${error.source}: ${error.error}`);
+		}
+		if (report.dryRun) {
+			console.log('\nNothing was written, re-run with --apply to import');
+		}
+		return;
+	}
+
+	throw new Error('Usage: nvc-knowledge-io.ts export|import ...');
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+	nvcKnowledgeIO()
+		.then(() => process.exit(0))
+		.catch(error => {
+			console.error('❌', error?.message || error);
+			process.exit(1);
+		});
+}
+
+export { nvcKnowledgeIO };
@@ -0,0 +1,30 @@
+/**
+ * Rebuild spaced repetition schedules from completed learn sessions
+ * Run with: npx tsx scripts/rebuild-learn-reviews.ts [--user <userId>] [--notify]
+ *
+ * Replays every completed session in completion order, so it doubles as the backfill after
+ * adding learn_reviews. Overdue reviews are marked as notified unless --notify is passed.
+ */
+
+import { rebuildLearnReviews } from '../src/lib/learn-reviews.js';
+
+async function rebuildReviews(args: string[] = process.argv.slice(2)) {
+	const userIndex = args.indexOf('--user');
+	const userId = userIndex >= 0 ? args[userIndex + 1] : undefined;
+
+	const result = await rebuildLearnReviews({ userId, notifyOverdue: args.includes('--notify') });
+	console.log(`\n📚 Replayed ${result.sessions} completed sessions into ${result.scheduled} review updates${userId ? ` for user ${userId}` : ''}`);
+	return result;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+	rebuildReviews()
+		.then(() => process.exit(0))
+		.catch(error => {
+			console.error('❌', error?.message || error);
+			process.exit(1);
+		});
+}
+
+export { rebuildReviews };
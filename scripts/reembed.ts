@@ -0,0 +1,110 @@
+/**
+ * Re-embed memories and NVC knowledge with another embedding provider/model
+ * Run with: npx tsx scripts/reembed.ts [--provider local] [--model <name>] [--dimensions 768] [--tables memories,nvc_knowledge] [--batch-size 50]
+ *
+ * Resumes the active job if there is one (start options are then ignored). A finished job waits
+ * in "ready" until it is swapped in with --swap.
+ * Other commands:
+ *   npx tsx scripts/reembed.ts --status          Show the active job and its failed rows
+ *   npx tsx scripts/reembed.ts --retry-failed    Re-embed failed rows of the active job
+ *   npx tsx scripts/reembed.ts --swap [--force]  Swap in the shadow column and activate the target provider
+ *   npx tsx scripts/reembed.ts --cancel          Drop the active job and its shadow column
+ */
+
+import {
+	cancelEmbeddingReindex,
+	getActiveReindexJob,
+	getReindexJob,
+	retryReindexFailures,
+	runEmbeddingReindex,
+	startEmbeddingReindex,
+	swapReindexedEmbeddings
+} from '../src/lib/embedding-reindex.js';
+
+function getOption(args: string[], name: string): string | undefined {
+	const index = args.indexOf(`--${name}`);
+	return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function printReport(jobId: string) {
+	const { job, failures } = await getReindexJob(jobId);
+
+	console.log(`\n🧬 Job ${job.id}: ${job.status}`);
+	console.log(`   Target: ${job.provider}/${job.model} (${job.dimensions} dimensions)`);
+	console.log(`   Tables: ${job.tables.join(', ')}`);
+	console.log(`   Progress: ${job.processedRows}/${job.totalRows} (${Math.round(job.progress * 100)}%)`);
+	if (job.lastError) {
+		console.log(`   Last error: ${job.lastError}`);
+	}
+	if (job.status === 'ready') {
+		console.log('   Ready: run with --swap to switch every instance to the target provider');
+	}
+	if (failures.length > 0) {
+		console.log(`   ❌ Failed rows (${job.failedRows}):`);
+		for (const failure of failures) {
+			console.log(`      ${failure.tableName} ${failure.rowId}: ${failure.error}`);
+		}
+	}
+}
+
+async function reembed(args: string[] = process.argv.slice(2)) {
+	const active = await getActiveReindexJob();
+
+	if (args.includes('--status')) {
+		if (!active) {
+			console.log('No active re-embedding job');
+			return;
+		}
+		await printReport(active.id);
+		return;
+	}
+
+	if (args.includes('--retry-failed') || args.includes('--swap') || args.includes('--cancel')) {
+		if (!active) {
+			throw new Error('No active re-embedding job');
+		}
+		if (args.includes('--cancel')) {
+			await cancelEmbeddingReindex(active.id);
+		} else if (args.includes('--swap')) {
+			await swapReindexedEmbeddings(active.id, { force: args.includes('--force') });
+		} else {
+			await retryReindexFailures(active.id);
+			await runEmbeddingReindex(active.id);
+		}
+		await printReport(active.id);
+		return;
+	}
+
+	let jobId: string;
+	if (active) {
+		console.log(`▶️  Resuming re-embedding job ${active.id}`);
+		jobId = active.id;
+	} else {
+		const tables = getOption(args, 'tables');
+		const batchSize = getOption(args, 'batch-size');
+		const dimensions = getOption(args, 'dimensions');
+		const job = await startEmbeddingReindex({
+			provider: getOption(args, 'provider'),
+			model: getOption(args, 'model'),
+			dimensions: dimensions ? parseInt(dimensions) : undefined,
+			tables: tables ? tables.split(',').map(table => table.trim()) : undefined,
+			batchSize: batchSize ? parseInt(batchSize) : undefined
+		});
+		jobId = job.id;
+	}
+
+	await runEmbeddingReindex(jobId);
+	await printReport(jobId);
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+	reembed()
+		.then(() => process.exit(0))
+		.catch(error => {
+			console.error('❌', error?.message || error);
+			process.exit(1);
+		});
+}
+
+export { reembed };
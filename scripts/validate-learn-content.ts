@@ -0,0 +1,41 @@
+/**
+ * List learn topic versions whose content fails the ContentBlock schema
+ * Run with: npx tsx scripts/validate-learn-content.ts [--json]
+ *
+ * Run after migrating content (e.g. scripts/migrate-pocketbase-topics.ts): invalid
+ * versions can still be edited in the dashboard but can't be published until fixed.
+ * Exits with code 1 if any published version is invalid.
+ */
+
+import { getLearnContentReport } from '../src/lib/learn.js';
+
+async function validateLearnContent(args: string[] = process.argv.slice(2)) {
+	const report = await getLearnContentReport();
+
+	if (args.includes('--json')) {
+		console.log(JSON.stringify(report, null, 2));
+	} else {
+		console.log(`\n🧩 Checked ${report.checked} topic versions, ${report.invalid.length} invalid`);
+		for (const version of report.invalid) {
+			const flags = [version.isPublished && 'published', version.isCurrent && 'current'].filter(Boolean).join(', ');
+			console.log(`\n❌ ${version.topicSlug} / ${version.versionLabel || version.titleDE} (${version.versionId})${flags ? ` [${flags}]` : ''}`);
+			for (const issue of version.issues) {
+				console.log(`   ${issue.path}${issue.blockType ? ` (${issue.blockType})` : ''}: ${issue.message}`);
+			}
+		}
+	}
+
+	return report.invalid.some(version => version.isPublished);
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+	validateLearnContent()
+		.then(hasInvalidPublished => process.exit(hasInvalidPublished ? 1 : 0))
+		.catch(error => {
+			console.error('❌', error?.message || error);
+			process.exit(1);
+		});
+}
+
+export { validateLearnContent };
@@ -7,15 +7,20 @@ import { cors } from "hono/cors";
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 import { auth } from './lib/auth.js';
+import { registerDefaultJobs } from './lib/jobs.js';
+import { startScheduler } from './lib/scheduler.js';
 import ai from './routes/ai.js';
 import analyses from './routes/analyses.js';
 import bullshift from './routes/bullshift.js';
 import data from './routes/data.js';
 import garden from './routes/garden.js';
+import jobs from './routes/jobs.js';
 import learn from './routes/learn.js';
 import memories from './routes/memories.js';
 import messages from './routes/messages.js';
+import nvcEval from './routes/nvc-eval.js';
 import nvcKnowledge from './routes/nvc-knowledge.js';
+import people from './routes/people.js';
 import reminders from './routes/reminders.js';
 import stats from './routes/stats.js';
 import streaks from './routes/streaks.js';
@@ -236,9 +241,12 @@ app.route('/api/data', data);
 app.route('/api/streaks', streaks);
 app.route('/api/analyses', analyses);
 app.route('/api/memories', memories);
+app.route('/api/nvc-knowledge/eval', nvcEval);
 app.route('/api/nvc-knowledge', nvcKnowledge);
+app.route('/api/people', people);
 app.route('/api/learn', learn);
 app.route('/api/user', user);
+app.route('/api/jobs', jobs);
 
 // Serve static files from dashboard directory (after API routes)
 // Use process.cwd() to get the project root, which works regardless of where the code is compiled
@@ -284,3 +292,7 @@ serve({
 }, (info) => {
   console.log(`Server is running on http://localhost:${info.port} and http://0.0.0.0:${info.port}`)
 })
+
+// Background jobs (scheduled messages, memory cleanup, blind spot refresh)
+registerDefaultJobs();
+startScheduler();
@@ -3,7 +3,7 @@
  * Adapted from empathy-link to use PostgreSQL instead of PocketBase
  */
 
-import { GoogleGenAI, Type } from '@google/genai';
+import { Type } from '@google/genai';
 import { and, desc, eq, gte, sql } from 'drizzle-orm';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import {
@@ -13,26 +13,16 @@ import {
 	needs as needsTable,
 	user as userTable
 } from '../../drizzle/schema.js';
+import { completeJson, parseJsonResponse } from './chat-models.js';
+import { embedText } from './embeddings.js';
 import { decryptChatHistory, type HistoryEntry } from './encryption.js';
-import { getExpiryDate, classifyMemoryType } from './memory.js';
-import { searchNVCKnowledge, type NVCKnowledgeEntry } from './nvc-knowledge.js';
+import { getExpiryDate, classifyMemoryType, findCorrectedMemoryMatch, getAllowedMemoryTypes, getMemoryCorrections, MEMORY_CONFIG } from './memory.js';
+import { searchNVCKnowledge, type NVCSearchResult, type SearchOptions } from './nvc-knowledge.js';
+import { linkAnalysisToChatPeople, linkMemoryToPerson } from './people.js';
+import { awardChatCompletion } from './seeds.js';
 
 const db = drizzle(process.env.DATABASE_URL!);
 
-// Initialize Gemini AI client
-let aiClient: GoogleGenAI | null = null;
-
-function getAiClient(): GoogleGenAI {
-	if (!aiClient) {
-		const apiKey = process.env.GEMINI_API_KEY;
-		if (!apiKey) {
-			throw new Error('GEMINI_API_KEY environment variable is required');
-		}
-		aiClient = new GoogleGenAI({ apiKey });
-	}
-	return aiClient;
-}
-
 // Type definitions for analysis response
 export interface AnalysisResponse {
 	emotionalShift: string;
@@ -110,8 +100,6 @@ export async function extractNVCFromMessage(
 	console.log('🔍 Extracting NVC components from message:', message.substring(0, 50) + '...');
 
 	try {
-		const ai = getAiClient();
-
 		// Fetch feelings and needs lists from database for validation
 		const feelingsRecords = await db.select().from(feelingsTable);
 		const needsRecords = await db.select().from(needsTable);
@@ -188,28 +176,21 @@ export async function extractNVCFromMessage(
 
 Analysiere diese Nachricht und extrahiere nur die NVC-Komponenten, die der Nutzer EXPLIZIT genannt hat.`;
 
-		// Use low-cost gemini-2.5-flash model
-		const chat_session = ai.chats.create({
-			model: 'gemini-2.5-flash-lite',
-			config: {
-				temperature: 0.2, // Lower temperature for more consistent extraction
-				maxOutputTokens: 1024,
-				responseMimeType: 'application/json',
-				responseSchema,
-				systemInstruction
-			}
-		});
-
-		const result = await chat_session.sendMessage({
-			message: `Analysiere diese Nachricht und extrahiere NVC-Komponenten:\n\n"${message}"`
+		// Use low-cost model
+		const responseText = await completeJson({
+			role: 'orchestration',
+			geminiModel: 'gemini-2.5-flash-lite',
+			message: `Analysiere diese Nachricht und extrahiere NVC-Komponenten:\n\n"${message}"`,
+			systemInstruction,
+			temperature: 0.2, // Lower temperature for more consistent extraction
+			maxOutputTokens: 1024,
+			schema: responseSchema
 		});
 
 		// Parse response
 		let extraction: NVCMessageExtraction;
 		try {
-			const responseText = result.text || '{}';
-			const cleanedText = responseText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-			const parsed = JSON.parse(cleanedText);
+			const parsed = parseJsonResponse<any>(responseText);
 
 			// Validate feelings against database
 			const validFeelings: string[] = [];
@@ -288,8 +269,6 @@ export async function analyzeChat(
 	console.log('🔍 Starting chat analysis for chat:', chatId, 'user:', userId);
 
 	try {
-		const ai = getAiClient();
-
 		// 1. Fetch the chat history from database
 		const chatRecords = await db
 			.select()
@@ -424,28 +403,20 @@ Analysiere in deutscher Sprache und gib die Werte als JSON zurück.`;
 		// 7. Send to Gemini with structured output
 		console.log('📤 Sending analysis request to Gemini...');
 
-		const chat_session = ai.chats.create({
-			model: 'gemini-2.5-flash',
-			config: {
-				temperature: 0.3,
-				maxOutputTokens: 8192,
-				responseMimeType: 'application/json',
-				responseSchema,
-				systemInstruction
-			}
-		});
-
-		const result = await chat_session.sendMessage({
-			message: `Bitte analysiere dieses Gespräch:\n\n${filteredHistory}`
+		const responseText = await completeJson({
+			role: 'analysis',
+			geminiModel: 'gemini-2.5-flash',
+			message: `Bitte analysiere dieses Gespräch:\n\n${filteredHistory}`,
+			systemInstruction,
+			temperature: 0.3,
+			maxOutputTokens: 8192,
+			schema: responseSchema
 		});
 
 		// 8. Parse response
 		let analysisData: AnalysisResponse;
 		try {
-			const responseText = result.text || '{}';
-			// Clean markdown formatting if present
-			const cleanedText = responseText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-			analysisData = JSON.parse(cleanedText);
+			analysisData = parseJsonResponse<AnalysisResponse>(responseText);
 		} catch (parseError) {
 			console.error('Failed to parse analysis response:', parseError);
 			throw new Error('Failed to parse AI analysis response');
@@ -513,6 +484,12 @@ Analysiere in deutscher Sprache und gib die Werte als JSON zurück.`;
 
 		console.log('💾 Analysis saved with ID:', analysisRecord[0].id);
 
+		// Attach the analysis to the people this chat is about (for their timelines)
+		await linkAnalysisToChatPeople(userId, chatId, analysisRecord[0].id);
+
+		// Reward the completed chat with garden seeds (once per chat, even if re-analyzed)
+		await awardChatCompletion(userId, chatId);
+
 		// 11. Generate and store inspirational quote - SIMPLE VERSION
 		console.log('🎯 Starting quote generation for user:', userId);
 		console.log('📊 Analysis data:', {
@@ -522,8 +499,6 @@ Analysiere in deutscher Sprache und gib die Werte als JSON zurück.`;
 		});
 
 		try {
-			const ai = getAiClient();
-
 			// Use AI to select the most appropriate quote from the backlog
 			const systemInstruction = `Du bist ein Experte für Gewaltfreie Kommunikation und hilfst dabei, das passendste inspirierende Zitat aus einer Liste auszuwählen.
 
@@ -553,45 +528,31 @@ Wähle die Nummer des Zitats, das am besten zu dieser Person und ihrer Situation
 
 			console.log('📤 Sending quote selection request to Gemini');
 
-			const chat = ai.chats.create({
-				model: 'gemini-2.5-flash',
-				config: {
-					temperature: 0.7, // Higher temperature for more variety in selection
-					maxOutputTokens: 500, // Increased to ensure complete JSON response
-					systemInstruction,
-					responseMimeType: 'application/json',
-					responseSchema: {
-						type: 'object',
-						properties: {
-							quoteIndex: {
-								type: 'number',
-								description: 'The index (0-based) of the selected quote. Must be between 0 and ' + (QUOTE_BACKLOG.length - 1) + '. Choose a variety of quotes, not always the same one.'
-							}
-						},
-						required: ['quoteIndex']
-					}
+			const rawResponse = await completeJson({
+				role: 'analysis',
+				geminiModel: 'gemini-2.5-flash',
+				message: quotePrompt,
+				systemInstruction,
+				temperature: 0.7, // Higher temperature for more variety in selection
+				maxOutputTokens: 500, // Increased to ensure complete JSON response
+				schema: {
+					type: 'object',
+					properties: {
+						quoteIndex: {
+							type: 'number',
+							description: 'The index (0-based) of the selected quote. Must be between 0 and ' + (QUOTE_BACKLOG.length - 1) + '. Choose a variety of quotes, not always the same one.'
+						}
+					},
+					required: ['quoteIndex']
 				}
 			});
 
-			const result = await chat.sendMessage({ message: quotePrompt });
-
-			console.log('📥 Full AI response object:', JSON.stringify(result, null, 2));
-			console.log('📥 Raw AI response text:', result.text);
-			console.log('📥 Response type:', typeof result.text);
-			console.log('📥 Response candidates:', result.candidates);
+			console.log('📥 Raw AI response text:', rawResponse);
 
 			// Parse the JSON response to get quote index
 			let quoteIndex = -1;
 			try {
-				// Try to get text from result.text first, then from candidates
-				let responseText = result.text?.trim();
-				if (!responseText && result.candidates && result.candidates.length > 0) {
-					const candidate = result.candidates[0];
-					if (candidate.content?.parts && candidate.content.parts.length > 0) {
-						responseText = candidate.content.parts[0].text?.trim();
-					}
-				}
-				
+				const responseText = rawResponse.trim();
 				if (!responseText) {
 					throw new Error('Empty response');
 				}
@@ -642,7 +603,7 @@ Wähle die Nummer des Zitats, das am besten zu dieser Person und ihrer Situation
 				}
 			} catch (e) {
 				console.error('❌ Failed to parse quote index, using random:', e);
-				console.error('❌ Raw response was:', result.text);
+				console.error('❌ Raw response was:', rawResponse);
 				quoteIndex = Math.floor(Math.random() * QUOTE_BACKLOG.length);
 			}
 
@@ -795,8 +756,6 @@ async function generateAndStoreInspirationalQuote(
 	console.log('✨ Selecting inspirational quote for user:', userId);
 
 	try {
-		const ai = getAiClient();
-
 		// Use current analysis if provided, otherwise fetch from database
 		let allFeelings: string[] = [];
 		let allNeeds: string[] = [];
@@ -944,35 +903,31 @@ ${quotesList}
 
 Wähle die Nummer des Zitats, das am besten zu dieser Person und ihrer Situation passt.`;
 
-		const chat = ai.chats.create({
-			model: 'gemini-2.5-flash',
-			config: {
-				temperature: 0.7, // Higher temperature for more variety in selection
-				maxOutputTokens: 50, // Increased to ensure complete JSON response
-				systemInstruction,
-				responseMimeType: 'application/json',
-				responseSchema: {
-					type: 'object',
-					properties: {
-						quoteIndex: {
-							type: 'number',
-							description: 'The index (0-based) of the selected quote. Must be between 0 and ' + (QUOTE_BACKLOG.length - 1) + '. Choose a variety of quotes, not always the same one.'
-						}
-					},
-					required: ['quoteIndex']
-				}
+		const rawResponse = await completeJson({
+			role: 'analysis',
+			geminiModel: 'gemini-2.5-flash',
+			message: contextPrompt,
+			systemInstruction,
+			temperature: 0.7, // Higher temperature for more variety in selection
+			maxOutputTokens: 50, // Increased to ensure complete JSON response
+			schema: {
+				type: 'object',
+				properties: {
+					quoteIndex: {
+						type: 'number',
+						description: 'The index (0-based) of the selected quote. Must be between 0 and ' + (QUOTE_BACKLOG.length - 1) + '. Choose a variety of quotes, not always the same one.'
+					}
+				},
+				required: ['quoteIndex']
 			}
 		});
 
-		const result = await chat.sendMessage({ message: contextPrompt });
-		
-		console.log('📥 Raw AI response:', result.text);
-		console.log('📥 Response type:', typeof result.text);
+		console.log('📥 Raw AI response:', rawResponse);
 
 		// Parse the JSON response to get quote index
 		let quoteIndex = -1;
 		try {
-			const responseText = result.text?.trim();
+			const responseText = rawResponse.trim();
 			if (!responseText) {
 				throw new Error('Empty response');
 			}
@@ -991,7 +946,7 @@ Wähle die Nummer des Zitats, das am besten zu dieser Person und ihrer Situation
 			}
 		} catch (e) {
 			console.error('❌ Failed to parse quote index, using random:', e);
-			console.error('❌ Raw response was:', result.text);
+			console.error('❌ Raw response was:', rawResponse);
 			quoteIndex = Math.floor(Math.random() * QUOTE_BACKLOG.length);
 		}
 
@@ -1097,9 +1052,14 @@ export async function extractMemories(
 	console.log(`🧠 Extracting memories for user: ${userId}${specificChatId ? ` from chat: ${specificChatId}` : ''}`);
 
 	try {
-		const ai = getAiClient();
+		// 0. Respect the user's memory consent: nothing to do if no memory type may be stored
+		const allowedMemoryTypes = await getAllowedMemoryTypes(userId);
+		if (allowedMemoryTypes.length === 0) {
+			console.log('ℹ️ User has disabled all memory types, skipping memory extraction');
+			return true;
+		}
 
-		// 1. Fetch chats for user
+		// 1. Fetch chats for user (off-the-record chats are never used)
 		let chatsToProcess;
 
 		if (specificChatId) {
@@ -1107,13 +1067,13 @@ export async function extractMemories(
 			chatsToProcess = await db
 				.select()
 				.from(chatsTable)
-				.where(and(eq(chatsTable.userId, userId), eq(chatsTable.id, specificChatId)));
+				.where(and(eq(chatsTable.userId, userId), eq(chatsTable.id, specificChatId), eq(chatsTable.offTheRecord, false)));
 		} else {
 			// Otherwise, fetch all unprocessed chats
 			chatsToProcess = await db
 				.select()
 				.from(chatsTable)
-				.where(and(eq(chatsTable.userId, userId), eq(chatsTable.memoryProcessed, false)));
+				.where(and(eq(chatsTable.userId, userId), eq(chatsTable.memoryProcessed, false), eq(chatsTable.offTheRecord, false)));
 		}
 
 		console.log('userChats found:', chatsToProcess.length);
@@ -1132,7 +1092,8 @@ export async function extractMemories(
 				if (!chat.history) return '';
 
 				const encryptedHistory = JSON.parse(chat.history) as HistoryEntry[];
-				const decryptedHistory = decryptChatHistory(encryptedHistory);
+				// Entries the user marked "don't remember this" never reach the model
+				const decryptedHistory = decryptChatHistory(encryptedHistory.filter(entry => !entry.excludeFromMemory));
 				chatIds.push(chat.id);
 
 				// JSON.stringify the decrypted history like empathy-link does
@@ -1239,19 +1200,24 @@ For each memory:
 
 	Extract only meaningful, actionable memories. Return as JSON array.`;
 
-		// 5. Send to Gemini for memory extraction
-		console.log('📤 Sending memory extraction request to Gemini...');
-
-		const chat_session = ai.chats.create({
-			model: 'gemini-2.5-flash-lite',
-			config: {
-				temperature: 0.3,
-				maxOutputTokens: 8192,
-				responseMimeType: 'application/json',
-				responseSchema: memorySchema,
-				systemInstruction
-			}
-		});
+		// 4b. Tell the model which inferences the user has corrected so they aren't re-extracted
+		const corrections = await getMemoryCorrections(userId);
+		let extractionInstruction = systemInstruction;
+		if (corrections.length > 0) {
+			const describe = (memory: { key: string | null; value: string; type: string }) =>
+				`${memory.type}${memory.key ? `/${memory.key}` : ''}: "${memory.value}"`;
+			const correctionLines = corrections
+				.map(correction => isGerman
+					? `- Falsch: ${describe(correction.original)} → Richtig: ${describe(correction.corrected)}`
+					: `- Wrong: ${describe(correction.original)} → Correct: ${describe(correction.corrected)}`)
+				.join('\n');
+			extractionInstruction += isGerman
+				? `\n\nDie Nutzerin/der Nutzer hat folgende Erinnerungen korrigiert. Extrahiere die falschen Fassungen NICHT erneut und extrahiere diese Fakten auch nicht noch einmal:\n${correctionLines}`
+				: `\n\nThe user has corrected the following memories. Do NOT extract the wrong versions again and do not re-extract these facts:\n${correctionLines}`;
+		}
+
+		// 5. Send to the model for memory extraction
+		console.log('📤 Sending memory extraction request...');
 
 		const message = `
 The chat history is:
@@ -1261,14 +1227,20 @@ ${concatenatedHistory}
 		console.log('📋 FULL CHAT HISTORY BEING ANALYZED:');
 		console.log(concatenatedHistory);
 
-		const result = await chat_session.sendMessage({ message });
+		const responseText = await completeJson({
+			role: 'analysis',
+			geminiModel: 'gemini-2.5-flash-lite',
+			message,
+			systemInstruction: extractionInstruction,
+			temperature: 0.3,
+			maxOutputTokens: 8192,
+			schema: memorySchema
+		});
 
 		// 6. Parse response
 		let extractedMemories: MemoryExtraction[];
 		try {
-			const responseText = result.text || '[]';
-			const cleanedText = responseText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-			extractedMemories = JSON.parse(cleanedText);
+			extractedMemories = parseJsonResponse<MemoryExtraction[]>(responseText || '[]');
 		} catch (parseError) {
 			console.error('Failed to parse memory extraction response:', parseError);
 			throw new Error('Failed to parse AI memory extraction response');
@@ -1287,35 +1259,16 @@ ${concatenatedHistory}
 		let failedCount = 0;
 		for (const memory of extractedMemories) {
 			try {
-				// Generate embedding using Gemini's correct API
-				const embeddingText = `${memory.key}: ${memory.value}`;
-				const response = await ai.models.embedContent({
-					model: 'gemini-embedding-001',
-					contents: embeddingText,
-					config: {
-						outputDimensionality: 768
-					}
-				});
-
-				// Check both singular and plural forms (SDK might use either)
-				let embeddingValues: number[] | undefined;
-				if (response.embedding?.values) {
-					embeddingValues = response.embedding.values;
-				} else if (response.embeddings && Array.isArray(response.embeddings) && response.embeddings.length > 0) {
-					// Handle plural form - take first embedding's values
-					embeddingValues = response.embeddings[0].values;
-				} else if ((response as any).embedding?.values) {
-					// Try nested structure
-					embeddingValues = (response as any).embedding.values;
-				}
+				const embedding = await embedText(`${memory.key}: ${memory.value}`);
+				const embeddingValues = embedding.values;
 
-				if (!embeddingValues || !Array.isArray(embeddingValues)) {
-					console.error('Failed to get embedding values for memory:', memory.key);
-					console.error('Response structure:', JSON.stringify(response, null, 2));
+				// The user's corrected version of a fact wins over a re-extraction from old chats
+				const correctedMatch = await findCorrectedMemoryMatch(embeddingValues, userId);
+				if (correctedMatch) {
+					console.log(`⏭️ Skipping memory "${memory.key}" - user corrected a similar memory (${correctedMatch.id})`);
 					continue;
 				}
-				
-				const priority = memory.confidence === 'certain' ? 3 : memory.confidence === 'likely' ? 2 : 1;
+
 				const chatIdToUse = specificChatId || chatIds[0] || null;
 				// Convert empty string to null for cleaner database storage
 				const personName = memory.personName && memory.personName.trim() !== '' ? memory.personName.trim() : null;
@@ -1324,7 +1277,14 @@ ${concatenatedHistory}
 				// aspectType: 'identity' | 'emotion' | 'relationship' | 'value'
 				// MemoryType: 'core_identity' | 'patterns' | 'preferences' | 'episodic' | 'contextual'
 				const memoryType = classifyMemoryType(memory.value); // Use the value text to classify
+				if (!allowedMemoryTypes.includes(memoryType)) {
+					console.log(`⏭️ Skipping memory "${memory.key}" - ${memoryType} memories are disabled by the user`);
+					continue;
+				}
 				
+				// Same 0-1 scale as createMemory; confidence is stored separately
+				const priority = MEMORY_CONFIG[memoryType].priority;
+
 				// Calculate expiry date based on memory type
 				const expiryDate = getExpiryDate(memoryType);
 				const expiresAt = expiryDate ? expiryDate.toISOString() : null;
@@ -1332,16 +1292,29 @@ ${concatenatedHistory}
 				console.log(`Saving memory with personName: "${personName}" (aspectType: ${memory.aspectType} -> memoryType: ${memoryType}), embedding dimensions: ${embeddingValues.length}, expires_at: ${expiresAt}`);
 
 				// Use raw SQL to insert with proper vector conversion (like empathy-link does)
-				await db.execute(sql`
+				const insertResult = await db.execute(sql`
 					INSERT INTO memories (
 						user_id, confidence, type, priority, key, value, person_name, embedding,
+						embedding_provider, embedding_model,
 						chat_id, relevance_score, access_count, expires_at
 					) VALUES (
 						${userId}, ${memory.confidence}, ${memoryType}, ${priority}, ${memory.key},
-						${memory.value}, ${personName}, ${JSON.stringify(embeddingValues)}::vector, ${chatIdToUse},
+						${memory.value}, ${personName}, ${JSON.stringify(embeddingValues)}::vector,
+						${embedding.provider}, ${embedding.model}, ${chatIdToUse},
 						1.0, 0, ${expiresAt}
 					)
+					RETURNING id
 				`);
+				const [insertedMemory] = (Array.isArray(insertResult) ? insertResult : (insertResult.rows || [])) as Array<{ id: string }>;
+
+				// Link the memory and its chat to the person it is about
+				if (personName && insertedMemory) {
+					try {
+						await linkMemoryToPerson(userId, personName, insertedMemory.id, chatIdToUse || null);
+					} catch (linkError) {
+						console.error(`⚠️ Failed to link memory to person "${personName}":`, linkError);
+					}
+				}
 
 				console.log(`✅ Created memory: [${memory.aspectType}] ${memory.value}${personName ? ` (person: ${personName})` : ''}`);
 				savedCount++;
@@ -1381,9 +1354,12 @@ ${concatenatedHistory}
 	}
 }
 
+// Curated priority nudges retrieval for chat context without overriding relevance
+export const NVC_RETRIEVAL_PRIORITY_WEIGHT = 0.1;
+
 // Type definitions for NVC knowledge retrieval
 export interface NVCKnowledgeRetrievalResult {
-	knowledgeEntries: Array<NVCKnowledgeEntry & { similarity: number }>;
+	knowledgeEntries: NVCSearchResult[];
 	searchQuery: string;
 	extractedConcepts: string[];
 }
@@ -1400,12 +1376,13 @@ export async function retrieveNVCKnowledge(
 		minSimilarity?: number;
 		category?: string;
 		tags?: string[];
+		mode?: SearchOptions['mode'];
+		priorityWeight?: number; // defaults to NVC_RETRIEVAL_PRIORITY_WEIGHT
 	} = {}
 ): Promise<NVCKnowledgeRetrievalResult> {
 	console.log('📚 Retrieving NVC knowledge for message:', message.substring(0, 100) + '...');
 
 	try {
-		const ai = getAiClient();
 		const isGerman = (locale || '').toLowerCase().startsWith('de');
 		const language = isGerman ? 'de' : 'en';
 
@@ -1452,21 +1429,16 @@ Respond with a JSON object in the format:
 			required: ['searchQuery', 'extractedConcepts']
 		};
 
-		const chat_session = ai.chats.create({
-			model: 'gemini-2.5-flash-lite',
-			config: {
-				temperature: 0.3,
-				maxOutputTokens: 512,
-				responseMimeType: 'application/json',
-				responseSchema: conceptExtractionSchema,
-				systemInstruction
-			}
-		});
-
-		const conceptResult = await chat_session.sendMessage({
+		const conceptResponse = await completeJson({
+			role: 'orchestration',
+			geminiModel: 'gemini-2.5-flash-lite',
 			message: isGerman
 				? `Analysiere diese Nachricht und extrahiere GFK-relevante Konzepte:\n\n"${message}"`
-				: `Analyze this message and extract NVC-relevant concepts:\n\n"${message}"`
+				: `Analyze this message and extract NVC-relevant concepts:\n\n"${message}"`,
+			systemInstruction,
+			temperature: 0.3,
+			maxOutputTokens: 512,
+			schema: conceptExtractionSchema
 		});
 
 		// Parse concept extraction result
@@ -1474,9 +1446,7 @@ Respond with a JSON object in the format:
 		let extractedConcepts: string[] = [];
 
 		try {
-			const responseText = conceptResult.text || '{}';
-			const cleanedText = responseText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-			const parsed = JSON.parse(cleanedText);
+			const parsed = parseJsonResponse<any>(conceptResponse);
 			searchQuery = parsed.searchQuery || message;
 			extractedConcepts = Array.isArray(parsed.extractedConcepts) ? parsed.extractedConcepts : [];
 		} catch (parseError) {
@@ -1491,9 +1461,11 @@ Respond with a JSON object in the format:
 		const knowledgeEntries = await searchNVCKnowledge(searchQuery, {
 			language: language as 'de' | 'en',
 			limit: options.limit || 5,
-			minSimilarity: options.minSimilarity || 0.7,
+			minSimilarity: options.minSimilarity,
 			category: options.category,
-			tags: options.tags
+			tags: options.tags,
+			mode: options.mode,
+			priorityWeight: options.priorityWeight ?? NVC_RETRIEVAL_PRIORITY_WEIGHT
 		});
 
 		console.log(`✅ Found ${knowledgeEntries.length} relevant NVC knowledge entries`);
@@ -0,0 +1,246 @@
+/**
+ * Blind spot analysis: recurring patterns across a user's reflections and memories
+ */
+
+import { desc, eq, inArray, sql } from 'drizzle-orm';
+import { analyses, blindSpots, memories, user as userTable } from '../../drizzle/schema.js';
+import { db } from './db.js';
+import { complete, parseJsonResponse } from './chat-models.js';
+
+// Users can generate a new analysis once per week
+export const BLIND_SPOT_INTERVAL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BlindSpotUser {
+	id: string;
+	name: string;
+	firstName?: string | null;
+}
+
+/**
+ * Generate and store a new blind spot analysis for a user
+ * Up to four previous analyses are passed to the model so it doesn't repeat itself
+ */
+export async function generateBlindSpotAnalysis(user: BlindSpotUser, newestChatDate: Date) {
+	const existingBlindSpots = await db
+		.select()
+		.from(blindSpots)
+		.where(eq(blindSpots.userId, user.id))
+		.orderBy(desc(blindSpots.created))
+		.limit(4);
+
+	// Fetch data for analysis
+	const userAnalyses = await db
+		.select()
+		.from(analyses)
+		.where(eq(analyses.userId, user.id))
+		.orderBy(desc(analyses.created))
+		.limit(10);
+
+	const userMemories = await db
+		.select()
+		.from(memories)
+		.where(eq(memories.userId, user.id))
+		.orderBy(desc(memories.created))
+		.limit(20);
+
+	// Build context for AI analysis
+	const analysesContext = userAnalyses.map(a => {
+		let feelings: string[] = [];
+		let needs: string[] = [];
+
+		try {
+			if (a.feelings) feelings = JSON.parse(a.feelings);
+			if (a.needs) needs = JSON.parse(a.needs);
+		} catch (e) {
+			// Ignore parse errors
+		}
+
+		return {
+			title: a.title,
+			observation: a.observation,
+			feelings,
+			needs,
+			request: a.request,
+			created: a.created
+		};
+	});
+
+	const memoriesContext = userMemories.map(m => ({
+		type: m.type,
+		key: m.key,
+		value: m.value,
+		confidence: m.confidence
+	}));
+
+	// Get user's name for personalized addressing
+	const userName = user.name || 'du';
+	const userFirstName = user.firstName || userName.split(' ')[0] || 'du';
+
+	// Build context of previous analyses to avoid duplicates
+	const previousAnalyses = existingBlindSpots.map(bs => {
+		let prevPatterns: string[] = [];
+		let prevAdvice = '';
+
+		try {
+			if (bs.patterns) prevPatterns = JSON.parse(bs.patterns);
+			prevAdvice = bs.advice || '';
+		} catch (e) {
+			// Ignore parse errors
+		}
+
+		return {
+			patterns: prevPatterns,
+			advice: prevAdvice,
+			created: bs.created
+		};
+	});
+
+	// Generate AI analysis
+	const systemPrompt = `Du bist ein einfühlsamer Coach für Gewaltfreie Kommunikation und Selbstreflexion.
+
+Analysiere die Chats, Reflexionen und Erinnerungen von ${userFirstName}, um wiederkehrende Muster und Blind Spots zu erkennen.
+
+WICHTIG - Personalisierung:
+- Sprich ${userFirstName} DIREKT an (verwende "${userFirstName}" oder "du/dich/dir")
+- Sage NIEMALS "der Nutzer", "die Person" oder ähnliche unpersönliche Formulierungen
+- Beispiel RICHTIG: "${userFirstName}, du zeigst ein Muster von..." oder "Du neigst dazu..."
+- Beispiel FALSCH: "Der Nutzer zeigt ein Muster von..."
+
+WICHTIG - Vermeidung von Duplikaten:
+- Vermeide Ratschläge und Muster, die bereits in früheren Analysen gegeben wurden
+- Finde NEUE Perspektiven und Erkenntnisse
+- Baue auf früheren Analysen auf, wiederhole sie aber nicht
+
+WICHTIG - Inhalt:
+- Fokussiere auf konstruktive, unterstützende Beobachtungen
+- Identifiziere wiederkehrende emotionale Muster
+- Erkenne Situationen, in denen diese Muster auftreten
+- Gib konkrete, umsetzbare Ratschläge für mehr Selbstbewusstsein
+- Sei empathisch und wertschätzend, nie verurteilend
+- Verwende eine warme, persönliche Sprache (du-Form)
+
+WICHTIG - Länge und Stil:
+- Halte ALLES kurz und prägnant
+- Analysis: Maximal 2 kurze Sätze
+- Patterns: Jeweils maximal 8-10 Wörter pro Muster
+- Situations: Jeweils maximal 6-8 Wörter pro Situation
+- Advice: Maximal 1-2 kurze, klare Sätze
+
+WICHTIG - Formatierung:
+- Verwende NUR reinen Text, KEIN Markdown
+- KEINE Sternchen (*), KEINE Unterstriche (_), KEINE #-Zeichen
+- Nur einfacher, gut lesbarer Text
+
+Antworte ausschließlich mit einem JSON-Objekt in diesem Format:
+{
+  "analysis": "Eine SEHR kurze Zusammenfassung (maximal 2 Sätze), DIREKT an ${userFirstName} gerichtet",
+  "patterns": ["Kurzes Muster 1 (max 10 Wörter)", "Kurzes Muster 2", "Kurzes Muster 3"],
+  "situations": ["Kurze Situation 1 (max 8 Wörter)", "Kurze Situation 2"],
+  "advice": "Ein prägnanter Ratschlag (1-2 kurze Sätze) für ${userFirstName}"
+}`;
+
+	let contextMessage = `Analysiere folgende Daten von ${userFirstName}:
+
+REFLEXIONEN (letzte ${analysesContext.length} Analysen):
+${JSON.stringify(analysesContext, null, 2)}
+
+ERINNERUNGEN (letzte ${memoriesContext.length}):
+${JSON.stringify(memoriesContext, null, 2)}`;
+
+	if (previousAnalyses.length > 0) {
+		contextMessage += `
+
+FRÜHERE ANALYSEN (letzte ${previousAnalyses.length}, NICHT WIEDERHOLEN):
+${JSON.stringify(previousAnalyses, null, 2)}
+
+WICHTIG: Vermeide diese bereits gegebenen Muster und Ratschläge. Finde NEUE Erkenntnisse!`;
+	}
+
+	contextMessage += `
+
+Identifiziere wiederkehrende Muster, Blind Spots und gib hilfreiche Ratschläge für ${userFirstName}.
+Sprich ${userFirstName} DIREKT an - sage NIEMALS "der Nutzer" oder ähnliches!`;
+
+	const responseText = await complete({
+		role: 'analysis',
+		geminiModel: 'gemini-2.5-flash',
+		message: contextMessage,
+		systemInstruction: systemPrompt,
+		temperature: 0.7
+	});
+
+	const aiAnalysis = parseJsonResponse<any>(responseText);
+
+	// Store the new analysis in the database
+	const [newBlindSpot] = await db
+		.insert(blindSpots)
+		.values({
+			userId: user.id,
+			analysis: aiAnalysis.analysis,
+			patterns: JSON.stringify(aiAnalysis.patterns || []),
+			situations: JSON.stringify(aiAnalysis.situations || []),
+			advice: aiAnalysis.advice,
+			lastChatCreatedDate: newestChatDate.toISOString()
+		})
+		.returning();
+
+	return {
+		blindSpot: newBlindSpot,
+		patterns: (aiAnalysis.patterns || []) as string[],
+		situations: (aiAnalysis.situations || []) as string[]
+	};
+}
+
+/**
+ * Regenerate analyses that are at least a week old and have new chats since
+ * Users without any analysis yet are left alone; their first one is generated on demand
+ */
+export async function refreshStaleBlindSpots(limit: number = 10) {
+	const cutoff = new Date(Date.now() - BLIND_SPOT_INTERVAL_DAYS * DAY_MS).toISOString();
+
+	const result = await db.execute(sql`
+		WITH latest AS (
+			SELECT DISTINCT ON (user_id) user_id, created, last_chat_created_date
+			FROM blind_spots
+			ORDER BY user_id, created DESC
+		)
+		SELECT latest.user_id, MAX(chats.created) AS newest_chat
+		FROM latest
+		JOIN chats ON chats.user_id = latest.user_id
+		WHERE latest.created <= ${cutoff}
+		GROUP BY latest.user_id, latest.last_chat_created_date
+		HAVING MAX(chats.created) > latest.last_chat_created_date
+		LIMIT ${limit}
+	`);
+	const staleRows = (Array.isArray(result) ? result : (result.rows || [])) as Array<{ user_id: string; newest_chat: string }>;
+
+	if (staleRows.length === 0) {
+		return { refreshed: 0, failed: 0 };
+	}
+
+	const users = await db
+		.select({ id: userTable.id, name: userTable.name, firstName: userTable.firstName })
+		.from(userTable)
+		.where(inArray(userTable.id, staleRows.map(row => row.user_id)));
+
+	let refreshed = 0;
+	let failed = 0;
+
+	for (const row of staleRows) {
+		const user = users.find(u => u.id === row.user_id);
+		if (!user) continue;
+
+		try {
+			const { blindSpot } = await generateBlindSpotAnalysis(user, new Date(row.newest_chat));
+			console.log(`🔄 Refreshed blind spot analysis ${blindSpot.id} for user ${user.id}`);
+			refreshed++;
+		} catch (error) {
+			console.error(`❌ Failed to refresh blind spots for user ${user.id}:`, error);
+			failed++;
+		}
+	}
+
+	return { refreshed, failed };
+}
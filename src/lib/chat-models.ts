@@ -0,0 +1,361 @@
+/**
+ * Chat model providers
+ * Every LLM call goes through the provider selected with LLM_PROVIDER:
+ * - "gemini" (default): Google Gemini via @google/genai
+ * - "openai": any OpenAI-compatible /chat/completions server (OpenAI, llama.cpp, Ollama, vLLM)
+ * - "scripted": replays canned responses, for tests and offline development
+ *
+ * Call sites belong to a role (orchestration, response, analysis). The model for a role can be
+ * set with LLM_MODEL_<ROLE>; otherwise Gemini keeps each call site's own default model and other
+ * providers use LLM_MODEL.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import 'dotenv/config';
+
+export type ModelRole = 'orchestration' | 'response' | 'analysis';
+
+// Loosely typed on purpose: call sites pass Gemini-style schemas (Type.OBJECT or "object")
+export type ResponseSchema = Record<string, any>;
+
+export interface ChatTurn {
+	role: 'user' | 'model';
+	text: string;
+}
+
+export interface ChatModelRequest {
+	model: string;
+	message: string;
+	systemInstruction?: string;
+	history?: ChatTurn[];
+	temperature?: number;
+	topP?: number;
+	topK?: number;
+	maxOutputTokens?: number;
+}
+
+export interface StructuredChatModelRequest extends ChatModelRequest {
+	schema: ResponseSchema;
+}
+
+export interface ChatModelProvider {
+	name: string;
+	/** Model used for every role when neither LLM_MODEL_<ROLE> nor a Gemini call-site default applies */
+	defaultModel: string;
+	complete(request: ChatModelRequest): Promise<string>;
+	/** Raw JSON text matching the schema */
+	completeJson(request: StructuredChatModelRequest): Promise<string>;
+	stream(request: ChatModelRequest): AsyncGenerator<string>;
+}
+
+const ROLE_DEFAULT_MODELS: Record<ModelRole, string> = {
+	orchestration: 'gemini-2.5-flash',
+	response: 'gemini-2.5-flash',
+	analysis: 'gemini-2.5-flash'
+};
+
+// ---------------------------------------------------------------------------
+// Gemini
+// ---------------------------------------------------------------------------
+
+let geminiClient: GoogleGenAI | null = null;
+
+function getGeminiClient(): GoogleGenAI {
+	if (!geminiClient) {
+		const apiKey = process.env.GEMINI_API_KEY;
+		if (!apiKey) {
+			throw new Error('GEMINI_API_KEY environment variable is required');
+		}
+		geminiClient = new GoogleGenAI({ apiKey });
+	}
+	return geminiClient;
+}
+
+export function createGeminiChatProvider(): ChatModelProvider {
+	const createChat = (request: ChatModelRequest, json?: ResponseSchema) =>
+		getGeminiClient().chats.create({
+			model: request.model,
+			config: {
+				temperature: request.temperature,
+				topP: request.topP,
+				topK: request.topK,
+				maxOutputTokens: request.maxOutputTokens,
+				systemInstruction: request.systemInstruction,
+				...(json ? { responseMimeType: 'application/json', responseSchema: json } : {})
+			},
+			history: (request.history || []).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))
+		});
+
+	return {
+		name: 'gemini',
+		defaultModel: ROLE_DEFAULT_MODELS.response,
+		async complete(request) {
+			const result = await createChat(request).sendMessage({ message: request.message });
+			if (!result.text && result.candidates?.[0]?.finishReason === 'MAX_TOKENS') {
+				throw new Error('AI response was cut off due to length limit');
+			}
+			return result.text || '';
+		},
+		async completeJson(request) {
+			const result = await createChat(request, request.schema).sendMessage({ message: request.message });
+			return result.text || '';
+		},
+		async *stream(request) {
+			const stream = await createChat(request).sendMessageStream({ message: request.message });
+			for await (const chunk of stream) {
+				if (chunk.text) {
+					yield chunk.text;
+				}
+			}
+		}
+	};
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible HTTP
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert a Gemini-style schema (type: "OBJECT" | "object", nullable) to JSON Schema
+ */
+export function toJsonSchema(schema: ResponseSchema): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	const type = typeof schema.type === 'string' ? schema.type.toLowerCase() : undefined;
+
+	if (type) {
+		result.type = schema.nullable ? [type, 'null'] : type;
+	}
+	if (schema.description) result.description = schema.description;
+	if (schema.enum) result.enum = schema.enum;
+	if (schema.items) result.items = toJsonSchema(schema.items);
+	if (schema.properties) {
+		result.properties = Object.fromEntries(
+			Object.entries(schema.properties as Record<string, ResponseSchema>).map(([key, value]) => [key, toJsonSchema(value)])
+		);
+		result.required = schema.required || [];
+	}
+	return result;
+}
+
+export function createOpenAICompatibleChatProvider(options: {
+	baseUrl: string;
+	apiKey?: string;
+	defaultModel: string;
+}): ChatModelProvider {
+	const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+	const toBody = (request: ChatModelRequest) => ({
+		model: request.model,
+		messages: [
+			...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+			...(request.history || []).map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+			{ role: 'user', content: request.message }
+		],
+		temperature: request.temperature,
+		top_p: request.topP,
+		max_tokens: request.maxOutputTokens
+	});
+
+	const post = async (body: Record<string, unknown>) => {
+		const response = await fetch(`${baseUrl}/chat/completions`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+			},
+			body: JSON.stringify(body)
+		});
+
+		if (!response.ok) {
+			const detail = await response.text().catch(() => '');
+			if (response.status === 401 || response.status === 403) {
+				throw new Error(`Invalid API key for ${baseUrl}: ${detail}`);
+			}
+			if (response.status === 429) {
+				throw new Error(`Rate limit reached at ${baseUrl}: ${detail}`);
+			}
+			throw new Error(`Chat completion failed (${response.status}): ${detail}`);
+		}
+		return response;
+	};
+
+	const readMessage = async (response: Response): Promise<string> => {
+		const data = await response.json() as { choices?: Array<{ message?: { content?: string | null } }> };
+		return data.choices?.[0]?.message?.content || '';
+	};
+
+	return {
+		name: 'openai',
+		defaultModel: options.defaultModel,
+		async complete(request) {
+			return readMessage(await post(toBody(request)));
+		},
+		async completeJson(request) {
+			return readMessage(await post({
+				...toBody(request),
+				response_format: {
+					type: 'json_schema',
+					json_schema: { name: 'response', schema: toJsonSchema(request.schema) }
+				}
+			}));
+		},
+		async *stream(request) {
+			const response = await post({ ...toBody(request), stream: true });
+			if (!response.body) {
+				throw new Error('Chat completion stream has no body');
+			}
+
+			// Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+			const decoder = new TextDecoder();
+			let buffer = '';
+			for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+				buffer += decoder.decode(bytes, { stream: true });
+				const lines = buffer.split('\n');
+				buffer = lines.pop() || '';
+
+				for (const line of lines) {
+					const trimmed = line.trim();
+					if (!trimmed.startsWith('data:')) continue;
+					const payload = trimmed.slice(5).trim();
+					if (payload === '[DONE]') return;
+
+					const event = JSON.parse(payload) as { choices?: Array<{ delta?: { content?: string | null } }> };
+					const text = event.choices?.[0]?.delta?.content;
+					if (text) {
+						yield text;
+					}
+				}
+			}
+		}
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Scripted fake
+// ---------------------------------------------------------------------------
+
+export type ScriptedResponse = string | ((request: ChatModelRequest | StructuredChatModelRequest) => string);
+
+export interface ScriptedChatProvider extends ChatModelProvider {
+	/** Every request received, in order */
+	calls: Array<ChatModelRequest | StructuredChatModelRequest>;
+}
+
+/**
+ * Replays `responses` in order (the last one repeats); streams split the text into words
+ */
+export function createScriptedChatProvider(responses: ScriptedResponse[] = ['{}']): ScriptedChatProvider {
+	const calls: ScriptedChatProvider['calls'] = [];
+
+	const next = (request: ChatModelRequest | StructuredChatModelRequest): string => {
+		const response = responses[Math.min(calls.length, responses.length - 1)] ?? '';
+		calls.push(request);
+		return typeof response === 'function' ? response(request) : response;
+	};
+
+	return {
+		name: 'scripted',
+		defaultModel: 'scripted',
+		calls,
+		async complete(request) {
+			return next(request);
+		},
+		async completeJson(request) {
+			return next(request);
+		},
+		async *stream(request) {
+			for (const word of next(request).split(/(?<=\s)/)) {
+				yield word;
+			}
+		}
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+let provider: ChatModelProvider | null = null;
+
+export function getChatModelProvider(): ChatModelProvider {
+	if (!provider) {
+		const name = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+		switch (name) {
+			case 'gemini':
+				provider = createGeminiChatProvider();
+				break;
+			case 'openai':
+				provider = createOpenAICompatibleChatProvider({
+					baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+					apiKey: process.env.LLM_API_KEY,
+					defaultModel: process.env.LLM_MODEL || 'llama3.1'
+				});
+				break;
+			case 'scripted':
+				provider = createScriptedChatProvider();
+				break;
+			default:
+				throw new Error(`Unknown LLM_PROVIDER "${name}" (expected "gemini", "openai" or "scripted")`);
+		}
+		console.log(`🤖 Chat model provider: ${provider.name}`);
+	}
+	return provider;
+}
+
+/**
+ * Replace the configured provider, e.g. with a scripted one in tests
+ */
+export function setChatModelProvider(next: ChatModelProvider | null): void {
+	provider = next;
+}
+
+/**
+ * Model for a call site: LLM_MODEL_<ROLE>, then the Gemini call-site default, then the provider default
+ */
+export function resolveModel(role: ModelRole, geminiModel?: string): string {
+	const override = process.env[`LLM_MODEL_${role.toUpperCase()}`];
+	if (override) {
+		return override;
+	}
+
+	const current = getChatModelProvider();
+	if (current.name === 'gemini') {
+		return geminiModel || ROLE_DEFAULT_MODELS[role];
+	}
+	return current.defaultModel;
+}
+
+export interface ModelCall extends Omit<ChatModelRequest, 'model'> {
+	role: ModelRole;
+	/** Gemini model this call site was tuned for */
+	geminiModel?: string;
+}
+
+function toRequest({ role, geminiModel, ...request }: ModelCall): ChatModelRequest {
+	return { ...request, model: resolveModel(role, geminiModel) };
+}
+
+export async function complete(call: ModelCall): Promise<string> {
+	return getChatModelProvider().complete(toRequest(call));
+}
+
+/**
+ * Structured output as raw JSON text; see parseJsonResponse
+ */
+export async function completeJson(call: ModelCall & { schema: ResponseSchema }): Promise<string> {
+	return getChatModelProvider().completeJson({ ...toRequest(call), schema: call.schema });
+}
+
+export function streamCompletion(call: ModelCall): AsyncGenerator<string> {
+	return getChatModelProvider().stream(toRequest(call));
+}
+
+/**
+ * Parse model JSON output, tolerating ```json fences around it
+ */
+export function parseJsonResponse<T>(text: string): T {
+	const cleaned = text.trim()
+		.replace(/^```(?:json)?\s*/, '')
+		.replace(/\s*```$/, '');
+	return JSON.parse(cleaned || '{}') as T;
+}
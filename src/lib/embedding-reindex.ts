@@ -0,0 +1,588 @@
+/**
+ * Re-embedding job for memories and nvc_knowledge
+ * Switching the embedding model (or its dimensions) makes every stored vector incompatible.
+ * A job re-embeds rows page by page into a shadow column (embedding_next) with the target
+ * provider, while search keeps using the live column. Once every row is done the job waits in
+ * "ready" until an admin swaps it in: the shadow column replaces the live one and the target
+ * becomes the active provider in embedding_settings, in a single transaction.
+ *
+ * Progress lives in the database (the shadow column plus embedding_reindex_jobs), so a job
+ * survives restarts: the scheduler resumes it, and the CLI (scripts/reembed.ts) can too.
+ */
+
+import { and, desc, eq, inArray, sql, type SQL } from 'drizzle-orm';
+import { embeddingReindexFailures, embeddingReindexJobs } from '../../drizzle/schema.js';
+import { db } from './db.js';
+import {
+	createEmbeddingProvider,
+	getActiveEmbeddingSettings,
+	getEmbeddingProvider,
+	setActiveEmbeddingSettings,
+	type EmbeddingProvider
+} from './embeddings.js';
+
+export const REINDEX_CONFIG = {
+	batchSize: 50,
+	// Embedding API requests per minute across all batches of this process
+	requestsPerMinute: Number(process.env.EMBEDDING_REINDEX_RPM) || 60,
+	rateLimitRetries: 3,
+	rateLimitBackoffMs: 30 * 1000, // doubled per retry
+	// Batches per scheduler tick, so one tick never runs for long
+	batchesPerTick: 20,
+	// A job locked this long belongs to a crashed worker and can be claimed again
+	staleLockMs: 10 * 60 * 1000
+} as const;
+
+export type ReindexTable = 'memories' | 'nvc_knowledge';
+export type ReindexJobRow = typeof embeddingReindexJobs.$inferSelect;
+
+export const REINDEX_TABLES: ReindexTable[] = ['memories', 'nvc_knowledge'];
+
+export class ReindexError extends Error {
+	constructor(message: string, public status: 400 | 404 | 409 = 400) {
+		super(message);
+	}
+}
+
+// Index name and the exact text each table embeds (see getEmbeddingText in memory.ts and embedNVCText in nvc-knowledge.ts)
+const TABLES: Record<ReindexTable, { index: string; text: SQL }> = {
+	memories: {
+		index: 'embedding_idx',
+		text: sql.raw(`CASE WHEN key IS NOT NULL AND key <> '' THEN key || ': ' || value ELSE value END`)
+	},
+	nvc_knowledge: {
+		index: 'nvc_knowledge_embedding_idx',
+		text: sql.raw(`'[NVC Knowledge ' || upper(language) || '] ' || title || ': ' || content`)
+	}
+};
+
+const ACTIVE_STATUSES = ['running', 'ready'];
+
+function rowsOf(result: any): any[] {
+	return Array.isArray(result) ? result : (result.rows || []);
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function parseTables(value: string): ReindexTable[] {
+	try {
+		const parsed = JSON.parse(value);
+		return Array.isArray(parsed) ? parsed.filter((table): table is ReindexTable => REINDEX_TABLES.includes(table)) : [];
+	} catch {
+		return [];
+	}
+}
+
+function formatJob(job: ReindexJobRow) {
+	return {
+		...job,
+		tables: parseTables(job.tables),
+		progress: job.totalRows > 0 ? Math.min(1, job.processedRows / job.totalRows) : 1
+	};
+}
+
+export type ReindexJob = ReturnType<typeof formatJob>;
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+let nextRequestAt = 0;
+
+/**
+ * Space embedding requests evenly to stay under REINDEX_CONFIG.requestsPerMinute
+ */
+async function throttle(): Promise<void> {
+	const interval = 60 * 1000 / REINDEX_CONFIG.requestsPerMinute;
+	const now = Date.now();
+	const wait = Math.max(0, nextRequestAt - now);
+	nextRequestAt = Math.max(now, nextRequestAt) + interval;
+	if (wait > 0) {
+		await sleep(wait);
+	}
+}
+
+function isRateLimitError(error: any): boolean {
+	const message = `${error?.status || ''} ${error?.message || error}`;
+	return /429|rate limit|resource_exhausted|quota/i.test(message);
+}
+
+async function embedWithRetry(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+	for (let attempt = 0; ; attempt++) {
+		await throttle();
+		try {
+			const vectors = await provider.embed(texts);
+			if (vectors.length !== texts.length) {
+				throw new Error(`Expected ${texts.length} embeddings, got ${vectors.length}`);
+			}
+			const wrongSize = vectors.find(values => values.length !== provider.dimensions);
+			if (wrongSize) {
+				throw new Error(`Provider returned ${wrongSize.length} dimensions, expected ${provider.dimensions}`);
+			}
+			return vectors;
+		} catch (error) {
+			if (!isRateLimitError(error) || attempt >= REINDEX_CONFIG.rateLimitRetries) {
+				throw error;
+			}
+			const delay = REINDEX_CONFIG.rateLimitBackoffMs * 2 ** attempt;
+			console.warn(`⏳ Embedding rate limit hit, retrying in ${delay / 1000}s`);
+			await sleep(delay);
+		}
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Row selection
+// ---------------------------------------------------------------------------
+
+/**
+ * Rows that still need a vector from the job's target model: embedded by another model (or with
+ * other dimensions), and
+ * either without a shadow vector or edited since it was written. Rows already embedded by the
+ * target (e.g. saved after the provider was switched) are copied at swap time instead.
+ */
+function pendingRowsCondition(job: ReindexJobRow, table: ReindexTable, includeFailed: boolean): SQL {
+	const { text } = TABLES[table];
+	const failed = includeFailed
+		? sql``
+		: sql`AND NOT EXISTS (
+			SELECT 1 FROM embedding_reindex_failures f
+			WHERE f.job_id = ${job.id} AND f.table_name = ${table} AND f.row_id = t.id
+		)`;
+
+	return sql`t.embedding IS NOT NULL
+		AND (t.embedding_provider IS DISTINCT FROM ${job.provider} OR t.embedding_model IS DISTINCT FROM ${job.model}
+			OR vector_dims(t.embedding) <> ${job.dimensions})
+		AND (t.embedding_next IS NULL OR t.embedding_next_source IS DISTINCT FROM md5(${text}))
+		${failed}`;
+}
+
+async function countPendingRows(job: ReindexJobRow, table: ReindexTable, includeFailed: boolean, executor: Pick<typeof db, 'execute'> = db): Promise<number> {
+	const result = await executor.execute(sql`
+		SELECT COUNT(*)::int AS total FROM ${sql.raw(table)} t
+		WHERE ${pendingRowsCondition(job, table, includeFailed)}
+	`);
+	return Number(rowsOf(result)[0]?.total || 0);
+}
+
+type PendingRow = { id: string; text: string; source: string };
+
+async function fetchPendingRows(job: ReindexJobRow, table: ReindexTable): Promise<PendingRow[]> {
+	const { text } = TABLES[table];
+	const result = await db.execute(sql`
+		SELECT t.id, ${text} AS text, md5(${text}) AS source FROM ${sql.raw(table)} t
+		WHERE ${pendingRowsCondition(job, table, false)}
+		ORDER BY t.id
+		LIMIT ${job.batchSize}
+	`);
+	return rowsOf(result) as PendingRow[];
+}
+
+// The source hash marks which text the shadow vector belongs to; editing the row makes it pending again
+async function writeShadowVector(table: ReindexTable, row: PendingRow, values: number[]): Promise<void> {
+	await db.execute(sql`
+		UPDATE ${sql.raw(table)}
+		SET embedding_next = ${JSON.stringify(values)}::vector, embedding_next_source = ${row.source}
+		WHERE id = ${row.id}
+	`);
+}
+
+async function recordFailure(jobId: string, table: ReindexTable, rowId: string, error: any): Promise<void> {
+	const message = error?.message || String(error);
+	await db.insert(embeddingReindexFailures)
+		.values({ jobId, tableName: table, rowId, error: message })
+		.onConflictDoUpdate({
+			target: [embeddingReindexFailures.jobId, embeddingReindexFailures.tableName, embeddingReindexFailures.rowId],
+			set: { error: message }
+		});
+}
+
+/**
+ * Re-embed one page of a table; a failing batch is retried row by row so one bad row doesn't block the page
+ */
+async function processBatch(job: ReindexJobRow, table: ReindexTable, provider: EmbeddingProvider) {
+	const rows = await fetchPendingRows(job, table);
+	let processed = 0;
+	let failed = 0;
+
+	if (rows.length === 0) {
+		return { fetched: 0, processed, failed };
+	}
+
+	try {
+		const vectors = await embedWithRetry(provider, rows.map(row => row.text));
+		for (const [index, row] of rows.entries()) {
+			await writeShadowVector(table, row, vectors[index]);
+			processed++;
+		}
+	} catch (batchError) {
+		if (isRateLimitError(batchError)) {
+			// Still rate limited after all retries: leave the page for the next run
+			throw batchError;
+		}
+
+		console.warn(`⚠️ Re-embedding batch of ${rows.length} ${table} rows failed, retrying row by row:`, (batchError as Error)?.message);
+		for (const row of rows) {
+			try {
+				const [values] = await embedWithRetry(provider, [row.text]);
+				await writeShadowVector(table, row, values);
+				processed++;
+			} catch (rowError) {
+				if (isRateLimitError(rowError)) {
+					throw rowError;
+				}
+				await recordFailure(job.id, table, row.id, rowError);
+				failed++;
+			}
+		}
+	}
+
+	return { fetched: rows.length, processed, failed };
+}
+
+// ---------------------------------------------------------------------------
+// Jobs
+// ---------------------------------------------------------------------------
+
+async function getJobRow(jobId: string): Promise<ReindexJobRow> {
+	const [job] = await db.select().from(embeddingReindexJobs).where(eq(embeddingReindexJobs.id, jobId)).limit(1);
+	if (!job) {
+		throw new ReindexError('Re-embedding job not found', 404);
+	}
+	return job;
+}
+
+async function countFailures(jobId: string): Promise<number> {
+	const result = await db.execute(sql`
+		SELECT COUNT(*)::int AS total FROM embedding_reindex_failures WHERE job_id = ${jobId}
+	`);
+	return Number(rowsOf(result)[0]?.total || 0);
+}
+
+export async function getActiveReindexJob(): Promise<ReindexJob | null> {
+	const [job] = await db.select()
+		.from(embeddingReindexJobs)
+		.where(inArray(embeddingReindexJobs.status, ACTIVE_STATUSES))
+		.orderBy(desc(embeddingReindexJobs.created))
+		.limit(1);
+	return job ? formatJob(job) : null;
+}
+
+/**
+ * Start a job towards the given provider/model/dimensions (default: the active provider)
+ * Only one job can be active at a time; the shadow columns are (re)created here.
+ */
+export async function startEmbeddingReindex(options: {
+	provider?: string;
+	model?: string;
+	dimensions?: number;
+	tables?: string[];
+	batchSize?: number;
+	startedBy?: string;
+} = {}): Promise<ReindexJob> {
+	let target: EmbeddingProvider;
+	try {
+		const active = await getEmbeddingProvider();
+		target = options.provider || options.dimensions
+			? createEmbeddingProvider(options.provider || active.name, options.model, options.dimensions)
+			: active;
+	} catch (error: any) {
+		throw new ReindexError(error.message);
+	}
+
+	const tables = options.tables && options.tables.length > 0 ? options.tables : REINDEX_TABLES;
+	const unknown = tables.filter(table => !REINDEX_TABLES.includes(table as ReindexTable));
+	if (unknown.length > 0) {
+		throw new ReindexError(`Unknown tables: ${unknown.join(', ')} (expected ${REINDEX_TABLES.join(', ')})`);
+	}
+	// The HNSW index on the swapped-in column supports at most 2000 dimensions
+	if (!Number.isInteger(target.dimensions) || target.dimensions <= 0 || target.dimensions > 2000) {
+		throw new ReindexError(`Invalid embedding dimensions: ${target.dimensions} (expected 1-2000)`);
+	}
+
+	const batchSize = Math.min(250, Math.max(1, Math.floor(options.batchSize || REINDEX_CONFIG.batchSize)));
+
+	const job = await db.transaction(async (tx) => {
+		await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('embedding-reindex'))`);
+
+		const [active] = await tx.select({ id: embeddingReindexJobs.id })
+			.from(embeddingReindexJobs)
+			.where(inArray(embeddingReindexJobs.status, ACTIVE_STATUSES))
+			.limit(1);
+		if (active) {
+			throw new ReindexError(`Re-embedding job ${active.id} is already active`, 409);
+		}
+
+		// No job is active, so any existing shadow columns are leftovers
+		for (const table of tables) {
+			await tx.execute(sql.raw(`
+				ALTER TABLE ${table}
+					DROP COLUMN IF EXISTS embedding_next,
+					DROP COLUMN IF EXISTS embedding_next_source,
+					ADD COLUMN embedding_next vector(${target.dimensions}),
+					ADD COLUMN embedding_next_source text
+			`));
+		}
+
+		const [created] = await tx.insert(embeddingReindexJobs)
+			.values({
+				provider: target.name,
+				model: target.model,
+				dimensions: target.dimensions,
+				tables: JSON.stringify(tables),
+				batchSize,
+				startedBy: options.startedBy || null
+			})
+			.returning();
+		return created;
+	});
+
+	let totalRows = 0;
+	for (const table of tables as ReindexTable[]) {
+		totalRows += await countPendingRows(job, table, true);
+	}
+
+	const [updated] = await db.update(embeddingReindexJobs)
+		.set({ totalRows, updated: new Date().toISOString() })
+		.where(eq(embeddingReindexJobs.id, job.id))
+		.returning();
+
+	console.log(`🧬 Started re-embedding job ${job.id}: ${totalRows} rows → ${target.name}/${target.model} (${target.dimensions} dimensions)`);
+	return formatJob(updated);
+}
+
+async function claimJob(jobId: string): Promise<ReindexJobRow | null> {
+	const nowIso = new Date().toISOString();
+	const staleBefore = new Date(Date.now() - REINDEX_CONFIG.staleLockMs).toISOString();
+
+	const [job] = await db.update(embeddingReindexJobs)
+		.set({ lockedAt: nowIso, updated: nowIso })
+		.where(and(
+			eq(embeddingReindexJobs.id, jobId),
+			eq(embeddingReindexJobs.status, 'running'),
+			sql`(${embeddingReindexJobs.lockedAt} IS NULL OR ${embeddingReindexJobs.lockedAt} < ${staleBefore})`
+		))
+		.returning();
+	return job || null;
+}
+
+/**
+ * Process pages of a running job until it is done or `maxBatches` pages were embedded
+ * When no rows are left the job waits in "ready" for an admin to swap it in; with failed rows
+ * that takes a retry or a forced swap.
+ */
+export async function runEmbeddingReindex(jobId: string, options: { maxBatches?: number } = {}): Promise<ReindexJob> {
+	const job = await claimJob(jobId);
+	if (!job) {
+		// Not running, or another worker holds the lock
+		return formatJob(await getJobRow(jobId));
+	}
+
+	const provider = createEmbeddingProvider(job.provider, job.model, job.dimensions);
+	const tables = parseTables(job.tables);
+	const maxBatches = options.maxBatches ?? Infinity;
+	let batches = 0;
+	let finished = true;
+
+	try {
+		for (const table of tables) {
+			while (true) {
+				if (batches >= maxBatches) {
+					finished = false;
+					break;
+				}
+
+				const result = await processBatch(job, table, provider);
+				if (result.fetched === 0) break;
+				batches++;
+
+				await db.update(embeddingReindexJobs)
+					.set({
+						processedRows: sql`${embeddingReindexJobs.processedRows} + ${result.processed}`,
+						failedRows: sql`${embeddingReindexJobs.failedRows} + ${result.failed}`,
+						lockedAt: new Date().toISOString(),
+						updated: new Date().toISOString()
+					})
+					.where(eq(embeddingReindexJobs.id, job.id));
+			}
+			if (!finished) break;
+		}
+	} catch (error: any) {
+		console.error(`❌ Re-embedding job ${job.id} stopped:`, error?.message || error);
+		await db.update(embeddingReindexJobs)
+			.set({ lockedAt: null, lastError: error?.message || String(error), updated: new Date().toISOString() })
+			.where(eq(embeddingReindexJobs.id, job.id));
+		throw error;
+	}
+
+	const failedRows = await countFailures(job.id);
+	await db.update(embeddingReindexJobs)
+		.set({
+			lockedAt: null,
+			failedRows,
+			status: finished ? 'ready' : 'running',
+			updated: new Date().toISOString()
+		})
+		.where(eq(embeddingReindexJobs.id, job.id));
+
+	if (finished && failedRows > 0) {
+		console.warn(`⚠️ Re-embedding job ${job.id} finished with ${failedRows} failed rows; retry them or force the swap`);
+	} else if (finished) {
+		console.log(`🧬 Re-embedding job ${job.id} is ready to be swapped in`);
+	}
+	return formatJob(await getJobRow(job.id));
+}
+
+/**
+ * Advance the active job by one scheduler tick
+ */
+export async function advanceEmbeddingReindex() {
+	const active = await getActiveReindexJob();
+	if (!active || active.status !== 'running') {
+		return { jobId: active?.id || null, status: active?.status || null };
+	}
+
+	const job = await runEmbeddingReindex(active.id, { maxBatches: REINDEX_CONFIG.batchesPerTick });
+	return { jobId: job.id, status: job.status, processedRows: job.processedRows, failedRows: job.failedRows, totalRows: job.totalRows };
+}
+
+/**
+ * Replace the live embedding column with the shadow column and activate the job's provider in one transaction
+ * Rows that still lack a target vector block the swap unless `force` is set; they are left
+ * without an embedding (and out of vector search) until they are saved again.
+ */
+export async function swapReindexedEmbeddings(jobId: string, options: { force?: boolean } = {}): Promise<ReindexJob> {
+	const job = await getJobRow(jobId);
+	if (!ACTIVE_STATUSES.includes(job.status)) {
+		throw new ReindexError(`Re-embedding job is ${job.status}`, 409);
+	}
+
+	const tables = parseTables(job.tables);
+	const previous = await getActiveEmbeddingSettings();
+
+	await db.transaction(async (tx) => {
+		// Hold the job row so no worker can claim it, and refuse while one is embedding a page
+		const [locked] = await tx.select({ lockedAt: embeddingReindexJobs.lockedAt })
+			.from(embeddingReindexJobs)
+			.where(eq(embeddingReindexJobs.id, job.id))
+			.for('update');
+		if (locked?.lockedAt && Date.now() - new Date(locked.lockedAt).getTime() < REINDEX_CONFIG.staleLockMs) {
+			throw new ReindexError('Re-embedding job is processing a page right now, try again shortly', 409);
+		}
+
+		for (const table of tables) {
+			await tx.execute(sql.raw(`LOCK TABLE ${table} IN ACCESS EXCLUSIVE MODE`));
+
+			// Rows saved with the target model while the job ran already have the right vector
+			await tx.execute(sql`
+				UPDATE ${sql.raw(table)}
+				SET embedding_next = embedding
+				WHERE embedding IS NOT NULL AND embedding_provider = ${job.provider} AND embedding_model = ${job.model}
+					AND vector_dims(embedding) = ${job.dimensions}
+			`);
+
+			const remaining = await countPendingRows(job, table, true, tx);
+			if (remaining > 0 && !options.force) {
+				throw new ReindexError(`${remaining} ${table} rows are not re-embedded yet`, 409);
+			}
+		}
+
+		for (const table of tables) {
+			const { index } = TABLES[table];
+			await tx.execute(sql.raw(`DROP INDEX IF EXISTS ${index}`));
+			await tx.execute(sql.raw(`ALTER TABLE ${table} DROP COLUMN embedding`));
+			await tx.execute(sql.raw(`ALTER TABLE ${table} DROP COLUMN embedding_next_source`));
+			await tx.execute(sql.raw(`ALTER TABLE ${table} RENAME COLUMN embedding_next TO embedding`));
+			await tx.execute(sql`
+				UPDATE ${sql.raw(table)}
+				SET embedding_provider = CASE WHEN embedding IS NULL THEN NULL ELSE ${job.provider} END,
+					embedding_model = CASE WHEN embedding IS NULL THEN NULL ELSE ${job.model} END
+			`);
+			await tx.execute(sql.raw(`CREATE INDEX ${index} ON ${table} USING hnsw (embedding vector_cosine_ops)`));
+		}
+
+		// Every instance reads the active provider from here, so they all switch with this commit
+		await setActiveEmbeddingSettings({ provider: job.provider, model: job.model, dimensions: job.dimensions, jobId: job.id }, tx);
+
+		const nowIso = new Date().toISOString();
+		await tx.update(embeddingReindexJobs)
+			.set({ status: 'completed', lockedAt: null, swappedAt: nowIso, updated: nowIso })
+			.where(eq(embeddingReindexJobs.id, job.id));
+	});
+
+	if (job.dimensions !== previous.dimensions) {
+		console.warn(`⚠️ Embedding columns are now vector(${job.dimensions}); update vector({ dimensions }) in drizzle/schema.ts`);
+	}
+
+	console.log(`✅ Re-embedding job ${job.id} swapped in ${job.provider}/${job.model} for ${tables.join(', ')}`);
+	return formatJob(await getJobRow(job.id));
+}
+
+/**
+ * Put failed rows back into the job; a "ready" job starts running again
+ */
+export async function retryReindexFailures(jobId: string): Promise<ReindexJob> {
+	const job = await getJobRow(jobId);
+	if (!ACTIVE_STATUSES.includes(job.status)) {
+		throw new ReindexError(`Re-embedding job is ${job.status}`, 409);
+	}
+
+	await db.delete(embeddingReindexFailures).where(eq(embeddingReindexFailures.jobId, job.id));
+	const [updated] = await db.update(embeddingReindexJobs)
+		.set({ status: 'running', failedRows: 0, lastError: null, updated: new Date().toISOString() })
+		.where(eq(embeddingReindexJobs.id, job.id))
+		.returning();
+	return formatJob(updated);
+}
+
+/**
+ * Abandon a job and drop its shadow columns; the live vectors are untouched
+ */
+export async function cancelEmbeddingReindex(jobId: string): Promise<ReindexJob> {
+	const job = await getJobRow(jobId);
+	if (!ACTIVE_STATUSES.includes(job.status)) {
+		throw new ReindexError(`Re-embedding job is ${job.status}`, 409);
+	}
+	if (job.lockedAt && Date.now() - new Date(job.lockedAt).getTime() < REINDEX_CONFIG.staleLockMs) {
+		throw new ReindexError('Re-embedding job is processing a page right now, try again shortly', 409);
+	}
+
+	await db.transaction(async (tx) => {
+		for (const table of parseTables(job.tables)) {
+			await tx.execute(sql.raw(`
+				ALTER TABLE ${table}
+					DROP COLUMN IF EXISTS embedding_next,
+					DROP COLUMN IF EXISTS embedding_next_source
+			`));
+		}
+		await tx.update(embeddingReindexJobs)
+			.set({ status: 'cancelled', lockedAt: null, updated: new Date().toISOString() })
+			.where(eq(embeddingReindexJobs.id, job.id));
+	});
+
+	return formatJob(await getJobRow(job.id));
+}
+
+/**
+ * A job with its failure report
+ */
+export async function getReindexJob(jobId: string, failureLimit: number = 100) {
+	const job = await getJobRow(jobId);
+	const failures = await db.select()
+		.from(embeddingReindexFailures)
+		.where(eq(embeddingReindexFailures.jobId, job.id))
+		.orderBy(desc(embeddingReindexFailures.created))
+		.limit(failureLimit);
+
+	return { job: formatJob(job), failures };
+}
+
+export async function listReindexJobs(limit: number = 20): Promise<ReindexJob[]> {
+	const jobs = await db.select()
+		.from(embeddingReindexJobs)
+		.orderBy(desc(embeddingReindexJobs.created))
+		.limit(limit);
+	return jobs.map(formatJob);
+}
@@ -0,0 +1,303 @@
+/**
+ * Embedding providers
+ * All vectors in memories and nvc_knowledge come from the provider stored in embedding_settings
+ * ("gemini" or "local" for the offline hashed n-gram backend). The row is seeded from
+ * EMBEDDING_PROVIDER / EMBEDDING_MODEL / EMBEDDING_DIMENSIONS on first use and afterwards only
+ * changed by a re-embedding swap, so every instance embeds and searches with the same model.
+ * Every stored vector records the provider and model that produced it, so vectors from
+ * different models are never compared with each other.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { createHash } from 'crypto';
+import { eq, sql } from 'drizzle-orm';
+import 'dotenv/config';
+import { embeddingSettings } from '../../drizzle/schema.js';
+import { db } from './db.js';
+
+// Dimensions for a fresh database; must match vector({ dimensions }) in drizzle/schema.ts.
+// Once seeded, the live dimensions are the ones in embedding_settings.
+export const EMBEDDING_DIMENSIONS = Number(process.env.EMBEDDING_DIMENSIONS) || 768;
+
+const SETTINGS_ID = 'active';
+
+export interface EmbeddingProvider {
+	name: string;
+	model: string;
+	dimensions: number;
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingSignature {
+	provider: string;
+	model: string;
+}
+
+export interface EmbeddingResult extends EmbeddingSignature {
+	values: number[];
+}
+
+export interface EmbeddingSettings extends EmbeddingSignature {
+	dimensions: number;
+}
+
+/**
+ * Gemini embeddings (network, needs GEMINI_API_KEY)
+ */
+export function createGeminiEmbeddingProvider(
+	model: string = 'gemini-embedding-001',
+	dimensions: number = EMBEDDING_DIMENSIONS
+): EmbeddingProvider {
+	let client: GoogleGenAI | null = null;
+
+	const getClient = (): GoogleGenAI => {
+		if (!client) {
+			const apiKey = process.env.GEMINI_API_KEY;
+			if (!apiKey) {
+				throw new Error('GEMINI_API_KEY environment variable is required');
+			}
+			client = new GoogleGenAI({ apiKey });
+		}
+		return client;
+	};
+
+	return {
+		name: 'gemini',
+		model,
+		dimensions,
+		async embed(texts) {
+			if (texts.length === 0) return [];
+
+			const response = await getClient().models.embedContent({
+				model,
+				contents: texts,
+				config: {
+					outputDimensionality: dimensions
+				}
+			});
+
+			const vectors = (response.embeddings || []).map(embedding => embedding.values);
+			if (vectors.length !== texts.length || vectors.some(values => !Array.isArray(values))) {
+				console.error('Response structure:', JSON.stringify(response, null, 2));
+				throw new Error('No embeddings returned from API');
+			}
+			return vectors as number[][];
+		}
+	};
+}
+
+function hashFeature(feature: string, dimensions: number): { bucket: number; sign: number } {
+	const digest = createHash('md5').update(feature).digest();
+	return {
+		bucket: digest.readUInt32LE(0) % dimensions,
+		sign: digest[4] & 1 ? 1 : -1
+	};
+}
+
+/**
+ * Deterministic offline embeddings: signed feature hashing of words, word bigrams and
+ * character trigrams, L2-normalised. No semantic understanding, but good enough for
+ * tests and on-prem setups where lexical overlap carries most of the signal.
+ */
+export function createHashedNgramEmbeddingProvider(dimensions: number = EMBEDDING_DIMENSIONS): EmbeddingProvider {
+	const embedOne = (text: string): number[] => {
+		const vector = new Array<number>(dimensions).fill(0);
+		const words = text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+		const addFeature = (feature: string, weight: number) => {
+			const { bucket, sign } = hashFeature(feature, dimensions);
+			vector[bucket] += sign * weight;
+		};
+
+		words.forEach((word, index) => {
+			addFeature(`w:${word}`, 1);
+			if (index > 0) {
+				addFeature(`b:${words[index - 1]} ${word}`, 0.5);
+			}
+			const padded = `#${word}#`;
+			for (let i = 0; i + 3 <= padded.length; i++) {
+				addFeature(`c:${padded.slice(i, i + 3)}`, 0.25);
+			}
+		});
+
+		const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+		// pgvector can't compute cosine distance for a zero vector
+		if (norm === 0) {
+			vector[0] = 1;
+			return vector;
+		}
+		return vector.map(value => value / norm);
+	};
+
+	return {
+		name: 'local',
+		model: 'hashed-ngram-v1',
+		dimensions,
+		async embed(texts) {
+			return texts.map(embedOne);
+		}
+	};
+}
+
+/**
+ * Provider by name, e.g. the target of a re-embedding job
+ */
+export function createEmbeddingProvider(name: string, model?: string, dimensions?: number): EmbeddingProvider {
+	switch (name.toLowerCase()) {
+		case 'gemini':
+			return createGeminiEmbeddingProvider(model || undefined, dimensions);
+		case 'local':
+			return createHashedNgramEmbeddingProvider(dimensions);
+		default:
+			throw new Error(`Unknown EMBEDDING_PROVIDER "${name}" (expected "gemini" or "local")`);
+	}
+}
+
+let override: EmbeddingProvider | null = null;
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * The active provider/model/dimensions; seeds the row from the environment on first use
+ */
+export async function getActiveEmbeddingSettings(): Promise<EmbeddingSettings> {
+	const select = () => db.select({ provider: embeddingSettings.provider, model: embeddingSettings.model, dimensions: embeddingSettings.dimensions })
+		.from(embeddingSettings)
+		.where(eq(embeddingSettings.id, SETTINGS_ID))
+		.limit(1);
+
+	const [settings] = await select();
+	if (settings) {
+		return settings;
+	}
+
+	const seed = createEmbeddingProvider(process.env.EMBEDDING_PROVIDER || 'gemini', process.env.EMBEDDING_MODEL, EMBEDDING_DIMENSIONS);
+	// Another instance may seed at the same time; whichever row lands first wins
+	await db.insert(embeddingSettings)
+		.values({ id: SETTINGS_ID, provider: seed.name, model: seed.model, dimensions: seed.dimensions })
+		.onConflictDoNothing();
+	const [seeded] = await select();
+	return seeded;
+}
+
+/**
+ * Make a provider the active one; called by the re-embedding swap inside its transaction
+ */
+export async function setActiveEmbeddingSettings(
+	settings: EmbeddingSettings & { jobId?: string | null },
+	executor: Pick<typeof db, 'insert'> = db
+): Promise<void> {
+	const values = {
+		provider: settings.provider,
+		model: settings.model,
+		dimensions: settings.dimensions,
+		jobId: settings.jobId ?? null,
+		updated: new Date().toISOString()
+	};
+	await executor.insert(embeddingSettings)
+		.values({ id: SETTINGS_ID, ...values })
+		.onConflictDoUpdate({ target: embeddingSettings.id, set: values });
+}
+
+/**
+ * The active provider from embedding_settings, read on every call so a swap reaches all instances
+ */
+export async function getEmbeddingProvider(): Promise<EmbeddingProvider> {
+	if (override) {
+		return override;
+	}
+
+	const settings = await getActiveEmbeddingSettings();
+	const key = `${settings.provider}/${settings.model}/${settings.dimensions}`;
+	let current = providers.get(key);
+	if (!current) {
+		current = createEmbeddingProvider(settings.provider, settings.model, settings.dimensions);
+		providers.set(key, current);
+		console.log(`🧬 Embedding provider: ${current.name}/${current.model} (${current.dimensions} dimensions)`);
+	}
+	return current;
+}
+
+/**
+ * Use a provider in this process regardless of the stored settings, e.g. the local one for offline evaluation
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider | null): void {
+	override = next;
+}
+
+export async function getEmbeddingSignature(): Promise<EmbeddingSignature> {
+	const { name, model } = await getEmbeddingProvider();
+	return { provider: name, model };
+}
+
+export async function embedTexts(texts: string[]): Promise<EmbeddingResult[]> {
+	const current = await getEmbeddingProvider();
+	const vectors = await current.embed(texts);
+
+	return vectors.map(values => {
+		if (values.length !== current.dimensions) {
+			throw new Error(`Embedding provider ${current.name}/${current.model} returned ${values.length} dimensions, expected ${current.dimensions}`);
+		}
+		return { values, provider: current.name, model: current.model };
+	});
+}
+
+export async function embedText(text: string): Promise<EmbeddingResult> {
+	const [result] = await embedTexts([text]);
+	return result;
+}
+
+/**
+ * SQL condition restricting a vector search to rows embedded by the active provider and model
+ */
+export function sameEmbeddingModel() {
+	if (override) {
+		return sql`embedding_provider = ${override.name} AND embedding_model = ${override.model}`;
+	}
+	return sql`(embedding_provider, embedding_model) = (
+		SELECT provider, model FROM embedding_settings WHERE id = ${SETTINGS_ID}
+	)`;
+}
+
+export interface EmbeddingModelUsage extends EmbeddingSignature {
+	table: 'memories' | 'nvc_knowledge';
+	count: number;
+	current: boolean;
+}
+
+/**
+ * Stored vectors per table, provider and model
+ * Anything not produced by the current provider is invisible to vector search until re-embedded
+ */
+export async function getEmbeddingModelUsage() {
+	const result = await db.execute(sql`
+		SELECT 'memories' AS table_name, embedding_provider, embedding_model, COUNT(*)::int AS total
+		FROM memories WHERE embedding IS NOT NULL
+		GROUP BY embedding_provider, embedding_model
+		UNION ALL
+		SELECT 'nvc_knowledge' AS table_name, embedding_provider, embedding_model, COUNT(*)::int AS total
+		FROM nvc_knowledge WHERE embedding IS NOT NULL
+		GROUP BY embedding_provider, embedding_model
+	`);
+	const rows = (Array.isArray(result) ? result : (result.rows || [])) as Array<{
+		table_name: 'memories' | 'nvc_knowledge';
+		embedding_provider: string | null;
+		embedding_model: string | null;
+		total: number;
+	}>;
+
+	const current = await getEmbeddingSignature();
+	const usage: EmbeddingModelUsage[] = rows.map(row => ({
+		table: row.table_name,
+		provider: row.embedding_provider || 'unknown',
+		model: row.embedding_model || 'unknown',
+		count: Number(row.total),
+		current: row.embedding_provider === current.provider && row.embedding_model === current.model
+	}));
+
+	return {
+		current,
+		usage,
+		mixed: usage.some(entry => !entry.current),
+		staleVectors: usage.filter(entry => !entry.current).reduce((sum, entry) => sum + entry.count, 0)
+	};
+}
@@ -154,6 +154,7 @@ export interface HistoryEntry {
 	timestamp: number;
 	hidden?: boolean;
 	pathMarker?: any;
+	excludeFromMemory?: boolean; // "don't remember this" - skipped by memory extraction
 }
 
 /**
@@ -0,0 +1,205 @@
+/**
+ * Garden growth engine
+ * Plants advance through growth stages based on elapsed time, item rarity and weather.
+ * Weather mirrors the user's recent emotional balance instead of being random.
+ * Everything is evaluated lazily when the garden is loaded.
+ */
+
+import { and, desc, eq, gte, inArray } from 'drizzle-orm';
+import { analyses, gardens, items } from '../../drizzle/schema.js';
+import type { GardenPlot, GardenRow, GridData, Transaction } from './garden.js';
+
+export type Weather = 'sunny' | 'cloudy' | 'rainy' | 'stormy';
+
+export const MAX_GROWTH_STAGE = 4;
+
+// Hours a plant needs per growth stage in neutral weather
+export const HOURS_PER_STAGE_BY_RARITY: Record<string, number> = {
+	common: 12,
+	uncommon: 18,
+	rare: 24,
+	epic: 36,
+	legendary: 48
+};
+const DEFAULT_HOURS_PER_STAGE = 12;
+
+// Rain still nourishes the garden - difficult feelings are part of growth too
+export const WEATHER_GROWTH_MULTIPLIER: Record<Weather, number> = {
+	sunny: 1.0,
+	cloudy: 0.8,
+	rainy: 1.2,
+	stormy: 0.6
+};
+
+export const WEATHER_REFRESH_HOURS = 6;
+const WEATHER_LOOKBACK_DAYS = 7;
+const WEATHER_SAMPLE_SIZE = 10;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let clockOverride: (() => Date) | null = null;
+
+/**
+ * Override the clock used by the growth engine (pass null to restore the real clock)
+ * GARDEN_CLOCK=<ISO date> pins the clock for a whole process, e.g. in end-to-end tests
+ */
+export function setGardenClock(clock: (() => Date) | null): void {
+	clockOverride = clock;
+}
+
+/**
+ * Current time as seen by the garden
+ */
+export function gardenNow(): Date {
+	if (clockOverride) {
+		return clockOverride();
+	}
+	if (process.env.GARDEN_CLOCK) {
+		return new Date(process.env.GARDEN_CLOCK);
+	}
+	return new Date();
+}
+
+/**
+ * Derive the weather from recent analyses
+ * sentimentPolarity (-1..1) is preferred; emotionalBalance (0..1) is mapped onto the same scale
+ */
+export function deriveWeather(
+	samples: Array<{ emotionalBalance: number | null; sentimentPolarity: number | null }>
+): Weather {
+	const moods = samples
+		.map(sample => {
+			if (sample.sentimentPolarity !== null && sample.sentimentPolarity !== undefined) {
+				return sample.sentimentPolarity;
+			}
+			if (sample.emotionalBalance !== null && sample.emotionalBalance !== undefined) {
+				return (sample.emotionalBalance - 0.5) * 2;
+			}
+			return null;
+		})
+		.filter((mood): mood is number => mood !== null && Number.isFinite(mood));
+
+	if (moods.length === 0) {
+		return 'sunny';
+	}
+
+	const averageMood = moods.reduce((sum, mood) => sum + mood, 0) / moods.length;
+
+	if (averageMood >= 0.2) return 'sunny';
+	if (averageMood >= -0.1) return 'cloudy';
+	if (averageMood >= -0.5) return 'rainy';
+	return 'stormy';
+}
+
+/**
+ * Compute the current weather for a user from their recent analyses
+ */
+export async function computeWeather(tx: Transaction, userId: string, now: Date): Promise<Weather> {
+	const since = new Date(now.getTime() - WEATHER_LOOKBACK_DAYS * 24 * HOUR_MS).toISOString();
+
+	const recentAnalyses = await tx
+		.select({
+			emotionalBalance: analyses.emotionalBalance,
+			sentimentPolarity: analyses.sentimentPolarity
+		})
+		.from(analyses)
+		.where(and(eq(analyses.userId, userId), gte(analyses.created, since)))
+		.orderBy(desc(analyses.created))
+		.limit(WEATHER_SAMPLE_SIZE);
+
+	return deriveWeather(recentAnalyses);
+}
+
+export function needsWeatherUpdate(lastWeatherUpdate: string | null, now: Date): boolean {
+	if (!lastWeatherUpdate) return true;
+	return now.getTime() - new Date(lastWeatherUpdate).getTime() >= WEATHER_REFRESH_HOURS * HOUR_MS;
+}
+
+function getHoursPerStage(rarity: string | null | undefined): number {
+	return (rarity && HOURS_PER_STAGE_BY_RARITY[rarity]) || DEFAULT_HOURS_PER_STAGE;
+}
+
+/**
+ * Advance every planted plot from its last evaluation up to `now`
+ * Progress accumulates per interval, so a weather change never makes a plant shrink
+ */
+export function advanceGrowth(
+	grid: GridData,
+	weather: Weather,
+	rarityByItem: Map<string, string | null>,
+	now: Date
+): { grid: GridData; changed: boolean } {
+	let changed = false;
+	const multiplier = WEATHER_GROWTH_MULTIPLIER[weather];
+
+	const plots = grid.plots.map((plot): GardenPlot => {
+		if (!plot.plant_id || !plot.planted_at) {
+			return plot;
+		}
+
+		const lastUpdate = plot.growth_updated_at || plot.planted_at;
+		const elapsedHours = Math.max(0, (now.getTime() - new Date(lastUpdate).getTime()) / HOUR_MS);
+		if (!Number.isFinite(elapsedHours) || elapsedHours === 0) {
+			return plot;
+		}
+
+		const progress = Math.min(
+			MAX_GROWTH_STAGE,
+			(plot.growth_progress ?? plot.growth_stage) + (elapsedHours * multiplier) / getHoursPerStage(rarityByItem.get(plot.plant_id))
+		);
+
+		changed = true;
+		return {
+			...plot,
+			growth_progress: progress,
+			growth_stage: Math.max(plot.growth_stage, Math.floor(progress)),
+			growth_updated_at: now.toISOString()
+		};
+	});
+
+	return { grid: { plots }, changed };
+}
+
+/**
+ * Bring a locked garden row up to date: refresh stale weather and advance plant growth
+ */
+export async function evaluateGarden(
+	tx: Transaction,
+	garden: GardenRow,
+	grid: GridData
+): Promise<{ garden: GardenRow; grid: GridData }> {
+	const now = gardenNow();
+	const updates: Partial<GardenRow> = {};
+
+	let weather = (garden.currentWeather || 'sunny') as Weather;
+	if (needsWeatherUpdate(garden.lastWeatherUpdate, now)) {
+		weather = await computeWeather(tx, garden.userId, now);
+		updates.currentWeather = weather;
+		updates.lastWeatherUpdate = now.toISOString();
+	}
+
+	const plantIds = [...new Set(grid.plots.map(plot => plot.plant_id).filter((id): id is string => !!id))];
+	const rarityByItem = new Map<string, string | null>();
+	if (plantIds.length > 0) {
+		const plantItems = await tx.select({ id: items.id, rarity: items.rarity })
+			.from(items)
+			.where(inArray(items.id, plantIds));
+		plantItems.forEach(item => rarityByItem.set(item.id, item.rarity));
+	}
+
+	const growth = advanceGrowth(grid, weather, rarityByItem, now);
+	if (growth.changed) {
+		updates.gridData = JSON.stringify(growth.grid);
+	}
+
+	if (Object.keys(updates).length === 0) {
+		return { garden, grid };
+	}
+
+	const [updated] = await tx.update(gardens)
+		.set({ ...updates, updated: now.toISOString() })
+		.where(eq(gardens.id, garden.id))
+		.returning();
+
+	return { garden: updated, grid: growth.grid };
+}
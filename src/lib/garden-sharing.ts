@@ -0,0 +1,197 @@
+/**
+ * Public garden sharing: visibility, browsing, read-only snapshots and appreciations
+ * Visitors only ever see the share slug and garden data - never the owner's id, email or name
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { and, count, desc, eq, gte, inArray, isNotNull, lt, sql } from 'drizzle-orm';
+import { gardenAppreciations, gardens, items, messages } from '../../drizzle/schema.js';
+import { db } from './db.js';
+import { GardenError, lockGarden, parseGridData } from './garden.js';
+
+export const APPRECIATION_MAX_LENGTH = 280;
+// Per visitor: one appreciation per garden and a global cap, both per rolling day
+export const APPRECIATIONS_PER_GARDEN_PER_DAY = 1;
+export const APPRECIATIONS_PER_VISITOR_PER_DAY = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function generateShareSlug(): string {
+	return randomBytes(6).toString('hex');
+}
+
+// Keyed with a server secret so the ledger can't be matched against known user ids
+function appreciationVisitorKey(visitorId: string): string {
+	const secret = process.env.APPRECIATION_SECRET || process.env.BETTER_AUTH_SECRET;
+	if (!secret) {
+		throw new Error('APPRECIATION_SECRET (or BETTER_AUTH_SECRET) environment variable is required');
+	}
+	return createHmac('sha256', secret).update(visitorId).digest('hex');
+}
+
+/**
+ * Make the user's garden public or private
+ * A share slug is created on first publish and kept so existing links stay valid
+ */
+export async function setGardenVisibility(userId: string, isPublic: boolean) {
+	return db.transaction(async (tx) => {
+		const garden = await lockGarden(tx, userId);
+
+		const [updated] = await tx.update(gardens)
+			.set({
+				isPublic,
+				shareSlug: garden.shareSlug || (isPublic ? generateShareSlug() : null),
+				updated: new Date().toISOString()
+			})
+			.where(eq(gardens.id, garden.id))
+			.returning({ isPublic: gardens.isPublic, shareSlug: gardens.shareSlug });
+
+		return updated;
+	});
+}
+
+/**
+ * List public gardens with pagination
+ */
+export async function listPublicGardens(page: number, perPage: number) {
+	const filter = and(eq(gardens.isPublic, true), isNotNull(gardens.shareSlug));
+
+	const publicGardens = await db
+		.select({
+			shareSlug: gardens.shareSlug,
+			name: gardens.name,
+			currentWeather: gardens.currentWeather,
+			totalPlants: gardens.totalPlants,
+			gardenLevel: gardens.gardenLevel,
+			updated: gardens.updated
+		})
+		.from(gardens)
+		.where(filter)
+		.orderBy(desc(gardens.updated))
+		.limit(perPage)
+		.offset((page - 1) * perPage);
+
+	const [{ total }] = await db
+		.select({ total: count() })
+		.from(gardens)
+		.where(filter);
+
+	return {
+		gardens: publicGardens,
+		totalPages: Math.ceil(Number(total) / perPage),
+		currentPage: page
+	};
+}
+
+async function getPublicGardenRow(shareSlug: string) {
+	const [garden] = await db.select().from(gardens)
+		.where(and(eq(gardens.shareSlug, shareSlug), eq(gardens.isPublic, true)))
+		.limit(1);
+
+	return garden || null;
+}
+
+/**
+ * Read-only snapshot of a public garden
+ * Growth is shown as last evaluated by the owner; visiting never mutates the garden
+ */
+export async function getPublicGardenSnapshot(shareSlug: string) {
+	const garden = await getPublicGardenRow(shareSlug);
+	if (!garden) {
+		return null;
+	}
+
+	const grid = parseGridData(garden.gridData);
+	const plantIds = [...new Set(grid.plots.map(plot => plot.plant_id).filter((id): id is string => !!id))];
+	const plantItems = plantIds.length > 0
+		? await db.select({
+			id: items.id,
+			name: items.name,
+			category: items.category,
+			rarity: items.rarity,
+			sprite: items.sprite
+		}).from(items).where(inArray(items.id, plantIds))
+		: [];
+
+	return {
+		shareSlug: garden.shareSlug,
+		name: garden.name,
+		currentWeather: garden.currentWeather,
+		totalPlants: garden.totalPlants,
+		gardenLevel: garden.gardenLevel,
+		gridData: {
+			plots: grid.plots.map(plot => ({
+				x: plot.x,
+				y: plot.y,
+				type: plot.type,
+				build_level: plot.build_level,
+				plant_id: plot.plant_id,
+				growth_stage: plot.growth_stage
+			}))
+		},
+		items: plantItems
+	};
+}
+
+/**
+ * Leave an appreciation for a public garden; it lands in the owner's inbox
+ */
+export async function sendGardenAppreciation(visitorId: string, shareSlug: string, note?: string) {
+	const garden = await getPublicGardenRow(shareSlug);
+	if (!garden) {
+		throw new GardenError('Garden not found', 404);
+	}
+
+	if (garden.userId === visitorId) {
+		throw new GardenError('You cannot appreciate your own garden');
+	}
+
+	const trimmedNote = typeof note === 'string' ? note.trim() : '';
+	if (trimmedNote.length > APPRECIATION_MAX_LENGTH) {
+		throw new GardenError(`Message must be at most ${APPRECIATION_MAX_LENGTH} characters`);
+	}
+
+	const message = await db.transaction(async (tx) => {
+		// Serialise appreciations per visitor so the rate limit can't be raced
+		await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`garden_appreciation:${visitorId}`}))`);
+
+		const visitorKey = appreciationVisitorKey(visitorId);
+		const since = new Date(Date.now() - DAY_MS).toISOString();
+
+		// Only the last day matters for the limits
+		await tx.delete(gardenAppreciations)
+			.where(and(eq(gardenAppreciations.visitorKey, visitorKey), lt(gardenAppreciations.created, since)));
+
+		const recent = await tx
+			.select({ gardenId: gardenAppreciations.gardenId })
+			.from(gardenAppreciations)
+			.where(and(eq(gardenAppreciations.visitorKey, visitorKey), gte(gardenAppreciations.created, since)));
+
+		if (recent.filter(row => row.gardenId === garden.id).length >= APPRECIATIONS_PER_GARDEN_PER_DAY) {
+			throw new GardenError('You already appreciated this garden today', 429);
+		}
+
+		if (recent.length >= APPRECIATIONS_PER_VISITOR_PER_DAY) {
+			throw new GardenError('Too many appreciations today', 429);
+		}
+
+		const now = new Date().toISOString();
+		const [inserted] = await tx.insert(messages).values({
+			id: randomUUID(),
+			userId: garden.userId,
+			type: 'garden_appreciation',
+			title: 'Jemand hat deinen Garten bewundert 🌸',
+			content: trimmedNote || 'Ein Besuch in deinem Garten hat jemandem Freude gemacht.',
+			read: false,
+			sentAt: now
+		}).returning({ id: messages.id, created: messages.created });
+
+		await tx.insert(gardenAppreciations).values({ gardenId: garden.id, visitorKey });
+
+		return inserted;
+	});
+
+	console.log(`🌸 Garden appreciation sent to garden ${garden.id}`);
+
+	return message;
+}
@@ -0,0 +1,462 @@
+/**
+ * Garden system: 9x9 grid persistence, item inventory and seed currency
+ * All mutations run inside a transaction with row locks so concurrent taps can't double-spend
+ */
+
+import { randomUUID } from 'crypto';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { gardens, items, seedLedger, userItems, userSeeds } from '../../drizzle/schema.js';
+import { db } from './db.js';
+import { evaluateGarden, gardenNow } from './garden-growth.js';
+
+export const GRID_SIZE = 9;
+export const MAX_BUILD_LEVEL = 5;
+export const STARTING_SEEDS = 20;
+
+export type PlotType = 'grass' | 'dirt' | 'water';
+
+export interface GardenPlot {
+	x: number;
+	y: number;
+	type: PlotType;
+	build_level: number;
+	plant_id: string | null;
+	planted_at: string | null;
+	growth_stage: number;
+	growth_progress?: number; // fractional stage, advanced by the growth engine
+	growth_updated_at?: string | null;
+}
+
+export interface GridData {
+	plots: GardenPlot[];
+}
+
+/**
+ * Domain error carrying the HTTP status the route should respond with
+ */
+export class GardenError extends Error {
+	constructor(message: string, public status: 400 | 403 | 404 | 429 = 400) {
+		super(message);
+		this.name = 'GardenError';
+	}
+}
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type GardenRow = typeof gardens.$inferSelect;
+
+/**
+ * Check that plot coordinates lie inside the grid
+ */
+export function isValidPlot(plotX: number, plotY: number): boolean {
+	return Number.isInteger(plotX) && Number.isInteger(plotY) &&
+		plotX >= 0 && plotX < GRID_SIZE &&
+		plotY >= 0 && plotY < GRID_SIZE;
+}
+
+export function getPlotIndex(plotX: number, plotY: number): number {
+	return plotY * GRID_SIZE + plotX;
+}
+
+function createEmptyPlot(x: number, y: number): GardenPlot {
+	return {
+		x,
+		y,
+		type: 'grass',
+		build_level: 0,
+		plant_id: null,
+		planted_at: null,
+		growth_stage: 0
+	};
+}
+
+export function createEmptyGrid(): GridData {
+	const plots: GardenPlot[] = [];
+	for (let y = 0; y < GRID_SIZE; y++) {
+		for (let x = 0; x < GRID_SIZE; x++) {
+			plots.push(createEmptyPlot(x, y));
+		}
+	}
+	return { plots };
+}
+
+/**
+ * Parse stored grid data, filling in any missing or malformed plots
+ */
+export function parseGridData(raw: string | null): GridData {
+	const grid = createEmptyGrid();
+	if (!raw) return grid;
+
+	try {
+		const parsed = JSON.parse(raw);
+		const storedPlots: any[] = Array.isArray(parsed?.plots) ? parsed.plots : [];
+		storedPlots.forEach((plot, index) => {
+			if (index < grid.plots.length && plot && typeof plot === 'object') {
+				grid.plots[index] = { ...grid.plots[index], ...plot, x: grid.plots[index].x, y: grid.plots[index].y };
+			}
+		});
+	} catch (error) {
+		console.warn('Failed to parse garden grid data, using empty grid');
+	}
+
+	return grid;
+}
+
+export interface SeedAdjustment {
+	reason: string;
+	itemId?: string | null;
+	sourceType?: string;
+	sourceId?: string;
+}
+
+/**
+ * Adjust a user's seed balance and record the change in the ledger
+ * Throws if the balance would drop below zero. Adjustments carrying a source
+ * are applied at most once per user, source type and source id.
+ */
+export async function adjustSeeds(
+	tx: Transaction,
+	userId: string,
+	amount: number,
+	adjustment: SeedAdjustment
+): Promise<{ balance: number; duplicate: boolean }> {
+	await tx.insert(userSeeds)
+		.values({ id: randomUUID(), userId, balance: 0 })
+		.onConflictDoNothing({ target: userSeeds.userId });
+
+	// The row lock serialises all ledger writes for this user
+	const [seeds] = await tx.select().from(userSeeds)
+		.where(eq(userSeeds.userId, userId))
+		.for('update');
+
+	if (adjustment.sourceType && adjustment.sourceId) {
+		const [existing] = await tx.select({ id: seedLedger.id }).from(seedLedger)
+			.where(and(
+				eq(seedLedger.userId, userId),
+				eq(seedLedger.sourceType, adjustment.sourceType),
+				eq(seedLedger.sourceId, adjustment.sourceId)
+			))
+			.limit(1);
+
+		if (existing) {
+			return { balance: seeds.balance, duplicate: true };
+		}
+	}
+
+	const newBalance = seeds.balance + amount;
+	if (newBalance < 0) {
+		throw new GardenError('Not enough seeds');
+	}
+
+	await tx.update(userSeeds)
+		.set({ balance: newBalance, updated: new Date().toISOString() })
+		.where(eq(userSeeds.id, seeds.id));
+
+	await tx.insert(seedLedger).values({
+		userId,
+		amount,
+		balanceAfter: newBalance,
+		reason: adjustment.reason,
+		itemId: adjustment.itemId ?? null,
+		sourceType: adjustment.sourceType ?? null,
+		sourceId: adjustment.sourceId ?? null
+	});
+
+	return { balance: newBalance, duplicate: false };
+}
+
+/**
+ * Lock the user's garden row for this transaction, creating it on first access
+ */
+export async function lockGarden(tx: Transaction, userId: string): Promise<GardenRow> {
+	// gardens has no unique constraint on user_id, so serialise creation per user
+	await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`garden:${userId}`}))`);
+
+	const [existing] = await tx.select().from(gardens)
+		.where(eq(gardens.userId, userId))
+		.orderBy(gardens.created)
+		.limit(1)
+		.for('update');
+
+	if (existing) return existing;
+
+	const [created] = await tx.insert(gardens).values({
+		id: randomUUID(),
+		userId,
+		gridData: JSON.stringify(createEmptyGrid()),
+		totalPlants: 0
+	}).returning();
+
+	await adjustSeeds(tx, userId, STARTING_SEEDS, { reason: 'welcome' });
+	console.log(`🌱 Created garden ${created.id} for user ${userId}`);
+
+	return created;
+}
+
+async function saveGrid(tx: Transaction, gardenId: string, gridData: GridData, totalPlants: number): Promise<void> {
+	await tx.update(gardens)
+		.set({
+			gridData: JSON.stringify(gridData),
+			totalPlants,
+			updated: new Date().toISOString()
+		})
+		.where(eq(gardens.id, gardenId));
+}
+
+/**
+ * Remove one unit of an item from the inventory, returning the remaining quantity
+ */
+async function takeFromInventory(tx: Transaction, userId: string, itemId: string): Promise<number> {
+	const [userItem] = await tx.select().from(userItems)
+		.where(and(eq(userItems.userId, userId), eq(userItems.itemId, itemId)))
+		.for('update');
+
+	if (!userItem || userItem.quantity < 1) {
+		throw new GardenError('Item not in inventory');
+	}
+
+	const newQuantity = userItem.quantity - 1;
+	if (newQuantity > 0) {
+		await tx.update(userItems)
+			.set({ quantity: newQuantity, updated: new Date().toISOString() })
+			.where(eq(userItems.id, userItem.id));
+	} else {
+		await tx.delete(userItems).where(eq(userItems.id, userItem.id));
+	}
+
+	return newQuantity;
+}
+
+async function addToInventory(tx: Transaction, userId: string, itemId: string, quantity: number): Promise<void> {
+	const now = new Date().toISOString();
+	await tx.insert(userItems)
+		.values({ id: randomUUID(), userId, itemId, quantity, acquiredAt: now })
+		.onConflictDoUpdate({
+			target: [userItems.userId, userItems.itemId],
+			set: { quantity: sql`${userItems.quantity} + ${quantity}`, updated: now }
+		});
+}
+
+/**
+ * Get the user's garden (created on first access) and seed balance
+ */
+export async function getGarden(userId: string) {
+	return db.transaction(async (tx) => {
+		const locked = await lockGarden(tx, userId);
+		const { garden, grid } = await evaluateGarden(tx, locked, parseGridData(locked.gridData));
+		const [seeds] = await tx.select().from(userSeeds)
+			.where(eq(userSeeds.userId, userId))
+			.limit(1);
+
+		return {
+			garden: { ...garden, gridData: grid },
+			userSeeds: seeds || null
+		};
+	});
+}
+
+/**
+ * Get the user's inventory with item details
+ */
+export async function getInventory(userId: string) {
+	return db.select({
+		id: userItems.id,
+		item: userItems.itemId,
+		quantity: userItems.quantity,
+		acquired_at: userItems.acquiredAt,
+		itemData: {
+			id: items.id,
+			name: items.name,
+			description: items.description,
+			category: items.category,
+			terraformType: items.terraformType,
+			rarity: items.rarity,
+			sprite: items.sprite
+		}
+	})
+		.from(userItems)
+		.leftJoin(items, eq(userItems.itemId, items.id))
+		.where(eq(userItems.userId, userId))
+		.orderBy(userItems.acquiredAt);
+}
+
+/**
+ * List items that can be purchased
+ */
+export async function listShopItems() {
+	return db.select().from(items)
+		.where(eq(items.isActive, true))
+		.orderBy(items.seedCost, items.name);
+}
+
+/**
+ * Get the user's seed balance and most recent ledger entries
+ */
+export async function getSeedLedger(userId: string, limit: number = 50) {
+	const [seeds] = await db.select().from(userSeeds)
+		.where(eq(userSeeds.userId, userId))
+		.limit(1);
+
+	const entries = await db.select().from(seedLedger)
+		.where(eq(seedLedger.userId, userId))
+		.orderBy(desc(seedLedger.created))
+		.limit(limit);
+
+	return {
+		balance: seeds?.balance ?? 0,
+		entries
+	};
+}
+
+/**
+ * Place an item from the inventory on a plot
+ * Terraform items change the terrain; everything else is planted
+ */
+export async function plantItem(userId: string, plotX: number, plotY: number, itemId: string) {
+	return db.transaction(async (tx) => {
+		const garden = await lockGarden(tx, userId);
+
+		const [item] = await tx.select().from(items)
+			.where(eq(items.id, itemId))
+			.limit(1);
+
+		if (!item) {
+			throw new GardenError('Item not found', 404);
+		}
+
+		const gridData = parseGridData(garden.gridData);
+		const plotIndex = getPlotIndex(plotX, plotY);
+		const currentPlot = gridData.plots[plotIndex];
+		let totalPlants = garden.totalPlants || 0;
+
+		if (item.category === 'terraform') {
+			const terraformType = item.terraformType;
+			if (terraformType !== 'dirt' && terraformType !== 'water') {
+				throw new GardenError('Unknown terraform type');
+			}
+			if (terraformType === 'dirt' && currentPlot.build_level >= MAX_BUILD_LEVEL) {
+				throw new GardenError('Plot is already at maximum height');
+			}
+
+			const remainingQuantity = await takeFromInventory(tx, userId, item.id);
+
+			// Flooding a plot returns its plant to the inventory instead of destroying it
+			if (terraformType === 'water' && currentPlot.plant_id) {
+				await addToInventory(tx, userId, currentPlot.plant_id, 1);
+				totalPlants = Math.max(0, totalPlants - 1);
+			}
+
+			gridData.plots[plotIndex] = {
+				...currentPlot,
+				type: terraformType,
+				build_level: terraformType === 'dirt' ? currentPlot.build_level + 1 : currentPlot.build_level,
+				plant_id: terraformType === 'water' ? null : currentPlot.plant_id,
+				planted_at: terraformType === 'water' ? null : currentPlot.planted_at,
+				growth_stage: terraformType === 'water' ? 0 : currentPlot.growth_stage,
+				growth_progress: terraformType === 'water' ? 0 : currentPlot.growth_progress,
+				growth_updated_at: terraformType === 'water' ? null : currentPlot.growth_updated_at
+			};
+
+			await saveGrid(tx, garden.id, gridData, totalPlants);
+
+			return {
+				plot: gridData.plots[plotIndex],
+				remainingQuantity,
+				terraform: true
+			};
+		}
+
+		if (currentPlot.plant_id) {
+			throw new GardenError('Plot already occupied');
+		}
+		if (currentPlot.type === 'water') {
+			throw new GardenError('Cannot plant on water');
+		}
+
+		const remainingQuantity = await takeFromInventory(tx, userId, item.id);
+
+		const plantedAt = gardenNow().toISOString();
+		gridData.plots[plotIndex] = {
+			...currentPlot,
+			plant_id: item.id,
+			planted_at: plantedAt,
+			growth_stage: 0,
+			growth_progress: 0,
+			growth_updated_at: plantedAt
+		};
+
+		await saveGrid(tx, garden.id, gridData, totalPlants + 1);
+
+		return {
+			plot: gridData.plots[plotIndex],
+			remainingQuantity,
+			terraform: false
+		};
+	});
+}
+
+/**
+ * Remove the plant from a plot and return it to the inventory
+ */
+export async function unplantItem(userId: string, plotX: number, plotY: number) {
+	return db.transaction(async (tx) => {
+		const garden = await lockGarden(tx, userId);
+
+		const gridData = parseGridData(garden.gridData);
+		const plotIndex = getPlotIndex(plotX, plotY);
+		const plot = gridData.plots[plotIndex];
+
+		if (!plot.plant_id) {
+			throw new GardenError('Plot is empty');
+		}
+
+		const plantId = plot.plant_id;
+
+		gridData.plots[plotIndex] = {
+			...plot,
+			plant_id: null,
+			planted_at: null,
+			growth_stage: 0,
+			growth_progress: 0,
+			growth_updated_at: null
+		};
+
+		await saveGrid(tx, garden.id, gridData, Math.max(0, (garden.totalPlants || 0) - 1));
+		await addToInventory(tx, userId, plantId, 1);
+
+		return {
+			plot: gridData.plots[plotIndex],
+			returnedItem: plantId
+		};
+	});
+}
+
+/**
+ * Buy an item with seeds and add it to the inventory
+ */
+export async function purchaseItem(userId: string, itemId: string, quantity: number = 1) {
+	if (!Number.isInteger(quantity) || quantity < 1 || quantity > 99) {
+		throw new GardenError('Quantity must be between 1 and 99');
+	}
+
+	return db.transaction(async (tx) => {
+		const [item] = await tx.select().from(items)
+			.where(and(eq(items.id, itemId), eq(items.isActive, true)))
+			.limit(1);
+
+		if (!item) {
+			throw new GardenError('Item not found', 404);
+		}
+
+		const cost = (item.seedCost || 0) * quantity;
+		const { balance: remainingSeeds } = await adjustSeeds(tx, userId, -cost, { reason: 'purchase', itemId: item.id });
+		await addToInventory(tx, userId, item.id, quantity);
+
+		console.log(`🛒 User ${userId} purchased ${quantity}x ${item.name} for ${cost} seeds`);
+
+		return {
+			item,
+			quantity,
+			remainingSeeds
+		};
+	});
+}
@@ -1,28 +1,12 @@
 /**
- * Gemini AI client for chat functionality
+ * Conversational AI responses and path switching analysis
+ * Model calls go through the configured chat model provider (see chat-models.ts)
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { complete, parseJsonResponse, streamCompletion, type ChatTurn } from './chat-models.js';
 import type { HistoryEntry } from './encryption.js';
 import { CONVERSATION_PATHS } from './paths.js';
 
-// Initialize Gemini AI client
-let aiClient: GoogleGenAI | null = null;
-
-function getAiClient(): GoogleGenAI {
-	if (!aiClient) {
-		const apiKey = process.env.GEMINI_API_KEY;
-		if (!apiKey) {
-			throw new Error('GEMINI_API_KEY environment variable is required');
-		}
-		aiClient = new GoogleGenAI({ apiKey });
-	}
-	return aiClient;
-}
-
-// Export the client for use in other modules
-export { getAiClient };
-
 // Path Switching Analysis Types
 export type PathSwitchAnalysis = {
 	shouldSwitch: boolean;
@@ -79,7 +63,48 @@ export function convertHistoryToGemini(dbHistory: HistoryEntry[], maxMessages: n
 }
 
 /**
- * Send a message to Gemini and get AI response
+ * Request for a conversational response on the current path
+ */
+function createResponseCall(message: string, history: HistoryEntry[], systemInstruction: string) {
+	const chatHistory: ChatTurn[] = convertHistoryToGemini(history)
+		.map(entry => ({ role: entry.role, text: entry.parts.map(part => part.text).join('') }));
+
+	console.log('Sending to chat model:', {
+		historyLength: chatHistory.length,
+		systemInstructionLength: systemInstruction.length
+	});
+
+	return {
+		role: 'response' as const,
+		geminiModel: 'gemini-2.5-flash',
+		message,
+		history: chatHistory,
+		systemInstruction,
+		temperature: 0.7,
+		topP: 0.95,
+		topK: 64,
+		maxOutputTokens: 8192
+	};
+}
+
+/**
+ * Map raw provider errors to user-friendly errors
+ */
+function toFriendlyAiError(error: unknown): Error {
+	if (error instanceof Error) {
+		if (error.message.includes('API key') || error.message.includes('LLM_PROVIDER')) {
+			return new Error('AI service not configured. Please check the LLM provider settings in the environment.');
+		}
+		if (error.message.includes('quota') || error.message.includes('limit')) {
+			return new Error('AI service temporarily unavailable. Please try again in a moment.');
+		}
+	}
+
+	return new Error('Failed to get AI response. Please try again.');
+}
+
+/**
+ * Send a message to the chat model and get the AI response
  */
 export async function getAiResponse(
 	message: string,
@@ -87,36 +112,9 @@ export async function getAiResponse(
 	systemInstruction: string
 ): Promise<string> {
 	try {
-		const ai = getAiClient();
+		const responseText = await complete(createResponseCall(message, history, systemInstruction));
 
-		// Convert history to Gemini format
-		const geminiHistory = convertHistoryToGemini(history);
-
-		console.log('Sending to Gemini:', {
-			messageLength: message.length,
-			historyLength: geminiHistory.length,
-			systemInstructionLength: systemInstruction.length
-		});
-
-		// Create chat with system instruction and history
-		const chat = ai.chats.create({
-			model: 'gemini-2.5-flash',
-			config: {
-				temperature: 0.7,
-				topP: 0.95,
-				topK: 64,
-				maxOutputTokens: 8192,
-				systemInstruction
-			},
-			history: geminiHistory
-		});
-
-		// Send the new message
-		const result = await chat.sendMessage({ message });
-
-		const responseText = result.text || '';
-
-		console.log('Gemini response received:', {
+		console.log('AI response received:', {
 			responseLength: responseText.length,
 			truncated: responseText.substring(0, 100) + '...'
 		});
@@ -125,19 +123,31 @@ export async function getAiResponse(
 
 	} catch (error) {
 		console.error('Error getting AI response:', error);
+		throw toFriendlyAiError(error);
+	}
+}
 
-		// Return a friendly error message
-		if (error instanceof Error) {
-			if (error.message.includes('API key')) {
-				throw new Error('AI service not configured. Please add GEMINI_API_KEY to environment.');
-			}
-			if (error.message.includes('quota') || error.message.includes('limit')) {
-				throw new Error('AI service temporarily unavailable. Please try again in a moment.');
-			}
-		}
+/**
+ * Send a message to the chat model and yield the response text incrementally
+ */
+export async function* streamAiResponse(
+	message: string,
+	history: HistoryEntry[],
+	systemInstruction: string
+): AsyncGenerator<string> {
+	let responseLength = 0;
 
-		throw new Error('Failed to get AI response. Please try again.');
+	try {
+		for await (const text of streamCompletion(createResponseCall(message, history, systemInstruction))) {
+			responseLength += text.length;
+			yield text;
+		}
+	} catch (error) {
+		console.error('Error streaming AI response:', error);
+		throw toFriendlyAiError(error);
 	}
+
+	console.log('AI stream completed:', { responseLength });
 }
 
 /**
@@ -177,6 +187,49 @@ export async function getAiResponseWithRetry(
 	throw lastError || new Error('Failed to get AI response after multiple attempts');
 }
 
+/**
+ * Retry logic for streamed AI responses
+ * Only retries while nothing has been yielded yet, so callers never see duplicated text
+ */
+export async function* streamAiResponseWithRetry(
+	message: string,
+	history: HistoryEntry[],
+	systemInstruction: string,
+	maxRetries: number = 3
+): AsyncGenerator<string> {
+	let lastError: Error | null = null;
+
+	for (let attempt = 0; attempt < maxRetries; attempt++) {
+		let yielded = false;
+		try {
+			for await (const chunk of streamAiResponse(message, history, systemInstruction)) {
+				yielded = true;
+				yield chunk;
+			}
+			return;
+		} catch (error) {
+			lastError = error instanceof Error ? error : new Error('Unknown error');
+
+			console.log(`AI stream attempt ${attempt + 1} failed:`, lastError.message);
+
+			// Partial output already reached the client, or retrying cannot help
+			if (yielded || lastError.message.includes('not configured') || lastError.message.includes('API key')) {
+				throw lastError;
+			}
+
+			// Wait before retry (exponential backoff)
+			if (attempt < maxRetries - 1) {
+				const delay = Math.pow(2, attempt) * 1000; // 1s, 2s, 4s
+				console.log(`Waiting ${delay}ms before retry...`);
+				await new Promise(resolve => setTimeout(resolve, delay));
+			}
+		}
+	}
+
+	// All retries failed
+	throw lastError || new Error('Failed to get AI response after multiple attempts');
+}
+
 /**
  * Analyze whether the user wants to switch conversation paths
  */
@@ -189,8 +242,6 @@ export async function analyzePathSwitchingIntent(
 	console.log('::analyzePathSwitchingIntent - Received currentPath:', currentPath);
 	console.log('::analyzePathSwitchingIntent - User message:', message);
 	try {
-		const ai = getAiClient();
-
 		const systemPrompt = `Du bist ein Experte für Gesprächsanalyse und Gewaltfreie Kommunikation. Analysiere, ob der Nutzer zu einem anderen Gesprächspfad wechseln möchte.
 
 Aktueller Pfad: ${currentPath}
@@ -255,14 +306,6 @@ Antworte ausschließlich mit einem JSON-Objekt:
   "currentPathComplete": boolean
 }`;
 
-		const model = ai.chats.create({
-			model: 'gemini-2.5-flash',
-			config: {
-				temperature: 0.1,
-				systemInstruction: systemPrompt
-			}
-		});
-
 		// Include recent context for better analysis
 		const contextMessage = `AKTUELLER PFAD: ${currentPath}
 
@@ -273,18 +316,15 @@ ${recentHistory.slice(-4).map(h => `${h.role}: ${h.content}`).join('\n')}
 
 Analysiere diese Nachricht und bestimme, ob der Nutzer vom aktuellen Pfad "${currentPath}" zu einem anderen Pfad wechseln möchte.`;
 
-		const result = await model.sendMessage({ message: contextMessage });
-		const responseText = result.text || '{}';
-
-		// Clean the response text
-		let cleanedResponseText = responseText.trim();
-		if (cleanedResponseText.startsWith('```json')) {
-			cleanedResponseText = cleanedResponseText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-		} else if (cleanedResponseText.startsWith('```')) {
-			cleanedResponseText = cleanedResponseText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-		}
+		const responseText = await complete({
+			role: 'orchestration',
+			geminiModel: 'gemini-2.5-flash',
+			message: contextMessage,
+			systemInstruction: systemPrompt,
+			temperature: 0.1
+		});
 
-		const analysis = JSON.parse(cleanedResponseText) as PathSwitchAnalysis;
+		const analysis = parseJsonResponse<PathSwitchAnalysis>(responseText);
 		console.log('🔍 Path switching analysis result:');
 		console.log('   Current path (from parameter):', currentPath);
 		console.log('   Should switch:', analysis.shouldSwitch);
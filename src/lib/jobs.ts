@@ -0,0 +1,78 @@
+/**
+ * Built-in background jobs run by the scheduler
+ */
+
+import { refreshStaleBlindSpots } from './blind-spots.js';
+import { advanceEmbeddingReindex } from './embedding-reindex.js';
+import { notifyDueLearnReviews } from './learn-reviews.js';
+import { publishDueLearnTopicVersions } from './learn-versions.js';
+import { processMemoryExtractionQueue } from './memory-queue.js';
+import { sweepMemories } from './memory-sweeper.js';
+import { processScheduled } from './scheduled-messages.js';
+import { pruneJobRuns, registerJob } from './scheduler.js';
+
+let registered = false;
+
+export function registerDefaultJobs(): void {
+	if (registered) return;
+	registered = true;
+
+	registerJob({
+		name: 'scheduled-messages',
+		description: 'Send scheduled messages and due reminders',
+		intervalMinutes: 1,
+		run: async () => (await processScheduled()).summary
+	});
+
+	registerJob({
+		name: 'memory-extraction',
+		description: 'Extract memories from completed chats in the extraction queue',
+		intervalMinutes: 1,
+		run: async () => processMemoryExtractionQueue()
+	});
+
+	registerJob({
+		name: 'memory-sweeper',
+		description: 'Purge expired memories, decay relevance and promote frequently used episodic memories',
+		intervalMinutes: 60,
+		run: async () => {
+			const report = await sweepMemories();
+			return { expired: report.expired.count, decayed: report.decayed.count, promoted: report.promoted.count };
+		}
+	});
+
+	registerJob({
+		name: 'blind-spots-refresh',
+		description: 'Regenerate week-old blind spot analyses for users with new chats',
+		intervalMinutes: 24 * 60,
+		run: async () => refreshStaleBlindSpots()
+	});
+
+	registerJob({
+		name: 'embedding-reindex',
+		description: 'Resume the active re-embedding job until all rows are done; an admin swaps it in',
+		intervalMinutes: 5,
+		run: async () => advanceEmbeddingReindex()
+	});
+
+	registerJob({
+		name: 'learn-publish',
+		description: 'Publish learn topic versions whose scheduled publish time has passed',
+		intervalMinutes: 1,
+		run: async () => publishDueLearnTopicVersions()
+	});
+
+	registerJob({
+		name: 'learn-reviews',
+		description: 'Message learners whose spaced repetition reviews became due',
+		intervalMinutes: 60,
+		run: async () => notifyDueLearnReviews()
+	});
+
+	registerJob({
+		name: 'job-runs-cleanup',
+		description: 'Delete job run history older than JOB_RUN_RETENTION_DAYS',
+		intervalMinutes: 24 * 60,
+		run: async () => pruneJobRuns()
+	});
+}
@@ -0,0 +1,209 @@
+/**
+ * Server-side grading of learn session responses
+ *
+ * Answers are checked against the blocks of the session's pinned topic version, never against
+ * anything the client claims. Pages are split at nextPage / pageNavigation blocks; the session
+ * score covers every gradable block of the version, so unanswered blocks count as 0.
+ */
+
+import { eq } from 'drizzle-orm';
+import { learnTopicVersions } from '../../drizzle/schema.js';
+import { needsData } from './data/needs.js';
+import { db } from './db.js';
+import type { ContentBlock, MultipleChoiceBlock, SortableBlock } from '../shared/learn-content.js';
+
+const GRADABLE_TYPES = new Set(['multipleChoice', 'sortable', 'needsDetective']);
+const PAGE_BREAK_TYPES = new Set(['nextPage', 'pageNavigation']);
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface LearnResponseGrade {
+	blockIndex: number;
+	type: string;
+	page: number;
+	status: 'graded' | 'ungraded' | 'invalid';
+	correct: boolean | null;
+	score: number | null; // 0-1
+	details?: Record<string, unknown>;
+	error?: string;
+}
+
+export interface LearnPageScore {
+	page: number;
+	gradable: number;
+	answered: number;
+	score: number | null;
+}
+
+export interface LearnSessionGrading {
+	versionId: string;
+	gradedAt: string;
+	responses: LearnResponseGrade[];
+	pages: LearnPageScore[];
+	gradable: number;
+	answered: number;
+	correct: number;
+	score: number | null;
+}
+
+// Need ids and lowercased DE/EN names, so answers can use either
+const KNOWN_NEEDS = new Set(needsData.flatMap(need => [need.id, need.nameDE.toLowerCase(), need.nameEN.toLowerCase()]));
+
+function pageOfBlocks(blocks: ContentBlock[]): number[] {
+	let page = 0;
+	return blocks.map(block => {
+		const current = page;
+		if (PAGE_BREAK_TYPES.has(block?.type)) page++;
+		return current;
+	});
+}
+
+function sameSet(a: number[], b: number[]): boolean {
+	const left = new Set(a);
+	const right = new Set(b);
+	return left.size === right.size && [...left].every(value => right.has(value));
+}
+
+function gradeMultipleChoice(block: MultipleChoiceBlock, response: any) {
+	if (!Array.isArray(response.answers)) {
+		throw new Error('answers must be an array with the selected option indices per question');
+	}
+
+	const questions = block.questions.map((question, index) => {
+		const selected = Array.isArray(response.answers[index])
+			? response.answers[index].filter((value: unknown): value is number => Number.isInteger(value))
+			: [];
+		const expected = question.options.flatMap((option, optionIndex) => option.isCorrect ? [optionIndex] : []);
+		// Single-answer questions accept any one correct option
+		const correct = block.allowMultiple
+			? sameSet(selected, expected)
+			: selected.length === 1 && expected.includes(selected[0]);
+		return { question: index, selected, correct, explanation: question.explanation ?? null };
+	});
+
+	const correctCount = questions.filter(question => question.correct).length;
+	const score = questions.length > 0 ? correctCount / questions.length : 0;
+	return { correct: questions.length > 0 && correctCount === questions.length, score, details: { questions } };
+}
+
+function gradeSortable(block: SortableBlock, response: any) {
+	if (!Array.isArray(response.placements)) {
+		throw new Error('placements must be an array with "A" or "B" per item');
+	}
+
+	const items = block.items.map((item, index) => {
+		const placement = response.placements[index] === 'A' || response.placements[index] === 'B' ? response.placements[index] : null;
+		return { item: index, placement, correct: placement === item.correctBucket };
+	});
+
+	const correctCount = items.filter(item => item.correct).length;
+	const score = items.length > 0 ? correctCount / items.length : 0;
+	return { correct: items.length > 0 && correctCount === items.length, score, details: { items } };
+}
+
+// Needs detective has no answer key: an answer counts once it names at least one known need
+function gradeNeedsDetective(response: any) {
+	if (!Array.isArray(response.needs)) {
+		throw new Error('needs must be an array of need ids or names');
+	}
+
+	const needs = response.needs.filter((need: unknown): need is string => typeof need === 'string');
+	const known = needs.filter((need: string) => KNOWN_NEEDS.has(need) || KNOWN_NEEDS.has(need.toLowerCase()));
+	const unknown = needs.filter((need: string) => !known.includes(need));
+	return { correct: known.length > 0, score: known.length > 0 ? 1 : 0, details: { known, unknown } };
+}
+
+/**
+ * Grade responses against a version's blocks; the last response for a block wins
+ */
+export function gradeLearnResponses(content: unknown, responses: unknown, versionId: string): LearnSessionGrading {
+	const blocks: ContentBlock[] = Array.isArray(content) ? content : [];
+	const pages = pageOfBlocks(blocks);
+	const entries = Array.isArray(responses) ? responses : [];
+
+	const byBlock = new Map<number, LearnResponseGrade>();
+	for (const response of entries) {
+		const blockIndex = Number((response as any)?.blockIndex);
+		if (!Number.isInteger(blockIndex) || blockIndex < 0 || blockIndex >= blocks.length) {
+			continue;
+		}
+
+		const block = blocks[blockIndex];
+		const grade: LearnResponseGrade = {
+			blockIndex,
+			type: block.type,
+			page: pages[blockIndex],
+			status: 'ungraded',
+			correct: null,
+			score: null
+		};
+
+		if (GRADABLE_TYPES.has(block.type)) {
+			try {
+				if ((response as any).type !== undefined && (response as any).type !== block.type) {
+					throw new Error(`Response type "${(response as any).type}" does not match block type "${block.type}"`);
+				}
+				const result = block.type === 'multipleChoice'
+					? gradeMultipleChoice(block, response)
+					: block.type === 'sortable'
+						? gradeSortable(block, response)
+						: gradeNeedsDetective(response);
+				Object.assign(grade, { status: 'graded', ...result });
+			} catch (error) {
+				Object.assign(grade, { status: 'invalid', correct: false, score: 0, error: (error as Error).message });
+			}
+		}
+
+		byBlock.set(blockIndex, grade);
+	}
+
+	const gradableIndices = blocks.flatMap((block, index) => GRADABLE_TYPES.has(block?.type) ? [index] : []);
+	const scoreOf = (index: number) => byBlock.get(index)?.score ?? 0;
+	const isAnswered = (index: number) => byBlock.get(index)?.status === 'graded';
+
+	const pageCount = blocks.length > 0 ? pages[pages.length - 1] + 1 : 0;
+	const pageScores: LearnPageScore[] = [];
+	for (let page = 0; page < pageCount; page++) {
+		const onPage = gradableIndices.filter(index => pages[index] === page);
+		pageScores.push({
+			page,
+			gradable: onPage.length,
+			answered: onPage.filter(isAnswered).length,
+			score: onPage.length > 0 ? onPage.reduce((sum, index) => sum + scoreOf(index), 0) / onPage.length : null
+		});
+	}
+
+	const gradedResponses = Array.from(byBlock.values()).sort((a, b) => a.blockIndex - b.blockIndex);
+	return {
+		versionId,
+		gradedAt: new Date().toISOString(),
+		responses: gradedResponses,
+		pages: pageScores,
+		gradable: gradableIndices.length,
+		answered: gradableIndices.filter(isAnswered).length,
+		correct: gradedResponses.filter(grade => grade.correct === true).length,
+		score: gradableIndices.length > 0
+			? gradableIndices.reduce((sum, index) => sum + scoreOf(index), 0) / gradableIndices.length
+			: null
+	};
+}
+
+/**
+ * Grade responses against the content of a stored topic version (null if the version is gone)
+ * Session version ids are free text (e.g. migrated PocketBase ids); ids that are no uuids stay ungraded too.
+ */
+export async function gradeLearnSessionResponses(topicVersionId: string, responses: unknown): Promise<LearnSessionGrading | null> {
+	if (!UUID_PATTERN.test(topicVersionId)) {
+		console.warn(`⚠️ Topic version id ${topicVersionId} is not a uuid, learn session responses stay ungraded`);
+		return null;
+	}
+
+	const [version] = await db.select({ id: learnTopicVersions.id, content: learnTopicVersions.content })
+		.from(learnTopicVersions)
+		.where(eq(learnTopicVersions.id, topicVersionId))
+		.limit(1);
+	if (!version) {
+		console.warn(`⚠️ Topic version ${topicVersionId} not found, learn session responses stay ungraded`);
+		return null;
+	}
+	return gradeLearnResponses(version.content, responses, version.id);
+}
@@ -0,0 +1,336 @@
+/**
+ * Spaced repetition (SM-2) for completed learn topics and their quiz blocks
+ *
+ * Completing a session schedules a review of the topic and of every quiz block it answered,
+ * with the graded score as the recall quality. Due reviews are announced with one message
+ * per user; quiz blocks can be answered again on their own, topics by completing a new session.
+ */
+
+import { and, asc, eq, inArray, isNull, lte, sql } from 'drizzle-orm';
+import { learnReviews, learnSessions, learnTopicVersions, learnTopics, messages } from '../../drizzle/schema.js';
+import { db } from './db.js';
+import type { Transaction } from './garden.js';
+import { gradeLearnResponses, type LearnSessionGrading } from './learn-grading.js';
+import { LearnError } from './learn.js';
+
+export type LearnReviewRow = typeof learnReviews.$inferSelect;
+type LearnSessionRow = typeof learnSessions.$inferSelect;
+
+// Blocks that get their own review schedule
+const QUIZ_BLOCK_TYPES = new Set(['multipleChoice', 'sortable']);
+
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOTIFY_BATCH_SIZE = 500;
+
+export interface SM2State {
+	easeFactor: number;
+	intervalDays: number;
+	repetitions: number;
+}
+
+export interface DueLearnReview {
+	id: string;
+	topicId: string;
+	topicSlug: string | null;
+	topicVersionId: string;
+	titleDE: string | null;
+	titleEN: string | null;
+	blockIndex: number | null;
+	block: unknown;
+	dueAt: string;
+	lastReviewedAt: string;
+	intervalDays: number;
+	repetitions: number;
+	easeFactor: number;
+	lastQuality: number | null;
+}
+
+/**
+ * SM-2 step: quality 0-5, below 3 counts as forgotten and restarts the schedule
+ */
+export function nextSM2State(state: SM2State, quality: number): SM2State {
+	const q = Math.max(0, Math.min(5, Math.round(quality)));
+	const easeFactor = Math.max(MIN_EASE_FACTOR, state.easeFactor + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+
+	if (q < 3) {
+		return { easeFactor, intervalDays: 1, repetitions: 0 };
+	}
+
+	const intervalDays = state.repetitions === 0
+		? 1
+		: state.repetitions === 1
+			? 6
+			: Math.round(state.intervalDays * state.easeFactor);
+	return { easeFactor, intervalDays, repetitions: state.repetitions + 1 };
+}
+
+// Topics without quiz blocks have no score; finishing them counts as a correct recall with hesitation
+export function qualityFromScore(score: number | null | undefined): number {
+	return score === null || score === undefined ? 4 : Math.round(Math.max(0, Math.min(1, score)) * 5);
+}
+
+// Must run in a transaction: the advisory lock serialises schedule writes per user and topic
+async function applyReview(
+	tx: Transaction,
+	input: {
+		userId: string;
+		topicId: string;
+		blockIndex: number | null;
+		topicVersionId: string;
+		sessionId: string | null;
+		quality: number;
+		reviewedAt: string;
+	}
+): Promise<LearnReviewRow> {
+	await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`learn_review:${input.userId}:${input.topicId}`}))`);
+
+	const [existing] = await tx
+		.select()
+		.from(learnReviews)
+		.where(and(
+			eq(learnReviews.userId, input.userId),
+			eq(learnReviews.topicId, input.topicId),
+			input.blockIndex === null ? isNull(learnReviews.blockIndex) : eq(learnReviews.blockIndex, input.blockIndex)
+		))
+		.limit(1);
+
+	// A block index only means the same block within one version, so a new version restarts block schedules
+	const restart = !existing || (input.blockIndex !== null && existing.topicVersionId !== input.topicVersionId);
+	const previous: SM2State = restart
+		? { easeFactor: 2.5, intervalDays: 0, repetitions: 0 }
+		: existing;
+	const next = nextSM2State(previous, input.quality);
+	const values = {
+		...next,
+		topicVersionId: input.topicVersionId,
+		sessionId: input.sessionId,
+		lastQuality: Math.round(input.quality),
+		lastReviewedAt: input.reviewedAt,
+		dueAt: new Date(new Date(input.reviewedAt).getTime() + next.intervalDays * DAY_MS).toISOString(),
+		notifiedAt: null,
+		updated: new Date().toISOString()
+	};
+
+	if (existing) {
+		const [updated] = await tx
+			.update(learnReviews)
+			.set(values)
+			.where(eq(learnReviews.id, existing.id))
+			.returning();
+		return updated;
+	}
+
+	const [inserted] = await tx
+		.insert(learnReviews)
+		.values({ userId: input.userId, topicId: input.topicId, blockIndex: input.blockIndex, ...values })
+		.returning();
+	return inserted;
+}
+
+/**
+ * Schedule the reviews for a completed session: the topic plus each quiz block it graded
+ * Runs in the transaction that completes the session, so both succeed or fail together.
+ */
+export async function recordLearnSessionReview(
+	session: LearnSessionRow,
+	tx: Transaction
+): Promise<LearnReviewRow[]> {
+	if (!session.completed) {
+		return [];
+	}
+
+	const reviewedAt = session.completedAt || session.updated;
+	const grading: LearnSessionGrading | null = session.grading ? JSON.parse(session.grading) : null;
+	const base = {
+		userId: session.userId,
+		topicId: session.topicId,
+		topicVersionId: session.topicVersionId,
+		sessionId: session.id,
+		reviewedAt
+	};
+
+	const scheduled = [await applyReview(tx, { ...base, blockIndex: null, quality: qualityFromScore(session.score) })];
+	for (const grade of grading?.responses ?? []) {
+		if (!QUIZ_BLOCK_TYPES.has(grade.type) || grade.status === 'ungraded') continue;
+		scheduled.push(await applyReview(tx, { ...base, blockIndex: grade.blockIndex, quality: qualityFromScore(grade.score ?? 0) }));
+	}
+	return scheduled;
+}
+
+/**
+ * Reviews due for a user, most overdue first, with the block to show for block reviews
+ */
+export async function listDueLearnReviews(
+	userId: string,
+	options: { now?: Date; limit?: number } = {}
+): Promise<DueLearnReview[]> {
+	const now = (options.now ?? new Date()).toISOString();
+	const rows = await db
+		.select({
+			review: learnReviews,
+			topicSlug: learnTopics.slug,
+			titleDE: learnTopicVersions.titleDE,
+			titleEN: learnTopicVersions.titleEN,
+			content: learnTopicVersions.content
+		})
+		.from(learnReviews)
+		.leftJoin(learnTopics, sql`${learnTopics.id}::text = ${learnReviews.topicId}`)
+		.leftJoin(learnTopicVersions, sql`${learnTopicVersions.id}::text = ${learnReviews.topicVersionId}`)
+		.where(and(eq(learnReviews.userId, userId), lte(learnReviews.dueAt, now)))
+		.orderBy(asc(learnReviews.dueAt))
+		.limit(Math.min(Math.max(options.limit ?? 50, 1), 200));
+
+	return rows.map(({ review, topicSlug, titleDE, titleEN, content }) => ({
+		id: review.id,
+		topicId: review.topicId,
+		topicSlug,
+		topicVersionId: review.topicVersionId,
+		titleDE,
+		titleEN,
+		blockIndex: review.blockIndex,
+		block: review.blockIndex !== null && Array.isArray(content) ? content[review.blockIndex] ?? null : null,
+		dueAt: review.dueAt,
+		lastReviewedAt: review.lastReviewedAt,
+		intervalDays: review.intervalDays,
+		repetitions: review.repetitions,
+		easeFactor: review.easeFactor,
+		lastQuality: review.lastQuality
+	}));
+}
+
+/**
+ * Answer a quiz block review; the response is graded like a session response
+ */
+export async function answerLearnBlockReview(userId: string, reviewId: string, response: unknown) {
+	const [review] = await db
+		.select()
+		.from(learnReviews)
+		.where(and(eq(learnReviews.id, reviewId), eq(learnReviews.userId, userId)))
+		.limit(1);
+	if (!review) {
+		throw new LearnError('Review not found', 404);
+	}
+	if (review.blockIndex === null) {
+		throw new LearnError('Topic reviews are answered by completing a new learn session', 409);
+	}
+	if (!response || typeof response !== 'object') {
+		throw new LearnError('response is required');
+	}
+
+	const [version] = await db
+		.select({ content: learnTopicVersions.content })
+		.from(learnTopicVersions)
+		.where(sql`${learnTopicVersions.id}::text = ${review.topicVersionId}`)
+		.limit(1);
+	if (!version) {
+		throw new LearnError('Topic version of this review no longer exists', 404);
+	}
+
+	const grading = gradeLearnResponses(version.content, [{ ...response, blockIndex: review.blockIndex }], review.topicVersionId);
+	const grade = grading.responses.find(item => item.blockIndex === review.blockIndex);
+	if (!grade || grade.status === 'ungraded') {
+		throw new LearnError('Block of this review can no longer be graded', 409);
+	}
+
+	const updated = await db.transaction(tx => applyReview(tx, {
+		userId,
+		topicId: review.topicId,
+		blockIndex: review.blockIndex,
+		topicVersionId: review.topicVersionId,
+		sessionId: review.sessionId,
+		quality: qualityFromScore(grade.score ?? 0),
+		reviewedAt: new Date().toISOString()
+	}));
+
+	return { review: updated, grade };
+}
+
+/**
+ * Send one message per user for reviews that became due since the last notification
+ */
+export async function notifyDueLearnReviews(now: Date = new Date()) {
+	const nowIso = now.toISOString();
+	const due = await db
+		.select({ id: learnReviews.id, userId: learnReviews.userId, topicId: learnReviews.topicId, titleDE: learnTopicVersions.titleDE })
+		.from(learnReviews)
+		.leftJoin(learnTopicVersions, sql`${learnTopicVersions.id}::text = ${learnReviews.topicVersionId}`)
+		.where(and(lte(learnReviews.dueAt, nowIso), isNull(learnReviews.notifiedAt)))
+		.orderBy(asc(learnReviews.dueAt))
+		.limit(NOTIFY_BATCH_SIZE);
+
+	const byUser = new Map<string, typeof due>();
+	for (const review of due) {
+		byUser.set(review.userId, [...(byUser.get(review.userId) ?? []), review]);
+	}
+
+	let notified = 0;
+	for (const [userId, reviews] of byUser) {
+		try {
+			const titles = Array.from(new Set(reviews.map(review => review.titleDE).filter(Boolean)));
+			await db.transaction(async (tx) => {
+				await tx.insert(messages).values({
+					id: crypto.randomUUID(),
+					userId,
+					type: 'learn_review',
+					title: 'Zeit für eine Wiederholung 📚',
+					content: titles.length > 0
+						? `Bereit zur Wiederholung: ${titles.join(', ')}`
+						: 'Einige Lerninhalte sind bereit zur Wiederholung.',
+					read: false,
+					sentAt: nowIso,
+					reminderData: JSON.stringify({
+						reviewIds: reviews.map(review => review.id),
+						topicIds: Array.from(new Set(reviews.map(review => review.topicId)))
+					})
+				});
+
+				await tx.update(learnReviews)
+					.set({ notifiedAt: nowIso })
+					.where(inArray(learnReviews.id, reviews.map(review => review.id)));
+			});
+			notified += reviews.length;
+		} catch (error) {
+			console.error(`❌ Failed to notify user ${userId} about due learn reviews:`, error);
+		}
+	}
+
+	if (notified > 0) {
+		console.log(`📚 Notified ${byUser.size} users about ${notified} due learn reviews`);
+	}
+
+	return { users: byUser.size, reviews: notified };
+}
+
+/**
+ * Rebuild all review schedules by replaying completed sessions in completion order
+ * Reviews that are already overdue are marked as notified unless notifyOverdue is set,
+ * so a backfill doesn't message every learner at once.
+ */
+export async function rebuildLearnReviews(options: { userId?: string; notifyOverdue?: boolean } = {}) {
+	const { userId } = options;
+	const sessions = await db
+		.select()
+		.from(learnSessions)
+		.where(userId
+			? and(eq(learnSessions.completed, true), eq(learnSessions.userId, userId))
+			: eq(learnSessions.completed, true))
+		.orderBy(asc(learnSessions.completedAt));
+
+	let scheduled = 0;
+	await db.transaction(async (tx) => {
+		await tx.delete(learnReviews).where(userId ? eq(learnReviews.userId, userId) : undefined);
+		for (const session of sessions) {
+			scheduled += (await recordLearnSessionReview(session, tx)).length;
+		}
+
+		if (!options.notifyOverdue) {
+			const nowIso = new Date().toISOString();
+			await tx.update(learnReviews)
+				.set({ notifiedAt: nowIso })
+				.where(and(lte(learnReviews.dueAt, nowIso), userId ? eq(learnReviews.userId, userId) : undefined));
+		}
+	});
+
+	return { sessions: sessions.length, scheduled };
+}
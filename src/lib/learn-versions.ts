@@ -0,0 +1,418 @@
+/**
+ * Learn topic version lifecycle: block-level diffs, (scheduled) publishing and rollback
+ *
+ * Learn sessions are pinned to the topic version they were started with, so versions that
+ * sessions still point at are archived instead of deleted and stay readable for those learners.
+ */
+
+import { and, count, eq, lte, sql } from 'drizzle-orm';
+import { learnSessions, learnTopicVersions, learnTopics } from '../../drizzle/schema.js';
+import { db } from './db.js';
+import { assertValidLearnContent, LearnError, type LearnTopicVersionRow } from './learn.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Version fields compared next to the content blocks
+const VERSION_DIFF_FIELDS = [
+	'titleDE', 'titleEN', 'descriptionDE', 'descriptionEN', 'language', 'image', 'categoryId', 'versionLabel'
+] as const;
+
+export type LearnBlockChange =
+	| { kind: 'unchanged'; fromIndex: number; toIndex: number; type: string }
+	| { kind: 'moved'; fromIndex: number; toIndex: number; type: string }
+	| { kind: 'changed'; fromIndex: number; toIndex: number; type: string; fields: LearnFieldChange[] }
+	| { kind: 'added'; toIndex: number; type: string; block: unknown }
+	| { kind: 'removed'; fromIndex: number; type: string; block: unknown };
+
+export interface LearnFieldChange {
+	field: string;
+	from: unknown;
+	to: unknown;
+}
+
+// JSON with sorted keys, so blocks saved with another key order compare equal
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(',')}]`;
+	}
+	if (value && typeof value === 'object') {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, item]) => item !== undefined)
+			.sort(([a], [b]) => a.localeCompare(b));
+		return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+	}
+	return JSON.stringify(value ?? null);
+}
+
+function blockType(block: unknown): string {
+	return block && typeof block === 'object' && typeof (block as any).type === 'string' ? (block as any).type : 'unknown';
+}
+
+function diffFields(from: Record<string, unknown>, to: Record<string, unknown>, fields?: readonly string[]): LearnFieldChange[] {
+	const keys = fields || Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+	return keys
+		.filter(key => stableStringify(from[key]) !== stableStringify(to[key]))
+		.map(key => ({ field: key, from: from[key] ?? null, to: to[key] ?? null }));
+}
+
+/**
+ * Align two block lists (longest common subsequence) and describe every block
+ * Replaced blocks of the same type at the same spot are 'changed' with field-level changes;
+ * identical blocks that only changed position are 'moved'.
+ */
+export function diffContentBlocks(fromBlocks: unknown[], toBlocks: unknown[]): LearnBlockChange[] {
+	const fromKeys = fromBlocks.map(stableStringify);
+	const toKeys = toBlocks.map(stableStringify);
+	const n = fromKeys.length;
+	const m = toKeys.length;
+
+	const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lcs[i][j] = fromKeys[i] === toKeys[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const changes: LearnBlockChange[] = [];
+	let removed: number[] = [];
+	let added: number[] = [];
+
+	// Pair the removed and added blocks between two unchanged anchors
+	const flush = () => {
+		const pairs = Math.min(removed.length, added.length);
+		let r = 0;
+		let a = 0;
+		while (r < removed.length || a < added.length) {
+			const fromIndex = removed[r];
+			const toIndex = added[a];
+			if (r < pairs && a < pairs && blockType(fromBlocks[fromIndex]) === blockType(toBlocks[toIndex])) {
+				changes.push({
+					kind: 'changed',
+					fromIndex,
+					toIndex,
+					type: blockType(toBlocks[toIndex]),
+					fields: diffFields(fromBlocks[fromIndex] as Record<string, unknown>, toBlocks[toIndex] as Record<string, unknown>)
+				});
+				r++;
+				a++;
+			} else if (r < removed.length) {
+				changes.push({ kind: 'removed', fromIndex, type: blockType(fromBlocks[fromIndex]), block: fromBlocks[fromIndex] });
+				r++;
+			} else {
+				changes.push({ kind: 'added', toIndex, type: blockType(toBlocks[toIndex]), block: toBlocks[toIndex] });
+				a++;
+			}
+		}
+		removed = [];
+		added = [];
+	};
+
+	let i = 0;
+	let j = 0;
+	while (i < n || j < m) {
+		if (i < n && j < m && fromKeys[i] === toKeys[j]) {
+			flush();
+			changes.push({ kind: 'unchanged', fromIndex: i, toIndex: j, type: blockType(toBlocks[j]) });
+			i++;
+			j++;
+		} else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+			added.push(j++);
+		} else {
+			removed.push(i++);
+		}
+	}
+	flush();
+
+	// An identical block that was removed in one place and added in another was moved
+	const addedByKey = new Map<string, Extract<LearnBlockChange, { kind: 'added' }>[]>();
+	for (const change of changes) {
+		if (change.kind === 'added') {
+			const list = addedByKey.get(toKeys[change.toIndex]) || [];
+			list.push(change);
+			addedByKey.set(toKeys[change.toIndex], list);
+		}
+	}
+	const moves = new Map<LearnBlockChange, number>();
+	for (const change of changes) {
+		if (change.kind === 'removed') {
+			const target = addedByKey.get(fromKeys[change.fromIndex])?.shift();
+			if (target) {
+				moves.set(change, target.toIndex);
+				moves.set(target, -1);
+			}
+		}
+	}
+
+	return changes.flatMap((change): LearnBlockChange[] => {
+		const toIndex = moves.get(change);
+		if (toIndex === undefined) return [change];
+		if (toIndex < 0 || change.kind !== 'removed') return [];
+		return [{ kind: 'moved', fromIndex: change.fromIndex, toIndex, type: change.type }];
+	});
+}
+
+async function getVersionRow(versionId: string): Promise<LearnTopicVersionRow> {
+	const [version] = await db.select()
+		.from(learnTopicVersions)
+		.where(eq(learnTopicVersions.id, versionId))
+		.limit(1);
+	if (!version) {
+		throw new LearnError('Version not found', 404);
+	}
+	return version;
+}
+
+/**
+ * Diff two versions of the same topic; without `fromVersionId` the topic's current version is used
+ */
+export async function diffLearnTopicVersions(toVersionId: string, fromVersionId?: string) {
+	const to = await getVersionRow(toVersionId);
+
+	let fromId = fromVersionId;
+	if (!fromId) {
+		const [topic] = await db.select({ currentVersionId: learnTopics.currentVersionId })
+			.from(learnTopics)
+			.where(eq(learnTopics.id, to.topicId));
+		if (!topic?.currentVersionId) {
+			throw new LearnError('Topic has no current version to compare with');
+		}
+		fromId = topic.currentVersionId;
+	}
+	const from = await getVersionRow(fromId);
+	if (from.topicId !== to.topicId) {
+		throw new LearnError('Versions belong to different topics');
+	}
+
+	const fromBlocks = Array.isArray(from.content) ? from.content : [];
+	const toBlocks = Array.isArray(to.content) ? to.content : [];
+	const blocks = diffContentBlocks(fromBlocks, toBlocks);
+
+	const summary = { added: 0, removed: 0, changed: 0, moved: 0, unchanged: 0 };
+	for (const change of blocks) {
+		summary[change.kind]++;
+	}
+
+	return {
+		from: { id: from.id, versionLabel: from.versionLabel, status: from.status, publishedAt: from.publishedAt },
+		to: { id: to.id, versionLabel: to.versionLabel, status: to.status, publishedAt: to.publishedAt },
+		fields: diffFields(from, to, VERSION_DIFF_FIELDS),
+		summary,
+		blocks
+	};
+}
+
+/**
+ * Publish a version and make it the topic's current version
+ * With a future `at` the version is scheduled instead and published by the 'learn-publish' job.
+ */
+export async function publishLearnTopicVersion(
+	versionId: string,
+	options: { at?: string | null } = {}
+): Promise<LearnTopicVersionRow> {
+	const version = await getVersionRow(versionId);
+	if (version.status === 'archived') {
+		throw new LearnError('Archived versions cannot be published', 409);
+	}
+	assertValidLearnContent(version.content ?? [], 'Cannot publish a version with invalid content');
+
+	const nowIso = new Date().toISOString();
+
+	if (options.at) {
+		const at = new Date(options.at);
+		if (isNaN(at.getTime())) {
+			throw new LearnError('Invalid publish time');
+		}
+		if (at.getTime() > Date.now()) {
+			const [scheduled] = await db.update(learnTopicVersions)
+				.set({ status: 'scheduled', scheduledPublishAt: at.toISOString(), updated: nowIso })
+				.where(eq(learnTopicVersions.id, versionId))
+				.returning();
+			console.log(`🗓️ Scheduled learn topic version ${versionId} for ${at.toISOString()}`);
+			return scheduled;
+		}
+	}
+
+	return db.transaction(async (tx) => {
+		const [published] = await tx.update(learnTopicVersions)
+			.set({
+				status: 'published',
+				isPublished: true,
+				publishedAt: nowIso,
+				scheduledPublishAt: null,
+				updated: nowIso
+			})
+			.where(eq(learnTopicVersions.id, versionId))
+			.returning();
+		await tx.update(learnTopics)
+			.set({ currentVersionId: versionId, updated: nowIso })
+			.where(eq(learnTopics.id, version.topicId));
+		console.log(`📢 Published learn topic version ${versionId}`);
+		return published;
+	});
+}
+
+export async function cancelScheduledPublish(versionId: string): Promise<LearnTopicVersionRow> {
+	const version = await getVersionRow(versionId);
+	if (version.status !== 'scheduled') {
+		throw new LearnError('Version is not scheduled', 409);
+	}
+
+	const [updated] = await db.update(learnTopicVersions)
+		.set({ status: 'draft', scheduledPublishAt: null, updated: new Date().toISOString() })
+		.where(eq(learnTopicVersions.id, versionId))
+		.returning();
+	return updated;
+}
+
+/**
+ * Publish scheduled versions whose time has come (run by the scheduler)
+ */
+export async function publishDueLearnTopicVersions() {
+	const due = await db.select({ id: learnTopicVersions.id })
+		.from(learnTopicVersions)
+		.where(and(
+			eq(learnTopicVersions.status, 'scheduled'),
+			lte(learnTopicVersions.scheduledPublishAt, new Date().toISOString())
+		));
+
+	let published = 0;
+	let failed = 0;
+	for (const { id } of due) {
+		try {
+			await publishLearnTopicVersion(id);
+			published++;
+		} catch (error) {
+			// Leave it scheduled so the failure shows up in the dashboard
+			console.error(`Failed to publish scheduled learn topic version ${id}:`, error);
+			failed++;
+		}
+	}
+	return { published, failed };
+}
+
+/**
+ * Roll a topic back to an earlier version: the old content is copied into a new version,
+ * which is published right away. Sessions keep the version they started with.
+ */
+export async function rollbackLearnTopic(
+	topicId: string,
+	versionId: string,
+	createdBy: string | null
+): Promise<LearnTopicVersionRow> {
+	const target = await getVersionRow(versionId);
+	if (target.topicId !== topicId) {
+		throw new LearnError('Version belongs to another topic');
+	}
+
+	const [copy] = await db.insert(learnTopicVersions)
+		.values({
+			topicId,
+			categoryId: target.categoryId,
+			versionLabel: `${target.versionLabel || 'Version'} (rollback)`,
+			titleDE: target.titleDE,
+			titleEN: target.titleEN,
+			descriptionDE: target.descriptionDE,
+			descriptionEN: target.descriptionEN,
+			language: target.language,
+			image: target.image,
+			content: target.content,
+			status: 'draft',
+			createdBy,
+			notes: `Rollback to version ${target.id}`,
+			metadata: { ...(target.metadata || {}), rollbackOf: target.id }
+		})
+		.returning();
+
+	return publishLearnTopicVersion(copy.id);
+}
+
+/**
+ * Delete a version; versions that learn sessions are pinned to are archived instead
+ */
+export async function deleteLearnTopicVersion(versionId: string): Promise<{ archived: boolean }> {
+	const version = await getVersionRow(versionId);
+
+	const [topic] = await db.select({ currentVersionId: learnTopics.currentVersionId })
+		.from(learnTopics)
+		.where(eq(learnTopics.id, version.topicId));
+	if (topic?.currentVersionId === versionId) {
+		throw new LearnError('Make another version current before deleting the current version', 409);
+	}
+
+	const [{ sessions }] = await db.select({ sessions: count() })
+		.from(learnSessions)
+		.where(eq(learnSessions.topicVersionId, versionId));
+
+	if (sessions > 0) {
+		await db.update(learnTopicVersions)
+			.set({ status: 'archived', isPublished: false, scheduledPublishAt: null, updated: new Date().toISOString() })
+			.where(eq(learnTopicVersions.id, versionId));
+		return { archived: true };
+	}
+
+	await db.delete(learnTopicVersions).where(eq(learnTopicVersions.id, versionId));
+	return { archived: false };
+}
+
+/**
+ * The version a new session starts with: the requested published one, or the topic's published current version
+ * Drafts, scheduled and archived versions are never handed out to learners.
+ */
+export async function resolveSessionTopicVersion(topicId: string, topicVersionId?: unknown): Promise<string> {
+	if (topicVersionId) {
+		if (typeof topicVersionId !== 'string' || !UUID_PATTERN.test(topicVersionId)) {
+			throw new LearnError('Version not found', 404);
+		}
+		const version = await getVersionRow(topicVersionId);
+		if (version.topicId !== topicId) {
+			throw new LearnError('Version belongs to another topic');
+		}
+		if (version.status !== 'published' || !version.isPublished) {
+			throw new LearnError('Version is not published', 409);
+		}
+		return version.id;
+	}
+
+	const [current] = await db.select({ id: learnTopicVersions.id })
+		.from(learnTopics)
+		.innerJoin(learnTopicVersions, eq(learnTopicVersions.id, learnTopics.currentVersionId))
+		.where(and(eq(learnTopics.id, topicId), eq(learnTopicVersions.isPublished, true)))
+		.limit(1);
+	if (!current) {
+		throw new LearnError('Topic has no published version', 404);
+	}
+	return current.id;
+}
+
+/**
+ * The version a session is pinned to, even if it was archived or replaced since
+ */
+export async function getLearnSessionVersion(userId: string, sessionId: string) {
+	const [row] = await db.select({
+		session: { topicId: learnSessions.topicId, topicVersionId: learnSessions.topicVersionId },
+		currentVersionId: learnTopics.currentVersionId
+	})
+		.from(learnSessions)
+		.leftJoin(learnTopics, eq(learnTopics.id, sql`${learnSessions.topicId}::uuid`))
+		.where(and(eq(learnSessions.id, sessionId), eq(learnSessions.userId, userId)))
+		.limit(1);
+	if (!row) {
+		throw new LearnError('Session not found', 404);
+	}
+
+	const version = await getVersionRow(row.session.topicVersionId);
+	return {
+		id: version.id,
+		topicId: version.topicId,
+		versionLabel: version.versionLabel,
+		titleDE: version.titleDE,
+		titleEN: version.titleEN,
+		descriptionDE: version.descriptionDE,
+		descriptionEN: version.descriptionEN,
+		language: version.language,
+		image: version.image,
+		content: version.content,
+		publishedAt: version.publishedAt,
+		isCurrent: row.currentVersionId === version.id
+	};
+}
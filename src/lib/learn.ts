@@ -0,0 +1,646 @@
+/**
+ * Learn content: categories, topics and versioned topic content
+ * Admins edit topics through versions; `learn_topics.current_version_id` points at the
+ * version the app shows. The app only ever sees active topics whose current version is published.
+ */
+
+import { and, asc, desc, eq, inArray, ne, sql } from 'drizzle-orm';
+import { learnCategories, learnTopicVersions, learnTopics } from '../../drizzle/schema.js';
+import { db } from './db.js';
+import { cancelScheduledPublish } from './learn-versions.js';
+import { validateContentBlocks, type ContentBlockIssue } from '../shared/learn-content.js';
+
+export type LearnCategoryRow = typeof learnCategories.$inferSelect;
+export type LearnTopicRow = typeof learnTopics.$inferSelect;
+export type LearnTopicVersionRow = typeof learnTopicVersions.$inferSelect;
+
+export class LearnError extends Error {
+	constructor(message: string, public status: 400 | 404 | 409 | 422 = 400, public issues?: ContentBlockIssue[]) {
+		super(message);
+	}
+}
+
+export interface LearnCategoryInput {
+	nameDE?: string;
+	nameEN?: string | null;
+	slug?: string;
+	sortOrder?: number;
+	color?: string | null;
+	icon?: string | null;
+	descriptionDE?: string | null;
+	descriptionEN?: string | null;
+	isActive?: boolean;
+}
+
+export interface LearnTopicInput {
+	slug?: string;
+	categoryId?: string | null;
+	order?: number;
+	estimatedMinutes?: number | null;
+	difficulty?: string | null;
+	level?: string | null;
+	summaryDE?: string | null;
+	summaryEN?: string | null;
+	coverImage?: string | null;
+	isActive?: boolean;
+	isFeatured?: boolean;
+	tags?: string | null;
+}
+
+export interface LearnTopicVersionInput {
+	versionLabel?: string | null;
+	titleDE?: string;
+	titleEN?: string | null;
+	language?: string;
+	descriptionDE?: string | null;
+	descriptionEN?: string | null;
+	status?: string;
+	content?: unknown;
+	notes?: string | null;
+	isPublished?: boolean;
+	categoryId?: string | null;
+	image?: string | null;
+	metadata?: Record<string, unknown> | null;
+}
+
+export function slugify(value: string): string {
+	return value
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.trim()
+		.replace(/ß/g, 'ss')
+		.replace(/[^\w\s-]/g, '')
+		.replace(/[\s_]+/g, '-')
+		.replace(/-+/g, '-')
+		.replace(/^-|-$/g, '');
+}
+
+function optionalText(value: unknown): string | null {
+	if (value === undefined || value === null) return null;
+	const text = String(value).trim();
+	return text === '' ? null : text;
+}
+
+function optionalInteger(value: unknown, field: string): number | null {
+	if (value === undefined || value === null || value === '') return null;
+	const number = Number(value);
+	if (!Number.isInteger(number)) {
+		throw new LearnError(`${field} must be an integer`);
+	}
+	return number;
+}
+
+// ---------------------------------------------------------------------------
+// Categories
+// ---------------------------------------------------------------------------
+
+async function assertCategorySlugFree(slug: string, exceptId?: string) {
+	const [existing] = await db.select({ id: learnCategories.id })
+		.from(learnCategories)
+		.where(exceptId ? and(eq(learnCategories.slug, slug), ne(learnCategories.id, exceptId)) : eq(learnCategories.slug, slug))
+		.limit(1);
+	if (existing) {
+		throw new LearnError(`A category with slug "${slug}" already exists`, 409);
+	}
+}
+
+async function assertCategoryExists(categoryId: string | null | undefined) {
+	if (!categoryId) return;
+	const [category] = await db.select({ id: learnCategories.id })
+		.from(learnCategories)
+		.where(eq(learnCategories.id, categoryId))
+		.limit(1);
+	if (!category) {
+		throw new LearnError('Category not found');
+	}
+}
+
+export async function listLearnCategories(options: { includeInactive?: boolean } = {}): Promise<LearnCategoryRow[]> {
+	return db.select()
+		.from(learnCategories)
+		.where(options.includeInactive ? undefined : eq(learnCategories.isActive, true))
+		.orderBy(asc(learnCategories.sortOrder), asc(learnCategories.nameDE));
+}
+
+export async function createLearnCategory(input: LearnCategoryInput): Promise<LearnCategoryRow> {
+	const nameDE = optionalText(input.nameDE);
+	if (!nameDE) {
+		throw new LearnError('nameDE is required');
+	}
+	const slug = slugify(input.slug || nameDE);
+	if (!slug) {
+		throw new LearnError('Invalid slug');
+	}
+	await assertCategorySlugFree(slug);
+
+	const [category] = await db.insert(learnCategories)
+		.values({
+			slug,
+			nameDE,
+			nameEN: optionalText(input.nameEN),
+			descriptionDE: optionalText(input.descriptionDE),
+			descriptionEN: optionalText(input.descriptionEN),
+			color: optionalText(input.color),
+			icon: optionalText(input.icon),
+			// New categories go to the end unless an explicit position is given
+			sortOrder: optionalInteger(input.sortOrder, 'sortOrder')
+				?? sql`(SELECT COALESCE(MAX(sort_order), -1) + 1 FROM learn_categories)`,
+			isActive: input.isActive ?? true
+		})
+		.returning();
+	return category;
+}
+
+export async function updateLearnCategory(id: string, input: LearnCategoryInput): Promise<LearnCategoryRow> {
+	const updates: Partial<LearnCategoryRow> = { updated: new Date().toISOString() };
+
+	if (input.nameDE !== undefined) {
+		const nameDE = optionalText(input.nameDE);
+		if (!nameDE) {
+			throw new LearnError('nameDE cannot be empty');
+		}
+		updates.nameDE = nameDE;
+	}
+	if (input.slug !== undefined) {
+		const slug = slugify(input.slug);
+		if (!slug) {
+			throw new LearnError('Invalid slug');
+		}
+		await assertCategorySlugFree(slug, id);
+		updates.slug = slug;
+	}
+	if (input.nameEN !== undefined) updates.nameEN = optionalText(input.nameEN);
+	if (input.descriptionDE !== undefined) updates.descriptionDE = optionalText(input.descriptionDE);
+	if (input.descriptionEN !== undefined) updates.descriptionEN = optionalText(input.descriptionEN);
+	if (input.color !== undefined) updates.color = optionalText(input.color);
+	if (input.icon !== undefined) updates.icon = optionalText(input.icon);
+	if (input.sortOrder !== undefined) updates.sortOrder = optionalInteger(input.sortOrder, 'sortOrder') ?? 0;
+	if (input.isActive !== undefined) updates.isActive = Boolean(input.isActive);
+
+	const [category] = await db.update(learnCategories)
+		.set(updates)
+		.where(eq(learnCategories.id, id))
+		.returning();
+	if (!category) {
+		throw new LearnError('Category not found', 404);
+	}
+	return category;
+}
+
+/**
+ * Deactivate a category; its topics keep their categoryId so reactivating restores them
+ */
+export async function deleteLearnCategory(id: string): Promise<void> {
+	await updateLearnCategory(id, { isActive: false });
+}
+
+/**
+ * Set sortOrder to the position in `ids`; categories not listed keep their order
+ */
+export async function reorderLearnCategories(ids: string[]): Promise<LearnCategoryRow[]> {
+	await db.transaction(async (tx) => {
+		const nowIso = new Date().toISOString();
+		for (const [index, id] of ids.entries()) {
+			await tx.update(learnCategories)
+				.set({ sortOrder: index, updated: nowIso })
+				.where(eq(learnCategories.id, id));
+		}
+	});
+	return listLearnCategories({ includeInactive: true });
+}
+
+// ---------------------------------------------------------------------------
+// Topics
+// ---------------------------------------------------------------------------
+
+async function assertTopicSlugFree(slug: string, exceptId?: string) {
+	const [existing] = await db.select({ id: learnTopics.id })
+		.from(learnTopics)
+		.where(exceptId ? and(eq(learnTopics.slug, slug), ne(learnTopics.id, exceptId)) : eq(learnTopics.slug, slug))
+		.limit(1);
+	if (existing) {
+		throw new LearnError(`A topic with slug "${slug}" already exists`, 409);
+	}
+}
+
+async function getTopicRow(id: string): Promise<LearnTopicRow> {
+	const [topic] = await db.select().from(learnTopics).where(eq(learnTopics.id, id)).limit(1);
+	if (!topic) {
+		throw new LearnError('Topic not found', 404);
+	}
+	return topic;
+}
+
+export async function listLearnTopics(
+	options: { includeInactive?: boolean; includeVersions?: boolean; categoryId?: string } = {}
+) {
+	const conditions = [];
+	if (!options.includeInactive) {
+		conditions.push(eq(learnTopics.isActive, true));
+	}
+	if (options.categoryId) {
+		conditions.push(eq(learnTopics.categoryId, options.categoryId));
+	}
+
+	const rows = await db.select({ topic: learnTopics, category: learnCategories })
+		.from(learnTopics)
+		.leftJoin(learnCategories, eq(learnCategories.id, learnTopics.categoryId))
+		.where(conditions.length > 0 ? and(...conditions) : undefined)
+		.orderBy(asc(learnTopics.order), asc(learnTopics.slug));
+
+	const versionsByTopic = new Map<string, LearnTopicVersionRow[]>();
+	if (options.includeVersions && rows.length > 0) {
+		const versions = await db.select()
+			.from(learnTopicVersions)
+			.where(inArray(learnTopicVersions.topicId, rows.map(row => row.topic.id)))
+			.orderBy(desc(learnTopicVersions.created));
+		for (const version of versions) {
+			const list = versionsByTopic.get(version.topicId) || [];
+			list.push(version);
+			versionsByTopic.set(version.topicId, list);
+		}
+	}
+
+	return rows.map(({ topic, category }) => ({
+		...topic,
+		category,
+		...(options.includeVersions ? { versions: versionsByTopic.get(topic.id) || [] } : {})
+	}));
+}
+
+export async function getLearnTopic(id: string) {
+	const [row] = await db.select({ topic: learnTopics, category: learnCategories })
+		.from(learnTopics)
+		.leftJoin(learnCategories, eq(learnCategories.id, learnTopics.categoryId))
+		.where(eq(learnTopics.id, id))
+		.limit(1);
+	if (!row) {
+		throw new LearnError('Topic not found', 404);
+	}
+
+	const versions = await db.select()
+		.from(learnTopicVersions)
+		.where(eq(learnTopicVersions.topicId, id))
+		.orderBy(desc(learnTopicVersions.created));
+
+	return { ...row.topic, category: row.category, versions };
+}
+
+function topicUpdates(input: LearnTopicInput): Partial<LearnTopicRow> {
+	const updates: Partial<LearnTopicRow> = {};
+	if (input.categoryId !== undefined) updates.categoryId = input.categoryId || null;
+	if (input.order !== undefined) updates.order = optionalInteger(input.order, 'order') ?? 0;
+	if (input.estimatedMinutes !== undefined) updates.estimatedMinutes = optionalInteger(input.estimatedMinutes, 'estimatedMinutes');
+	if (input.difficulty !== undefined) updates.difficulty = optionalText(input.difficulty);
+	if (input.level !== undefined) updates.level = optionalText(input.level);
+	if (input.summaryDE !== undefined) updates.summaryDE = optionalText(input.summaryDE);
+	if (input.summaryEN !== undefined) updates.summaryEN = optionalText(input.summaryEN);
+	if (input.coverImage !== undefined) updates.coverImage = optionalText(input.coverImage);
+	if (input.isActive !== undefined) updates.isActive = Boolean(input.isActive);
+	if (input.isFeatured !== undefined) updates.isFeatured = Boolean(input.isFeatured);
+	if (input.tags !== undefined) updates.tags = optionalText(input.tags);
+	return updates;
+}
+
+export async function createLearnTopic(input: LearnTopicInput): Promise<LearnTopicRow> {
+	const slug = slugify(input.slug || '');
+	if (!slug) {
+		throw new LearnError('slug is required');
+	}
+	await assertTopicSlugFree(slug);
+	await assertCategoryExists(input.categoryId);
+
+	const { order, ...updates } = topicUpdates(input);
+	const [topic] = await db.insert(learnTopics)
+		.values({
+			...updates,
+			slug,
+			order: order ?? sql`(SELECT COALESCE(MAX(sort_order), -1) + 1 FROM learn_topics)`
+		})
+		.returning();
+	return topic;
+}
+
+export async function updateLearnTopic(id: string, input: LearnTopicInput): Promise<LearnTopicRow> {
+	await getTopicRow(id);
+	await assertCategoryExists(input.categoryId);
+
+	const updates: Partial<LearnTopicRow> = { ...topicUpdates(input), updated: new Date().toISOString() };
+	if (input.slug !== undefined) {
+		const slug = slugify(input.slug);
+		if (!slug) {
+			throw new LearnError('Invalid slug');
+		}
+		await assertTopicSlugFree(slug, id);
+		updates.slug = slug;
+	}
+
+	const [topic] = await db.update(learnTopics)
+		.set(updates)
+		.where(eq(learnTopics.id, id))
+		.returning();
+	return topic;
+}
+
+/**
+ * Deactivate a topic; sessions and versions are kept
+ */
+export async function deleteLearnTopic(id: string): Promise<void> {
+	await updateLearnTopic(id, { isActive: false });
+}
+
+/**
+ * Set order to the position in `ids`; topics not listed keep their order
+ */
+export async function reorderLearnTopics(ids: string[]) {
+	await db.transaction(async (tx) => {
+		const nowIso = new Date().toISOString();
+		for (const [index, id] of ids.entries()) {
+			await tx.update(learnTopics)
+				.set({ order: index, updated: nowIso })
+				.where(eq(learnTopics.id, id));
+		}
+	});
+	return listLearnTopics({ includeInactive: true });
+}
+
+// ---------------------------------------------------------------------------
+// Versions
+// ---------------------------------------------------------------------------
+
+export function assertValidLearnContent(content: unknown, message = 'Invalid content') {
+	const { valid, issues } = validateContentBlocks(content);
+	if (!valid) {
+		throw new LearnError(message, 422, issues);
+	}
+}
+
+/**
+ * Every version whose stored content fails validation, e.g. content migrated from PocketBase
+ */
+export async function getLearnContentReport() {
+	const rows = await db.select({
+		id: learnTopicVersions.id,
+		topicId: learnTopicVersions.topicId,
+		slug: learnTopics.slug,
+		titleDE: learnTopicVersions.titleDE,
+		versionLabel: learnTopicVersions.versionLabel,
+		isPublished: learnTopicVersions.isPublished,
+		currentVersionId: learnTopics.currentVersionId,
+		content: learnTopicVersions.content
+	})
+		.from(learnTopicVersions)
+		.innerJoin(learnTopics, eq(learnTopics.id, learnTopicVersions.topicId))
+		.orderBy(asc(learnTopics.slug), desc(learnTopicVersions.created));
+
+	const invalid = [];
+	for (const row of rows) {
+		const { valid, issues } = validateContentBlocks(row.content ?? []);
+		if (!valid) {
+			invalid.push({
+				versionId: row.id,
+				topicId: row.topicId,
+				topicSlug: row.slug,
+				titleDE: row.titleDE,
+				versionLabel: row.versionLabel,
+				isPublished: row.isPublished,
+				isCurrent: row.currentVersionId === row.id,
+				issues
+			});
+		}
+	}
+
+	return { checked: rows.length, invalid };
+}
+
+/**
+ * Add a version to a topic; the first version of a topic becomes its current version
+ */
+export async function createLearnTopicVersion(
+	topicId: string,
+	input: LearnTopicVersionInput,
+	createdBy: string | null
+): Promise<LearnTopicVersionRow> {
+	const topic = await getTopicRow(topicId);
+	const titleDE = optionalText(input.titleDE);
+	if (!titleDE) {
+		throw new LearnError('titleDE is required');
+	}
+	await assertCategoryExists(input.categoryId);
+
+	const content = input.content ?? [];
+	assertValidLearnContent(content);
+
+	const isPublished = Boolean(input.isPublished);
+	const [version] = await db.insert(learnTopicVersions)
+		.values({
+			topicId,
+			categoryId: input.categoryId === undefined ? topic.categoryId : input.categoryId || null,
+			versionLabel: optionalText(input.versionLabel),
+			titleDE,
+			titleEN: optionalText(input.titleEN),
+			descriptionDE: optionalText(input.descriptionDE),
+			descriptionEN: optionalText(input.descriptionEN),
+			language: input.language || 'de',
+			image: optionalText(input.image),
+			content,
+			status: input.status || (isPublished ? 'published' : 'draft'),
+			isPublished,
+			publishedAt: isPublished ? new Date().toISOString() : null,
+			createdBy,
+			notes: optionalText(input.notes),
+			metadata: input.metadata ?? null
+		})
+		.returning();
+
+	if (!topic.currentVersionId) {
+		await db.update(learnTopics)
+			.set({ currentVersionId: version.id, updated: new Date().toISOString() })
+			.where(eq(learnTopics.id, topicId));
+	}
+
+	return version;
+}
+
+const VERSION_TEXT_FIELDS = ['titleEN', 'descriptionDE', 'descriptionEN', 'image', 'versionLabel', 'notes'] as const;
+
+// Statuses an edit may set; publishing, scheduling and archiving have their own functions in learn-versions.ts
+const EDITABLE_VERSION_STATUSES = ['draft', 'review'];
+
+/**
+ * Update a version's fields and its editorial status; content is validated
+ * A scheduled version moved back to draft or review loses its schedule.
+ */
+export async function updateLearnTopicVersion(versionId: string, input: LearnTopicVersionInput): Promise<LearnTopicVersionRow> {
+	const [existing] = await db.select()
+		.from(learnTopicVersions)
+		.where(eq(learnTopicVersions.id, versionId))
+		.limit(1);
+	if (!existing) {
+		throw new LearnError('Version not found', 404);
+	}
+
+	const updates: Partial<LearnTopicVersionRow> = { updated: new Date().toISOString() };
+	if (input.titleDE !== undefined) {
+		const titleDE = optionalText(input.titleDE);
+		if (!titleDE) {
+			throw new LearnError('titleDE cannot be empty');
+		}
+		updates.titleDE = titleDE;
+	}
+	for (const field of VERSION_TEXT_FIELDS) {
+		if (input[field] !== undefined) updates[field] = optionalText(input[field]);
+	}
+	if (input.isPublished !== undefined) {
+		throw new LearnError('isPublished cannot be set directly; publish the version or cancel its schedule instead');
+	}
+	// Editors send the status they loaded along with every save, which leaves it as it is
+	if (input.status !== undefined && input.status !== existing.status) {
+		if (!EDITABLE_VERSION_STATUSES.includes(input.status)) {
+			throw new LearnError(`status must be one of ${EDITABLE_VERSION_STATUSES.join(', ')}`);
+		}
+		if (existing.status === 'published' || existing.status === 'archived') {
+			throw new LearnError(`A ${existing.status} version cannot go back to ${input.status}, create a new version instead`, 409);
+		}
+		updates.status = input.status;
+	}
+	if (input.metadata !== undefined) updates.metadata = input.metadata;
+	if (input.categoryId !== undefined) {
+		await assertCategoryExists(input.categoryId);
+		updates.categoryId = input.categoryId || null;
+	}
+	if (input.content !== undefined) {
+		assertValidLearnContent(input.content);
+		updates.content = input.content;
+	}
+
+	if (updates.status && existing.status === 'scheduled') {
+		await cancelScheduledPublish(versionId);
+	}
+
+	const [version] = await db.update(learnTopicVersions)
+		.set(updates)
+		.where(eq(learnTopicVersions.id, versionId))
+		.returning();
+	return version;
+}
+
+/**
+ * Point the topic at one of its versions; the app shows it once that version is published
+ */
+export async function setCurrentLearnTopicVersion(topicId: string, versionId: string): Promise<LearnTopicRow> {
+	await getTopicRow(topicId);
+
+	const [version] = await db.select({ id: learnTopicVersions.id, topicId: learnTopicVersions.topicId })
+		.from(learnTopicVersions)
+		.where(eq(learnTopicVersions.id, versionId))
+		.limit(1);
+	if (!version) {
+		throw new LearnError('Version not found', 404);
+	}
+	if (version.topicId !== topicId) {
+		throw new LearnError('Version belongs to another topic');
+	}
+
+	const [topic] = await db.update(learnTopics)
+		.set({ currentVersionId: versionId, updated: new Date().toISOString() })
+		.where(eq(learnTopics.id, topicId))
+		.returning();
+	return topic;
+}
+
+// ---------------------------------------------------------------------------
+// Published content for the app
+// ---------------------------------------------------------------------------
+
+function toPublishedTopic(topic: LearnTopicRow, category: LearnCategoryRow | null, version: LearnTopicVersionRow) {
+	return {
+		id: topic.id,
+		slug: topic.slug,
+		order: topic.order,
+		difficulty: topic.difficulty,
+		level: topic.level,
+		estimatedMinutes: topic.estimatedMinutes,
+		summaryDE: topic.summaryDE,
+		summaryEN: topic.summaryEN,
+		coverImage: topic.coverImage,
+		isFeatured: topic.isFeatured,
+		tags: topic.tags,
+		category: category && category.isActive ? category : null,
+		version: {
+			id: version.id,
+			versionLabel: version.versionLabel,
+			titleDE: version.titleDE,
+			titleEN: version.titleEN,
+			descriptionDE: version.descriptionDE,
+			descriptionEN: version.descriptionEN,
+			language: version.language,
+			image: version.image,
+			content: version.content,
+			publishedAt: version.publishedAt
+		}
+	};
+}
+
+export type PublishedLearnTopic = ReturnType<typeof toPublishedTopic>;
+
+function publishedTopicsQuery() {
+	return db.select({ topic: learnTopics, category: learnCategories, version: learnTopicVersions })
+		.from(learnTopics)
+		.innerJoin(learnTopicVersions, eq(learnTopicVersions.id, learnTopics.currentVersionId))
+		.leftJoin(learnCategories, eq(learnCategories.id, learnTopics.categoryId))
+		.$dynamic();
+}
+
+/**
+ * Active topics whose current version is published, without content by default
+ */
+export async function listPublishedLearnTopics(
+	options: { categoryId?: string; includeContent?: boolean } = {}
+): Promise<PublishedLearnTopic[]> {
+	const conditions = [eq(learnTopics.isActive, true), eq(learnTopicVersions.isPublished, true)];
+	if (options.categoryId) {
+		conditions.push(eq(learnTopics.categoryId, options.categoryId));
+	}
+
+	const rows = await publishedTopicsQuery()
+		.where(and(...conditions))
+		.orderBy(asc(learnTopics.order), asc(learnTopics.slug));
+
+	return rows.map(({ topic, category, version }) => {
+		const published = toPublishedTopic(topic, category, version);
+		if (!options.includeContent) {
+			published.version.content = null;
+		}
+		return published;
+	});
+}
+
+/**
+ * A published topic by id or slug
+ */
+export async function getPublishedLearnTopic(idOrSlug: string): Promise<PublishedLearnTopic> {
+	const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(idOrSlug);
+	const [row] = await publishedTopicsQuery()
+		.where(and(
+			isUuid ? eq(learnTopics.id, idOrSlug) : eq(learnTopics.slug, idOrSlug),
+			eq(learnTopics.isActive, true),
+			eq(learnTopicVersions.isPublished, true)
+		))
+		.limit(1);
+	if (!row) {
+		throw new LearnError('Topic not found', 404);
+	}
+	return toPublishedTopic(row.topic, row.category, row.version);
+}
+
+/**
+ * Active categories that have at least one published topic
+ */
+export async function listPublishedLearnCategories(): Promise<LearnCategoryRow[]> {
+	const topics = await listPublishedLearnTopics();
+	const categoryIds = new Set(topics.map(topic => topic.category?.id).filter(Boolean));
+	const categories = await listLearnCategories();
+	return categories.filter(category => categoryIds.has(category.id));
+}
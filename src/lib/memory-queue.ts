@@ -0,0 +1,281 @@
+/**
+ * Durable memory extraction queue
+ * Completed chats are enqueued and drained by a background worker (see jobs.ts).
+ * Jobs are claimed with FOR UPDATE SKIP LOCKED, so several workers never pick the same job.
+ */
+
+import { and, asc, count, desc, eq, gte, inArray, lt, lte, sql } from 'drizzle-orm';
+import { chats, memories, memoryExtractionQueue } from '../../drizzle/schema.js';
+import { extractMemories } from './ai-tools.js';
+import { db } from './db.js';
+
+export const MEMORY_QUEUE_CONFIG = {
+	batchSize: 5,
+	baseBackoffMs: 60 * 1000, // 1 min, doubled per failed attempt
+	maxBackoffMs: 60 * 60 * 1000, // 1 hour
+	// A job stuck in "processing" this long belongs to a crashed worker and is released
+	staleLockMs: 15 * 60 * 1000
+} as const;
+
+export type MemoryQueueJob = typeof memoryExtractionQueue.$inferSelect;
+
+/**
+ * Queue memory extraction for a chat
+ * A chat that already has a pending or running job is not queued twice; off-the-record chats are never queued
+ */
+export async function enqueueMemoryExtraction(userId: string, chatId: string, locale: string = 'de') {
+	const [chat] = await db.select({ offTheRecord: chats.offTheRecord })
+		.from(chats)
+		.where(eq(chats.id, chatId))
+		.limit(1);
+
+	if (!chat) {
+		throw new Error(`Chat ${chatId} not found`);
+	}
+
+	if (chat.offTheRecord) {
+		console.log(`🔒 Chat ${chatId} is off the record, not queueing memory extraction`);
+		return { id: null, queued: false };
+	}
+
+	// The partial unique index turns a concurrent second enqueue into a no-op
+	const [job] = await db.insert(memoryExtractionQueue)
+		.values({
+			id: crypto.randomUUID(),
+			userId,
+			chatId,
+			locale
+		})
+		.onConflictDoNothing({
+			target: memoryExtractionQueue.chatId,
+			where: sql`status IN ('pending', 'processing')`
+		})
+		.returning({ id: memoryExtractionQueue.id });
+
+	if (!job) {
+		const [existing] = await db.select({ id: memoryExtractionQueue.id })
+			.from(memoryExtractionQueue)
+			.where(and(
+				eq(memoryExtractionQueue.chatId, chatId),
+				inArray(memoryExtractionQueue.status, ['pending', 'processing'])
+			))
+			.limit(1);
+		return { id: existing?.id ?? null, queued: false };
+	}
+
+	console.log(`🧠 Queued memory extraction job ${job.id} for chat ${chatId}`);
+	return { id: job.id, queued: true };
+}
+
+/**
+ * Drop pending jobs for a chat, e.g. when it is taken off the record
+ */
+export async function cancelPendingMemoryExtraction(chatId: string): Promise<number> {
+	const cancelled = await db.delete(memoryExtractionQueue)
+		.where(and(eq(memoryExtractionQueue.chatId, chatId), eq(memoryExtractionQueue.status, 'pending')))
+		.returning({ id: memoryExtractionQueue.id });
+
+	return cancelled.length;
+}
+
+export function getRetryDelayMs(attempts: number): number {
+	return Math.min(
+		MEMORY_QUEUE_CONFIG.maxBackoffMs,
+		MEMORY_QUEUE_CONFIG.baseBackoffMs * 2 ** Math.max(0, attempts - 1)
+	);
+}
+
+async function releaseStaleJobs(now: Date): Promise<number> {
+	const staleBefore = new Date(now.getTime() - MEMORY_QUEUE_CONFIG.staleLockMs).toISOString();
+
+	const released = await db.update(memoryExtractionQueue)
+		.set({ status: 'pending', lockedAt: null, updated: now.toISOString() })
+		.where(and(
+			eq(memoryExtractionQueue.status, 'processing'),
+			lt(memoryExtractionQueue.lockedAt, staleBefore)
+		))
+		.returning({ id: memoryExtractionQueue.id });
+
+	return released.length;
+}
+
+async function claimJobs(now: Date, limit: number): Promise<MemoryQueueJob[]> {
+	const nowIso = now.toISOString();
+
+	return db.transaction(async (tx) => {
+		const candidates = await tx.select({ id: memoryExtractionQueue.id })
+			.from(memoryExtractionQueue)
+			.where(and(
+				eq(memoryExtractionQueue.status, 'pending'),
+				lte(memoryExtractionQueue.nextAttemptAt, nowIso)
+			))
+			.orderBy(asc(memoryExtractionQueue.nextAttemptAt))
+			.limit(limit)
+			.for('update', { skipLocked: true });
+
+		if (candidates.length === 0) {
+			return [];
+		}
+
+		const claimed: MemoryQueueJob[] = [];
+		for (const { id } of candidates) {
+			const [job] = await tx.update(memoryExtractionQueue)
+				.set({ status: 'processing', lockedAt: nowIso, updated: nowIso })
+				.where(eq(memoryExtractionQueue.id, id))
+				.returning();
+			claimed.push(job);
+		}
+		return claimed;
+	});
+}
+
+/**
+ * Remove memories an earlier attempt of this job already saved, so a retry doesn't duplicate them
+ * Memories the user corrected in the meantime are kept.
+ */
+async function discardPartialExtraction(job: MemoryQueueJob): Promise<number> {
+	const scope = job.chatId
+		? eq(memories.chatId, job.chatId)
+		: sql`${memories.chatId} IN (SELECT id FROM chats WHERE user_id = ${job.userId} AND memory_processed = false)`;
+
+	const discarded = await db.delete(memories)
+		.where(and(
+			eq(memories.userId, job.userId),
+			scope,
+			gte(memories.created, job.created),
+			sql`NOT EXISTS (SELECT 1 FROM memory_versions v WHERE v.memory_id = ${memories.id} AND v.source = 'user')`
+		))
+		.returning({ id: memories.id });
+
+	return discarded.length;
+}
+
+async function runJob(job: MemoryQueueJob): Promise<'done' | 'retry' | 'failed'> {
+	const attempts = job.attempts + 1;
+
+	try {
+		// Also covers attempts of a crashed worker, which were released without counting
+		const discarded = await discardPartialExtraction(job);
+		if (discarded > 0) {
+			console.log(`♻️ Discarded ${discarded} memories from an earlier attempt of job ${job.id}`);
+		}
+
+		await extractMemories(job.userId, job.locale, job.chatId || undefined);
+
+		const nowIso = new Date().toISOString();
+		// extractMemories skips chats with an empty history; they are still handled
+		if (job.chatId) {
+			await db.update(chats)
+				.set({ memoryProcessed: true, updated: nowIso })
+				.where(eq(chats.id, job.chatId));
+		}
+
+		await db.update(memoryExtractionQueue)
+			.set({
+				status: 'done',
+				attempts,
+				lockedAt: null,
+				lastError: null,
+				completedAt: nowIso,
+				updated: nowIso
+			})
+			.where(eq(memoryExtractionQueue.id, job.id));
+
+		return 'done';
+	} catch (error: any) {
+		const now = new Date();
+		const message = error?.message || String(error);
+		const exhausted = attempts >= job.maxAttempts;
+
+		console.error(`❌ Memory extraction job ${job.id} failed (attempt ${attempts}/${job.maxAttempts}):`, message);
+
+		await db.update(memoryExtractionQueue)
+			.set({
+				status: exhausted ? 'failed' : 'pending',
+				attempts,
+				lockedAt: null,
+				lastError: message,
+				nextAttemptAt: exhausted
+					? job.nextAttemptAt
+					: new Date(now.getTime() + getRetryDelayMs(attempts)).toISOString(),
+				updated: now.toISOString()
+			})
+			.where(eq(memoryExtractionQueue.id, job.id));
+
+		return exhausted ? 'failed' : 'retry';
+	}
+}
+
+/**
+ * Claim and run one batch of due jobs
+ */
+export async function processMemoryExtractionQueue(limit: number = MEMORY_QUEUE_CONFIG.batchSize) {
+	const now = new Date();
+	const released = await releaseStaleJobs(now);
+	const jobs = await claimJobs(now, limit);
+
+	const summary = { claimed: jobs.length, released, done: 0, retried: 0, failed: 0 };
+
+	for (const job of jobs) {
+		const outcome = await runJob(job);
+		if (outcome === 'done') summary.done++;
+		else if (outcome === 'retry') summary.retried++;
+		else summary.failed++;
+	}
+
+	return summary;
+}
+
+/**
+ * Queue depth per status and the most recent failed jobs
+ */
+export async function getMemoryQueueStats(failedLimit: number = 50) {
+	const byStatus = await db.select({ status: memoryExtractionQueue.status, total: count() })
+		.from(memoryExtractionQueue)
+		.groupBy(memoryExtractionQueue.status);
+
+	const depth: Record<string, number> = { pending: 0, processing: 0, done: 0, failed: 0 };
+	for (const row of byStatus) {
+		depth[row.status] = Number(row.total);
+	}
+
+	const [oldestPending] = await db.select({ created: memoryExtractionQueue.created })
+		.from(memoryExtractionQueue)
+		.where(eq(memoryExtractionQueue.status, 'pending'))
+		.orderBy(asc(memoryExtractionQueue.created))
+		.limit(1);
+
+	const failedJobs = await db.select()
+		.from(memoryExtractionQueue)
+		.where(eq(memoryExtractionQueue.status, 'failed'))
+		.orderBy(desc(memoryExtractionQueue.updated))
+		.limit(failedLimit);
+
+	return {
+		depth,
+		oldestPendingSince: oldestPending?.created || null,
+		failedJobs
+	};
+}
+
+/**
+ * Put a failed job back into the queue with a fresh attempt budget
+ * Not possible while the chat has another queued or running job (returns null).
+ */
+export async function retryFailedMemoryJob(jobId: string) {
+	const nowIso = new Date().toISOString();
+
+	const [job] = await db.update(memoryExtractionQueue)
+		.set({ status: 'pending', attempts: 0, nextAttemptAt: nowIso, lockedAt: null, updated: nowIso })
+		.where(and(
+			eq(memoryExtractionQueue.id, jobId),
+			eq(memoryExtractionQueue.status, 'failed'),
+			sql`NOT EXISTS (
+				SELECT 1 FROM memory_extraction_queue active
+				WHERE active.chat_id = ${memoryExtractionQueue.chatId} AND active.status IN ('pending', 'processing')
+			)`
+		))
+		.returning();
+
+	return job || null;
+}
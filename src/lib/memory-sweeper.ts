@@ -0,0 +1,205 @@
+/**
+ * Memory sweeper: purges expired memories, decays relevance of memories that
+ * haven't been used in a while and promotes frequently used episodic memories to patterns.
+ * Runs from the scheduler; admins can run it in dry-run mode to audit the changes first.
+ */
+
+import { and, asc, gt, inArray, isNotNull, lte, sql } from 'drizzle-orm';
+import { memories } from '../../drizzle/schema.js';
+import { db } from './db.js';
+import { MEMORY_CONFIG, getExpiryDate, type MemoryType } from './memory.js';
+
+export const MEMORY_SWEEP_CONFIG = {
+	minRelevanceScore: 0.05,
+	// Changes smaller than this are not written, so repeated sweeps stay cheap
+	minRelevanceChange: 0.01,
+	promotion: {
+		fromType: 'episodic' as MemoryType,
+		toType: 'patterns' as MemoryType,
+		minAccessCount: 5
+	},
+	batchSize: 500,
+	reportSampleSize: 50
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SweepSection<T> {
+	count: number;
+	sample: T[];
+}
+
+export interface MemorySweepReport {
+	dryRun: boolean;
+	startedAt: string;
+	expired: SweepSection<{ id: string; userId: string; type: string; key: string | null; expiresAt: string | null }>;
+	decayed: SweepSection<{ id: string; type: string; from: number; to: number; daysSinceAccess: number }>;
+	promoted: SweepSection<{ id: string; userId: string; key: string | null; accessCount: number; from: string; to: string }>;
+}
+
+type MemoryRow = typeof memories.$inferSelect;
+type SweepRow = Pick<MemoryRow, 'id' | 'userId' | 'type' | 'key' | 'relevanceScore' | 'accessCount' | 'lastAccessed' | 'created'>;
+
+interface SweepUpdate {
+	id: string;
+	relevance: number | null;
+	promote: boolean;
+}
+
+function addToSection<T>(section: SweepSection<T>, entry: T): void {
+	section.count++;
+	if (section.sample.length < MEMORY_SWEEP_CONFIG.reportSampleSize) {
+		section.sample.push(entry);
+	}
+}
+
+/**
+ * Relevance of a memory after `daysSinceAccess` days without use
+ * Exponential decay with the type's half-life; types without a half-life keep their score
+ */
+export function getDecayedRelevance(type: string, daysSinceAccess: number): number | null {
+	const config = MEMORY_CONFIG[type as MemoryType];
+	if (!config || config.decayHalfLifeDays === null) {
+		return null;
+	}
+
+	const decayed = Math.pow(0.5, Math.max(0, daysSinceAccess) / config.decayHalfLifeDays);
+	return Math.max(MEMORY_SWEEP_CONFIG.minRelevanceScore, Math.round(decayed * 1000) / 1000);
+}
+
+function shouldPromote(memory: Pick<SweepRow, 'type' | 'accessCount'>): boolean {
+	const { fromType, minAccessCount } = MEMORY_SWEEP_CONFIG.promotion;
+	return memory.type === fromType && memory.accessCount >= minAccessCount;
+}
+
+/**
+ * Write the decay and promotion changes of one batch in a single UPDATE
+ */
+async function applySweepUpdates(updates: SweepUpdate[], nowIso: string): Promise<void> {
+	if (updates.length === 0) return;
+
+	const { toType } = MEMORY_SWEEP_CONFIG.promotion;
+	const promotedExpiry = getExpiryDate(toType);
+	const values = sql.join(
+		updates.map(update => sql`(${update.id}::uuid, ${update.relevance}::real, ${update.promote}::boolean)`),
+		sql`, `
+	);
+
+	await db.execute(sql`
+		UPDATE memories m
+		SET relevance_score = COALESCE(v.relevance, m.relevance_score),
+			type = CASE WHEN v.promote THEN ${toType} ELSE m.type END,
+			priority = CASE WHEN v.promote THEN ${MEMORY_CONFIG[toType].priority} ELSE m.priority END,
+			expires_at = CASE WHEN v.promote THEN ${promotedExpiry ? promotedExpiry.toISOString() : null}::timestamp ELSE m.expires_at END,
+			updated = ${nowIso}::timestamp
+		FROM (VALUES ${values}) AS v(id, relevance, promote)
+		WHERE m.id = v.id
+	`);
+}
+
+/**
+ * Sweep all memories
+ * With dryRun the report lists what would change and nothing is written
+ */
+export async function sweepMemories(options: { dryRun?: boolean } = {}): Promise<MemorySweepReport> {
+	const dryRun = options.dryRun ?? false;
+	const now = new Date();
+	const nowIso = now.toISOString();
+
+	const report: MemorySweepReport = {
+		dryRun,
+		startedAt: nowIso,
+		expired: { count: 0, sample: [] },
+		decayed: { count: 0, sample: [] },
+		promoted: { count: 0, sample: [] }
+	};
+
+	// 1. Expired memories
+	const expired = await db
+		.select({ id: memories.id, userId: memories.userId, type: memories.type, key: memories.key, expiresAt: memories.expiresAt })
+		.from(memories)
+		.where(and(isNotNull(memories.expiresAt), lte(memories.expiresAt, nowIso)));
+
+	expired.forEach(memory => addToSection(report.expired, memory));
+
+	if (!dryRun && expired.length > 0) {
+		for (let i = 0; i < expired.length; i += MEMORY_SWEEP_CONFIG.batchSize) {
+			const ids = expired.slice(i, i + MEMORY_SWEEP_CONFIG.batchSize).map(memory => memory.id);
+			await db.delete(memories).where(inArray(memories.id, ids));
+		}
+	}
+
+	const expiredIds = new Set(expired.map(memory => memory.id));
+	const { toType } = MEMORY_SWEEP_CONFIG.promotion;
+
+	// 2. Decay and promotion, in id order so batches are stable
+	let lastId: string | null = null;
+	while (true) {
+		// Only the columns the sweep needs; the embeddings stay in the database
+		const batch: SweepRow[] = await db
+			.select({
+				id: memories.id,
+				userId: memories.userId,
+				type: memories.type,
+				key: memories.key,
+				relevanceScore: memories.relevanceScore,
+				accessCount: memories.accessCount,
+				lastAccessed: memories.lastAccessed,
+				created: memories.created
+			})
+			.from(memories)
+			.where(lastId ? gt(memories.id, lastId) : undefined)
+			.orderBy(asc(memories.id))
+			.limit(MEMORY_SWEEP_CONFIG.batchSize);
+
+		if (batch.length === 0) break;
+		lastId = batch[batch.length - 1].id;
+
+		const batchUpdates: SweepUpdate[] = [];
+		for (const memory of batch) {
+			if (expiredIds.has(memory.id)) continue;
+
+			const promote = shouldPromote(memory);
+			const type = promote ? toType : memory.type;
+			let relevance: number | null = null;
+
+			if (promote) {
+				addToSection(report.promoted, {
+					id: memory.id,
+					userId: memory.userId,
+					key: memory.key,
+					accessCount: memory.accessCount,
+					from: memory.type,
+					to: toType
+				});
+			}
+
+			const lastUsed = new Date(memory.lastAccessed || memory.created);
+			const daysSinceAccess = (now.getTime() - lastUsed.getTime()) / DAY_MS;
+			const decayed = getDecayedRelevance(type, daysSinceAccess);
+
+			if (decayed !== null && Math.abs(decayed - memory.relevanceScore) >= MEMORY_SWEEP_CONFIG.minRelevanceChange) {
+				relevance = decayed;
+				addToSection(report.decayed, {
+					id: memory.id,
+					type,
+					from: memory.relevanceScore,
+					to: decayed,
+					daysSinceAccess: Math.floor(daysSinceAccess)
+				});
+			}
+
+			if (promote || relevance !== null) {
+				batchUpdates.push({ id: memory.id, relevance, promote });
+			}
+		}
+
+		if (!dryRun) {
+			await applySweepUpdates(batchUpdates, nowIso);
+		}
+	}
+
+	console.log(`🧹 Memory sweep${dryRun ? ' (dry run)' : ''}: ${report.expired.count} expired, ${report.decayed.count} decayed, ${report.promoted.count} promoted`);
+
+	return report;
+}
@@ -3,37 +3,37 @@
  * Based on empathy-link implementation
  */
 
-import { GoogleGenAI } from '@google/genai';
 import { db } from './db.js';
-import { memories } from '../../drizzle/schema.js';
-import { sql, desc, and, eq, inArray } from 'drizzle-orm';
+import { embedText, sameEmbeddingModel } from './embeddings.js';
+import { chats, memories, memoryVersions, user } from '../../drizzle/schema.js';
+import { sql, asc, desc, and, eq, inArray } from 'drizzle-orm';
 import 'dotenv/config';
 
-// Initialize Gemini client for embeddings
-let genaiClient: GoogleGenAI | null = null;
-
-function getGenAIClient(): GoogleGenAI {
-	if (!genaiClient) {
-		const apiKey = process.env.GEMINI_API_KEY;
-		if (!apiKey) {
-			throw new Error('GEMINI_API_KEY environment variable is required');
-		}
-		genaiClient = new GoogleGenAI({ apiKey });
-	}
-	return genaiClient;
-}
-
 // Memory type configuration
+// decayHalfLifeDays: days without access after which relevanceScore halves (null = no decay)
+// Priorities share one 0-1 scale: the type default below, or a user's explicit correction
 export const MEMORY_CONFIG = {
-	core_identity: { priority: 1.0, expiryDays: null }, // Never expires
-	patterns: { priority: 0.8, expiryDays: 365 }, // 1 year
-	preferences: { priority: 0.6, expiryDays: 180 }, // 6 months
-	episodic: { priority: 0.4, expiryDays: 90 }, // 3 months
-	contextual: { priority: 0.2, expiryDays: 30 } // 1 month
+	core_identity: { priority: 1.0, expiryDays: null, decayHalfLifeDays: null }, // Never expires
+	patterns: { priority: 0.8, expiryDays: 365, decayHalfLifeDays: 180 }, // 1 year
+	preferences: { priority: 0.6, expiryDays: 180, decayHalfLifeDays: 90 }, // 6 months
+	episodic: { priority: 0.4, expiryDays: 90, decayHalfLifeDays: 30 }, // 3 months
+	contextual: { priority: 0.2, expiryDays: 30, decayHalfLifeDays: 10 } // 1 month
 } as const;
 
 export type MemoryType = keyof typeof MEMORY_CONFIG;
 
+// Retrieval ranking: weighted blend of cosine similarity, type priority, relevanceScore and recency
+// Without a query (e.g. listing all memories) the similarity weight is left out
+export const MEMORY_RANKING_WEIGHTS = {
+	similarity: 0.6,
+	priority: 0.15,
+	relevance: 0.15,
+	recency: 0.1,
+	recencyHalfLifeDays: 30,
+	// Vector search fetches this many times k candidates before re-ranking
+	candidateMultiplier: 4
+} as const;
+
 export interface Memory {
 	id: string;
 	userId: string;
@@ -44,6 +44,8 @@ export interface Memory {
 	value: string;
 	personName: string | null;
 	embedding: unknown;
+	embeddingProvider: string | null;
+	embeddingModel: string | null;
 	chatId: string | null;
 	relevanceScore: number;
 	accessCount: number;
@@ -54,41 +56,11 @@ export interface Memory {
 }
 
 /**
- * Generate text embedding using Gemini
+ * Generate a text embedding with the configured provider (see embeddings.ts)
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
 	try {
-		const genai = getGenAIClient();
-
-		const response = await genai.models.embedContent({
-			model: 'gemini-embedding-001',
-			contents: text,
-			config: {
-				outputDimensionality: 768
-			}
-		});
-
-		// Check both singular and plural forms (SDK might use either)
-		let values: number[] | undefined;
-		if (response.embedding?.values) {
-			values = response.embedding.values;
-		} else if (response.embeddings && Array.isArray(response.embeddings) && response.embeddings.length > 0) {
-			// Handle plural form - take first embedding's values
-			values = response.embeddings[0].values;
-		} else if ((response as any).embedding?.values) {
-			// Try nested structure
-			values = (response as any).embedding.values;
-		}
-
-		if (!values || !Array.isArray(values)) {
-			console.error('Response structure:', JSON.stringify(response, null, 2));
-			throw new Error('No embeddings returned from API');
-		}
-		if (!values || !Array.isArray(values)) {
-			throw new Error('No embedding values returned from API');
-		}
-
-		return values as number[];
+		return (await embedText(text)).values;
 	} catch (error) {
 		console.error('Embedding generation failed:', error);
 		throw new Error('Failed to generate embedding');
@@ -147,51 +119,105 @@ export function getExpiryDate(memoryType: MemoryType): Date | null {
 	return expiryDate;
 }
 
+export const MEMORY_TYPES = Object.keys(MEMORY_CONFIG) as MemoryType[];
+
+export function isMemoryType(value: unknown): value is MemoryType {
+	return typeof value === 'string' && value in MEMORY_CONFIG;
+}
+
+/**
+ * Parse the user's allowedMemoryTypes setting; unset means every type may be stored
+ */
+export function parseAllowedMemoryTypes(value: string | null): MemoryType[] {
+	if (value === null) {
+		return [...MEMORY_TYPES];
+	}
+	try {
+		const parsed = JSON.parse(value);
+		return Array.isArray(parsed) ? parsed.filter(isMemoryType) : [...MEMORY_TYPES];
+	} catch {
+		return [...MEMORY_TYPES];
+	}
+}
+
+/**
+ * Memory types the user consents to being stored
+ */
+export async function getAllowedMemoryTypes(userId: string): Promise<MemoryType[]> {
+	const [settings] = await db.select({ allowedMemoryTypes: user.allowedMemoryTypes })
+		.from(user)
+		.where(eq(user.id, userId))
+		.limit(1);
+
+	return parseAllowedMemoryTypes(settings?.allowedMemoryTypes ?? null);
+}
+
 /**
- * Search for top-k most similar memories for chat context
+ * Blended ranking score of a memory, see MEMORY_RANKING_WEIGHTS
+ */
+export function scoreMemory(
+	memory: Pick<Memory, 'priority' | 'relevanceScore' | 'lastAccessed' | 'created'>,
+	similarity: number | null,
+	now: Date = new Date()
+): number {
+	const weights = MEMORY_RANKING_WEIGHTS;
+	const lastUsed = new Date(memory.lastAccessed || memory.created).getTime();
+	const daysSinceUse = Math.max(0, (now.getTime() - lastUsed) / (24 * 60 * 60 * 1000));
+	const recency = Number.isFinite(daysSinceUse) ? Math.pow(0.5, daysSinceUse / weights.recencyHalfLifeDays) : 0;
+
+	const clamp = (value: number) => Math.min(1, Math.max(0, Number(value) || 0));
+	let score = weights.priority * clamp(memory.priority)
+		+ weights.relevance * clamp(memory.relevanceScore)
+		+ weights.recency * recency;
+	let totalWeight = weights.priority + weights.relevance + weights.recency;
+
+	if (similarity !== null) {
+		score += weights.similarity * clamp(similarity);
+		totalWeight += weights.similarity;
+	}
+
+	return score / totalWeight;
+}
+
+/**
+ * Search for top-k memories for chat context
+ * Candidates come from cosine similarity and are re-ranked with scoreMemory
  */
 export async function searchSimilarMemories(
 	text: string,
 	userId: string,
 	k: number = 5
-): Promise<Array<Memory & { similarity: number }>> {
+): Promise<Array<Memory & { similarity: number; score: number }>> {
 	try {
 		console.log(`🔍 Searching for ${k} similar memories for user: ${userId}`);
 
 		// Generate embedding for the search text
 		const embedding = await generateEmbedding(text);
 
-		// Search for similar memories using vector similarity
+		// Search for similar memories using cosine distance
 		const results = await db.execute(sql`
 			SELECT *,
-				   1 - (embedding <-> ${JSON.stringify(embedding)}::vector) as similarity
+				   1 - (embedding <=> ${JSON.stringify(embedding)}::vector) as similarity
 			FROM memories
 			WHERE user_id = ${userId}
 			AND (expires_at IS NULL OR expires_at > NOW())
-			ORDER BY embedding <-> ${JSON.stringify(embedding)}::vector
-			LIMIT ${k}
+			AND ${sameEmbeddingModel()}
+			ORDER BY embedding <=> ${JSON.stringify(embedding)}::vector
+			LIMIT ${k * MEMORY_RANKING_WEIGHTS.candidateMultiplier}
 		`);
 
-		// Update access_count and last_accessed for retrieved memories
 		const resultRows = Array.isArray(results) ? results : (results.rows || []);
-		
-		console.log(`📝 Found ${resultRows.length} similar memories`);
-		const memoryIds = resultRows.map((r: any) => r.id).filter((id: any) => id);
-
-		if (memoryIds.length > 0) {
-			await db.update(memories)
-				.set({
-					accessCount: sql`access_count + 1`,
-					lastAccessed: new Date().toISOString()
-				})
-				.where(inArray(memories.id, memoryIds));
-			console.log('✅ Updated access count for retrieved memories');
-		}
-
-		return resultRows.map((result: any) => ({
-			...result,
-			similarity: result.similarity || 0
-		}));
+		console.log(`📝 Found ${resultRows.length} candidate memories`);
+
+		const now = new Date();
+		return resultRows
+			.map((row: any) => {
+				const memory = toMemory(row);
+				const similarity = Number(row.similarity) || 0;
+				return { ...memory, similarity, score: scoreMemory(memory, similarity, now) };
+			})
+			.sort((a, b) => b.score - a.score)
+			.slice(0, k);
 
 	} catch (error) {
 		console.error('Error searching similar memories:', error);
@@ -199,6 +225,53 @@ export async function searchSimilarMemories(
 	}
 }
 
+/**
+ * Map a raw memories row (snake_case from db.execute) to a Memory
+ */
+function toMemory(row: any): Memory {
+	return {
+		id: row.id,
+		userId: row.user_id ?? row.userId,
+		confidence: row.confidence,
+		type: row.type,
+		priority: row.priority,
+		key: row.key,
+		value: row.value,
+		personName: row.person_name ?? row.personName ?? null,
+		embedding: row.embedding,
+		embeddingProvider: row.embedding_provider ?? row.embeddingProvider ?? null,
+		embeddingModel: row.embedding_model ?? row.embeddingModel ?? null,
+		chatId: row.chat_id ?? row.chatId ?? null,
+		relevanceScore: row.relevance_score ?? row.relevanceScore ?? 1,
+		accessCount: row.access_count ?? row.accessCount ?? 0,
+		lastAccessed: row.last_accessed ?? row.lastAccessed ?? null,
+		expiresAt: row.expires_at ?? row.expiresAt ?? null,
+		created: row.created,
+		updated: row.updated
+	};
+}
+
+/**
+ * Record that memories were injected into a prompt
+ * One batched update; failures are logged and never break the chat turn
+ */
+export async function recordMemoryAccess(memoryIds: string[]): Promise<void> {
+	const ids = [...new Set(memoryIds.filter(Boolean))];
+	if (ids.length === 0) return;
+
+	try {
+		await db.update(memories)
+			.set({
+				accessCount: sql`${memories.accessCount} + 1`,
+				lastAccessed: new Date().toISOString()
+			})
+			.where(inArray(memories.id, ids));
+		console.log(`✅ Recorded access for ${ids.length} memories`);
+	} catch (error) {
+		console.error('Error recording memory access:', error);
+	}
+}
+
 /**
  * Check for similar existing memories to prevent duplication
  */
@@ -214,6 +287,7 @@ export async function findSimilarMemory(
 			FROM memories
 			WHERE user_id = ${userId}
 			AND (expires_at IS NULL OR expires_at > NOW())
+			AND ${sameEmbeddingModel()}
 			ORDER BY embedding <-> ${JSON.stringify(embedding)}::vector
 			LIMIT 1
 		`);
@@ -237,13 +311,15 @@ export async function findSimilarMemory(
 export async function mergeMemories(existingMemory: Memory, newSummary: string): Promise<void> {
 	try {
 		const mergedValue = `${existingMemory.value}. ${newSummary}`;
-		const newEmbedding = await generateEmbedding(mergedValue);
+		const newEmbedding = await embedText(mergedValue);
 
 		await db.execute(sql`
 			UPDATE memories
 			SET
 				value = ${mergedValue},
-				embedding = ${JSON.stringify(newEmbedding)}::vector,
+				embedding = ${JSON.stringify(newEmbedding.values)}::vector,
+				embedding_provider = ${newEmbedding.provider},
+				embedding_model = ${newEmbedding.model},
 				access_count = ${existingMemory.accessCount + 1},
 				updated = NOW()
 			WHERE id = ${existingMemory.id}
@@ -268,17 +344,32 @@ export async function createMemory(
 	try {
 		console.log(`💾 Creating memory for user ${userId}: "${summary.substring(0, 50)}..."`);
 
-		const embedding = await generateEmbedding(summary);
+		const memoryType = classifyMemoryType(summary);
+		const allowedTypes = await getAllowedMemoryTypes(userId);
+		if (!allowedTypes.includes(memoryType)) {
+			throw new MemoryValidationError(`Storing ${memoryType} memories is disabled in your chat settings`);
+		}
+
+		if (chatId) {
+			const [chat] = await db.select({ offTheRecord: chats.offTheRecord })
+				.from(chats)
+				.where(and(eq(chats.id, chatId), eq(chats.userId, userId)))
+				.limit(1);
+			if (chat?.offTheRecord) {
+				throw new MemoryValidationError('This chat is off the record');
+			}
+		}
+
+		const embedding = await embedText(summary);
 
 		// Check for duplicates
-		const existingMemory = await findSimilarMemory(embedding, userId, 0.85);
+		const existingMemory = await findSimilarMemory(embedding.values, userId, 0.85);
 		if (existingMemory) {
 			console.log(`🔄 Found similar memory, merging instead of creating new`);
 			await mergeMemories(existingMemory, summary);
 			return existingMemory;
 		}
 
-		const memoryType = classifyMemoryType(summary);
 		const priority = MEMORY_CONFIG[memoryType].priority;
 		const expiryDate = getExpiryDate(memoryType);
 
@@ -286,10 +377,12 @@ export async function createMemory(
 		const result = await db.execute(sql`
 			INSERT INTO memories (
 				user_id, confidence, type, priority, key, value, embedding,
+				embedding_provider, embedding_model,
 				chat_id, relevance_score, access_count, expires_at
 			) VALUES (
 				${userId}, ${confidence}, ${memoryType}, ${priority}, '',
-				${summary}, ${JSON.stringify(embedding)}::vector, ${chatId || null},
+				${summary}, ${JSON.stringify(embedding.values)}::vector,
+				${embedding.provider}, ${embedding.model}, ${chatId || null},
 				1.0, 0, ${expiryDate ? expiryDate.toISOString() : null}
 			) RETURNING *
 		`);
@@ -313,14 +406,8 @@ export async function createMemory(
 export function formatMemoriesForPrompt(memories: Array<Memory & { similarity?: number }>): string {
 	if (memories.length === 0) return '';
 
+	// Memories arrive ranked (see scoreMemory), so their order is kept
 	const formattedMemories = memories
-		.sort((a, b) => {
-			// Sort by priority first, then by access count
-			if (b.priority !== a.priority) {
-				return b.priority - a.priority;
-			}
-			return b.accessCount - a.accessCount;
-		})
 		.map(memory => {
 			// Handle invalid types gracefully
 			const type = memory.type.replace('_', ' ').toUpperCase();
@@ -332,12 +419,12 @@ export function formatMemoriesForPrompt(memories: Array<Memory & { similarity?:
 }
 
 /**
- * Get all memories for a user
+ * Get the top memories for a user, ranked with scoreMemory (without similarity)
  */
 export async function getUserMemories(userId: string, limit: number = 50): Promise<Memory[]> {
 	try {
 		console.log(`🔍 Fetching memories for user: ${userId}, limit: ${limit}`);
-		const results = await db
+		const candidates = await db
 			.select()
 			.from(memories)
 			.where(
@@ -347,7 +434,14 @@ export async function getUserMemories(userId: string, limit: number = 50): Promi
 				)
 			)
 			.orderBy(desc(memories.priority), desc(memories.accessCount), desc(memories.created))
-			.limit(limit);
+			.limit(limit * MEMORY_RANKING_WEIGHTS.candidateMultiplier);
+
+		const now = new Date();
+		const results = candidates
+			.map(memory => ({ memory, score: scoreMemory(memory, null, now) }))
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit)
+			.map(({ memory }) => memory);
 
 		console.log(`📝 Found ${results.length} memories for user ${userId}`);
 		if (results.length > 0) {
@@ -414,3 +508,231 @@ export async function deleteMemories(memoryIds: string[], userId: string): Promi
 		return false;
 	}
 }
+
+export class MemoryValidationError extends Error {}
+
+export interface MemoryChanges {
+	key?: string | null;
+	value?: string;
+	type?: string;
+	personName?: string | null;
+	priority?: number;
+}
+
+type MemoryVersionSnapshot = Pick<Memory, 'key' | 'value' | 'type' | 'personName' | 'priority'>;
+
+function getEmbeddingText(memory: Pick<Memory, 'key' | 'value'>): string {
+	return memory.key ? `${memory.key}: ${memory.value}` : memory.value;
+}
+
+/**
+ * Validate user edits to a memory
+ */
+export function validateMemoryChanges(body: Record<string, unknown>): MemoryChanges {
+	const changes: MemoryChanges = {};
+
+	if (body.value !== undefined) {
+		if (typeof body.value !== 'string' || body.value.trim() === '') {
+			throw new MemoryValidationError('value must be a non-empty string');
+		}
+		changes.value = body.value.trim();
+	}
+	if (body.key !== undefined) {
+		if (body.key !== null && typeof body.key !== 'string') {
+			throw new MemoryValidationError('key must be a string');
+		}
+		changes.key = body.key ? (body.key as string).trim() : null;
+	}
+	if (body.type !== undefined) {
+		if (typeof body.type !== 'string' || !(body.type in MEMORY_CONFIG)) {
+			throw new MemoryValidationError(`type must be one of: ${Object.keys(MEMORY_CONFIG).join(', ')}`);
+		}
+		changes.type = body.type;
+	}
+	if (body.personName !== undefined) {
+		if (body.personName !== null && typeof body.personName !== 'string') {
+			throw new MemoryValidationError('personName must be a string');
+		}
+		changes.personName = body.personName ? (body.personName as string).trim() : null;
+	}
+	if (body.priority !== undefined) {
+		const priority = Number(body.priority);
+		if (!Number.isFinite(priority) || priority < 0 || priority > 1) {
+			throw new MemoryValidationError('priority must be a number between 0 and 1');
+		}
+		changes.priority = priority;
+	}
+
+	return changes;
+}
+
+/**
+ * Apply a user correction to a memory and record it in the version history
+ * On the first correction the AI's original inference is saved as version 1
+ */
+export async function updateMemory(memoryId: string, userId: string, changes: MemoryChanges): Promise<Memory | null> {
+	const [existing] = await db.select().from(memories)
+		.where(and(eq(memories.id, memoryId), eq(memories.userId, userId)))
+		.limit(1);
+
+	if (!existing) {
+		return null;
+	}
+
+	const next: MemoryVersionSnapshot = {
+		key: changes.key !== undefined ? changes.key : existing.key,
+		value: changes.value ?? existing.value,
+		type: changes.type ?? existing.type,
+		personName: changes.personName !== undefined ? changes.personName : existing.personName,
+		// A new type brings its default priority unless one is given explicitly
+		priority: changes.priority
+			?? (changes.type && changes.type !== existing.type ? MEMORY_CONFIG[changes.type as MemoryType].priority : existing.priority)
+	};
+
+	// Embed outside the transaction; only needed when the text changes
+	const textChanged = next.key !== existing.key || next.value !== existing.value;
+	const embedding = textChanged ? await embedText(getEmbeddingText(next)) : null;
+
+	return db.transaction(async (tx) => {
+		// Lock the memory so concurrent edits get consecutive version numbers
+		await tx.select({ id: memories.id }).from(memories)
+			.where(eq(memories.id, memoryId))
+			.for('update');
+
+		const versions = await tx.select({ version: memoryVersions.version })
+			.from(memoryVersions)
+			.where(eq(memoryVersions.memoryId, memoryId))
+			.orderBy(desc(memoryVersions.version))
+			.limit(1);
+
+		let version = versions[0]?.version ?? 0;
+		if (version === 0) {
+			version = 1;
+			await tx.insert(memoryVersions).values({
+				memoryId,
+				userId,
+				version,
+				source: 'ai',
+				key: existing.key,
+				value: existing.value,
+				type: existing.type,
+				personName: existing.personName,
+				priority: existing.priority
+			});
+		}
+
+		await tx.insert(memoryVersions).values({
+			memoryId,
+			userId,
+			version: version + 1,
+			source: 'user',
+			...next
+		});
+
+		const updates: Partial<typeof memories.$inferInsert> = {
+			...next,
+			// The user has confirmed this memory
+			confidence: 'certain',
+			updated: new Date().toISOString()
+		};
+		if (embedding) {
+			updates.embedding = embedding.values;
+			updates.embeddingProvider = embedding.provider;
+			updates.embeddingModel = embedding.model;
+		}
+		if (next.type !== existing.type) {
+			const expiryDate = getExpiryDate(next.type as MemoryType);
+			updates.expiresAt = expiryDate ? expiryDate.toISOString() : null;
+		}
+
+		const [updated] = await tx.update(memories)
+			.set(updates)
+			.where(eq(memories.id, memoryId))
+			.returning();
+
+		console.log(`✏️ Memory ${memoryId} corrected by user (version ${version + 1})`);
+		return updated as Memory;
+	});
+}
+
+/**
+ * Version history of a memory, oldest first
+ */
+export async function getMemoryVersions(memoryId: string, userId: string) {
+	return db.select()
+		.from(memoryVersions)
+		.where(and(eq(memoryVersions.memoryId, memoryId), eq(memoryVersions.userId, userId)))
+		.orderBy(asc(memoryVersions.version));
+}
+
+export interface MemoryCorrection {
+	memoryId: string;
+	original: { key: string | null; value: string; type: string };
+	corrected: { key: string | null; value: string; type: string };
+}
+
+/**
+ * What the AI originally inferred versus the user's latest correction, per corrected memory
+ */
+export async function getMemoryCorrections(userId: string, limit: number = 30): Promise<MemoryCorrection[]> {
+	const versions = await db.select()
+		.from(memoryVersions)
+		.where(eq(memoryVersions.userId, userId))
+		.orderBy(asc(memoryVersions.memoryId), asc(memoryVersions.version));
+
+	const byMemory = new Map<string, typeof versions>();
+	for (const version of versions) {
+		const list = byMemory.get(version.memoryId) || [];
+		list.push(version);
+		byMemory.set(version.memoryId, list);
+	}
+
+	const corrections: Array<MemoryCorrection & { correctedAt: string }> = [];
+	for (const [memoryId, list] of byMemory) {
+		const original = list.find(version => version.source === 'ai');
+		const latest = list[list.length - 1];
+		if (!original || latest.source !== 'user') continue;
+		// A correction of the key or type alone still tells the model its inference was wrong
+		if (latest.value === original.value && latest.key === original.key && latest.type === original.type) continue;
+
+		corrections.push({
+			memoryId,
+			original: { key: original.key, value: original.value, type: original.type },
+			corrected: { key: latest.key, value: latest.value, type: latest.type },
+			correctedAt: latest.created
+		});
+	}
+
+	return corrections
+		.sort((a, b) => b.correctedAt.localeCompare(a.correctedAt))
+		.slice(0, limit)
+		.map(({ correctedAt, ...correction }) => correction);
+}
+
+/**
+ * Find a user-corrected memory that an extracted memory would duplicate
+ * The corrected version is authoritative, so such extractions are dropped
+ */
+export async function findCorrectedMemoryMatch(
+	embedding: number[],
+	userId: string,
+	threshold: number = 0.85
+): Promise<{ id: string; similarity: number } | null> {
+	const results = await db.execute(sql`
+		SELECT id, 1 - (embedding <=> ${JSON.stringify(embedding)}::vector) AS similarity
+		FROM memories
+		WHERE user_id = ${userId}
+		AND ${sameEmbeddingModel()}
+		AND EXISTS (
+			SELECT 1 FROM memory_versions
+			WHERE memory_versions.memory_id = memories.id AND memory_versions.source = 'user'
+		)
+		ORDER BY embedding <=> ${JSON.stringify(embedding)}::vector
+		LIMIT 1
+	`);
+
+	const resultRows = Array.isArray(results) ? results : (results.rows || []);
+	const match = resultRows[0] as { id: string; similarity: number } | undefined;
+
+	return match && Number(match.similarity) >= threshold ? { id: match.id, similarity: Number(match.similarity) } : null;
+}
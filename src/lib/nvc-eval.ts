@@ -0,0 +1,414 @@
+/**
+ * Retrieval evaluation for the NVC knowledge base
+ * Labeled queries (query → expected knowledgeIds) are run against the current index and scored
+ * with recall@k, MRR and nDCG@k. Every run is stored with its configuration, so the effect of
+ * changing thresholds, search mode or embedding model can be compared over time.
+ *
+ * Runs work offline when the local embedding provider (and the scripted chat provider for the
+ * "retrieve" pipeline) are selected, see scripts/eval-nvc-retrieval.ts.
+ */
+
+import { asc, desc, eq } from 'drizzle-orm';
+import { nvcEvalQueries, nvcEvalRuns } from '../../drizzle/schema.js';
+import { NVC_RETRIEVAL_PRIORITY_WEIGHT, retrieveNVCKnowledge } from './ai-tools.js';
+import { getChatModelProvider } from './chat-models.js';
+import { db } from './db.js';
+import { getEmbeddingSignature } from './embeddings.js';
+import { searchNVCKnowledge, type NVCSearchResult, type SearchOptions } from './nvc-knowledge.js';
+
+export class NVCEvalError extends Error {
+	constructor(message: string, public status: 400 | 404 = 400) {
+		super(message);
+	}
+}
+
+export type EvalQueryRow = typeof nvcEvalQueries.$inferSelect;
+export type EvalRunRow = typeof nvcEvalRuns.$inferSelect;
+
+export interface EvalQueryInput {
+	query: string;
+	language: 'de' | 'en';
+	expectedKnowledgeIds: string[];
+	notes?: string | null;
+}
+
+export interface EvalConfig {
+	// "search" scores searchNVCKnowledge directly; "retrieve" adds the LLM concept extraction of retrieveNVCKnowledge
+	pipeline: 'search' | 'retrieve';
+	mode: NonNullable<SearchOptions['mode']>;
+	k: number;
+	minSimilarity?: number;
+	priorityWeight?: number;
+}
+
+export interface QueryMetrics {
+	recall: number;
+	reciprocalRank: number;
+	ndcg: number;
+}
+
+export interface EvalMetrics {
+	k: number;
+	queries: number;
+	recallAtK: number;
+	mrr: number;
+	ndcg: number;
+}
+
+const DEFAULT_CONFIG: EvalConfig = { pipeline: 'search', mode: 'hybrid', k: 5 };
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseJson<T>(value: string | null, fallback: T): T {
+	if (!value) return fallback;
+	try {
+		return JSON.parse(value) as T;
+	} catch {
+		return fallback;
+	}
+}
+
+function formatQuery(row: EvalQueryRow) {
+	return { ...row, expectedKnowledgeIds: parseJson<string[]>(row.expectedKnowledgeIds, []) };
+}
+
+function formatRun(row: EvalRunRow) {
+	return {
+		...row,
+		config: parseJson<Record<string, unknown>>(row.config, {}),
+		metrics: parseJson<EvalMetrics | null>(row.metrics, null),
+		results: parseJson<unknown[]>(row.results, [])
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Labeled queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate a labeled query from a request body or import file
+ */
+export function validateEvalQuery(body: Record<string, unknown>): EvalQueryInput {
+	const query = typeof body.query === 'string' ? body.query.trim() : '';
+	if (!query) {
+		throw new NVCEvalError('query is required');
+	}
+
+	const language = body.language ?? 'de';
+	if (language !== 'de' && language !== 'en') {
+		throw new NVCEvalError('language must be "de" or "en"');
+	}
+
+	const expected = body.expectedKnowledgeIds;
+	if (!Array.isArray(expected) || expected.length === 0) {
+		throw new NVCEvalError('expectedKnowledgeIds must be a non-empty array');
+	}
+	if (!expected.every(id => typeof id === 'string' && UUID_PATTERN.test(id))) {
+		throw new NVCEvalError('expectedKnowledgeIds must contain knowledge ids (UUIDs)');
+	}
+
+	if (body.notes != null && typeof body.notes !== 'string') {
+		throw new NVCEvalError('notes must be a string');
+	}
+
+	return {
+		query,
+		language,
+		expectedKnowledgeIds: Array.from(new Set(expected as string[])),
+		notes: (body.notes as string | null | undefined) ?? null
+	};
+}
+
+export async function listEvalQueries() {
+	const rows = await db.select().from(nvcEvalQueries).orderBy(asc(nvcEvalQueries.created));
+	return rows.map(formatQuery);
+}
+
+/**
+ * Add a labeled query; an existing query with the same text and language is relabeled instead
+ */
+export async function saveEvalQuery(input: EvalQueryInput, createdBy?: string) {
+	const nowIso = new Date().toISOString();
+	const [row] = await db.insert(nvcEvalQueries)
+		.values({
+			query: input.query,
+			language: input.language,
+			expectedKnowledgeIds: JSON.stringify(input.expectedKnowledgeIds),
+			notes: input.notes ?? null,
+			createdBy: createdBy || null
+		})
+		.onConflictDoUpdate({
+			target: [nvcEvalQueries.query, nvcEvalQueries.language],
+			set: {
+				expectedKnowledgeIds: JSON.stringify(input.expectedKnowledgeIds),
+				notes: input.notes ?? null,
+				updated: nowIso
+			}
+		})
+		.returning();
+	return formatQuery(row);
+}
+
+export async function updateEvalQuery(id: string, input: EvalQueryInput) {
+	const [row] = await db.update(nvcEvalQueries)
+		.set({
+			query: input.query,
+			language: input.language,
+			expectedKnowledgeIds: JSON.stringify(input.expectedKnowledgeIds),
+			notes: input.notes ?? null,
+			updated: new Date().toISOString()
+		})
+		.where(eq(nvcEvalQueries.id, id))
+		.returning();
+
+	if (!row) {
+		throw new NVCEvalError('Evaluation query not found', 404);
+	}
+	return formatQuery(row);
+}
+
+export async function deleteEvalQuery(id: string): Promise<void> {
+	const deleted = await db.delete(nvcEvalQueries).where(eq(nvcEvalQueries.id, id)).returning({ id: nvcEvalQueries.id });
+	if (deleted.length === 0) {
+		throw new NVCEvalError('Evaluation query not found', 404);
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+/**
+ * Binary-relevance metrics for one ranked list of knowledgeIds
+ */
+export function computeQueryMetrics(ranked: string[], expected: string[], k: number): QueryMetrics {
+	const relevant = new Set(expected);
+	if (relevant.size === 0) {
+		return { recall: 0, reciprocalRank: 0, ndcg: 0 };
+	}
+
+	const topK = ranked.slice(0, k);
+	const hits = topK.filter(id => relevant.has(id));
+
+	const firstHit = topK.findIndex(id => relevant.has(id));
+	const reciprocalRank = firstHit >= 0 ? 1 / (firstHit + 1) : 0;
+
+	const dcg = topK.reduce((sum, id, index) => sum + (relevant.has(id) ? 1 / Math.log2(index + 2) : 0), 0);
+	let idealDcg = 0;
+	for (let index = 0; index < Math.min(relevant.size, k); index++) {
+		idealDcg += 1 / Math.log2(index + 2);
+	}
+
+	return {
+		recall: hits.length / relevant.size,
+		reciprocalRank,
+		ndcg: idealDcg > 0 ? dcg / idealDcg : 0
+	};
+}
+
+function mean(values: number[]): number {
+	return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Ranked knowledgeIds, first occurrence only (DE and EN versions share one knowledgeId)
+ */
+function rankKnowledgeIds(entries: NVCSearchResult[]): string[] {
+	const seen = new Set<string>();
+	const ranked: string[] = [];
+	for (const entry of entries) {
+		const id = entry.knowledgeId || entry.id;
+		if (!seen.has(id)) {
+			seen.add(id);
+			ranked.push(id);
+		}
+	}
+	return ranked;
+}
+
+// ---------------------------------------------------------------------------
+// Runs
+// ---------------------------------------------------------------------------
+
+export function validateEvalConfig(body: Record<string, unknown>): Partial<EvalConfig> {
+	const config: Partial<EvalConfig> = {};
+
+	if (body.pipeline !== undefined) {
+		if (body.pipeline !== 'search' && body.pipeline !== 'retrieve') {
+			throw new NVCEvalError('pipeline must be "search" or "retrieve"');
+		}
+		config.pipeline = body.pipeline;
+	}
+	if (body.mode !== undefined) {
+		if (body.mode !== 'hybrid' && body.mode !== 'vector' && body.mode !== 'lexical') {
+			throw new NVCEvalError('mode must be "hybrid", "vector" or "lexical"');
+		}
+		config.mode = body.mode;
+	}
+	if (body.k !== undefined) {
+		if (!Number.isInteger(body.k) || (body.k as number) < 1 || (body.k as number) > 50) {
+			throw new NVCEvalError('k must be an integer between 1 and 50');
+		}
+		config.k = body.k as number;
+	}
+	for (const key of ['minSimilarity', 'priorityWeight'] as const) {
+		if (body[key] !== undefined) {
+			if (typeof body[key] !== 'number' || !Number.isFinite(body[key])) {
+				throw new NVCEvalError(`${key} must be a number`);
+			}
+			config[key] = body[key] as number;
+		}
+	}
+	return config;
+}
+
+async function retrieveForEval(query: EvalQueryRow, config: EvalConfig): Promise<{ entries: NVCSearchResult[]; searchQuery: string }> {
+	const language = query.language as 'de' | 'en';
+
+	if (config.pipeline === 'retrieve') {
+		const result = await retrieveNVCKnowledge(query.query, language, {
+			limit: config.k,
+			minSimilarity: config.minSimilarity,
+			mode: config.mode,
+			priorityWeight: config.priorityWeight
+		});
+		return { entries: result.knowledgeEntries, searchQuery: result.searchQuery };
+	}
+
+	const entries = await searchNVCKnowledge(query.query, {
+		language,
+		limit: config.k,
+		mode: config.mode,
+		minSimilarity: config.minSimilarity,
+		priorityWeight: config.priorityWeight
+	});
+	return { entries, searchQuery: query.query };
+}
+
+/**
+ * Score every labeled query against the current index and store the run
+ */
+export async function runNVCRetrievalEval(options: Partial<EvalConfig> & { label?: string; triggeredBy?: string } = {}) {
+	const { label, triggeredBy, ...overrides } = options;
+	const config: EvalConfig = { ...DEFAULT_CONFIG, ...overrides };
+	const startedAt = Date.now();
+
+	const queries = await db.select().from(nvcEvalQueries).orderBy(asc(nvcEvalQueries.created));
+	if (queries.length === 0) {
+		throw new NVCEvalError('No evaluation queries defined');
+	}
+
+	console.log(`📏 Evaluating NVC retrieval on ${queries.length} queries (${config.pipeline}/${config.mode}, k=${config.k})`);
+
+	const results = [];
+	for (const query of queries) {
+		const expected = parseJson<string[]>(query.expectedKnowledgeIds, []);
+		const { entries, searchQuery } = await retrieveForEval(query, config);
+		const ranked = rankKnowledgeIds(entries);
+		const metrics = computeQueryMetrics(ranked, expected, config.k);
+
+		results.push({
+			queryId: query.id,
+			query: query.query,
+			language: query.language,
+			searchQuery,
+			expected,
+			retrieved: ranked.slice(0, config.k),
+			missed: expected.filter(id => !ranked.slice(0, config.k).includes(id)),
+			...metrics
+		});
+	}
+
+	const metrics: EvalMetrics = {
+		k: config.k,
+		queries: results.length,
+		recallAtK: mean(results.map(result => result.recall)),
+		mrr: mean(results.map(result => result.reciprocalRank)),
+		ndcg: mean(results.map(result => result.ndcg))
+	};
+
+	const storedConfig = {
+		...config,
+		embedding: await getEmbeddingSignature(),
+		...(config.pipeline === 'retrieve'
+			? { chatProvider: getChatModelProvider().name, priorityWeight: config.priorityWeight ?? NVC_RETRIEVAL_PRIORITY_WEIGHT }
+			: {})
+	};
+
+	const [run] = await db.insert(nvcEvalRuns)
+		.values({
+			label: label || null,
+			config: JSON.stringify(storedConfig),
+			metrics: JSON.stringify(metrics),
+			results: JSON.stringify(results),
+			triggeredBy: triggeredBy || null,
+			durationMs: Date.now() - startedAt
+		})
+		.returning();
+
+	console.log(`✅ Eval run ${run.id}: recall@${config.k}=${metrics.recallAtK.toFixed(3)} MRR=${metrics.mrr.toFixed(3)} nDCG@${config.k}=${metrics.ndcg.toFixed(3)}`);
+	return formatRun(run);
+}
+
+/**
+ * Recent runs without per-query results
+ */
+export async function listEvalRuns(limit: number = 20) {
+	const rows = await db.select({
+		id: nvcEvalRuns.id,
+		label: nvcEvalRuns.label,
+		config: nvcEvalRuns.config,
+		metrics: nvcEvalRuns.metrics,
+		triggeredBy: nvcEvalRuns.triggeredBy,
+		durationMs: nvcEvalRuns.durationMs,
+		created: nvcEvalRuns.created
+	})
+		.from(nvcEvalRuns)
+		.orderBy(desc(nvcEvalRuns.created))
+		.limit(limit);
+
+	return rows.map(row => ({
+		...row,
+		config: parseJson<Record<string, unknown>>(row.config, {}),
+		metrics: parseJson<EvalMetrics | null>(row.metrics, null)
+	}));
+}
+
+export async function getEvalRun(id: string) {
+	const [row] = await db.select().from(nvcEvalRuns).where(eq(nvcEvalRuns.id, id)).limit(1);
+	if (!row) {
+		throw new NVCEvalError('Evaluation run not found', 404);
+	}
+	return formatRun(row);
+}
+
+/**
+ * Metric deltas (run minus baseline) and the queries whose reciprocal rank changed
+ */
+export async function compareEvalRuns(baselineId: string, runId: string) {
+	const [baseline, run] = await Promise.all([getEvalRun(baselineId), getEvalRun(runId)]);
+	if (!baseline.metrics || !run.metrics) {
+		throw new NVCEvalError('Run has no metrics');
+	}
+
+	type StoredResult = { queryId: string; query: string } & QueryMetrics;
+	const baselineResults = new Map((baseline.results as StoredResult[]).map(result => [result.queryId, result]));
+
+	const changedQueries = (run.results as StoredResult[])
+		.map(result => {
+			const before = baselineResults.get(result.queryId);
+			return before ? { queryId: result.queryId, query: result.query, before: before.reciprocalRank, after: result.reciprocalRank } : null;
+		})
+		.filter((change): change is NonNullable<typeof change> => change !== null && change.before !== change.after);
+
+	return {
+		baseline: { id: baseline.id, label: baseline.label, config: baseline.config, metrics: baseline.metrics },
+		run: { id: run.id, label: run.label, config: run.config, metrics: run.metrics },
+		delta: {
+			recallAtK: run.metrics.recallAtK - baseline.metrics.recallAtK,
+			mrr: run.metrics.mrr - baseline.metrics.mrr,
+			ndcg: run.metrics.ndcg - baseline.metrics.ndcg
+		},
+		comparable: baseline.metrics.k === run.metrics.k,
+		changedQueries
+	};
+}
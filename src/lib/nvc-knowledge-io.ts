@@ -0,0 +1,659 @@
+/**
+ * Bulk import/export for the NVC knowledge base
+ * Export: JSONL or CSV. Import: JSONL, CSV or Markdown files with front-matter.
+ *
+ * Imports are upserts keyed by knowledgeId + language and always start as a dry-run diff
+ * (new / changed / unchanged). Records without a knowledgeId are linked to their translation
+ * through a shared `key` (Markdown: the file name without its .de/.en suffix) or to an existing
+ * entry with the same title; otherwise they get a fresh knowledgeId.
+ *
+ * New entries start as drafts unless the record has a `status`; for existing entries a `status`
+ * must be a valid review transition, and without one their status is kept.
+ */
+
+import { randomUUID } from 'crypto';
+import { asc, eq } from 'drizzle-orm';
+import { nvcKnowledge } from '../../drizzle/schema.js';
+import { db } from './db.js';
+import { embedTexts, getEmbeddingSignature, type EmbeddingResult } from './embeddings.js';
+import { formatNVCEmbeddingText, lockNVCEntry } from './nvc-knowledge.js';
+import {
+	assertNVCStatusTransition,
+	isNVCKnowledgeStatus,
+	NVC_KNOWLEDGE_STATUSES,
+	recordNVCRevision,
+	type NVCKnowledgeStatus
+} from './nvc-knowledge-revisions.js';
+
+export const NVC_IMPORT_CONFIG = {
+	embeddingBatchSize: 50,
+	maxRecords: 5000
+} as const;
+
+export type NVCImportFormat = 'jsonl' | 'csv' | 'markdown';
+export type NVCExportFormat = 'jsonl' | 'csv';
+
+export class NVCImportError extends Error {
+	constructor(message: string, public status: 400 | 422 = 400) {
+		super(message);
+	}
+}
+
+export interface NVCKnowledgeRecord {
+	knowledgeId: string | null;
+	key: string | null; // Links translations that have no knowledgeId yet
+	language: 'de' | 'en';
+	title: string;
+	content: string;
+	category: string;
+	subcategory: string | null;
+	source: string | null;
+	tags: string[] | null;
+	priority: number;
+	isActive: boolean;
+	status: NVCKnowledgeStatus | null; // null keeps the current status; new entries become drafts
+}
+
+export interface ImportFile {
+	name: string;
+	content: string;
+}
+
+interface ParsedRecord {
+	record: NVCKnowledgeRecord;
+	source: string; // "line 3", "row 7", "gefuehle.de.md"
+}
+
+interface ImportIssue {
+	source: string;
+	error: string;
+}
+
+const EXPORT_COLUMNS = [
+	'knowledgeId', 'language', 'title', 'content', 'category',
+	'subcategory', 'source', 'tags', 'priority', 'isActive', 'status'
+] as const;
+
+const COMPARED_FIELDS = ['title', 'content', 'category', 'subcategory', 'source', 'tags', 'priority', 'isActive'] as const;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function optionalText(value: unknown): string | null {
+	if (value === undefined || value === null) return null;
+	const text = String(value).trim();
+	return text === '' ? null : text;
+}
+
+function parseTags(value: unknown): string[] | null {
+	const tags = Array.isArray(value)
+		? value.map(tag => String(tag).trim())
+		: typeof value === 'string'
+			? value.split(/[|,;]/).map(tag => tag.trim())
+			: [];
+	const unique = Array.from(new Set(tags.filter(Boolean)));
+	return unique.length > 0 ? unique : null;
+}
+
+function parseBoolean(value: unknown, fallback: boolean): boolean {
+	if (value === undefined || value === null || value === '') return fallback;
+	if (typeof value === 'boolean') return value;
+	const text = String(value).trim().toLowerCase();
+	if (['true', '1', 'yes', 'ja'].includes(text)) return true;
+	if (['false', '0', 'no', 'nein'].includes(text)) return false;
+	throw new Error(`Invalid boolean "${value}"`);
+}
+
+/**
+ * Validate one raw record (JSON object, CSV row or front-matter + body)
+ */
+export function normalizeRecord(raw: Record<string, unknown>): NVCKnowledgeRecord {
+	const language = optionalText(raw.language)?.toLowerCase();
+	if (language !== 'de' && language !== 'en') {
+		throw new Error('language must be "de" or "en"');
+	}
+
+	const title = optionalText(raw.title);
+	const content = optionalText(raw.content);
+	const category = optionalText(raw.category);
+	if (!title) throw new Error('title is required');
+	if (!content) throw new Error('content is required');
+	if (!category) throw new Error('category is required');
+
+	const knowledgeId = optionalText(raw.knowledgeId);
+	if (knowledgeId && !UUID_PATTERN.test(knowledgeId)) {
+		throw new Error(`knowledgeId "${knowledgeId}" is not a UUID`);
+	}
+
+	const priorityValue = optionalText(raw.priority);
+	const priority = priorityValue === null ? 3 : Number(priorityValue);
+	if (!Number.isInteger(priority) || priority < 1 || priority > 5) {
+		throw new Error('priority must be an integer from 1 to 5');
+	}
+
+	const status = optionalText(raw.status)?.toLowerCase() ?? null;
+	if (status !== null && !isNVCKnowledgeStatus(status)) {
+		throw new Error(`status must be one of ${NVC_KNOWLEDGE_STATUSES.join(', ')}`);
+	}
+
+	return {
+		knowledgeId,
+		key: optionalText(raw.key),
+		language,
+		title,
+		content,
+		category,
+		subcategory: optionalText(raw.subcategory),
+		source: optionalText(raw.source),
+		tags: parseTags(raw.tags),
+		priority,
+		isActive: parseBoolean(raw.isActive, true),
+		status
+	};
+}
+
+function parseJsonl(input: string, records: ParsedRecord[], errors: ImportIssue[]) {
+	input.split(/\r?\n/).forEach((line, index) => {
+		if (!line.trim()) return;
+		const source = `line ${index + 1}`;
+		try {
+			const raw = JSON.parse(line);
+			if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+				throw new Error('expected a JSON object');
+			}
+			records.push({ record: normalizeRecord(raw), source });
+		} catch (error: any) {
+			errors.push({ source, error: error.message });
+		}
+	});
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain separators, quotes ("") and line breaks
+ */
+export function parseCsv(input: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+		if (quoted) {
+			if (char === '"' && input[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && input[i + 1] === '\n') i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+	if (field !== '' || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function parseCsvRecords(input: string, records: ParsedRecord[], errors: ImportIssue[]) {
+	const [header, ...rows] = parseCsv(input.replace(/^\uFEFF/, ''));
+	if (!header) return;
+
+	const columns = header.map(column => column.trim());
+	rows.forEach((cells, index) => {
+		const source = `row ${index + 2}`;
+		try {
+			const raw = Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']));
+			records.push({ record: normalizeRecord(raw), source });
+		} catch (error: any) {
+			errors.push({ source, error: error.message });
+		}
+	});
+}
+
+/**
+ * Minimal front-matter: `key: value`, `key: [a, b]` and `- item` lists
+ */
+function parseFrontMatter(block: string): Record<string, unknown> {
+	const data: Record<string, unknown> = {};
+	let listKey: string | null = null;
+
+	for (const line of block.split(/\r?\n/)) {
+		if (!line.trim() || line.trim().startsWith('#')) continue;
+
+		const item = line.match(/^\s*-\s+(.*)$/);
+		if (item && listKey) {
+			(data[listKey] as string[]).push(unquote(item[1]));
+			continue;
+		}
+
+		const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+		if (!pair) {
+			throw new Error(`Invalid front-matter line "${line.trim()}"`);
+		}
+
+		const [, key, value] = pair;
+		if (value === '') {
+			data[key] = [];
+			listKey = key;
+		} else if (value.startsWith('[') && value.endsWith(']')) {
+			data[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+			listKey = null;
+		} else {
+			data[key] = unquote(value);
+			listKey = null;
+		}
+	}
+	return data;
+}
+
+function unquote(value: string): string {
+	const trimmed = value.trim();
+	return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+/**
+ * One Markdown file: front-matter, then the content. Without a `title` the first "# Heading" is used;
+ * without a `language` the file name suffix (feelings.de.md) decides.
+ */
+export function parseMarkdownFile(file: ImportFile): Record<string, unknown> {
+	const match = file.content.replace(/^\uFEFF/, '').match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+	if (!match) {
+		throw new Error('Missing front-matter (--- ... ---)');
+	}
+
+	const data = parseFrontMatter(match[1]);
+	let body = match[2].trim();
+
+	if (!data.title) {
+		const heading = body.match(/^#\s+(.+)\r?\n?/);
+		if (heading) {
+			data.title = heading[1].trim();
+			body = body.slice(heading[0].length).trim();
+		}
+	}
+
+	const baseName = file.name.split(/[\\/]/).pop() || file.name;
+	const nameMatch = baseName.match(/^(.*?)(?:\.(de|en))?\.md$/i);
+	if (!data.language && nameMatch?.[2]) {
+		data.language = nameMatch[2].toLowerCase();
+	}
+	if (!data.key && nameMatch?.[1]) {
+		data.key = nameMatch[1];
+	}
+
+	return { ...data, content: body };
+}
+
+function parseMarkdownRecords(files: ImportFile[], records: ParsedRecord[], errors: ImportIssue[]) {
+	for (const file of files) {
+		if (!/\.md$/i.test(file.name)) continue;
+		try {
+			records.push({ record: normalizeRecord(parseMarkdownFile(file)), source: file.name });
+		} catch (error: any) {
+			errors.push({ source: file.name, error: error.message });
+		}
+	}
+}
+
+export function parseNVCKnowledgeImport(format: NVCImportFormat, input: string | ImportFile[]) {
+	const records: ParsedRecord[] = [];
+	const errors: ImportIssue[] = [];
+
+	if (format === 'markdown') {
+		if (!Array.isArray(input)) {
+			throw new NVCImportError('Markdown imports need a list of files');
+		}
+		parseMarkdownRecords(input, records, errors);
+	} else {
+		const text = Array.isArray(input) ? input.map(file => file.content).join('\n') : input;
+		if (format === 'jsonl') {
+			parseJsonl(text, records, errors);
+		} else {
+			parseCsvRecords(text, records, errors);
+		}
+	}
+
+	if (records.length > NVC_IMPORT_CONFIG.maxRecords) {
+		throw new NVCImportError(`Too many records (${records.length}), the limit is ${NVC_IMPORT_CONFIG.maxRecords}`);
+	}
+	return { records, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+type ExistingEntry = Awaited<ReturnType<typeof loadExistingEntries>>[number];
+
+async function loadExistingEntries() {
+	return db.select({
+		id: nvcKnowledge.id,
+		knowledgeId: nvcKnowledge.knowledgeId,
+		language: nvcKnowledge.language,
+		title: nvcKnowledge.title,
+		content: nvcKnowledge.content,
+		category: nvcKnowledge.category,
+		subcategory: nvcKnowledge.subcategory,
+		source: nvcKnowledge.source,
+		tags: nvcKnowledge.tags,
+		priority: nvcKnowledge.priority,
+		isActive: nvcKnowledge.isActive,
+		status: nvcKnowledge.status,
+		embeddingProvider: nvcKnowledge.embeddingProvider,
+		embeddingModel: nvcKnowledge.embeddingModel
+	})
+		.from(nvcKnowledge)
+		.orderBy(asc(nvcKnowledge.created));
+}
+
+export interface NVCImportItem {
+	action: 'new' | 'changed' | 'unchanged';
+	source: string;
+	knowledgeId: string;
+	language: 'de' | 'en';
+	title: string;
+	existingId: string | null;
+	changedFields: string[];
+	needsEmbedding: boolean;
+	record: NVCKnowledgeRecord;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+	if (Array.isArray(a) || Array.isArray(b)) {
+		return JSON.stringify(a || []) === JSON.stringify(b || []);
+	}
+	return (a ?? null) === (b ?? null);
+}
+
+// Error message for an invalid review transition, null if the import may set the status
+function statusTransitionError(from: string, to: NVCKnowledgeStatus): string | null {
+	try {
+		assertNVCStatusTransition(from, to);
+		return null;
+	} catch (error: any) {
+		return error.message;
+	}
+}
+
+/**
+ * Resolve knowledgeIds and diff every record against the current knowledge base
+ */
+export async function planNVCKnowledgeImport(records: ParsedRecord[]) {
+	const existing = await loadExistingEntries();
+	const signature = await getEmbeddingSignature();
+	const errors: ImportIssue[] = [];
+
+	const byKnowledgeLanguage = new Map<string, ExistingEntry>();
+	const byTitle = new Map<string, ExistingEntry>();
+	for (const entry of existing) {
+		if (entry.knowledgeId && !byKnowledgeLanguage.has(`${entry.knowledgeId}:${entry.language}`)) {
+			byKnowledgeLanguage.set(`${entry.knowledgeId}:${entry.language}`, entry);
+		}
+		if (!byTitle.has(`${entry.language}:${entry.title}`)) {
+			byTitle.set(`${entry.language}:${entry.title}`, entry);
+		}
+	}
+
+	// Translations share a knowledgeId: explicit ids first, then existing entries with the same title, then a new id
+	const keyIds = new Map<string, string>();
+	for (const { record } of records) {
+		if (record.key && record.knowledgeId && !keyIds.has(record.key)) {
+			keyIds.set(record.key, record.knowledgeId);
+		}
+	}
+	const resolved = new Map<ParsedRecord, string | null>();
+	for (const parsed of records) {
+		const { record } = parsed;
+		const match = record.knowledgeId ? null : byTitle.get(`${record.language}:${record.title}`);
+		const knowledgeId = record.knowledgeId
+			|| (record.key ? keyIds.get(record.key) : undefined)
+			|| match?.knowledgeId
+			|| null;
+		if (knowledgeId && record.key && !keyIds.has(record.key)) {
+			keyIds.set(record.key, knowledgeId);
+		}
+		resolved.set(parsed, knowledgeId);
+	}
+
+	const items: NVCImportItem[] = [];
+	const seen = new Set<string>();
+
+	for (const parsed of records) {
+		const { record, source } = parsed;
+		let knowledgeId = resolved.get(parsed) || (record.key ? keyIds.get(record.key) : undefined);
+		if (!knowledgeId) {
+			knowledgeId = randomUUID();
+			if (record.key) keyIds.set(record.key, knowledgeId);
+		}
+
+		const identity = `${knowledgeId}:${record.language}`;
+		if (seen.has(identity)) {
+			errors.push({ source, error: `Duplicate record for knowledgeId ${knowledgeId} (${record.language})` });
+			continue;
+		}
+		seen.add(identity);
+
+		const current = byKnowledgeLanguage.get(identity);
+		const changedFields: string[] = current
+			? COMPARED_FIELDS.filter(field => !sameValue(record[field], current[field]))
+			: [];
+		if (current && record.status && record.status !== current.status) {
+			const transitionError = statusTransitionError(current.status, record.status);
+			if (transitionError) {
+				errors.push({ source, error: transitionError });
+				continue;
+			}
+			changedFields.push('status');
+		}
+		const staleEmbedding = current
+			? current.embeddingProvider !== signature.provider || current.embeddingModel !== signature.model
+			: true;
+
+		items.push({
+			action: !current ? 'new' : changedFields.length > 0 ? 'changed' : 'unchanged',
+			source,
+			knowledgeId,
+			language: record.language,
+			title: record.title,
+			existingId: current?.id || null,
+			changedFields,
+			needsEmbedding: !current || changedFields.includes('title') || changedFields.includes('content') || staleEmbedding,
+			record
+		});
+	}
+
+	return { items, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+async function embedInBatches(items: NVCImportItem[]): Promise<Map<NVCImportItem, EmbeddingResult>> {
+	const embeddings = new Map<NVCImportItem, EmbeddingResult>();
+	const batchSize = NVC_IMPORT_CONFIG.embeddingBatchSize;
+
+	for (let start = 0; start < items.length; start += batchSize) {
+		const batch = items.slice(start, start + batchSize);
+		const results = await embedTexts(batch.map(item => formatNVCEmbeddingText(item.record)));
+		batch.forEach((item, index) => embeddings.set(item, results[index]));
+		console.log(`🧬 Embedded ${Math.min(start + batchSize, items.length)}/${items.length} NVC knowledge entries`);
+	}
+	return embeddings;
+}
+
+/**
+ * Parse, diff and (unless dryRun) upsert an import
+ * Nothing is written if any record is invalid.
+ */
+export async function importNVCKnowledge(
+	format: NVCImportFormat,
+	input: string | ImportFile[],
+	options: { dryRun?: boolean; createdBy?: string } = {}
+) {
+	const dryRun = options.dryRun !== false;
+	const parsed = parseNVCKnowledgeImport(format, input);
+	const plan = await planNVCKnowledgeImport(parsed.records);
+	const errors = [...parsed.errors, ...plan.errors];
+
+	const summary = {
+		new: plan.items.filter(item => item.action === 'new').length,
+		changed: plan.items.filter(item => item.action === 'changed').length,
+		unchanged: plan.items.filter(item => item.action === 'unchanged').length,
+		invalid: errors.length,
+		embeddings: plan.items.filter(item => item.needsEmbedding).length
+	};
+	const report = {
+		dryRun,
+		summary,
+		items: plan.items.map(({ record, ...item }) => item),
+		errors
+	};
+
+	if (dryRun) {
+		return report;
+	}
+	if (errors.length > 0) {
+		throw new NVCImportError(`${errors.length} invalid records, nothing was imported`, 422);
+	}
+
+	const embeddings = await embedInBatches(plan.items.filter(item => item.needsEmbedding));
+
+	await db.transaction(async (tx) => {
+		const nowIso = new Date().toISOString();
+		for (const item of plan.items) {
+			const { record } = item;
+			const embedding = embeddings.get(item);
+			const vectorFields = embedding
+				? { embedding: embedding.values, embeddingProvider: embedding.provider, embeddingModel: embedding.model }
+				: {};
+
+			if (item.action === 'new') {
+				const [created] = await tx.insert(nvcKnowledge).values({
+					knowledgeId: item.knowledgeId,
+					language: record.language,
+					title: record.title,
+					content: record.content,
+					category: record.category,
+					subcategory: record.subcategory,
+					source: record.source,
+					tags: record.tags,
+					priority: record.priority,
+					isActive: record.isActive,
+					status: record.status ?? 'draft',
+					createdBy: options.createdBy || null,
+					...vectorFields
+				}).returning();
+				await recordNVCRevision(tx, {
+					entryId: created.id,
+					before: null,
+					after: created,
+					action: 'import',
+					authorId: options.createdBy
+				});
+			} else if (item.existingId && (item.action === 'changed' || embedding)) {
+				// Locked like every other write, so concurrent edits get consecutive revision numbers
+				const before = await lockNVCEntry(tx, item.existingId);
+				if (!before) {
+					throw new NVCImportError(`${item.source}: entry ${item.existingId} was deleted during the import, nothing was imported`, 422);
+				}
+				// The status may have moved since the diff was planned
+				const status = record.status && record.status !== before.status ? record.status : null;
+				const transitionError = status ? statusTransitionError(before.status, status) : null;
+				if (transitionError) {
+					throw new NVCImportError(`${item.source}: ${transitionError}, nothing was imported`, 422);
+				}
+
+				const [updated] = await tx.update(nvcKnowledge)
+					.set({
+						title: record.title,
+						content: record.content,
+						category: record.category,
+						subcategory: record.subcategory,
+						source: record.source,
+						tags: record.tags,
+						priority: record.priority,
+						isActive: record.isActive,
+						...(status ? { status } : {}),
+						...vectorFields,
+						...(item.action === 'changed' ? { updated: nowIso } : {})
+					})
+					.where(eq(nvcKnowledge.id, item.existingId))
+					.returning();
+				await recordNVCRevision(tx, {
+					entryId: updated.id,
+					before,
+					after: updated,
+					action: 'import',
+					authorId: options.createdBy
+				});
+			}
+		}
+	});
+
+	console.log(`✅ NVC knowledge import: ${summary.new} new, ${summary.changed} changed, ${summary.unchanged} unchanged`);
+	return report;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function csvField(value: unknown): string {
+	const text = value === null || value === undefined ? '' : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export async function exportNVCKnowledge(
+	format: NVCExportFormat,
+	options: { language?: 'de' | 'en'; includeInactive?: boolean } = {}
+): Promise<string> {
+	const rows = (await loadExistingEntries()).filter(entry =>
+		(options.includeInactive || entry.isActive) && (!options.language || entry.language === options.language)
+	);
+
+	const records = rows.map(entry => ({
+		knowledgeId: entry.knowledgeId,
+		language: entry.language,
+		title: entry.title,
+		content: entry.content,
+		category: entry.category,
+		subcategory: entry.subcategory,
+		source: entry.source,
+		tags: entry.tags || [],
+		priority: entry.priority,
+		isActive: entry.isActive,
+		status: entry.status
+	}));
+
+	if (format === 'jsonl') {
+		return records.map(record => JSON.stringify(record)).join('\n') + (records.length > 0 ? '\n' : '');
+	}
+
+	const lines = [EXPORT_COLUMNS.join(',')];
+	for (const record of records) {
+		lines.push(EXPORT_COLUMNS.map(column =>
+			csvField(column === 'tags' ? record.tags.join('|') : record[column])
+		).join(','));
+	}
+	return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,176 @@
+/**
+ * Revision history and review workflow for NVC knowledge entries
+ *
+ * Every write to nvc_knowledge (create, update, delete, status change, rollback, import)
+ * stores a revision with the full entry snapshot, the changed fields and the author.
+ * Entries move draft → review → published; only published entries are retrieved for the AI.
+ */
+
+import { desc, eq, and, sql } from 'drizzle-orm';
+import { nvcKnowledge, nvcKnowledgeRevisions } from '../../drizzle/schema.js';
+import { db } from './db.js';
+import type { Transaction } from './garden.js';
+
+export const NVC_KNOWLEDGE_STATUSES = ['draft', 'review', 'published'] as const;
+export type NVCKnowledgeStatus = typeof NVC_KNOWLEDGE_STATUSES[number];
+
+export type NVCRevisionAction = 'create' | 'update' | 'delete' | 'status' | 'rollback' | 'import';
+
+// Published entries go back to draft for rework; drafts can't skip the review
+const STATUS_TRANSITIONS: Record<NVCKnowledgeStatus, NVCKnowledgeStatus[]> = {
+	draft: ['review'],
+	review: ['draft', 'published'],
+	published: ['draft']
+};
+
+// Fields that are versioned; the embedding is derived from title + content
+const SNAPSHOT_FIELDS = [
+	'knowledgeId', 'language', 'title', 'content', 'category', 'subcategory',
+	'source', 'tags', 'priority', 'isActive', 'status'
+] as const;
+
+type SnapshotField = typeof SNAPSHOT_FIELDS[number];
+
+export type NVCKnowledgeSnapshot = Pick<typeof nvcKnowledge.$inferSelect, SnapshotField>;
+export type NVCRevisionDiff = Partial<Record<SnapshotField, { from: unknown; to: unknown }>>;
+
+export interface NVCKnowledgeRevision {
+	id: string;
+	entryId: string;
+	knowledgeId: string | null;
+	revision: number;
+	action: NVCRevisionAction;
+	snapshot: NVCKnowledgeSnapshot;
+	diff: NVCRevisionDiff;
+	authorId: string | null;
+	note: string | null;
+	created: string;
+}
+
+export class NVCRevisionError extends Error {
+	constructor(message: string, public status: 400 | 404 | 409 = 400) {
+		super(message);
+	}
+}
+
+export function isNVCKnowledgeStatus(value: unknown): value is NVCKnowledgeStatus {
+	return typeof value === 'string' && (NVC_KNOWLEDGE_STATUSES as readonly string[]).includes(value);
+}
+
+export function assertNVCStatusTransition(from: string, to: string): void {
+	if (!isNVCKnowledgeStatus(to)) {
+		throw new NVCRevisionError(`status must be one of ${NVC_KNOWLEDGE_STATUSES.join(', ')}`);
+	}
+	if (from === to) {
+		throw new NVCRevisionError(`Entry is already ${to}`, 409);
+	}
+	const allowed = isNVCKnowledgeStatus(from) ? STATUS_TRANSITIONS[from] : NVC_KNOWLEDGE_STATUSES;
+	if (!allowed.includes(to)) {
+		throw new NVCRevisionError(`Cannot move entry from ${from} to ${to}`, 409);
+	}
+}
+
+export function snapshotNVCEntry(entry: NVCKnowledgeSnapshot): NVCKnowledgeSnapshot {
+	return {
+		knowledgeId: entry.knowledgeId,
+		language: entry.language,
+		title: entry.title,
+		content: entry.content,
+		category: entry.category,
+		subcategory: entry.subcategory,
+		source: entry.source,
+		tags: entry.tags,
+		priority: entry.priority,
+		isActive: entry.isActive,
+		status: entry.status
+	};
+}
+
+export function diffNVCSnapshots(before: NVCKnowledgeSnapshot | null, after: NVCKnowledgeSnapshot): NVCRevisionDiff {
+	const diff: NVCRevisionDiff = {};
+	for (const field of SNAPSHOT_FIELDS) {
+		const from = before ? before[field] ?? null : null;
+		const to = after[field] ?? null;
+		if (JSON.stringify(from) !== JSON.stringify(to)) {
+			diff[field] = { from, to };
+		}
+	}
+	return diff;
+}
+
+function rowToRevision(row: typeof nvcKnowledgeRevisions.$inferSelect): NVCKnowledgeRevision {
+	return {
+		id: row.id,
+		entryId: row.entryId,
+		knowledgeId: row.knowledgeId,
+		revision: row.revision,
+		action: row.action as NVCRevisionAction,
+		snapshot: JSON.parse(row.snapshot),
+		diff: JSON.parse(row.diff),
+		authorId: row.authorId,
+		note: row.note,
+		created: row.created
+	};
+}
+
+/**
+ * Store a revision for an entry write; `before` is null for new entries
+ * Updates and imports that didn't change anything are not recorded (returns null).
+ */
+export async function recordNVCRevision(
+	executor: typeof db | Transaction,
+	input: {
+		entryId: string;
+		before: NVCKnowledgeSnapshot | null;
+		after: NVCKnowledgeSnapshot;
+		action: NVCRevisionAction;
+		authorId?: string | null;
+		note?: string | null;
+	}
+): Promise<NVCKnowledgeRevision | null> {
+	const after = snapshotNVCEntry(input.after);
+	const diff = diffNVCSnapshots(input.before, after);
+	if (Object.keys(diff).length === 0 && (input.action === 'update' || input.action === 'import')) {
+		return null;
+	}
+
+	const [inserted] = await executor
+		.insert(nvcKnowledgeRevisions)
+		.values({
+			entryId: input.entryId,
+			knowledgeId: after.knowledgeId,
+			revision: sql`(SELECT COALESCE(MAX(revision), 0) + 1 FROM nvc_knowledge_revisions WHERE entry_id = ${input.entryId}::uuid)`,
+			action: input.action,
+			snapshot: JSON.stringify(after),
+			diff: JSON.stringify(diff),
+			authorId: input.authorId || null,
+			note: input.note || null
+		})
+		.returning();
+
+	return rowToRevision(inserted);
+}
+
+/**
+ * Revisions of an entry, newest first
+ */
+export async function listNVCRevisions(entryId: string): Promise<NVCKnowledgeRevision[]> {
+	const rows = await db
+		.select()
+		.from(nvcKnowledgeRevisions)
+		.where(eq(nvcKnowledgeRevisions.entryId, entryId))
+		.orderBy(desc(nvcKnowledgeRevisions.revision));
+	return rows.map(rowToRevision);
+}
+
+export async function getNVCRevision(entryId: string, revision: number): Promise<NVCKnowledgeRevision> {
+	const [row] = await db
+		.select()
+		.from(nvcKnowledgeRevisions)
+		.where(and(eq(nvcKnowledgeRevisions.entryId, entryId), eq(nvcKnowledgeRevisions.revision, revision)))
+		.limit(1);
+	if (!row) {
+		throw new NVCRevisionError(`Revision ${revision} not found`, 404);
+	}
+	return rowToRevision(row);
+}
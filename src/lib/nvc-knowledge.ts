@@ -3,26 +3,20 @@
  * Supports internationalization (DE/EN) with separate embeddings per language
  */
 
-import { GoogleGenAI } from '@google/genai';
 import { db } from './db.js';
+import type { Transaction } from './garden.js';
+import { embedText, sameEmbeddingModel, type EmbeddingResult } from './embeddings.js';
 import { nvcKnowledge } from '../../drizzle/schema.js';
 import { sql, desc, and, eq, or, inArray, like } from 'drizzle-orm';
 import 'dotenv/config';
 import { randomUUID } from 'crypto';
-
-// Initialize Gemini client for embeddings
-let genaiClient: GoogleGenAI | null = null;
-
-function getGenAIClient(): GoogleGenAI {
-	if (!genaiClient) {
-		const apiKey = process.env.GEMINI_API_KEY;
-		if (!apiKey) {
-			throw new Error('GEMINI_API_KEY environment variable is required');
-		}
-		genaiClient = new GoogleGenAI({ apiKey });
-	}
-	return genaiClient;
-}
+import {
+	assertNVCStatusTransition,
+	getNVCRevision,
+	recordNVCRevision,
+	NVCRevisionError,
+	type NVCKnowledgeStatus
+} from './nvc-knowledge-revisions.js';
 
 export interface NVCKnowledgeEntry {
 	id: string;
@@ -37,6 +31,7 @@ export interface NVCKnowledgeEntry {
 	tags: string[] | null;
 	priority: number;
 	isActive: boolean;
+	status: NVCKnowledgeStatus;
 	createdBy: string | null;
 	created: string;
 	updated: string;
@@ -53,15 +48,68 @@ export interface CreateNVCKnowledgeInput {
 	tags?: string[] | null;
 	priority?: number;
 	createdBy?: string | null;
+	status?: NVCKnowledgeStatus; // Default published; 'draft' starts the review workflow
 	generateEmbedding?: boolean; // Default true
 }
 
+// Status only changes through setNVCKnowledgeStatus so transitions are checked
+export type UpdateNVCKnowledgeInput = Partial<Omit<CreateNVCKnowledgeInput, 'status' | 'createdBy'> & { isActive?: boolean }>;
+
+export interface RevisionOptions {
+	authorId?: string | null;
+	note?: string | null;
+}
+
 export interface SearchOptions {
 	language?: 'de' | 'en';
 	category?: string;
 	limit?: number;
-	minSimilarity?: number;
+	minSimilarity?: number; // Applies to vector candidates only
 	tags?: string[];
+	mode?: 'hybrid' | 'vector' | 'lexical'; // Default hybrid
+	priorityWeight?: number; // 0-1, 0 (default) disables the priority boost
+	includeUnpublished?: boolean; // Drafts and entries in review are excluded by default
+}
+
+// Cosine similarity; lexical matches make up for what a stricter threshold would drop
+export const DEFAULT_MIN_SIMILARITY = 0.5;
+
+export interface NVCScoreBreakdown {
+	total: number;
+	rrf: number; // Sum of the vector and lexical contributions
+	vector: { rank: number; similarity: number; contribution: number } | null;
+	lexical: { rank: number; textRank: number; contribution: number } | null;
+	priority: { value: number; boost: number };
+}
+
+export type NVCSearchResult = NVCKnowledgeEntry & {
+	similarity: number;
+	score: number;
+	scoreBreakdown: NVCScoreBreakdown;
+};
+
+// Format text for better embedding quality
+function withLanguagePrefix(text: string, language: 'de' | 'en'): string {
+	return `[NVC Knowledge ${language.toUpperCase()}] ${text}`;
+}
+
+/**
+ * Embed NVC knowledge text with the configured provider, keeping provider and model
+ */
+async function embedNVCText(text: string, language: 'de' | 'en'): Promise<EmbeddingResult> {
+	try {
+		return await embedText(withLanguagePrefix(text, language));
+	} catch (error) {
+		console.error('Embedding generation failed:', error);
+		throw new Error('Failed to generate embedding');
+	}
+}
+
+/**
+ * Exact text sent to the embedding provider for an entry, e.g. for batch embedding
+ */
+export function formatNVCEmbeddingText(entry: { title: string; content: string; language: 'de' | 'en' }): string {
+	return withLanguagePrefix(`${entry.title}: ${entry.content}`, entry.language);
 }
 
 /**
@@ -71,42 +119,17 @@ export async function generateNVCEmbedding(
 	text: string,
 	language: 'de' | 'en' = 'de'
 ): Promise<number[]> {
-	try {
-		const ai = getGenAIClient();
-		
-		// Format text for better embedding quality
-		const formattedText = `[NVC Knowledge ${language.toUpperCase()}] ${text}`;
-		
-		const response = await ai.models.embedContent({
-			model: 'gemini-embedding-001',
-			contents: formattedText,
-			config: {
-				outputDimensionality: 768
-			}
-		});
-
-		// Check both singular and plural forms (SDK might use either)
-		let values: number[] | undefined;
-		if (response.embedding?.values) {
-			values = response.embedding.values;
-		} else if (response.embeddings && Array.isArray(response.embeddings) && response.embeddings.length > 0) {
-			// Handle plural form - take first embedding's values
-			values = response.embeddings[0].values;
-		} else if ((response as any).embedding?.values) {
-			// Try nested structure
-			values = (response as any).embedding.values;
-		}
-
-		if (!values || !Array.isArray(values)) {
-			console.error('Response structure:', JSON.stringify(response, null, 2));
-			throw new Error('No embeddings returned from API');
-		}
+	return (await embedNVCText(text, language)).values;
+}
 
-		return values;
-	} catch (error) {
-		console.error('Embedding generation failed:', error);
-		throw new Error('Failed to generate embedding');
-	}
+/**
+ * Lock an entry row for a write, so concurrent edits get consecutive revision numbers
+ */
+export async function lockNVCEntry(tx: Transaction, id: string) {
+	const [row] = await tx.select().from(nvcKnowledge)
+		.where(eq(nvcKnowledge.id, id))
+		.for('update');
+	return row || null;
 }
 
 /**
@@ -120,95 +143,110 @@ export async function createNVCKnowledgeEntry(
 
 		// Generate embedding if requested (default true)
 		const shouldGenerateEmbedding = input.generateEmbedding !== false;
-		let embedding: number[] | null = null;
+		let embedding: EmbeddingResult | null = null;
 
 		if (shouldGenerateEmbedding) {
 			const embeddingText = `${input.title}: ${input.content}`;
-			embedding = await generateNVCEmbedding(embeddingText, input.language);
+			embedding = await embedNVCText(embeddingText, input.language);
 		}
 
 		// Generate knowledgeId if not provided (for linking translations)
 		const knowledgeId = input.knowledgeId || randomUUID();
 
 		// Use raw SQL to insert with proper vector conversion
-		// Handle embedding and tags with proper SQL formatting
-		if (embedding) {
-			const result = await db.execute(sql`
-				INSERT INTO nvc_knowledge (
-					knowledge_id, language, title, content, embedding,
-					category, subcategory, source, tags, priority,
-					is_active, created_by, created, updated
-				) VALUES (
-					${knowledgeId}::uuid, ${input.language}, ${input.title}, ${input.content},
-					${JSON.stringify(embedding)}::vector,
-					${input.category}, ${input.subcategory || null}, ${input.source || null},
-					${input.tags ? sql.raw(`ARRAY[${input.tags.map(t => `'${t.replace(/'/g, "''")}'`).join(',')}]::text[]`) : sql`NULL`},
-					${input.priority || 3}, true, ${input.createdBy || null},
-					NOW(), NOW()
-				) RETURNING *
-			`);
-			const resultRows = Array.isArray(result) ? result : (result.rows || []);
-			if (!resultRows || resultRows.length === 0) {
-				throw new Error('No rows returned from insert query');
+		// Handle embedding and tags with proper SQL formatting; the first revision commits with the entry
+		return await db.transaction(async (tx) => {
+			let created: NVCKnowledgeEntry;
+			if (embedding) {
+				const result = await tx.execute(sql`
+					INSERT INTO nvc_knowledge (
+						knowledge_id, language, title, content, embedding,
+						embedding_provider, embedding_model,
+						category, subcategory, source, tags, priority,
+						is_active, status, created_by, created, updated
+					) VALUES (
+						${knowledgeId}::uuid, ${input.language}, ${input.title}, ${input.content},
+						${JSON.stringify(embedding.values)}::vector, ${embedding.provider}, ${embedding.model},
+						${input.category}, ${input.subcategory || null}, ${input.source || null},
+						${input.tags ? sql.raw(`ARRAY[${input.tags.map(t => `'${t.replace(/'/g, "''")}'`).join(',')}]::text[]`) : sql`NULL`},
+						${input.priority || 3}, true, ${input.status || 'published'}, ${input.createdBy || null},
+						NOW(), NOW()
+					) RETURNING *
+				`);
+				const resultRows = Array.isArray(result) ? result : (result.rows || []);
+				if (!resultRows || resultRows.length === 0) {
+					throw new Error('No rows returned from insert query');
+				}
+				const entry = resultRows[0] as any;
+				console.log(`✅ Created NVC knowledge entry with ID ${entry.id}`);
+				created = {
+					id: entry.id,
+					knowledgeId: entry.knowledge_id,
+					language: entry.language,
+					title: entry.title,
+					content: entry.content,
+					embedding: entry.embedding,
+					category: entry.category,
+					subcategory: entry.subcategory,
+					source: entry.source,
+					tags: entry.tags,
+					priority: entry.priority,
+					isActive: entry.is_active,
+					status: entry.status as NVCKnowledgeStatus,
+					createdBy: entry.created_by,
+					created: entry.created,
+					updated: entry.updated
+				};
+			} else {
+				// No embedding - use NULL
+				const result = await tx.execute(sql`
+					INSERT INTO nvc_knowledge (
+						knowledge_id, language, title, content, embedding,
+						category, subcategory, source, tags, priority,
+						is_active, status, created_by, created, updated
+					) VALUES (
+						${knowledgeId}::uuid, ${input.language}, ${input.title}, ${input.content},
+						NULL,
+						${input.category}, ${input.subcategory || null}, ${input.source || null},
+						${input.tags ? sql.raw(`ARRAY[${input.tags.map(t => `'${t.replace(/'/g, "''")}'`).join(',')}]::text[]`) : sql`NULL`},
+						${input.priority || 3}, true, ${input.status || 'published'}, ${input.createdBy || null},
+						NOW(), NOW()
+					) RETURNING *
+				`);
+				const resultRows = Array.isArray(result) ? result : (result.rows || []);
+				if (!resultRows || resultRows.length === 0) {
+					throw new Error('No rows returned from insert query');
+				}
+				const entry = resultRows[0] as any;
+				created = {
+					id: entry.id,
+					knowledgeId: entry.knowledge_id,
+					language: entry.language,
+					title: entry.title,
+					content: entry.content,
+					embedding: entry.embedding,
+					category: entry.category,
+					subcategory: entry.subcategory,
+					source: entry.source,
+					tags: entry.tags,
+					priority: entry.priority,
+					isActive: entry.is_active,
+					status: entry.status as NVCKnowledgeStatus,
+					createdBy: entry.created_by,
+					created: entry.created,
+					updated: entry.updated
+				};
 			}
-			const entry = resultRows[0] as any;
-			console.log(`✅ Created NVC knowledge entry with ID ${entry.id}`);
-			return {
-				id: entry.id,
-				knowledgeId: entry.knowledge_id,
-				language: entry.language,
-				title: entry.title,
-				content: entry.content,
-				embedding: entry.embedding,
-				category: entry.category,
-				subcategory: entry.subcategory,
-				source: entry.source,
-				tags: entry.tags,
-				priority: entry.priority,
-				isActive: entry.is_active,
-				createdBy: entry.created_by,
-				created: entry.created,
-				updated: entry.updated
-			};
-		} else {
-			// No embedding - use NULL
-			const result = await db.execute(sql`
-				INSERT INTO nvc_knowledge (
-					knowledge_id, language, title, content, embedding,
-					category, subcategory, source, tags, priority,
-					is_active, created_by, created, updated
-				) VALUES (
-					${knowledgeId}::uuid, ${input.language}, ${input.title}, ${input.content},
-					NULL,
-					${input.category}, ${input.subcategory || null}, ${input.source || null},
-					${input.tags ? sql.raw(`ARRAY[${input.tags.map(t => `'${t.replace(/'/g, "''")}'`).join(',')}]::text[]`) : sql`NULL`},
-					${input.priority || 3}, true, ${input.createdBy || null},
-					NOW(), NOW()
-				) RETURNING *
-			`);
-			const resultRows = Array.isArray(result) ? result : (result.rows || []);
-			if (!resultRows || resultRows.length === 0) {
-				throw new Error('No rows returned from insert query');
-			}
-			const entry = resultRows[0] as any;
-			return {
-				id: entry.id,
-				knowledgeId: entry.knowledge_id,
-				language: entry.language,
-				title: entry.title,
-				content: entry.content,
-				embedding: entry.embedding,
-				category: entry.category,
-				subcategory: entry.subcategory,
-				source: entry.source,
-				tags: entry.tags,
-				priority: entry.priority,
-				isActive: entry.is_active,
-				createdBy: entry.created_by,
-				created: entry.created,
-				updated: entry.updated
-			};
-		}
+
+			await recordNVCRevision(tx, {
+				entryId: created.id,
+				before: null,
+				after: created,
+				action: 'create',
+				authorId: input.createdBy
+			});
+			return created;
+		});
 	} catch (error) {
 		console.error('Error creating NVC knowledge entry:', error);
 		throw error;
@@ -217,26 +255,29 @@ export async function createNVCKnowledgeEntry(
 
 /**
  * Update an existing NVC knowledge entry
+ * Records a revision with the changed fields; `action` is 'rollback' when restoring a revision.
  */
 export async function updateNVCKnowledgeEntry(
 	id: string,
-	updates: Partial<CreateNVCKnowledgeInput & { isActive?: boolean }>
+	updates: UpdateNVCKnowledgeInput,
+	options: RevisionOptions & { action?: 'update' | 'rollback' } = {}
 ): Promise<NVCKnowledgeEntry> {
 	try {
 		console.log(`📝 Updating NVC knowledge entry: ${id}`);
 
+		const existing = await getNVCKnowledgeEntry(id);
+		if (!existing) {
+			throw new Error('Entry not found');
+		}
+
 		// If content or title changed, regenerate embedding
-		let embedding: number[] | null = null;
-		if (updates.content || updates.title) {
-			const existing = await getNVCKnowledgeEntry(id);
-			if (!existing) {
-				throw new Error('Entry not found');
-			}
-			const title = updates.title || existing.title;
-			const content = updates.content || existing.content;
+		let embedding: EmbeddingResult | null = null;
+		const title = updates.title || existing.title;
+		const content = updates.content || existing.content;
+		if (title !== existing.title || content !== existing.content) {
 			const language = updates.language || existing.language;
 			const embeddingText = `${title}: ${content}`;
-			embedding = await generateNVCEmbedding(embeddingText, language);
+			embedding = await embedNVCText(embeddingText, language);
 		}
 
 		// Build update object for drizzle
@@ -252,27 +293,45 @@ export async function updateNVCKnowledgeEntry(
 		if (updates.tags !== undefined) updateData.tags = updates.tags;
 		if (updates.priority !== undefined) updateData.priority = updates.priority;
 		if (updates.isActive !== undefined) updateData.isActive = updates.isActive;
-		if (embedding) {
-			// Use raw SQL for vector update
-			await db.execute(sql`
-				UPDATE nvc_knowledge
-				SET embedding = ${JSON.stringify(embedding)}::vector
-				WHERE id = ${id}::uuid
-			`);
-		}
+		// Embedded above, outside the transaction; the entry write and its revision commit together
+		const entry = await db.transaction(async (tx) => {
+			const before = await lockNVCEntry(tx, id);
+			if (!before) {
+				throw new Error('Entry not found');
+			}
 
-		// Update other fields using drizzle
-		const result = await db
-			.update(nvcKnowledge)
-			.set(updateData)
-			.where(eq(nvcKnowledge.id, id))
-			.returning();
+			if (embedding) {
+				// Use raw SQL for vector update
+				await tx.execute(sql`
+					UPDATE nvc_knowledge
+					SET embedding = ${JSON.stringify(embedding.values)}::vector,
+						embedding_provider = ${embedding.provider},
+						embedding_model = ${embedding.model}
+					WHERE id = ${id}::uuid
+				`);
+			}
 
-		if (!result || result.length === 0) {
-			throw new Error('Entry not found or update failed');
-		}
+			// Update other fields using drizzle
+			const result = await tx
+				.update(nvcKnowledge)
+				.set(updateData)
+				.where(eq(nvcKnowledge.id, id))
+				.returning();
 
-		const entry = result[0];
+			if (!result || result.length === 0) {
+				throw new Error('Entry not found or update failed');
+			}
+
+			await recordNVCRevision(tx, {
+				entryId: id,
+				before,
+				after: result[0],
+				action: options.action || 'update',
+				authorId: options.authorId,
+				note: options.note
+			});
+			return result[0];
+		});
 		console.log(`✅ Updated NVC knowledge entry ${id}`);
 		
 		return {
@@ -288,6 +347,7 @@ export async function updateNVCKnowledgeEntry(
 			tags: entry.tags,
 			priority: entry.priority,
 			isActive: entry.isActive,
+			status: entry.status as NVCKnowledgeStatus,
 			createdBy: entry.createdBy,
 			created: entry.created,
 			updated: entry.updated
@@ -298,6 +358,70 @@ export async function updateNVCKnowledgeEntry(
 	}
 }
 
+/**
+ * Move an entry through the review workflow (draft → review → published)
+ */
+export async function setNVCKnowledgeStatus(
+	id: string,
+	status: NVCKnowledgeStatus,
+	options: RevisionOptions = {}
+): Promise<NVCKnowledgeEntry> {
+	const { before, entry } = await db.transaction(async (tx) => {
+		const before = await lockNVCEntry(tx, id);
+		if (!before) {
+			throw new NVCRevisionError('Entry not found', 404);
+		}
+		assertNVCStatusTransition(before.status, status);
+
+		const [entry] = await tx
+			.update(nvcKnowledge)
+			.set({ status, updated: new Date().toISOString() })
+			.where(eq(nvcKnowledge.id, id))
+			.returning();
+
+		await recordNVCRevision(tx, {
+			entryId: id,
+			before,
+			after: entry,
+			action: 'status',
+			authorId: options.authorId,
+			note: options.note
+		});
+		return { before, entry };
+	});
+	console.log(`🚦 NVC knowledge entry ${id}: ${before.status} → ${status}`);
+
+	return (await getNVCKnowledgeEntry(entry.id))!;
+}
+
+/**
+ * Restore the fields of an earlier revision as a new 'rollback' revision
+ * The review status is left as it is; unpublish first to review the restored version.
+ */
+export async function rollbackNVCKnowledgeEntry(
+	id: string,
+	revision: number,
+	options: RevisionOptions = {}
+): Promise<NVCKnowledgeEntry> {
+	const target = await getNVCRevision(id, revision);
+	const { snapshot } = target;
+
+	return updateNVCKnowledgeEntry(id, {
+		title: snapshot.title,
+		content: snapshot.content,
+		category: snapshot.category,
+		subcategory: snapshot.subcategory,
+		source: snapshot.source,
+		tags: snapshot.tags,
+		priority: snapshot.priority,
+		isActive: snapshot.isActive
+	}, {
+		action: 'rollback',
+		authorId: options.authorId,
+		note: options.note || `Rolled back to revision ${revision}`
+	});
+}
+
 /**
  * Get a single NVC knowledge entry by ID
  */
@@ -327,6 +451,7 @@ export async function getNVCKnowledgeEntry(id: string): Promise<NVCKnowledgeEntr
 			tags: entry.tags,
 			priority: entry.priority,
 			isActive: entry.isActive,
+			status: entry.status as NVCKnowledgeStatus,
 			createdBy: entry.createdBy,
 			created: entry.created,
 			updated: entry.updated
@@ -337,26 +462,75 @@ export async function getNVCKnowledgeEntry(id: string): Promise<NVCKnowledgeEntr
 	}
 }
 
+// Reciprocal rank fusion constant: higher values flatten the difference between top ranks
+const RRF_K = 60;
+
+function rowToEntry(row: any): NVCKnowledgeEntry {
+	return {
+		id: row.id,
+		knowledgeId: row.knowledge_id,
+		language: row.language,
+		title: row.title,
+		content: row.content,
+		embedding: row.embedding,
+		category: row.category,
+		subcategory: row.subcategory,
+		source: row.source,
+		tags: row.tags,
+		priority: row.priority,
+		isActive: row.is_active,
+		status: row.status as NVCKnowledgeStatus,
+		createdBy: row.created_by,
+		created: row.created,
+		updated: row.updated
+	};
+}
+
+/**
+ * OR-query of prefix terms, so short queries and single exact terms ("Giraffensprache") still match
+ */
+export function toFullTextQuery(query: string): string | null {
+	const terms = Array.from(new Set(
+		(query.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(term => term.length >= 2)
+	)).slice(0, 32);
+
+	return terms.length > 0 ? terms.map(term => `${term}:*`).join(' | ') : null;
+}
+
+function textSearchConfig(language?: 'de' | 'en') {
+	if (language) {
+		return sql.raw(language === 'de' ? `'german'::regconfig` : `'english'::regconfig`);
+	}
+	return sql.raw(`CASE WHEN language = 'de' THEN 'german'::regconfig ELSE 'english'::regconfig END`);
+}
+
 /**
- * Semantic search for NVC knowledge
+ * Hybrid search for NVC knowledge
+ * Full-text (German/English stemming per entry language) and vector candidates are merged with
+ * reciprocal rank fusion; `priorityWeight` optionally boosts entries with a higher priority.
+ * If the embedding can't be generated, lexical results are still returned.
  */
 export async function searchNVCKnowledge(
 	query: string,
 	options: SearchOptions = {}
-): Promise<Array<NVCKnowledgeEntry & { similarity: number }>> {
+): Promise<NVCSearchResult[]> {
 	try {
-		console.log(`🔍 Searching NVC knowledge: "${query}" (${options.language || 'any'})`);
+		const mode = options.mode || 'hybrid';
+		console.log(`🔍 Searching NVC knowledge (${mode}): "${query}" (${options.language || 'any'})`);
 
 		const language = options.language;
 		const limit = options.limit || 10;
-		const minSimilarity = options.minSimilarity || 0.7;
-
-		// Generate embedding for the search query
-		const searchEmbedding = await generateNVCEmbedding(query, language || 'de');
+		const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+		// Above 1 the boost factor turns negative for priority-1 entries
+		const priorityWeight = Number.isFinite(options.priorityWeight) ? Math.min(1, Math.max(0, options.priorityWeight!)) : 0;
+		const candidateLimit = Math.max(limit * 4, 20);
 
 		// Build WHERE conditions as SQL fragments
 		const conditions: any[] = [sql`is_active = true`];
-		
+
+		if (!options.includeUnpublished) {
+			conditions.push(sql`status = 'published'`);
+		}
 		if (language) {
 			conditions.push(sql`language = ${language}`);
 		}
@@ -366,44 +540,97 @@ export async function searchNVCKnowledge(
 		if (options.tags && options.tags.length > 0) {
 			conditions.push(sql`tags && ${JSON.stringify(options.tags)}::text[]`);
 		}
+		const filters = sql.join(conditions, sql` AND `);
+
+		let searchEmbedding: number[] | null = null;
+		if (mode !== 'lexical') {
+			try {
+				searchEmbedding = await generateNVCEmbedding(query, language || 'de');
+			} catch (error) {
+				if (mode === 'vector') throw error;
+				console.warn('⚠️ Query embedding failed, falling back to full-text search only');
+			}
+		}
 
-		// Search using vector similarity
-		const whereClause = conditions.length > 0 
-			? sql`${sql.join(conditions, sql` AND `)} AND embedding IS NOT NULL`
-			: sql`embedding IS NOT NULL`;
+		const vectorLiteral = searchEmbedding ? JSON.stringify(searchEmbedding) : null;
+		const similarityColumn = vectorLiteral
+			? sql`CASE WHEN embedding IS NOT NULL AND ${sameEmbeddingModel()} THEN 1 - (embedding <=> ${vectorLiteral}::vector) END`
+			: sql`NULL::float`;
+
+		// Vector candidates, nearest first
+		const vectorRows: any[] = [];
+		if (vectorLiteral) {
+			const results = await db.execute(sql`
+				SELECT *, 1 - (embedding <=> ${vectorLiteral}::vector) AS similarity
+				FROM nvc_knowledge
+				WHERE ${filters}
+				  AND embedding IS NOT NULL AND ${sameEmbeddingModel()}
+				  AND (1 - (embedding <=> ${vectorLiteral}::vector)) >= ${minSimilarity}
+				ORDER BY embedding <=> ${vectorLiteral}::vector
+				LIMIT ${candidateLimit}
+			`);
+			vectorRows.push(...(Array.isArray(results) ? results : (results.rows || [])));
+		}
 
-		const results = await db.execute(sql`
-			SELECT *,
-				   1 - (embedding <-> ${JSON.stringify(searchEmbedding)}::vector) as similarity
-			FROM nvc_knowledge
-			WHERE ${whereClause}
-			  AND (1 - (embedding <-> ${JSON.stringify(searchEmbedding)}::vector)) >= ${minSimilarity}
-			ORDER BY embedding <-> ${JSON.stringify(searchEmbedding)}::vector
-			LIMIT ${limit}
-		`);
+		// Full-text candidates, best ts_rank_cd first
+		const lexicalRows: any[] = [];
+		const tsQueryText = mode === 'vector' ? null : toFullTextQuery(query);
+		if (tsQueryText) {
+			const tsQuery = sql`to_tsquery(${textSearchConfig(language)}, ${tsQueryText})`;
+			const results = await db.execute(sql`
+				SELECT *, ts_rank_cd(search_vector, ${tsQuery}) AS text_rank, ${similarityColumn} AS similarity
+				FROM nvc_knowledge
+				WHERE ${filters}
+				  AND search_vector @@ ${tsQuery}
+				ORDER BY text_rank DESC
+				LIMIT ${candidateLimit}
+			`);
+			lexicalRows.push(...(Array.isArray(results) ? results : (results.rows || [])));
+		}
 
-		const resultRows = Array.isArray(results) ? results : (results.rows || []);
-		
-		console.log(`📝 Found ${resultRows.length} similar entries`);
+		// Reciprocal rank fusion
+		const fused = new Map<string, { row: any; breakdown: NVCScoreBreakdown }>();
+		const entryFor = (row: any) => {
+			let item = fused.get(row.id);
+			if (!item) {
+				item = {
+					row,
+					breakdown: { total: 0, rrf: 0, vector: null, lexical: null, priority: { value: row.priority, boost: 0 } }
+				};
+				fused.set(row.id, item);
+			}
+			return item;
+		};
 
-		return resultRows.map((row: any) => ({
-			id: row.id,
-			knowledgeId: row.knowledge_id,
-			language: row.language,
-			title: row.title,
-			content: row.content,
-			embedding: row.embedding,
-			category: row.category,
-			subcategory: row.subcategory,
-			source: row.source,
-			tags: row.tags,
-			priority: row.priority,
-			isActive: row.is_active,
-			createdBy: row.created_by,
-			created: row.created,
-			updated: row.updated,
-			similarity: row.similarity || 0
-		}));
+		vectorRows.forEach((row, index) => {
+			const item = entryFor(row);
+			const contribution = 1 / (RRF_K + index + 1);
+			item.breakdown.vector = { rank: index + 1, similarity: Number(row.similarity), contribution };
+			item.breakdown.rrf += contribution;
+		});
+
+		lexicalRows.forEach((row, index) => {
+			const item = entryFor(row);
+			const contribution = 1 / (RRF_K + index + 1);
+			item.breakdown.lexical = { rank: index + 1, textRank: Number(row.text_rank), contribution };
+			item.breakdown.rrf += contribution;
+		});
+
+		const results = Array.from(fused.values()).map(({ row, breakdown }) => {
+			// Priority 1-5 maps to a -1..+1 multiplier around the default priority 3
+			const boost = priorityWeight * ((Number(row.priority) - 3) / 2);
+			breakdown.priority.boost = boost;
+			breakdown.total = breakdown.rrf * (1 + boost);
+
+			const similarity = breakdown.vector?.similarity ?? (row.similarity != null ? Number(row.similarity) : 0);
+			return { ...rowToEntry(row), similarity, score: breakdown.total, scoreBreakdown: breakdown };
+		});
+
+		results.sort((a, b) => b.score - a.score);
+
+		console.log(`📝 Found ${results.length} entries (${vectorRows.length} vector, ${lexicalRows.length} full-text candidates)`);
+
+		return results.slice(0, limit);
 	} catch (error) {
 		console.error('Error searching NVC knowledge:', error);
 		throw error;
@@ -431,6 +658,7 @@ export async function findSimilarNVCKnowledge(
 			  AND language = ${entry.language}
 			  AND is_active = true
 			  AND embedding IS NOT NULL
+			  AND ${sameEmbeddingModel()}
 			ORDER BY embedding <-> ${JSON.stringify(entry.embedding)}::vector
 			LIMIT ${limit}
 		`);
@@ -450,6 +678,7 @@ export async function findSimilarNVCKnowledge(
 			tags: row.tags,
 			priority: row.priority,
 			isActive: row.is_active,
+			status: row.status as NVCKnowledgeStatus,
 			createdBy: row.created_by,
 			created: row.created,
 			updated: row.updated,
@@ -490,6 +719,7 @@ export async function getNVCKnowledgeTranslations(
 			tags: entry.tags,
 			priority: entry.priority,
 			isActive: entry.isActive,
+			status: entry.status as NVCKnowledgeStatus,
 			createdBy: entry.createdBy,
 			created: entry.created,
 			updated: entry.updated
@@ -509,6 +739,7 @@ export async function listNVCKnowledge(
 		category?: string;
 		tags?: string[];
 		isActive?: boolean;
+		status?: NVCKnowledgeStatus;
 		limit?: number;
 		offset?: number;
 	} = {}
@@ -528,6 +759,9 @@ export async function listNVCKnowledge(
 		if (options.isActive !== undefined) {
 			conditions.push(eq(nvcKnowledge.isActive, options.isActive));
 		}
+		if (options.status) {
+			conditions.push(eq(nvcKnowledge.status, options.status));
+		}
 
 		const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
@@ -565,6 +799,7 @@ export async function listNVCKnowledge(
 				tags: entry.tags,
 				priority: entry.priority,
 				isActive: entry.isActive,
+				status: entry.status as NVCKnowledgeStatus,
 				createdBy: entry.createdBy,
 				created: entry.created,
 				updated: entry.updated
@@ -619,25 +854,48 @@ export async function getNVCTags(): Promise<string[]> {
 
 /**
  * Delete NVC knowledge entry (soft delete by default)
+ * Both kinds are recorded as a 'delete' revision; the history stays after a hard delete.
  */
 export async function deleteNVCKnowledgeEntry(
 	id: string,
-	hardDelete: boolean = false
+	hardDelete: boolean = false,
+	options: RevisionOptions = {}
 ): Promise<void> {
 	try {
-		if (hardDelete) {
-			await db.delete(nvcKnowledge).where(eq(nvcKnowledge.id, id));
-			console.log(`🗑️ Hard deleted NVC knowledge entry ${id}`);
-		} else {
-			await db
-				.update(nvcKnowledge)
-				.set({ isActive: false, updated: new Date().toISOString() })
-				.where(eq(nvcKnowledge.id, id));
-			console.log(`🗑️ Soft deleted NVC knowledge entry ${id}`);
-		}
+		await db.transaction(async (tx) => {
+			const existing = await lockNVCEntry(tx, id);
+			if (!existing) {
+				throw new Error('Entry not found');
+			}
+
+			if (hardDelete) {
+				await tx.delete(nvcKnowledge).where(eq(nvcKnowledge.id, id));
+				await recordNVCRevision(tx, {
+					entryId: id,
+					before: existing,
+					after: existing,
+					action: 'delete',
+					authorId: options.authorId,
+					note: options.note || 'Permanently deleted'
+				});
+			} else {
+				await tx
+					.update(nvcKnowledge)
+					.set({ isActive: false, updated: new Date().toISOString() })
+					.where(eq(nvcKnowledge.id, id));
+				await recordNVCRevision(tx, {
+					entryId: id,
+					before: existing,
+					after: { ...existing, isActive: false },
+					action: 'delete',
+					authorId: options.authorId,
+					note: options.note
+				});
+			}
+		});
+		console.log(`🗑️ ${hardDelete ? 'Hard' : 'Soft'} deleted NVC knowledge entry ${id}`);
 	} catch (error) {
 		console.error('Error deleting NVC knowledge entry:', error);
 		throw error;
 	}
 }
-
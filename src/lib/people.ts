@@ -0,0 +1,534 @@
+/**
+ * People in the user's life
+ * Person names and aliases ("Anna", "meine Partnerin") are deduplicated per user.
+ * Memories, chats and analyses are linked to people, which gives a per-person
+ * timeline of the feelings and needs that came up in conversations about them.
+ */
+
+import { and, asc, count, desc, eq, inArray, sql } from 'drizzle-orm';
+import { analyses, memories, people, personAliases, personLinks } from '../../drizzle/schema.js';
+import { db } from './db.js';
+
+export type PersonRow = typeof people.$inferSelect;
+export type PersonEntityType = 'memory' | 'analysis' | 'chat';
+
+export class PeopleError extends Error {
+	constructor(message: string, public status: 400 | 404 | 409 = 400) {
+		super(message);
+	}
+}
+
+// Relationship words that can stand in for a name; "mein Partner" resolves to the user's partner
+const RELATIONSHIP_TERMS: Record<string, string[]> = {
+	partner: ['partner', 'partnerin', 'ehemann', 'ehefrau', 'husband', 'wife', 'boyfriend', 'girlfriend'],
+	mother: ['mutter', 'mama', 'mother', 'mom', 'mum'],
+	father: ['vater', 'papa', 'father', 'dad'],
+	sibling: ['bruder', 'schwester', 'brother', 'sister'],
+	child: ['sohn', 'tochter', 'son', 'daughter'],
+	boss: ['chef', 'chefin', 'boss', 'manager', 'managerin'],
+	colleague: ['kollege', 'kollegin', 'colleague', 'coworker'],
+	friend: ['freund', 'freundin', 'friend']
+};
+
+const POSSESSIVE_PREFIX = /^(my|our|the|mein|meine|meinem|meinen|meiner|meines|unser|unsere|unserem|unseren|unserer|der|die|das|dem|den)\s+/;
+
+const PROFILE_MEMORY_LIMIT = 10;
+const PROFILE_TIMELINE_LIMIT = 5;
+
+/**
+ * Normalise a name or alias for matching: lowercase, no possessive, no punctuation
+ */
+export function normalizePersonName(name: string): string {
+	return name
+		.normalize('NFKC')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.replace(POSSESSIVE_PREFIX, '')
+		.trim();
+}
+
+export function getRelationshipForTerm(normalizedName: string): string | null {
+	for (const [relationship, terms] of Object.entries(RELATIONSHIP_TERMS)) {
+		if (terms.includes(normalizedName)) {
+			return relationship;
+		}
+	}
+	return null;
+}
+
+function displayName(name: string): string {
+	const trimmed = name.trim();
+	return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+function parseJsonList(value: string | null): string[] {
+	if (!value) return [];
+	try {
+		const parsed = JSON.parse(value);
+		return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Find the person a name refers to, creating them if needed
+ * Lookup order: exact alias, then a unique person with the matching relationship
+ */
+export async function resolvePerson(userId: string, name: string): Promise<PersonRow | null> {
+	const normalized = normalizePersonName(name);
+	if (normalized.length < 2) {
+		return null;
+	}
+
+	return db.transaction(async (tx) => {
+		// Serialise per user so the same new name isn't created twice
+		await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`people:${userId}`}))`);
+
+		const [aliasMatch] = await tx.select({ person: people })
+			.from(personAliases)
+			.innerJoin(people, eq(people.id, personAliases.personId))
+			.where(and(eq(personAliases.userId, userId), eq(personAliases.normalizedAlias, normalized)))
+			.limit(1);
+
+		if (aliasMatch) {
+			return aliasMatch.person;
+		}
+
+		const relationship = getRelationshipForTerm(normalized);
+		let person: PersonRow | undefined;
+
+		if (relationship) {
+			const candidates = await tx.select().from(people)
+				.where(and(eq(people.userId, userId), eq(people.relationship, relationship)))
+				.limit(2);
+			if (candidates.length === 1) {
+				person = candidates[0];
+			}
+		}
+
+		if (!person) {
+			[person] = await tx.insert(people)
+				.values({ userId, name: displayName(name), relationship })
+				.returning();
+			console.log(`👤 Created person ${person.id} ("${person.name}") for user ${userId}`);
+		}
+
+		await tx.insert(personAliases)
+			.values({ personId: person.id, userId, alias: name.trim(), normalizedAlias: normalized })
+			.onConflictDoNothing();
+
+		return person;
+	});
+}
+
+export async function linkToPerson(
+	userId: string,
+	personId: string,
+	entityType: PersonEntityType,
+	entityId: string
+): Promise<void> {
+	await db.insert(personLinks)
+		.values({ personId, userId, entityType, entityId })
+		.onConflictDoNothing();
+}
+
+/**
+ * Link a chat to a person, together with any analysis of that chat
+ */
+export async function linkChatToPerson(userId: string, personId: string, chatId: string): Promise<void> {
+	await linkToPerson(userId, personId, 'chat', chatId);
+
+	const chatAnalyses = await db.select({ id: analyses.id })
+		.from(analyses)
+		.where(and(eq(analyses.userId, userId), eq(analyses.chatId, chatId)));
+
+	for (const analysis of chatAnalyses) {
+		await linkToPerson(userId, personId, 'analysis', analysis.id);
+	}
+}
+
+/**
+ * Link a new analysis to everyone its chat is about
+ */
+export async function linkAnalysisToChatPeople(userId: string, chatId: string, analysisId: string): Promise<void> {
+	const chatPeople = await db.select({ personId: personLinks.personId })
+		.from(personLinks)
+		.where(and(
+			eq(personLinks.userId, userId),
+			eq(personLinks.entityType, 'chat'),
+			eq(personLinks.entityId, chatId)
+		));
+
+	for (const { personId } of chatPeople) {
+		await linkToPerson(userId, personId, 'analysis', analysisId);
+	}
+}
+
+/**
+ * Link an extracted memory (and the chat it came from) to the person it is about
+ */
+export async function linkMemoryToPerson(
+	userId: string,
+	personName: string,
+	memoryId: string,
+	chatId: string | null
+): Promise<PersonRow | null> {
+	const person = await resolvePerson(userId, personName);
+	if (!person) return null;
+
+	await linkToPerson(userId, person.id, 'memory', memoryId);
+	if (chatId) {
+		await linkChatToPerson(userId, person.id, chatId);
+	}
+	return person;
+}
+
+/**
+ * People whose name or alias occurs in a text
+ */
+export async function findMentionedPeople(userId: string, text: string): Promise<PersonRow[]> {
+	const normalizedText = ` ${text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}'-]+/gu, ' ')} `;
+
+	const aliases = await db.select({ personId: personAliases.personId, normalizedAlias: personAliases.normalizedAlias })
+		.from(personAliases)
+		.where(eq(personAliases.userId, userId));
+
+	const mentionedIds = new Set(
+		aliases
+			.filter(alias => normalizedText.includes(` ${alias.normalizedAlias} `))
+			.map(alias => alias.personId)
+	);
+
+	if (mentionedIds.size === 0) {
+		return [];
+	}
+
+	return db.select().from(people)
+		.where(and(eq(people.userId, userId), inArray(people.id, [...mentionedIds])));
+}
+
+/**
+ * Link memories that carry a personName but aren't linked yet (e.g. created before people existed)
+ */
+export async function syncPeopleFromMemories(userId: string): Promise<number> {
+	const result = await db.execute(sql`
+		SELECT id, person_name, chat_id
+		FROM memories
+		WHERE user_id = ${userId}
+		AND person_name IS NOT NULL AND person_name <> ''
+		AND NOT EXISTS (
+			SELECT 1 FROM person_links
+			WHERE person_links.entity_type = 'memory' AND person_links.entity_id = memories.id::text
+		)
+		LIMIT 200
+	`);
+	const rows = (Array.isArray(result) ? result : (result.rows || [])) as Array<{ id: string; person_name: string; chat_id: string | null }>;
+
+	for (const row of rows) {
+		await linkMemoryToPerson(userId, row.person_name, row.id, row.chat_id);
+	}
+	return rows.length;
+}
+
+async function getOwnedPerson(userId: string, personId: string): Promise<PersonRow> {
+	const [person] = await db.select().from(people)
+		.where(and(eq(people.id, personId), eq(people.userId, userId)))
+		.limit(1);
+
+	if (!person) {
+		throw new PeopleError('Person not found', 404);
+	}
+	return person;
+}
+
+async function getLinkedIds(personId: string, entityType: PersonEntityType): Promise<string[]> {
+	const links = await db.select({ entityId: personLinks.entityId })
+		.from(personLinks)
+		.where(and(eq(personLinks.personId, personId), eq(personLinks.entityType, entityType)));
+	return links.map(link => link.entityId);
+}
+
+/**
+ * All people of a user with aliases and link counts
+ */
+export async function listPeople(userId: string) {
+	await syncPeopleFromMemories(userId);
+
+	const userPeople = await db.select().from(people)
+		.where(eq(people.userId, userId))
+		.orderBy(asc(people.name));
+
+	if (userPeople.length === 0) {
+		return [];
+	}
+
+	const personIds = userPeople.map(person => person.id);
+	const aliases = await db.select().from(personAliases)
+		.where(inArray(personAliases.personId, personIds));
+	const linkCounts = await db.select({ personId: personLinks.personId, entityType: personLinks.entityType, total: count() })
+		.from(personLinks)
+		.where(inArray(personLinks.personId, personIds))
+		.groupBy(personLinks.personId, personLinks.entityType);
+
+	return userPeople.map(person => {
+		const countFor = (entityType: PersonEntityType) =>
+			Number(linkCounts.find(row => row.personId === person.id && row.entityType === entityType)?.total || 0);
+
+		return {
+			...person,
+			aliases: aliases.filter(alias => alias.personId === person.id).map(({ id, alias }) => ({ id, alias })),
+			memoryCount: countFor('memory'),
+			chatCount: countFor('chat'),
+			analysisCount: countFor('analysis')
+		};
+	});
+}
+
+/**
+ * A person with aliases and linked memories
+ */
+export async function getPersonProfile(userId: string, personId: string) {
+	const person = await getOwnedPerson(userId, personId);
+
+	const aliases = await db.select({ id: personAliases.id, alias: personAliases.alias })
+		.from(personAliases)
+		.where(eq(personAliases.personId, personId));
+
+	const memoryIds = await getLinkedIds(personId, 'memory');
+	const personMemories = memoryIds.length > 0
+		? await db.select({
+			id: memories.id,
+			key: memories.key,
+			value: memories.value,
+			type: memories.type,
+			confidence: memories.confidence,
+			created: memories.created
+		})
+			.from(memories)
+			.where(and(
+				eq(memories.userId, userId),
+				inArray(memories.id, memoryIds),
+				sql`(${memories.expiresAt} IS NULL OR ${memories.expiresAt} > NOW())`
+			))
+			.orderBy(desc(memories.created))
+		: [];
+
+	return { person, aliases, memories: personMemories };
+}
+
+/**
+ * Feelings and needs from analysed conversations about a person, newest first
+ */
+export async function getPersonTimeline(userId: string, personId: string, limit: number = 50) {
+	await getOwnedPerson(userId, personId);
+
+	const analysisIds = await getLinkedIds(personId, 'analysis');
+	if (analysisIds.length === 0) {
+		return [];
+	}
+
+	const personAnalyses = await db.select({
+		id: analyses.id,
+		chatId: analyses.chatId,
+		title: analyses.title,
+		feelings: analyses.feelings,
+		needs: analyses.needs,
+		request: analyses.request,
+		created: analyses.created
+	})
+		.from(analyses)
+		.where(and(eq(analyses.userId, userId), inArray(analyses.id, analysisIds)))
+		.orderBy(desc(analyses.created))
+		.limit(limit);
+
+	return personAnalyses.map(analysis => ({
+		analysisId: analysis.id,
+		chatId: analysis.chatId,
+		title: analysis.title,
+		feelings: parseJsonList(analysis.feelings),
+		needs: parseJsonList(analysis.needs),
+		request: analysis.request,
+		date: analysis.created
+	}));
+}
+
+function topEntries(values: string[], limit: number): string {
+	const counts = new Map<string, number>();
+	values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+	return [...counts.entries()]
+		.sort((a, b) => b[1] - a[1])
+		.slice(0, limit)
+		.map(([value, total]) => (total > 1 ? `${value} (${total}x)` : value))
+		.join(', ');
+}
+
+/**
+ * Profile text of the mentioned people for the system prompt
+ * Also returns the memories used, so their access can be recorded
+ */
+export async function buildPeopleContext(userId: string, mentioned: PersonRow[]) {
+	const sections: string[] = [];
+	const usedMemories: Awaited<ReturnType<typeof getPersonProfile>>['memories'] = [];
+
+	for (const person of mentioned) {
+		const profile = await getPersonProfile(userId, person.id);
+		const timeline = await getPersonTimeline(userId, person.id, PROFILE_TIMELINE_LIMIT);
+
+		const otherNames = profile.aliases
+			.map(alias => alias.alias)
+			.filter(alias => normalizePersonName(alias) !== normalizePersonName(person.name));
+		const header = [
+			person.relationship ? `Beziehung: ${person.relationship}` : null,
+			otherNames.length > 0 ? `auch genannt: ${otherNames.join(', ')}` : null
+		].filter(Boolean).join('; ');
+
+		const lines = [`**${person.name}**${header ? ` (${header})` : ''}`];
+		if (person.notes) {
+			lines.push(`Notizen: ${person.notes}`);
+		}
+
+		const profileMemories = profile.memories.slice(0, PROFILE_MEMORY_LIMIT);
+		profileMemories.forEach(memory => {
+			lines.push(`- ${memory.value}`);
+			usedMemories.push(memory);
+		});
+
+		if (timeline.length > 0) {
+			const feelings = topEntries(timeline.flatMap(entry => entry.feelings), 5);
+			const needs = topEntries(timeline.flatMap(entry => entry.needs), 5);
+			if (feelings) lines.push(`Gefühle in Gesprächen über ${person.name}: ${feelings}`);
+			if (needs) lines.push(`Bedürfnisse in Gesprächen über ${person.name}: ${needs}`);
+		}
+
+		sections.push(lines.join('\n'));
+	}
+
+	return { context: sections.join('\n\n'), memories: usedMemories };
+}
+
+export async function createPerson(userId: string, input: { name: string; relationship?: string | null; notes?: string | null }) {
+	const person = await resolvePerson(userId, input.name);
+	if (!person) {
+		throw new PeopleError('Name is too short');
+	}
+	if (input.relationship !== undefined || input.notes !== undefined) {
+		return updatePerson(userId, person.id, { relationship: input.relationship, notes: input.notes });
+	}
+	return person;
+}
+
+export async function updatePerson(
+	userId: string,
+	personId: string,
+	changes: { name?: string; relationship?: string | null; notes?: string | null }
+) {
+	await getOwnedPerson(userId, personId);
+
+	const updates: Partial<PersonRow> = { updated: new Date().toISOString() };
+	if (changes.name !== undefined) {
+		if (normalizePersonName(changes.name).length < 2) {
+			throw new PeopleError('Name is too short');
+		}
+		updates.name = changes.name.trim();
+		await addAlias(userId, personId, changes.name);
+	}
+	if (changes.relationship !== undefined) updates.relationship = changes.relationship || null;
+	if (changes.notes !== undefined) updates.notes = changes.notes || null;
+
+	const [person] = await db.update(people)
+		.set(updates)
+		.where(eq(people.id, personId))
+		.returning();
+	return person;
+}
+
+/**
+ * Add an alias; an alias can only point to one person per user
+ */
+export async function addAlias(userId: string, personId: string, alias: string) {
+	await getOwnedPerson(userId, personId);
+
+	const normalized = normalizePersonName(alias);
+	if (normalized.length < 2) {
+		throw new PeopleError('Alias is too short');
+	}
+
+	const [existing] = await db.select().from(personAliases)
+		.where(and(eq(personAliases.userId, userId), eq(personAliases.normalizedAlias, normalized)))
+		.limit(1);
+
+	if (existing) {
+		if (existing.personId !== personId) {
+			throw new PeopleError('Alias already belongs to another person - merge them instead', 409);
+		}
+		return existing;
+	}
+
+	const [created] = await db.insert(personAliases)
+		.values({ personId, userId, alias: alias.trim(), normalizedAlias: normalized })
+		.returning();
+	return created;
+}
+
+export async function removeAlias(userId: string, personId: string, aliasId: string) {
+	await getOwnedPerson(userId, personId);
+
+	const deleted = await db.delete(personAliases)
+		.where(and(eq(personAliases.id, aliasId), eq(personAliases.personId, personId)))
+		.returning({ id: personAliases.id });
+
+	if (deleted.length === 0) {
+		throw new PeopleError('Alias not found', 404);
+	}
+}
+
+/**
+ * Merge `sourceId` into `targetId`: aliases and links move over, the source is deleted
+ */
+export async function mergePeople(userId: string, targetId: string, sourceId: string) {
+	if (targetId === sourceId) {
+		throw new PeopleError('Cannot merge a person into themselves');
+	}
+	const target = await getOwnedPerson(userId, targetId);
+	const source = await getOwnedPerson(userId, sourceId);
+
+	return db.transaction(async (tx) => {
+		await tx.update(personAliases)
+			.set({ personId: targetId })
+			.where(eq(personAliases.personId, sourceId));
+
+		// Move links that the target doesn't have yet; duplicates go away with the source
+		await tx.execute(sql`
+			UPDATE person_links SET person_id = ${targetId}
+			WHERE person_id = ${sourceId}
+			AND NOT EXISTS (
+				SELECT 1 FROM person_links AS existing
+				WHERE existing.person_id = ${targetId}
+				AND existing.entity_type = person_links.entity_type
+				AND existing.entity_id = person_links.entity_id
+			)
+		`);
+
+		await tx.delete(people).where(eq(people.id, sourceId));
+
+		const [merged] = await tx.update(people)
+			.set({
+				relationship: target.relationship || source.relationship,
+				notes: [target.notes, source.notes].filter(Boolean).join('\n') || null,
+				updated: new Date().toISOString()
+			})
+			.where(eq(people.id, targetId))
+			.returning();
+
+		console.log(`👥 Merged person ${sourceId} into ${targetId}`);
+		return merged;
+	});
+}
+
+export async function deletePerson(userId: string, personId: string) {
+	await getOwnedPerson(userId, personId);
+	await db.delete(people).where(eq(people.id, personId));
+}
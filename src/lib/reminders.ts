@@ -0,0 +1,306 @@
+/**
+ * Reminders with RRULE-style recurrence (daily, weekly on given weekdays, monthly)
+ * Occurrences are evaluated on the wall clock of the reminder's timezone,
+ * so a 08:00 reminder stays at 08:00 across daylight saving changes.
+ */
+
+import { and, asc, eq, isNotNull, lte } from 'drizzle-orm';
+import { messages, reminders } from '../../drizzle/schema.js';
+import { db } from './db.js';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+	interval?: number;
+	weekdays?: number[]; // 0 = Sunday … 6 = Saturday, used by weekly
+	dayOfMonth?: number; // 1-31, used by monthly; clamped to the month's last day
+}
+
+export type ReminderRow = typeof reminders.$inferSelect;
+
+export const DEFAULT_REMINDER_TIMEZONE = 'Europe/Berlin';
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound for the occurrence search, large enough for any interval we accept
+const MAX_SEARCH_DAYS = 3 * 366;
+const MAX_INTERVAL = 52;
+const PROCESS_BATCH_SIZE = 100;
+
+export class ReminderValidationError extends Error {}
+
+interface LocalDateTime {
+	year: number;
+	month: number; // 1-12
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function getLocalDateTime(date: Date, timeZone: string): LocalDateTime {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: '2-digit',
+		day: '2-digit',
+		hour: '2-digit',
+		minute: '2-digit',
+		second: '2-digit'
+	}).formatToParts(date);
+
+	const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+	return {
+		year: get('year'),
+		month: get('month'),
+		day: get('day'),
+		hour: get('hour'),
+		minute: get('minute'),
+		second: get('second')
+	};
+}
+
+function localAsUtcMs(local: LocalDateTime): number {
+	return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+}
+
+/**
+ * Convert a wall clock time in `timeZone` to an instant
+ * Times skipped by a DST change resolve to the instant just after the gap
+ */
+function localToUtc(local: LocalDateTime, timeZone: string): Date {
+	const wallMs = localAsUtcMs(local);
+	let guess = wallMs;
+	for (let i = 0; i < 2; i++) {
+		const offset = localAsUtcMs(getLocalDateTime(new Date(guess), timeZone)) - guess;
+		guess = wallMs - offset;
+	}
+	return new Date(guess);
+}
+
+function daysInMonth(year: number, month: number): number {
+	return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Validate and normalise a recurrence definition coming from the API
+ */
+export function normalizeRecurrence(
+	recurring: unknown,
+	recurringData: unknown
+): { recurring: RecurrenceFrequency | null; rule: RecurrenceRule | null } {
+	if (recurring === undefined || recurring === null || recurring === '' || recurring === 'none') {
+		return { recurring: null, rule: null };
+	}
+
+	if (!RECURRENCE_FREQUENCIES.includes(recurring as RecurrenceFrequency)) {
+		throw new ReminderValidationError(`recurring must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`);
+	}
+
+	const data = (recurringData && typeof recurringData === 'object' ? recurringData : {}) as Record<string, unknown>;
+	const rule: RecurrenceRule = {};
+
+	if (data.interval !== undefined) {
+		const interval = Number(data.interval);
+		if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+			throw new ReminderValidationError(`interval must be an integer between 1 and ${MAX_INTERVAL}`);
+		}
+		rule.interval = interval;
+	}
+
+	if (recurring === 'weekly' && data.weekdays !== undefined) {
+		if (!Array.isArray(data.weekdays) || data.weekdays.length === 0
+			|| !data.weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+			throw new ReminderValidationError('weekdays must be a non-empty list of numbers between 0 (Sunday) and 6 (Saturday)');
+		}
+		rule.weekdays = [...new Set(data.weekdays as number[])].sort();
+	}
+
+	if (recurring === 'monthly' && data.dayOfMonth !== undefined) {
+		const dayOfMonth = Number(data.dayOfMonth);
+		if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+			throw new ReminderValidationError('dayOfMonth must be between 1 and 31');
+		}
+		rule.dayOfMonth = dayOfMonth;
+	}
+
+	return { recurring: recurring as RecurrenceFrequency, rule };
+}
+
+export function parseRecurrenceRule(recurringData: string | null): RecurrenceRule {
+	if (!recurringData) return {};
+	try {
+		return JSON.parse(recurringData) as RecurrenceRule;
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * First occurrence strictly after `after`, or null if the reminder has no more occurrences
+ * The time of day and the anchor date come from `scheduledFor` in the reminder's timezone
+ */
+export function getNextOccurrence(
+	reminder: Pick<ReminderRow, 'scheduledFor' | 'timezone' | 'recurring' | 'recurringData'>,
+	after: Date
+): Date | null {
+	const start = new Date(reminder.scheduledFor);
+
+	if (!reminder.recurring) {
+		return start.getTime() > after.getTime() ? start : null;
+	}
+
+	const timeZone = reminder.timezone || DEFAULT_REMINDER_TIMEZONE;
+	const rule = parseRecurrenceRule(reminder.recurringData);
+	const interval = rule.interval || 1;
+	const anchor = getLocalDateTime(start, timeZone);
+	const anchorDayMs = Date.UTC(anchor.year, anchor.month - 1, anchor.day);
+
+	// Start searching on the day before `after` (local), but never before the anchor
+	const afterLocal = getLocalDateTime(after, timeZone);
+	let dayMs = Math.max(anchorDayMs, Date.UTC(afterLocal.year, afterLocal.month - 1, afterLocal.day) - DAY_MS);
+
+	const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [new Date(anchorDayMs).getUTCDay()];
+	// Weeks are counted from the Sunday of the anchor's week
+	const anchorWeekStartMs = anchorDayMs - new Date(anchorDayMs).getUTCDay() * DAY_MS;
+
+	for (let i = 0; i < MAX_SEARCH_DAYS * interval; i++, dayMs += DAY_MS) {
+		const day = new Date(dayMs);
+		const year = day.getUTCFullYear();
+		const month = day.getUTCMonth() + 1;
+		const date = day.getUTCDate();
+		let matches = false;
+
+		if (reminder.recurring === 'daily') {
+			matches = Math.round((dayMs - anchorDayMs) / DAY_MS) % interval === 0;
+		} else if (reminder.recurring === 'weekly') {
+			const weekIndex = Math.floor(Math.round((dayMs - anchorWeekStartMs) / DAY_MS) / 7);
+			matches = weekIndex % interval === 0 && weekdays.includes(day.getUTCDay());
+		} else if (reminder.recurring === 'monthly') {
+			const monthIndex = (year - anchor.year) * 12 + (month - anchor.month);
+			const targetDay = Math.min(rule.dayOfMonth || anchor.day, daysInMonth(year, month));
+			matches = monthIndex % interval === 0 && date === targetDay;
+		}
+
+		if (!matches) continue;
+
+		const occurrence = localToUtc({
+			year,
+			month,
+			day: date,
+			hour: anchor.hour,
+			minute: anchor.minute,
+			second: anchor.second
+		}, timeZone);
+
+		if (occurrence.getTime() >= start.getTime() && occurrence.getTime() > after.getTime()) {
+			return occurrence;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * First occurrence at or after the reminder's start
+ */
+export function getFirstOccurrence(
+	reminder: Pick<ReminderRow, 'scheduledFor' | 'timezone' | 'recurring' | 'recurringData'>
+): Date | null {
+	return getNextOccurrence(reminder, new Date(new Date(reminder.scheduledFor).getTime() - 1));
+}
+
+export interface ProcessedReminder {
+	id: string;
+	title: string;
+	status: 'sent' | 'error';
+	nextOccurrence?: string | null;
+	error?: string;
+}
+
+/**
+ * Turn every due reminder into an inbox message and schedule its next occurrence
+ * Occurrences missed while the processor was not running are skipped, not replayed
+ */
+export async function processDueReminders(now: Date = new Date()): Promise<ProcessedReminder[]> {
+	const nowIso = now.toISOString();
+
+	const dueReminders = await db.select({ id: reminders.id })
+		.from(reminders)
+		.where(and(
+			eq(reminders.active, true),
+			isNotNull(reminders.nextOccurrence),
+			lte(reminders.nextOccurrence, nowIso)
+		))
+		.orderBy(asc(reminders.nextOccurrence))
+		.limit(PROCESS_BATCH_SIZE);
+
+	const processed: ProcessedReminder[] = [];
+
+	for (const { id } of dueReminders) {
+		try {
+			const result = await db.transaction(async (tx) => {
+				// Re-check under a row lock so concurrent runs never send the same occurrence twice
+				const [reminder] = await tx.select().from(reminders)
+					.where(and(
+						eq(reminders.id, id),
+						eq(reminders.active, true),
+						lte(reminders.nextOccurrence, nowIso)
+					))
+					.for('update', { skipLocked: true });
+
+				if (!reminder || !reminder.nextOccurrence) {
+					return null;
+				}
+
+				await tx.insert(messages).values({
+					id: crypto.randomUUID(),
+					userId: reminder.userId,
+					type: 'reminder',
+					title: reminder.title,
+					content: reminder.message,
+					read: false,
+					sentAt: nowIso,
+					reminderData: JSON.stringify({
+						reminderId: reminder.id,
+						occurrence: reminder.nextOccurrence,
+						recurring: reminder.recurring
+					})
+				});
+
+				const next = getNextOccurrence(reminder, now);
+				const nextOccurrence = next ? next.toISOString() : null;
+
+				await tx.update(reminders)
+					.set({
+						lastSent: nowIso,
+						nextOccurrence,
+						active: next !== null,
+						updated: nowIso
+					})
+					.where(eq(reminders.id, reminder.id));
+
+				return { id: reminder.id, title: reminder.title, status: 'sent' as const, nextOccurrence };
+			});
+
+			if (result) {
+				processed.push(result);
+			}
+		} catch (error: any) {
+			console.error(`❌ Failed to process reminder ${id}:`, error);
+			processed.push({ id, title: '', status: 'error', error: error.message });
+		}
+	}
+
+	return processed;
+}
@@ -0,0 +1,80 @@
+/**
+ * Delivery of scheduled messages and due reminders
+ * Shared by the scheduler and the legacy /api/messages/process-scheduled endpoint
+ */
+
+import { and, eq, isNotNull, isNull, lte } from 'drizzle-orm';
+import { messages } from '../../drizzle/schema.js';
+import { db } from './db.js';
+import { processDueReminders, type ProcessedReminder } from './reminders.js';
+
+const MESSAGE_BATCH_SIZE = 100;
+
+export interface ProcessedMessage {
+	id: string;
+	title: string;
+	type: string;
+	status: 'sent' | 'error';
+	error?: string;
+}
+
+/**
+ * Mark scheduled messages whose time has come as sent
+ */
+export async function processScheduledMessages(now: Date = new Date()): Promise<ProcessedMessage[]> {
+	const nowIso = now.toISOString();
+
+	const scheduledMessages = await db.select().from(messages)
+		.where(and(
+			isNotNull(messages.scheduledFor),
+			lte(messages.scheduledFor, nowIso),
+			isNull(messages.sentAt)
+		))
+		.limit(MESSAGE_BATCH_SIZE);
+
+	const processedMessages: ProcessedMessage[] = [];
+
+	for (const message of scheduledMessages) {
+		try {
+			await db.update(messages)
+				.set({ sentAt: nowIso, updated: nowIso })
+				.where(eq(messages.id, message.id));
+
+			processedMessages.push({
+				id: message.id,
+				title: message.title,
+				type: message.type,
+				status: 'sent'
+			});
+		} catch (error: any) {
+			processedMessages.push({
+				id: message.id,
+				title: message.title,
+				type: message.type,
+				status: 'error',
+				error: error.message
+			});
+		}
+	}
+
+	return processedMessages;
+}
+
+/**
+ * Send everything that is due: scheduled messages first, then reminders
+ */
+export async function processScheduled(now: Date = new Date()) {
+	const processedMessages = await processScheduledMessages(now);
+	const processedReminders: ProcessedReminder[] = await processDueReminders(now);
+
+	return {
+		processedMessages,
+		processedReminders,
+		summary: {
+			messagesProcessed: processedMessages.length,
+			remindersProcessed: processedReminders.length,
+			messagesSuccess: processedMessages.filter(m => m.status === 'sent').length,
+			remindersSuccess: processedReminders.filter(r => r.status === 'sent').length
+		}
+	};
+}
@@ -0,0 +1,212 @@
+/**
+ * In-process job scheduler
+ * Jobs run on fixed intervals aligned to the wall clock. Every run takes a Postgres
+ * advisory lock, so with several server instances each slot is executed only once.
+ * Runs are recorded in job_runs and pruned after JOB_RUN_RETENTION_DAYS (default 14).
+ */
+
+import { and, count, desc, eq, gte, lt, ne } from 'drizzle-orm';
+import { jobRuns } from '../../drizzle/schema.js';
+import { db } from './db.js';
+
+export type JobTrigger = 'schedule' | 'manual';
+
+export interface ScheduledJob {
+	name: string;
+	description: string;
+	intervalMinutes: number;
+	run: () => Promise<Record<string, unknown> | void>;
+}
+
+export type JobRunResult =
+	| { status: 'success'; runId: string; result: Record<string, unknown> | null }
+	| { status: 'failed'; runId: string; error: string }
+	| { status: 'skipped'; reason: 'locked' | 'already_ran' };
+
+export class JobNotFoundError extends Error {}
+
+const TICK_INTERVAL_MS = 30 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const JOB_RUN_RETENTION_DAYS = Number(process.env.JOB_RUN_RETENTION_DAYS) || 14;
+
+const jobs = new Map<string, ScheduledJob>();
+const runningJobs = new Set<string>();
+const nextRunAt = new Map<string, number>();
+let tickTimer: NodeJS.Timeout | null = null;
+
+export function registerJob(job: ScheduledJob): void {
+	if (jobs.has(job.name)) {
+		throw new Error(`Job ${job.name} is already registered`);
+	}
+	jobs.set(job.name, job);
+}
+
+export function getRegisteredJobs(): ScheduledJob[] {
+	return [...jobs.values()];
+}
+
+function getSlotStart(job: ScheduledJob, now: number): number {
+	const intervalMs = job.intervalMinutes * MINUTE_MS;
+	return Math.floor(now / intervalMs) * intervalMs;
+}
+
+/**
+ * Run a job under its advisory lock and record the run
+ * Scheduled runs are skipped if another instance already ran the current slot;
+ * manual runs always execute unless the job is running right now.
+ */
+export async function runJob(name: string, trigger: JobTrigger = 'schedule', triggeredBy?: string): Promise<JobRunResult> {
+	const job = jobs.get(name);
+	if (!job) {
+		throw new JobNotFoundError(`Unknown job: ${name}`);
+	}
+
+	// Session-level lock on a dedicated connection, held for the whole run
+	const client = await db.$client.connect();
+	try {
+		const lockResult = await client.query('SELECT pg_try_advisory_lock(hashtext($1)) AS locked', [`job:${name}`]);
+		if (!lockResult.rows[0]?.locked) {
+			return { status: 'skipped', reason: 'locked' };
+		}
+
+		try {
+			const startedAt = new Date();
+
+			if (trigger === 'schedule') {
+				const slotStart = new Date(getSlotStart(job, startedAt.getTime())).toISOString();
+				const [{ runsInSlot }] = await db
+					.select({ runsInSlot: count() })
+					.from(jobRuns)
+					.where(and(eq(jobRuns.jobName, name), gte(jobRuns.startedAt, slotStart)));
+
+				if (Number(runsInSlot) > 0) {
+					return { status: 'skipped', reason: 'already_ran' };
+				}
+			}
+
+			const [run] = await db.insert(jobRuns)
+				.values({
+					jobName: name,
+					trigger,
+					triggeredBy: triggeredBy || null,
+					status: 'running',
+					startedAt: startedAt.toISOString()
+				})
+				.returning({ id: jobRuns.id });
+
+			try {
+				const result = (await job.run()) || null;
+				const finishedAt = new Date();
+
+				await db.update(jobRuns)
+					.set({
+						status: 'success',
+						result: result ? JSON.stringify(result) : null,
+						finishedAt: finishedAt.toISOString(),
+						durationMs: finishedAt.getTime() - startedAt.getTime()
+					})
+					.where(eq(jobRuns.id, run.id));
+
+				return { status: 'success', runId: run.id, result };
+			} catch (error: any) {
+				const finishedAt = new Date();
+				console.error(`❌ Job ${name} failed:`, error);
+
+				await db.update(jobRuns)
+					.set({
+						status: 'failed',
+						error: error?.message || String(error),
+						finishedAt: finishedAt.toISOString(),
+						durationMs: finishedAt.getTime() - startedAt.getTime()
+					})
+					.where(eq(jobRuns.id, run.id));
+
+				return { status: 'failed', runId: run.id, error: error?.message || String(error) };
+			}
+		} finally {
+			await client.query('SELECT pg_advisory_unlock(hashtext($1))', [`job:${name}`]);
+		}
+	} finally {
+		client.release();
+	}
+}
+
+async function tick(): Promise<void> {
+	const now = Date.now();
+
+	for (const job of jobs.values()) {
+		const dueAt = nextRunAt.get(job.name) ?? 0;
+		if (now < dueAt || runningJobs.has(job.name)) {
+			continue;
+		}
+
+		nextRunAt.set(job.name, getSlotStart(job, now) + job.intervalMinutes * MINUTE_MS);
+		runningJobs.add(job.name);
+
+		runJob(job.name, 'schedule')
+			.catch(error => console.error(`❌ Scheduler could not run job ${job.name}:`, error))
+			.finally(() => runningJobs.delete(job.name));
+	}
+}
+
+/**
+ * Start ticking; set SCHEDULER_ENABLED=false to run an instance without background jobs
+ */
+export function startScheduler(): void {
+	if (process.env.SCHEDULER_ENABLED === 'false') {
+		console.log('⏸️ Scheduler disabled via SCHEDULER_ENABLED=false');
+		return;
+	}
+	if (tickTimer) {
+		return;
+	}
+
+	console.log(`⏰ Scheduler started with jobs: ${getRegisteredJobs().map(job => job.name).join(', ')}`);
+	tickTimer = setInterval(() => { void tick(); }, TICK_INTERVAL_MS);
+	tickTimer.unref();
+	void tick();
+}
+
+export function stopScheduler(): void {
+	if (tickTimer) {
+		clearInterval(tickTimer);
+		tickTimer = null;
+	}
+}
+
+/**
+ * Run history, newest first
+ */
+export async function listJobRuns(options: { jobName?: string; page: number; perPage: number }) {
+	const filter = options.jobName ? eq(jobRuns.jobName, options.jobName) : undefined;
+
+	const runs = await db.select()
+		.from(jobRuns)
+		.where(filter)
+		.orderBy(desc(jobRuns.startedAt))
+		.limit(options.perPage)
+		.offset((options.page - 1) * options.perPage);
+
+	const [{ total }] = await db.select({ total: count() })
+		.from(jobRuns)
+		.where(filter);
+
+	return {
+		runs: runs.map(run => ({ ...run, result: run.result ? JSON.parse(run.result) : null })),
+		totalPages: Math.ceil(Number(total) / options.perPage),
+		currentPage: options.page
+	};
+}
+
+/**
+ * Delete finished runs older than the retention period; runs still marked running are kept
+ */
+export async function pruneJobRuns(olderThanDays: number = JOB_RUN_RETENTION_DAYS) {
+	const cutoff = new Date(Date.now() - olderThanDays * DAY_MS).toISOString();
+	const result = await db.delete(jobRuns)
+		.where(and(lt(jobRuns.startedAt, cutoff), ne(jobRuns.status, 'running')));
+
+	return { deleted: result.rowCount ?? 0, olderThanDays };
+}
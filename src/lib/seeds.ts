@@ -0,0 +1,97 @@
+/**
+ * Seed earning engine - rewards NVC practice with garden seeds
+ * Every award is keyed by the event that earned it, so retries never double-award
+ */
+
+import { adjustSeeds } from './garden.js';
+import { db } from './db.js';
+
+export const SEED_REWARDS = {
+	chatCompleted: 5,
+	learnTopicCompleted: 3,
+	requestResolved: 5
+} as const;
+
+// Current streak length → seeds awarded when it is reached
+export const STREAK_MILESTONE_REWARDS: Record<number, number> = {
+	3: 5,
+	7: 10,
+	14: 15,
+	30: 30,
+	60: 50,
+	100: 75,
+	365: 200
+};
+
+export interface SeedAward {
+	awarded: boolean;
+	amount: number;
+	balance: number | null;
+}
+
+/**
+ * Award seeds for a source event, at most once per user, source type and source id
+ * Failures are logged and never propagate to the action that triggered the award
+ */
+export async function awardSeeds(
+	userId: string,
+	amount: number,
+	reason: string,
+	sourceType: string,
+	sourceId: string
+): Promise<SeedAward> {
+	try {
+		const { balance, duplicate } = await db.transaction((tx) =>
+			adjustSeeds(tx, userId, amount, { reason, sourceType, sourceId })
+		);
+
+		if (duplicate) {
+			console.log(`🌱 Seeds for ${sourceType}:${sourceId} already awarded to user ${userId}`);
+			return { awarded: false, amount: 0, balance };
+		}
+
+		console.log(`🌱 Awarded ${amount} seeds to user ${userId} (${reason}, ${sourceType}:${sourceId})`);
+		return { awarded: true, amount, balance };
+	} catch (error) {
+		console.error(`❌ Failed to award seeds for ${sourceType}:${sourceId}:`, error);
+		return { awarded: false, amount: 0, balance: null };
+	}
+}
+
+/**
+ * Award seeds for a completed and analyzed chat
+ */
+export async function awardChatCompletion(userId: string, chatId: string): Promise<SeedAward> {
+	return awardSeeds(userId, SEED_REWARDS.chatCompleted, 'chat_completed', 'chat', chatId);
+}
+
+/**
+ * Award seeds the first time a learn topic is completed
+ */
+export async function awardLearnTopicCompletion(userId: string, topicId: string): Promise<SeedAward> {
+	return awardSeeds(userId, SEED_REWARDS.learnTopicCompleted, 'learn_topic_completed', 'learn_topic', topicId);
+}
+
+/**
+ * Award seeds when the request of an analysis is marked as resolved
+ */
+export async function awardRequestResolved(userId: string, analysisId: string): Promise<SeedAward> {
+	return awardSeeds(userId, SEED_REWARDS.requestResolved, 'request_resolved', 'analysis', analysisId);
+}
+
+/**
+ * Award seeds when a streak reaches a milestone
+ * The milestone date is part of the source id so a later streak can earn the same milestone again
+ */
+export async function awardStreakMilestone(
+	userId: string,
+	currentStreak: number,
+	date: string
+): Promise<SeedAward | null> {
+	const amount = STREAK_MILESTONE_REWARDS[currentStreak];
+	if (!amount) {
+		return null;
+	}
+
+	return awardSeeds(userId, amount, 'streak_milestone', 'streak', `${currentStreak}:${date}`);
+}
@@ -1,6 +1,7 @@
 import { drizzle } from 'drizzle-orm/node-postgres';
 import { streaks, chats, analyses } from '../../drizzle/schema.js';
 import { eq, and, desc } from 'drizzle-orm';
+import { awardStreakMilestone } from './seeds.js';
 
 const db = drizzle(process.env.DATABASE_URL!);
 
@@ -151,6 +152,9 @@ export async function updateStreakOnChatCompletion(
     .where(eq(streaks.id, streakData.id))
     .returning();
 
+  // Reward streak milestones with garden seeds
+  await awardStreakMilestone(userId, newCurrentStreak, normalizedDate);
+
   return {
     ...updated[0],
     chatDates: updatedChatDates,
@@ -1,9 +1,9 @@
 /**
- * Custom Tool Caller - Orchestrates tool calling using Gemini 2.5 with JSON structured output
+ * Custom Tool Caller - Orchestrates tool calling using JSON structured output
  */
 
-import { getAiClient } from './gemini.js';
 import { Type } from '@google/genai';
+import { completeJson } from './chat-models.js';
 import { TOOL_REGISTRY, getToolDefinition, isValidTool, isIndependentTool, type ToolCall, type ToolResult } from './tools/index.js';
 
 export interface ToolCallRequest {
@@ -23,10 +23,9 @@ export interface ToolCallResponse {
 }
 
 /**
- * Get tool calls from AI using Gemini 2.5 with JSON structured output
+ * Get tool calls from the orchestration model with JSON structured output
  */
 export async function getToolCalls(request: ToolCallRequest): Promise<ToolCallResponse> {
-	const ai = getAiClient();
 	const locale = request.context?.locale || 'de';
 	const isGerman = locale.toLowerCase().startsWith('de');
 
@@ -142,19 +141,15 @@ Always respond with a JSON object in the following format:
 	console.log('🔧 Requesting tool calls from AI...');
 	console.log('📝 User message:', request.message.substring(0, 100));
 
-	const chat = ai.chats.create({
-		model: 'gemini-2.5-flash-lite',
-		config: {
-			temperature: 0.3,
-			maxOutputTokens: 1024,
-			systemInstruction,
-			responseMimeType: 'application/json',
-			responseSchema
-		}
-	});
-
-	const result = await chat.sendMessage({ message: prompt });
-	const responseText = result.text || '{}';
+	const responseText = await completeJson({
+		role: 'orchestration',
+		geminiModel: 'gemini-2.5-flash-lite',
+		message: prompt,
+		systemInstruction,
+		schema: responseSchema,
+		temperature: 0.3,
+		maxOutputTokens: 1024
+	}) || '{}';
 
 	console.log('📥 Tool call response:', responseText);
 
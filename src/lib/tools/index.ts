@@ -50,7 +50,7 @@ export const TOOL_REGISTRY: Record<string, ToolDefinition> = {
 				},
 				minSimilarity: {
 					type: Type.NUMBER,
-					description: 'Minimum similarity threshold (default: 0.7)'
+					description: 'Minimum vector similarity for semantic matches (default: 0.5); exact term matches are always included'
 				}
 			},
 			required: ['query']
@@ -104,7 +104,7 @@ export const TOOL_REGISTRY: Record<string, ToolDefinition> = {
 				},
 				minSimilarity: {
 					type: Type.NUMBER,
-					description: 'Minimum similarity threshold (default: 0.7)'
+					description: 'Minimum vector similarity for semantic matches (default: 0.5); exact term matches are always included'
 				},
 				category: {
 					type: Type.STRING,
@@ -121,10 +121,9 @@ export const TOOL_REGISTRY: Record<string, ToolDefinition> = {
 		execute: async (params: { query: string; limit?: number; minSimilarity?: number; category?: string; tags?: string[] }, context: { locale?: string }) => {
 			const locale = context.locale || 'de';
 			const limit = params.limit || 3;
-			const minSimilarity = params.minSimilarity || 0.7;
 			const result = await retrieveNVCKnowledge(params.query, locale, {
 				limit,
-				minSimilarity,
+				minSimilarity: params.minSimilarity,
 				category: params.category,
 				tags: params.tags
 			});
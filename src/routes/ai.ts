@@ -1,6 +1,6 @@
 import { Hono } from 'hono';
 import type { Context } from 'hono';
-import { getAiClient } from '../lib/gemini.js';
+import { complete } from '../lib/chat-models.js';
 
 const ai = new Hono();
 
@@ -192,20 +192,16 @@ ai.post('/learn/askQuestion', async (c: Context) => {
 
 		console.log('systemPrompt', systemPrompt);
 
-		const ai = getAiClient();
-		const chat = ai.chats.create({
-			model: 'gemini-2.5-flash',
-			config: {
-				systemInstruction: systemPrompt,
-				temperature: 0.7,
-				maxOutputTokens: 4000,
-			}
-		});
-
 		const prompt = `Question: ${question}\n\nUser's Answer: ${userAnswer}`;
-		
-		const result = await chat.sendMessage({ message: prompt });
-		const response = result.text;
+
+		const response = await complete({
+			role: 'response',
+			geminiModel: 'gemini-2.5-flash',
+			message: prompt,
+			systemInstruction: systemPrompt,
+			temperature: 0.7,
+			maxOutputTokens: 4000
+		});
 
 		if (!response) {
 			throw new Error('No response from AI');
@@ -292,47 +288,20 @@ Erstelle eine einfühlsame Zusammenfassung dieser Selbstreflexion, die der Perso
 			return c.json({ error: 'Invalid step parameter' }, 400);
 		}
 
-		const aiClient = getAiClient();
-		const chat = aiClient.chats.create({
-			model: 'gemini-2.5-flash',
-			config: {
-				systemInstruction: systemPrompt,
-				temperature: 0.7,
-				maxOutputTokens: 8192,
-			}
+		console.log('Sending message to chat model:', prompt.substring(0, 100) + '...');
+		// The provider reports a response cut off by the token limit as an error
+		const response = await complete({
+			role: 'response',
+			geminiModel: 'gemini-2.5-flash',
+			message: prompt,
+			systemInstruction: systemPrompt,
+			temperature: 0.7,
+			maxOutputTokens: 8192
 		});
 
-		console.log('Sending message to Gemini:', prompt.substring(0, 100) + '...');
-		const result = await chat.sendMessage({ message: prompt });
-		console.log('Gemini result:', result);
-
-		// Extract text from the response - handle both direct text and candidates structure
-		let response = result.text;
-
-		// If result.text is undefined, try to extract from candidates
-		if (!response && result.candidates && result.candidates.length > 0) {
-			const candidate = result.candidates[0];
-			if (candidate.content && candidate.content.parts && candidate.content.parts.length > 0) {
-				response = candidate.content.parts[0].text;
-			}
-		}
-
-		// Additional fallback: try to extract from response object directly
-		if (!response && (result as any).response?.candidates?.[0]?.content?.parts?.[0]?.text) {
-			response = (result as any).response.candidates[0].content.parts[0].text;
-		}
-
 		console.log('Extracted text:', response);
 
 		if (!response || response.trim() === '') {
-			console.error('Empty response from Gemini. Full result:', JSON.stringify(result, null, 2));
-			console.error('Finish reason:', result.candidates?.[0]?.finishReason);
-
-			// Provide specific error messages based on finish reason
-			if (result.candidates?.[0]?.finishReason === 'MAX_TOKENS') {
-				throw new Error('AI response was cut off due to length limit. Please try again.');
-			}
-
 			throw new Error('No response from AI');
 		}
 
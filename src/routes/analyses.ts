@@ -4,6 +4,7 @@ import { drizzle } from 'drizzle-orm/node-postgres';
 import { eq, desc } from 'drizzle-orm';
 import { analyses, chats as chatsTable } from '../../drizzle/schema.js';
 import { decryptChatHistory } from '../lib/encryption.js';
+import { awardRequestResolved } from '../lib/seeds.js';
 
 const db = drizzle(process.env.DATABASE_URL!);
 const analysesRouter = new Hono();
@@ -185,6 +186,10 @@ analysesRouter.patch('/:id', async (c: Context) => {
       .set(updateData)
       .where(eq(analyses.id, analysisId));
 
+    if (updateData.requestResolved === true && !analysis.requestResolved) {
+      await awardRequestResolved(user.id, analysisId);
+    }
+
     // Fetch updated analysis
     const updatedRecord = await db
       .select()
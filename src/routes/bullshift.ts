@@ -2,12 +2,15 @@ import { desc, eq } from 'drizzle-orm';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import type { Context } from 'hono';
 import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { chats as chatsTable, feelings as feelingsTable, user as userTable } from '../../drizzle/schema.js';
 import { decryptChatHistory, encryptChatHistory, type HistoryEntry } from '../lib/encryption.js';
-import { getAiResponseWithRetry, analyzePathSwitchingIntent, type PathSwitchAnalysis } from '../lib/gemini.js';
+import { getAiResponseWithRetry, streamAiResponseWithRetry, analyzePathSwitchingIntent, type PathSwitchAnalysis } from '../lib/gemini.js';
 import { createPathMarker, getSystemPromptForPath, type PathState, CONVERSATION_PATHS } from '../lib/paths.js';
 import { analyzeChat, extractMemories } from '../lib/ai-tools.js';
-import { formatMemoriesForPrompt } from '../lib/memory.js';
+import { enqueueMemoryExtraction } from '../lib/memory-queue.js';
+import { formatMemoriesForPrompt, recordMemoryAccess } from '../lib/memory.js';
+import { buildPeopleContext, findMentionedPeople, linkChatToPerson } from '../lib/people.js';
 import { getToolCalls, executeTools, formatToolResults } from '../lib/tool-caller.js';
 
 const db = drizzle(process.env.DATABASE_URL!);
@@ -22,7 +25,7 @@ bullshift.post('/initChat', async (c: Context) => {
 
 	try {
 		const body = await c.req.json();
-		const { locale, initialPath } = body;
+		const { locale, initialPath, offTheRecord = false } = body;
 
 		const pathId = initialPath || 'idle';
 		console.log('initChat called with pathId:', pathId, 'for user:', user.id);
@@ -82,7 +85,8 @@ bullshift.post('/initChat', async (c: Context) => {
 			userId: user.id,
 			module: 'bullshift',
 			history: JSON.stringify(encryptedHistory),
-			pathState: JSON.stringify(pathState)
+			pathState: JSON.stringify(pathState),
+			offTheRecord: offTheRecord === true
 		}).returning();
 
 		console.log('Created new chat record:', chatRecord[0].id);
@@ -108,6 +112,7 @@ bullshift.post('/initChat', async (c: Context) => {
 		// Return chat initialization data with unencrypted history for immediate use
 		return c.json({
 			chatId: chatRecord[0].id,
+			offTheRecord: chatRecord[0].offTheRecord,
 			systemInstruction,
 			activePath: pathId,
 			pathState,
@@ -184,96 +189,88 @@ bullshift.get('/getLatestChat', async (c: Context) => {
 	}
 });
 
-// POST /api/ai/bullshift/send - Send a message and get AI response
-bullshift.post('/send', async (c: Context) => {
-	const user = c.get('user');
-	if (!user) {
-		return c.json({ error: 'Unauthorized' }, 401);
-	}
+type ChatRecord = typeof chatsTable.$inferSelect;
+
+type SendEventEmitter = (event: string, data: unknown) => Promise<void>;
+
+type NVCExtraction = { observation: string | null; feelings: string[]; needs: string[]; request: string | null };
+
+interface PreparedTurn {
+	activePath: string;
+	pathState: PathState;
+	pathSwitched: boolean;
+	newPathId: string | null;
+	pathSwitchAnalysis: PathSwitchAnalysis | null;
+	relevantMemories: any[];
+	relevantNVCKnowledge: any[];
+	nvcExtraction: NVCExtraction | null;
+	existingFeelings: string[];
+	existingNeeds: string[];
+	existingObservation: string | null;
+	existingRequest: string | null;
+	systemInstruction: string;
+}
+
+/**
+ * Run path analysis and tool calling for a new user message and build the system prompt
+ * Progress is reported through the optional emitter (used by the streaming endpoint)
+ */
+async function prepareTurn(
+	user: { id: string; [key: string]: any },
+	chat: ChatRecord,
+	message: string,
+	emit?: SendEventEmitter
+): Promise<PreparedTurn> {
+	// Get path state to determine system prompt
+	const pathState = chat.pathState ? JSON.parse(chat.pathState) : { activePath: 'idle' };
+	let activePath = pathState.activePath || 'idle';
+
+	// PATH SWITCHING ANALYSIS - Analyze if user wants to switch paths
+	let pathSwitchAnalysis: PathSwitchAnalysis | null = null;
+	let pathSwitched = false;
+	let newPathId: string | null = null;
+	
+	// Initialize memory variables early so they can be set during path switch
+	let memoryContext = '';
+	let relevantMemories: any[] = [];
 
 	try {
-		const body = await c.req.json();
-		const { chatId, message, history } = body;
-
-		if (!chatId || !message) {
-			return c.json({ error: 'chatId and message are required' }, 400);
-		}
-
-		console.log('send called for chat:', chatId);
-
-		// Verify chat belongs to user and get path state
-		const chatRecord = await db.select().from(chatsTable)
-			.where(eq(chatsTable.id, chatId))
-			.limit(1);
-
-		if (!chatRecord || chatRecord.length === 0) {
-			return c.json({ error: 'Chat not found' }, 404);
-		}
-
-		if (chatRecord[0].userId !== user.id) {
-			return c.json({ error: 'Unauthorized' }, 403);
-		}
-
-		// Get path state to determine system prompt
-		const pathState = chatRecord[0].pathState ? JSON.parse(chatRecord[0].pathState) : { activePath: 'idle' };
-		let activePath = pathState.activePath || 'idle';
-
-		// PATH SWITCHING ANALYSIS - Analyze if user wants to switch paths
-		let pathSwitchAnalysis: PathSwitchAnalysis | null = null;
-		let pathSwitched = false;
-		let newPathId: string | null = null;
-		
-		// Initialize memory variables early so they can be set during path switch
-		let memoryContext = '';
-		let relevantMemories: any[] = [];
-
-		try {
-			// Prepare recent conversation history for analysis
-			const decryptedHistory = chatRecord[0].history ? JSON.parse(chatRecord[0].history) : [];
-			const fullHistory = decryptChatHistory(decryptedHistory);
-
-			const preliminaryMessages = fullHistory.slice(-6)
-				.filter((h: any) => h.parts && h.parts.length > 0 && !h.pathMarker && !h.hidden)
-				.map((h: any) => ({
-					role: h.role === 'model' ? 'assistant' : h.role as string,
-					content: h.parts[0]?.text || ''
-				}))
-				.filter((m: any) => (m.role === 'user' || m.role === 'assistant') && m.content.trim().length > 0);
-
-			// Add current user message to context
-			preliminaryMessages.push({ role: 'user', content: message });
-
-			console.log('🔍 Pre-response path analysis - User message:', message);
-			console.log('🔍 Current active path:', activePath);
-			console.log('🔍 Path state object:', pathState);
-			console.log('🔍 Passing to AI - activePath value:', activePath, 'type:', typeof activePath);
-
-			// Special handling for feedback path - only allow explicit switches
-			if (activePath === 'feedback') {
-				const explicitSwitchKeywords = [
-					'beenden', 'ende', 'stop', 'aufhören', 'abbrechen',
-					'selbst-empathie', 'fremd-empathie', 'handlungsplanung', 'konfliktlösung',
-					'anderes thema', 'wechseln zu', 'gehen zu'
-				];
-
-				const hasExplicitSwitch = explicitSwitchKeywords.some(keyword =>
-					message.toLowerCase().includes(keyword)
-				);
+		// Prepare recent conversation history for analysis
+		const decryptedHistory = chat.history ? JSON.parse(chat.history) : [];
+		const fullHistory = decryptChatHistory(decryptedHistory);
+
+		const preliminaryMessages = fullHistory.slice(-6)
+			.filter((h: any) => h.parts && h.parts.length > 0 && !h.pathMarker && !h.hidden)
+			.map((h: any) => ({
+				role: h.role === 'model' ? 'assistant' : h.role as string,
+				content: h.parts[0]?.text || ''
+			}))
+			.filter((m: any) => (m.role === 'user' || m.role === 'assistant') && m.content.trim().length > 0);
+
+		// Add current user message to context
+		preliminaryMessages.push({ role: 'user', content: message });
+
+		console.log('🔍 Pre-response path analysis - User message:', message);
+		console.log('🔍 Current active path:', activePath);
+		console.log('🔍 Path state object:', pathState);
+		console.log('🔍 Passing to AI - activePath value:', activePath, 'type:', typeof activePath);
+
+		// Special handling for feedback path - only allow explicit switches
+		if (activePath === 'feedback') {
+			const explicitSwitchKeywords = [
+				'beenden', 'ende', 'stop', 'aufhören', 'abbrechen',
+				'selbst-empathie', 'fremd-empathie', 'handlungsplanung', 'konfliktlösung',
+				'anderes thema', 'wechseln zu', 'gehen zu'
+			];
+
+			const hasExplicitSwitch = explicitSwitchKeywords.some(keyword =>
+				message.toLowerCase().includes(keyword)
+			);
 
-				if (!hasExplicitSwitch) {
-					console.log('🔒 Feedback path: Preventing automatic path switching');
-				} else {
-					console.log('🔓 Feedback path: Explicit switch detected, running path analysis');
-					pathSwitchAnalysis = await analyzePathSwitchingIntent(
-						message,
-						activePath,
-						preliminaryMessages,
-						'de'
-					);
-				}
+			if (!hasExplicitSwitch) {
+				console.log('🔒 Feedback path: Preventing automatic path switching');
 			} else {
-				// ALWAYS run AI path analysis for all non-feedback paths
-				console.log('🤖 Running AI path analysis for all messages');
+				console.log('🔓 Feedback path: Explicit switch detected, running path analysis');
 				pathSwitchAnalysis = await analyzePathSwitchingIntent(
 					message,
 					activePath,
@@ -281,251 +278,264 @@ bullshift.post('/send', async (c: Context) => {
 					'de'
 				);
 			}
+		} else {
+			// ALWAYS run AI path analysis for all non-feedback paths
+			console.log('🤖 Running AI path analysis for all messages');
+			pathSwitchAnalysis = await analyzePathSwitchingIntent(
+				message,
+				activePath,
+				preliminaryMessages,
+				'de'
+			);
+		}
 
-			console.log('🔍 Path analysis result:', pathSwitchAnalysis);
-
-			// Switch path if AI determines it's appropriate
-			if (pathSwitchAnalysis?.shouldSwitch &&
-				(pathSwitchAnalysis?.confidence || 0) >= 70 && // Lowered from 80 to 70
-				pathSwitchAnalysis?.suggestedPath &&
-				pathSwitchAnalysis.suggestedPath !== activePath) {
-
-				const nextPath = pathSwitchAnalysis.suggestedPath;
-				console.log('🔄 Switching path BEFORE AI response generation');
-				console.log('🎯 Switching from:', activePath, 'to:', nextPath);
-				console.log('📊 Confidence:', pathSwitchAnalysis.confidence);
-				console.log('📝 Reason:', pathSwitchAnalysis.reason);
-
-				if (CONVERSATION_PATHS[nextPath]) {
-					// Update path state
-					const newPathState: PathState = {
-						activePath: nextPath,
-						pathHistory: [...pathState.pathHistory, nextPath],
-						startedAt: pathState.startedAt,
-						lastSwitch: Date.now()
-					};
-
-					// Update database with new path state
-					await db.update(chatsTable)
-						.set({ pathState: JSON.stringify(newPathState) })
-						.where(eq(chatsTable.id, chatId));
-
-					pathSwitched = true;
-					newPathId = nextPath;
-					activePath = nextPath; // Update active path for the response
-					console.log(`✅ Path switched to ${nextPath}`);
-					
-					// Update pathState variable for later use
-					pathState.activePath = nextPath;
-					pathState.pathHistory = newPathState.pathHistory;
-					pathState.lastSwitch = Date.now();
-					
-					// If switched to memory path, fetch memories immediately
-					if (nextPath === 'memory') {
-						try {
-							console.log('🧠 Path switched to memory - fetching all memories immediately');
-							const { getUserMemories } = await import('../lib/memory.js');
-							const allMemories = await getUserMemories(user.id, 20);
-							if (allMemories.length > 0) {
-								// Set memoryContext early so it's available for system prompt
-								memoryContext = formatMemoriesForPrompt(allMemories);
-								relevantMemories = allMemories;
-								console.log(`✅ Fetched ${allMemories.length} memories immediately after path switch`);
-							} else {
-								memoryContext = '- Keine Erinnerungen gefunden';
-								console.log('⚠️ No memories found for user after path switch');
-							}
-						} catch (memoryError) {
-							console.error('❌ Error fetching memories immediately after path switch:', memoryError);
-							memoryContext = '- Fehler beim Abrufen der Erinnerungen';
+		console.log('🔍 Path analysis result:', pathSwitchAnalysis);
+
+		// Switch path if AI determines it's appropriate
+		if (pathSwitchAnalysis?.shouldSwitch &&
+			(pathSwitchAnalysis?.confidence || 0) >= 70 && // Lowered from 80 to 70
+			pathSwitchAnalysis?.suggestedPath &&
+			pathSwitchAnalysis.suggestedPath !== activePath) {
+
+			const nextPath = pathSwitchAnalysis.suggestedPath;
+			console.log('🔄 Switching path BEFORE AI response generation');
+			console.log('🎯 Switching from:', activePath, 'to:', nextPath);
+			console.log('📊 Confidence:', pathSwitchAnalysis.confidence);
+			console.log('📝 Reason:', pathSwitchAnalysis.reason);
+
+			if (CONVERSATION_PATHS[nextPath]) {
+				// Update path state
+				const newPathState: PathState = {
+					activePath: nextPath,
+					pathHistory: [...pathState.pathHistory, nextPath],
+					startedAt: pathState.startedAt,
+					lastSwitch: Date.now()
+				};
+
+				// Update database with new path state
+				await db.update(chatsTable)
+					.set({ pathState: JSON.stringify(newPathState) })
+					.where(eq(chatsTable.id, chat.id));
+
+				pathSwitched = true;
+				newPathId = nextPath;
+				activePath = nextPath; // Update active path for the response
+				console.log(`✅ Path switched to ${nextPath}`);
+				await emit?.('path_switch', { newPath: nextPath, reason: pathSwitchAnalysis.reason, confidence: pathSwitchAnalysis.confidence });
+				
+				// Update pathState variable for later use
+				pathState.activePath = nextPath;
+				pathState.pathHistory = newPathState.pathHistory;
+				pathState.lastSwitch = Date.now();
+				
+				// If switched to memory path, fetch memories immediately
+				if (nextPath === 'memory') {
+					try {
+						console.log('🧠 Path switched to memory - fetching all memories immediately');
+						const { getUserMemories } = await import('../lib/memory.js');
+						const allMemories = await getUserMemories(user.id, 20);
+						if (allMemories.length > 0) {
+							// Set memoryContext early so it's available for system prompt
+							memoryContext = formatMemoriesForPrompt(allMemories);
+							relevantMemories = allMemories;
+							console.log(`✅ Fetched ${allMemories.length} memories immediately after path switch`);
+						} else {
+							memoryContext = '- Keine Erinnerungen gefunden';
+							console.log('⚠️ No memories found for user after path switch');
 						}
+					} catch (memoryError) {
+						console.error('❌ Error fetching memories immediately after path switch:', memoryError);
+						memoryContext = '- Fehler beim Abrufen der Erinnerungen';
 					}
 				}
-			} else if (pathSwitchAnalysis) {
-				console.log('❌ No path switch - AI decision:', pathSwitchAnalysis.reason);
-				console.log('   shouldSwitch:', pathSwitchAnalysis.shouldSwitch, 'confidence:', pathSwitchAnalysis.confidence);
 			}
-		} catch (error) {
-			console.error('❌ Error analyzing path switching:', error);
+		} else if (pathSwitchAnalysis) {
+			console.log('❌ No path switch - AI decision:', pathSwitchAnalysis.reason);
+			console.log('   shouldSwitch:', pathSwitchAnalysis.shouldSwitch, 'confidence:', pathSwitchAnalysis.confidence);
 		}
+	} catch (error) {
+		console.error('❌ Error analyzing path switching:', error);
+	}
 
-		// TOOL CALLING: Use AI to decide which tools to call
-		let toolResults: any[] = [];
-		// memoryContext and relevantMemories are already declared above (may have been set during path switch)
-		let nvcKnowledgeContext = '';
-		let relevantNVCKnowledge: any[] = [];
-		let nvcExtraction: { observation: string | null; feelings: string[]; needs: string[]; request: string | null } | null = null;
-		let pathSwitchAnalysisFromTool: PathSwitchAnalysis | null = null;
-
-		// SPECIAL HANDLING FOR MEMORY PATH: Use semantic search if user asks specific question, otherwise get all
-		// This must happen AFTER path switching so we fetch memories if path switched to memory
-		// Only fetch if we haven't already fetched (from path switch above)
-		if (activePath === 'memory' && memoryContext === '') {
-			try {
-				console.log('🧠 Memory path active - checking if semantic search needed');
-				const { getUserMemories, searchSimilarMemories } = await import('../lib/memory.js');
-				
-				// If user message contains a question or specific query, use semantic search
-				const isSpecificQuery = message.trim().length > 0 && (
-					message.includes('?') || 
-					message.toLowerCase().includes('mag') || 
-					message.toLowerCase().includes('mag ich') ||
-					message.toLowerCase().includes('erinner') ||
-					message.toLowerCase().includes('weißt du')
-				);
-				
-				if (isSpecificQuery) {
-					console.log('🔍 Using semantic search for specific query:', message);
-					const searchedMemories = await searchSimilarMemories(message, user.id, 20);
-					relevantMemories = searchedMemories;
-					if (searchedMemories.length > 0) {
-						memoryContext = formatMemoriesForPrompt(searchedMemories);
-						console.log(`✅ Found ${searchedMemories.length} relevant memories via semantic search`);
-					} else {
-						// Fallback to all memories if semantic search finds nothing
-						const allMemories = await getUserMemories(user.id, 50);
-						relevantMemories = allMemories;
-						memoryContext = allMemories.length > 0 
-							? formatMemoriesForPrompt(allMemories)
-							: '- Keine Erinnerungen gefunden';
-						console.log(`⚠️ Semantic search found nothing, using ${allMemories.length} total memories`);
-					}
+	// TOOL CALLING: Use AI to decide which tools to call
+	let toolResults: any[] = [];
+	// memoryContext and relevantMemories are already declared above (may have been set during path switch)
+	let nvcKnowledgeContext = '';
+	let relevantNVCKnowledge: any[] = [];
+	let nvcExtraction: { observation: string | null; feelings: string[]; needs: string[]; request: string | null } | null = null;
+	let pathSwitchAnalysisFromTool: PathSwitchAnalysis | null = null;
+
+	// SPECIAL HANDLING FOR MEMORY PATH: Use semantic search if user asks specific question, otherwise get all
+	// This must happen AFTER path switching so we fetch memories if path switched to memory
+	// Only fetch if we haven't already fetched (from path switch above)
+	if (activePath === 'memory' && memoryContext === '') {
+		try {
+			console.log('🧠 Memory path active - checking if semantic search needed');
+			const { getUserMemories, searchSimilarMemories } = await import('../lib/memory.js');
+			
+			// If user message contains a question or specific query, use semantic search
+			const isSpecificQuery = message.trim().length > 0 && (
+				message.includes('?') || 
+				message.toLowerCase().includes('mag') || 
+				message.toLowerCase().includes('mag ich') ||
+				message.toLowerCase().includes('erinner') ||
+				message.toLowerCase().includes('weißt du')
+			);
+			
+			if (isSpecificQuery) {
+				console.log('🔍 Using semantic search for specific query:', message);
+				const searchedMemories = await searchSimilarMemories(message, user.id, 20);
+				relevantMemories = searchedMemories;
+				if (searchedMemories.length > 0) {
+					memoryContext = formatMemoriesForPrompt(searchedMemories);
+					console.log(`✅ Found ${searchedMemories.length} relevant memories via semantic search`);
 				} else {
-					console.log('📋 Fetching all memories (no specific query)');
+					// Fallback to all memories if semantic search finds nothing
 					const allMemories = await getUserMemories(user.id, 50);
 					relevantMemories = allMemories;
-					if (allMemories.length > 0) {
-						memoryContext = formatMemoriesForPrompt(allMemories);
-						console.log(`✅ Fetched ${allMemories.length} memories for memory path`);
-					} else {
-						memoryContext = '- Keine Erinnerungen gefunden';
-						console.log('⚠️ No memories found for user');
-					}
+					memoryContext = allMemories.length > 0 
+						? formatMemoriesForPrompt(allMemories)
+						: '- Keine Erinnerungen gefunden';
+					console.log(`⚠️ Semantic search found nothing, using ${allMemories.length} total memories`);
+				}
+			} else {
+				console.log('📋 Fetching all memories (no specific query)');
+				const allMemories = await getUserMemories(user.id, 50);
+				relevantMemories = allMemories;
+				if (allMemories.length > 0) {
+					memoryContext = formatMemoriesForPrompt(allMemories);
+					console.log(`✅ Fetched ${allMemories.length} memories for memory path`);
+				} else {
+					memoryContext = '- Keine Erinnerungen gefunden';
+					console.log('⚠️ No memories found for user');
 				}
-			} catch (memoryError) {
-				console.error('❌ Error fetching memories for memory path:', memoryError);
-				memoryContext = '- Fehler beim Abrufen der Erinnerungen';
 			}
+		} catch (memoryError) {
+			console.error('❌ Error fetching memories for memory path:', memoryError);
+			memoryContext = '- Fehler beim Abrufen der Erinnerungen';
 		}
+	}
 
-		try {
-			// Prepare recent conversation history for tool calling
-			const decryptedHistory = chatRecord[0].history ? JSON.parse(chatRecord[0].history) : [];
-			const fullHistory = decryptChatHistory(decryptedHistory);
-
-			const recentHistory = fullHistory.slice(-6)
-				.filter((h: any) => h.parts && h.parts.length > 0 && !h.pathMarker && !h.hidden)
-				.map((h: any) => ({
-					role: h.role === 'model' ? 'assistant' : h.role as string,
-					content: h.parts[0]?.text || ''
-				}))
-				.filter((m: any) => (m.role === 'user' || m.role === 'assistant') && m.content.trim().length > 0);
-
-			// Get tool calls from AI (skip if we're in memory path and already have memories)
-			if (activePath !== 'memory') {
-				const toolCallResponse = await getToolCalls({
-					message,
-					history: recentHistory,
-					context: {
-						userId: user.id,
-						currentPath: activePath,
-						locale: 'de'
-					}
+	try {
+		// Prepare recent conversation history for tool calling
+		const decryptedHistory = chat.history ? JSON.parse(chat.history) : [];
+		const fullHistory = decryptChatHistory(decryptedHistory);
+
+		const recentHistory = fullHistory.slice(-6)
+			.filter((h: any) => h.parts && h.parts.length > 0 && !h.pathMarker && !h.hidden)
+			.map((h: any) => ({
+				role: h.role === 'model' ? 'assistant' : h.role as string,
+				content: h.parts[0]?.text || ''
+			}))
+			.filter((m: any) => (m.role === 'user' || m.role === 'assistant') && m.content.trim().length > 0);
+
+		// Get tool calls from AI (skip if we're in memory path and already have memories)
+		if (activePath !== 'memory') {
+			const toolCallResponse = await getToolCalls({
+				message,
+				history: recentHistory,
+				context: {
+					userId: user.id,
+					currentPath: activePath,
+					locale: 'de'
+				}
+			});
+
+			console.log('🔧 Tool call reasoning:', toolCallResponse.reasoning);
+			console.log(`🔧 AI requested ${toolCallResponse.toolCalls.length} tool(s)`);
+
+			// Execute tools
+			if (toolCallResponse.toolCalls.length > 0) {
+				toolResults = await executeTools(toolCallResponse.toolCalls, {
+					userId: user.id,
+					locale: 'de'
 				});
 
-				console.log('🔧 Tool call reasoning:', toolCallResponse.reasoning);
-				console.log(`🔧 AI requested ${toolCallResponse.toolCalls.length} tool(s)`);
-
-				// Execute tools
-				if (toolCallResponse.toolCalls.length > 0) {
-					toolResults = await executeTools(toolCallResponse.toolCalls, {
-						userId: user.id,
-						locale: 'de'
-					});
-
-					// Process tool results
-					for (const result of toolResults) {
-						if (!result.success) {
-							console.warn(`⚠️ Tool ${result.tool} failed:`, result.error);
-							continue;
-						}
+				// Process tool results
+				for (const result of toolResults) {
+					await emit?.('tool_result', result);
 
-						if (result.tool === 'search_memories') {
-							relevantMemories = result.result || [];
-							if (relevantMemories.length > 0) {
-								memoryContext = formatMemoriesForPrompt(relevantMemories);
-								console.log(`✅ Found ${relevantMemories.length} relevant memories`);
-							}
-						} else if (result.tool === 'retrieve_nvc_knowledge') {
-							relevantNVCKnowledge = result.result?.knowledgeEntries || [];
-							if (relevantNVCKnowledge.length > 0) {
-								const knowledgeEntries = relevantNVCKnowledge.map((entry: any) => {
-									return `**${entry.title}** (Ähnlichkeit: ${(entry.similarity * 100).toFixed(0)}%)\n${entry.content}${entry.source ? `\n_Quelle: ${entry.source}_` : ''}`;
-								}).join('\n\n');
-
-								nvcKnowledgeContext = `\n\n**RELEVANTES GFK-WISSEN FÜR DIESE SITUATION:**\n${knowledgeEntries}\n\nNutze dieses Wissen, um dem Nutzer hilfreiche GFK-Perspektiven und -Konzepte anzubieten, wenn sie für die aktuelle Situation relevant sind. Integriere das Wissen natürlich und subtil in deine Antworten, ohne es aufzudrängen.`;
-								console.log(`✅ Found ${relevantNVCKnowledge.length} relevant NVC knowledge entries`);
-							}
-						} else if (result.tool === 'extract_nvc_components') {
-							nvcExtraction = result.result;
-							console.log('✅ NVC extraction completed:', {
-								observation: nvcExtraction?.observation ? 'present' : 'none',
-								feelings: nvcExtraction?.feelings?.length || 0,
-								needs: nvcExtraction?.needs?.length || 0,
-								request: nvcExtraction?.request ? 'present' : 'none'
-							});
-						} else if (result.tool === 'analyze_path_switch') {
-							pathSwitchAnalysisFromTool = result.result;
-							// Use tool-based path analysis if we didn't already do path switching
-							if (!pathSwitched && pathSwitchAnalysisFromTool) {
-								pathSwitchAnalysis = pathSwitchAnalysisFromTool;
-								console.log('🔍 Path analysis from tool:', pathSwitchAnalysis);
+					if (!result.success) {
+						console.warn(`⚠️ Tool ${result.tool} failed:`, result.error);
+						continue;
+					}
+
+					if (result.tool === 'search_memories') {
+						relevantMemories = result.result || [];
+						if (relevantMemories.length > 0) {
+							memoryContext = formatMemoriesForPrompt(relevantMemories);
+							console.log(`✅ Found ${relevantMemories.length} relevant memories`);
+						}
+					} else if (result.tool === 'retrieve_nvc_knowledge') {
+						relevantNVCKnowledge = result.result?.knowledgeEntries || [];
+						if (relevantNVCKnowledge.length > 0) {
+							const knowledgeEntries = relevantNVCKnowledge.map((entry: any) => {
+								return `**${entry.title}** (Ähnlichkeit: ${(entry.similarity * 100).toFixed(0)}%)\n${entry.content}${entry.source ? `\n_Quelle: ${entry.source}_` : ''}`;
+							}).join('\n\n');
+
+							nvcKnowledgeContext = `\n\n**RELEVANTES GFK-WISSEN FÜR DIESE SITUATION:**\n${knowledgeEntries}\n\nNutze dieses Wissen, um dem Nutzer hilfreiche GFK-Perspektiven und -Konzepte anzubieten, wenn sie für die aktuelle Situation relevant sind. Integriere das Wissen natürlich und subtil in deine Antworten, ohne es aufzudrängen.`;
+							console.log(`✅ Found ${relevantNVCKnowledge.length} relevant NVC knowledge entries`);
+						}
+					} else if (result.tool === 'extract_nvc_components') {
+						nvcExtraction = result.result;
+						console.log('✅ NVC extraction completed:', {
+							observation: nvcExtraction?.observation ? 'present' : 'none',
+							feelings: nvcExtraction?.feelings?.length || 0,
+							needs: nvcExtraction?.needs?.length || 0,
+							request: nvcExtraction?.request ? 'present' : 'none'
+						});
+					} else if (result.tool === 'analyze_path_switch') {
+						pathSwitchAnalysisFromTool = result.result;
+						// Use tool-based path analysis if we didn't already do path switching
+						if (!pathSwitched && pathSwitchAnalysisFromTool) {
+							pathSwitchAnalysis = pathSwitchAnalysisFromTool;
+							console.log('🔍 Path analysis from tool:', pathSwitchAnalysis);
+							
+							// Apply path switch if needed
+							if (pathSwitchAnalysis.shouldSwitch &&
+								pathSwitchAnalysis.confidence >= 70 &&
+								pathSwitchAnalysis.suggestedPath &&
+								pathSwitchAnalysis.suggestedPath !== activePath) {
 								
-								// Apply path switch if needed
-								if (pathSwitchAnalysis.shouldSwitch &&
-									pathSwitchAnalysis.confidence >= 70 &&
-									pathSwitchAnalysis.suggestedPath &&
-									pathSwitchAnalysis.suggestedPath !== activePath) {
+								const nextPath = pathSwitchAnalysis.suggestedPath;
+								if (CONVERSATION_PATHS[nextPath]) {
+									const newPathState: PathState = {
+										activePath: nextPath,
+										pathHistory: [...pathState.pathHistory, nextPath],
+										startedAt: pathState.startedAt,
+										lastSwitch: Date.now()
+									};
+
+									await db.update(chatsTable)
+										.set({ pathState: JSON.stringify(newPathState) })
+										.where(eq(chatsTable.id, chat.id));
+
+									pathSwitched = true;
+									newPathId = nextPath;
+									activePath = nextPath;
+									pathState.activePath = nextPath;
+									pathState.pathHistory = newPathState.pathHistory;
+									pathState.lastSwitch = Date.now();
+									console.log(`✅ Path switched to ${nextPath} (from tool)`);
+									await emit?.('path_switch', { newPath: nextPath, reason: pathSwitchAnalysis.reason, confidence: pathSwitchAnalysis.confidence });
 									
-									const nextPath = pathSwitchAnalysis.suggestedPath;
-									if (CONVERSATION_PATHS[nextPath]) {
-										const newPathState: PathState = {
-											activePath: nextPath,
-											pathHistory: [...pathState.pathHistory, nextPath],
-											startedAt: pathState.startedAt,
-											lastSwitch: Date.now()
-										};
-
-										await db.update(chatsTable)
-											.set({ pathState: JSON.stringify(newPathState) })
-											.where(eq(chatsTable.id, chatId));
-
-										pathSwitched = true;
-										newPathId = nextPath;
-										activePath = nextPath;
-										pathState.activePath = nextPath;
-										pathState.pathHistory = newPathState.pathHistory;
-										pathState.lastSwitch = Date.now();
-										console.log(`✅ Path switched to ${nextPath} (from tool)`);
-										
-										// If switched to memory path, fetch memories immediately
-										if (nextPath === 'memory' && !memoryContext) {
-											try {
-												console.log('🧠 Path switched to memory - fetching all memories directly');
-												const { getUserMemories } = await import('../lib/memory.js');
-												const allMemories = await getUserMemories(user.id, 20);
-												relevantMemories = allMemories;
-												if (allMemories.length > 0) {
-													memoryContext = formatMemoriesForPrompt(allMemories);
-													console.log(`✅ Fetched ${allMemories.length} memories after path switch to memory`);
-												} else {
-													memoryContext = '- Keine Erinnerungen gefunden';
-													console.log('⚠️ No memories found for user after path switch');
-												}
-											} catch (memoryError) {
-												console.error('❌ Error fetching memories after path switch:', memoryError);
-												memoryContext = '- Fehler beim Abrufen der Erinnerungen';
+									// If switched to memory path, fetch memories immediately
+									if (nextPath === 'memory' && !memoryContext) {
+										try {
+											console.log('🧠 Path switched to memory - fetching all memories directly');
+											const { getUserMemories } = await import('../lib/memory.js');
+											const allMemories = await getUserMemories(user.id, 20);
+											relevantMemories = allMemories;
+											if (allMemories.length > 0) {
+												memoryContext = formatMemoriesForPrompt(allMemories);
+												console.log(`✅ Fetched ${allMemories.length} memories after path switch to memory`);
+											} else {
+												memoryContext = '- Keine Erinnerungen gefunden';
+												console.log('⚠️ No memories found for user after path switch');
 											}
+										} catch (memoryError) {
+											console.error('❌ Error fetching memories after path switch:', memoryError);
+											memoryContext = '- Fehler beim Abrufen der Erinnerungen';
 										}
 									}
 								}
@@ -533,116 +543,358 @@ bullshift.post('/send', async (c: Context) => {
 						}
 					}
 				}
-			} else {
-				console.log('📭 No tools requested by AI');
 			}
-		} catch (toolError) {
-			console.error('⚠️ Tool calling failed, continuing without tools:', toolError);
-			// Continue without tools if calling fails
+		} else {
+			console.log('📭 No tools requested by AI');
 		}
+	} catch (toolError) {
+		console.error('⚠️ Tool calling failed, continuing without tools:', toolError);
+		// Continue without tools if calling fails
+	}
 
-		// Load existing NVC components from chat to avoid asking for them again
-		let existingFeelings: string[] = [];
-		let existingNeeds: string[] = [];
-		let existingObservation: string | null = null;
-		let existingRequest: string | null = null;
+	// Load existing NVC components from chat to avoid asking for them again
+	let existingFeelings: string[] = [];
+	let existingNeeds: string[] = [];
+	let existingObservation: string | null = null;
+	let existingRequest: string | null = null;
 
-		if (chatRecord[0].feelings) {
-			try {
-				const parsedFeelings = JSON.parse(chatRecord[0].feelings);
-				if (Array.isArray(parsedFeelings)) {
-					existingFeelings = parsedFeelings;
-				}
-			} catch (e) {
-				console.warn('Failed to parse existing feelings from chat');
+	if (chat.feelings) {
+		try {
+			const parsedFeelings = JSON.parse(chat.feelings);
+			if (Array.isArray(parsedFeelings)) {
+				existingFeelings = parsedFeelings;
 			}
+		} catch (e) {
+			console.warn('Failed to parse existing feelings from chat');
 		}
+	}
 
-		if (chatRecord[0].needs) {
-			try {
-				const parsedNeeds = JSON.parse(chatRecord[0].needs);
-				if (Array.isArray(parsedNeeds)) {
-					existingNeeds = parsedNeeds;
-				}
-			} catch (e) {
-				console.warn('Failed to parse existing needs from chat');
+	if (chat.needs) {
+		try {
+			const parsedNeeds = JSON.parse(chat.needs);
+			if (Array.isArray(parsedNeeds)) {
+				existingNeeds = parsedNeeds;
 			}
+		} catch (e) {
+			console.warn('Failed to parse existing needs from chat');
 		}
+	}
 
-		// Build NVC context to inject into system prompt
-		let nvcContext = '';
-		if (existingFeelings.length > 0 || existingNeeds.length > 0 || existingObservation || existingRequest) {
-			nvcContext = '\n\n**BEREITS ERFASSTE NVC-KOMPONENTEN:**\n';
-			
-			if (existingObservation) {
-				nvcContext += `- Beobachtung: ${existingObservation}\n`;
-			}
-			
-			if (existingFeelings.length > 0) {
-				nvcContext += `- Gefühle: ${existingFeelings.join(', ')}\n`;
-			}
-			
-			if (existingNeeds.length > 0) {
-				nvcContext += `- Bedürfnisse: ${existingNeeds.join(', ')}\n`;
-			}
-			
-			if (existingRequest) {
-				nvcContext += `- Bitte: ${existingRequest}\n`;
+	// Build NVC context to inject into system prompt
+	let nvcContext = '';
+	if (existingFeelings.length > 0 || existingNeeds.length > 0 || existingObservation || existingRequest) {
+		nvcContext = '\n\n**BEREITS ERFASSTE NVC-KOMPONENTEN:**\n';
+		
+		if (existingObservation) {
+			nvcContext += `- Beobachtung: ${existingObservation}\n`;
+		}
+		
+		if (existingFeelings.length > 0) {
+			nvcContext += `- Gefühle: ${existingFeelings.join(', ')}\n`;
+		}
+		
+		if (existingNeeds.length > 0) {
+			nvcContext += `- Bedürfnisse: ${existingNeeds.join(', ')}\n`;
+		}
+		
+		if (existingRequest) {
+			nvcContext += `- Bitte: ${existingRequest}\n`;
+		}
+		
+		nvcContext += '\n**WICHTIG:** Diese Komponenten wurden bereits vom Nutzer genannt. Frage NICHT erneut danach, es sei denn, der Nutzer bringt neue Aspekte ein oder möchte etwas ändern. Nutze diese Informationen, um deine Antworten zu kontextualisieren und dem Nutzer zu zeigen, dass du dich an bereits Gesagtes erinnerst.';
+	}
+
+	// Fetch full user record with preferences
+	const userWithPreferences = await db
+		.select({
+			id: userTable.id,
+			firstName: userTable.firstName,
+			aiAnswerLength: userTable.aiAnswerLength,
+			toneOfVoice: userTable.toneOfVoice,
+			nvcKnowledge: userTable.nvcKnowledge,
+		})
+		.from(userTable)
+		.where(eq(userTable.id, user.id))
+		.limit(1);
+
+	const userContext = userWithPreferences[0] || user;
+
+	// People mentioned in the message: their profile replaces the generic memory snippets
+	let peopleContext = '';
+	if (activePath !== 'memory') {
+		try {
+			const mentionedPeople = await findMentionedPeople(user.id, message);
+			if (mentionedPeople.length > 0) {
+				// Off-the-record chats don't show up in anyone's timeline
+				if (!chat.offTheRecord) {
+					for (const person of mentionedPeople) {
+						await linkChatToPerson(user.id, person.id, chat.id);
+					}
+				}
+				const people = await buildPeopleContext(user.id, mentionedPeople);
+				peopleContext = people.context;
+				relevantMemories = people.memories;
+				console.log(`👥 Mentioned people: ${mentionedPeople.map(person => person.name).join(', ')}`);
 			}
-			
-			nvcContext += '\n**WICHTIG:** Diese Komponenten wurden bereits vom Nutzer genannt. Frage NICHT erneut danach, es sei denn, der Nutzer bringt neue Aspekte ein oder möchte etwas ändern. Nutze diese Informationen, um deine Antworten zu kontextualisieren und dem Nutzer zu zeigen, dass du dich an bereits Gesagtes erinnerst.';
+		} catch (error) {
+			console.error('Error building people context:', error);
 		}
+	}
 
-		// Fetch full user record with preferences
-		const userWithPreferences = await db
-			.select({
-				id: userTable.id,
-				firstName: userTable.firstName,
-				aiAnswerLength: userTable.aiAnswerLength,
-				toneOfVoice: userTable.toneOfVoice,
-				nvcKnowledge: userTable.nvcKnowledge,
-			})
-			.from(userTable)
-			.where(eq(userTable.id, user.id))
-			.limit(1);
+	// Get system instruction for current path with memory context and NVC context
+	let systemInstruction = getSystemPromptForPath(activePath, userContext, memoryContext);
+	
+	// Append NVC context to system instruction
+	if (nvcContext) {
+		systemInstruction += nvcContext;
+	}
 
-		const userContext = userWithPreferences[0] || user;
+	// For memory path specifically, inject memory context
+	if (activePath === 'memory') {
+		if (!memoryContext) {
+			// If no memories found from tools, try to get some anyway
+			memoryContext = '- Keine Erinnerungen gefunden';
+		}
+		systemInstruction = getSystemPromptForPath(activePath, userContext, memoryContext);
+	} else if (peopleContext) {
+		systemInstruction += `\n\n**PERSONEN IM GESPRÄCH:**\n${peopleContext}\nNutze dieses Wissen über die genannten Personen subtil und natürlich. Erwähne es nur, wenn es für die aktuelle Situation relevant ist.`;
+	} else if (memoryContext) {
+		// For other paths, inject memories subtly in system prompt
+		systemInstruction += `\n\n**KONTEXTWISSEN ÜBER DEN NUTZER:**\n${memoryContext}\nNutze dieses Wissen subtil und natürlich, um deine Antworten zu personalisieren. Erwähne Erinnerungen nur, wenn sie für die aktuelle Situation relevant sind.`;
+	}
 
-		// Get system instruction for current path with memory context and NVC context
-		let systemInstruction = getSystemPromptForPath(activePath, userContext, memoryContext);
+	// Only memories that actually reach the prompt count as accessed
+	if ((memoryContext || peopleContext) && relevantMemories.length > 0) {
+		await recordMemoryAccess(relevantMemories.map((memory: any) => memory.id));
+	}
+
+	// Append NVC knowledge context to system instruction
+	if (nvcKnowledgeContext) {
+		systemInstruction += nvcKnowledgeContext;
+	}
+
+	// Add tool results context to system instruction
+	if (toolResults.length > 0) {
+		const toolResultsText = formatToolResults(toolResults);
+		systemInstruction += `\n\n**TOOL ERGEBNISSE:**\n${toolResultsText}\n\nNutze diese Informationen, um deine Antwort zu kontextualisieren.`;
+	}
+
+	console.log('📝 SYSTEM PROMPT:');
+	console.log('='.repeat(80));
+	console.log(systemInstruction);
+	console.log('='.repeat(80));
+
+	return {
+		activePath,
+		pathState,
+		pathSwitched,
+		newPathId,
+		pathSwitchAnalysis,
+		relevantMemories,
+		relevantNVCKnowledge,
+		nvcExtraction,
+		existingFeelings,
+		existingNeeds,
+		existingObservation,
+		existingRequest,
+		systemInstruction
+	};
+}
+
+/**
+ * Re-apply "don't remember this" flags from the stored history
+ * The flags are only changed through the chat settings, so whatever the client's copy of the
+ * history claims is ignored; entries are matched by role and timestamp, falling back to the index.
+ */
+async function carryOverMemoryExclusions(chatId: string, history: HistoryEntry[]): Promise<HistoryEntry[]> {
+	const [stored] = await db.select({ history: chatsTable.history })
+		.from(chatsTable)
+		.where(eq(chatsTable.id, chatId))
+		.limit(1);
+	const storedHistory: HistoryEntry[] = stored?.history ? JSON.parse(stored.history) : [];
+
+	const excludedKeys = new Set<string>();
+	const excludedIndices = new Set<number>();
+	storedHistory.forEach((entry, index) => {
+		if (!entry.excludeFromMemory) return;
+		excludedIndices.add(index);
+		if (entry.timestamp) excludedKeys.add(`${entry.role}:${entry.timestamp}`);
+	});
+
+	return history.map(({ excludeFromMemory: _clientFlag, ...entry }, index) => {
+		const excluded = entry.timestamp ? excludedKeys.has(`${entry.role}:${entry.timestamp}`) : excludedIndices.has(index);
+		return excluded ? { ...entry, excludeFromMemory: true } : entry;
+	});
+}
+
+/**
+ * Encrypt and save the completed turn, aggregating NVC components into the chat
+ * Returns the history including a path marker if the path was switched
+ */
+async function persistTurn(
+	chatId: string,
+	historyWithUserMessage: HistoryEntry[],
+	aiResponse: string,
+	turn: PreparedTurn
+): Promise<HistoryEntry[]> {
+	const { existingFeelings, existingNeeds, existingObservation, existingRequest, nvcExtraction, pathSwitched, newPathId, pathState } = turn;
+
+	// Add AI response to history
+	const modelMessage: HistoryEntry = {
+		role: 'model',
+		parts: [{ text: aiResponse }],
+		timestamp: Date.now()
+	};
+
+	const updatedHistory = await carryOverMemoryExclusions(chatId, [...historyWithUserMessage, modelMessage]);
+
+	// Encrypt and save updated history
+	const encryptedHistory = encryptChatHistory(updatedHistory);
+
+	// Aggregate NVC components: merge new extraction with existing chat data
+	// (We already loaded existingFeelings and existingNeeds above, reuse them)
+	let aggregatedFeelings: string[] = [...existingFeelings];
+	let aggregatedNeeds: string[] = [...existingNeeds];
+	let latestObservation: string | null = existingObservation;
+	let latestRequest: string | null = existingRequest;
+
+	// Add new NVC components (avoid duplicates)
+	if (nvcExtraction) {
+		// Merge feelings (avoid duplicates)
+		for (const feeling of nvcExtraction.feelings) {
+			if (!aggregatedFeelings.includes(feeling)) {
+				aggregatedFeelings.push(feeling);
+			}
+		}
 		
-		// Append NVC context to system instruction
-		if (nvcContext) {
-			systemInstruction += nvcContext;
+		// Merge needs (avoid duplicates)
+		for (const need of nvcExtraction.needs) {
+			if (!aggregatedNeeds.includes(need)) {
+				aggregatedNeeds.push(need);
+			}
 		}
 
-		// For memory path specifically, inject memory context
-		if (activePath === 'memory') {
-			if (!memoryContext) {
-				// If no memories found from tools, try to get some anyway
-				memoryContext = '- Keine Erinnerungen gefunden';
-			}
-			systemInstruction = getSystemPromptForPath(activePath, userContext, memoryContext);
-		} else if (memoryContext) {
-			// For other paths, inject memories subtly in system prompt
-			systemInstruction += `\n\n**KONTEXTWISSEN ÜBER DEN NUTZER:**\n${memoryContext}\nNutze dieses Wissen subtil und natürlich, um deine Antworten zu personalisieren. Erwähne Erinnerungen nur, wenn sie für die aktuelle Situation relevant sind.`;
+		// Store latest observation and request (overwrite previous if new one exists)
+		if (nvcExtraction.observation) {
+			latestObservation = nvcExtraction.observation;
 		}
+		if (nvcExtraction.request) {
+			latestRequest = nvcExtraction.request;
+		}
+	}
 
-		// Append NVC knowledge context to system instruction
-		if (nvcKnowledgeContext) {
-			systemInstruction += nvcKnowledgeContext;
+	// Prepare update data
+	const updateData: any = {
+		history: JSON.stringify(encryptedHistory),
+		updated: new Date().toISOString()
+	};
+
+	// Update feelings and needs if we have new data
+	if (aggregatedFeelings.length > 0) {
+		updateData.feelings = JSON.stringify(aggregatedFeelings);
+	}
+	if (aggregatedNeeds.length > 0) {
+		updateData.needs = JSON.stringify(aggregatedNeeds);
+	}
+	
+	// Note: observation and request columns don't exist in chats table yet
+	// They are stored in analyses table after chat completion
+	// For now, we extract them but don't store in chats table
+	// TODO: Add observation and request columns to chats table if needed
+
+	await db.update(chatsTable)
+		.set(updateData)
+		.where(eq(chatsTable.id, chatId));
+
+	console.log('Message processed successfully, AI responded');
+
+	// Add path markers to history if path was switched
+	let historyWithMarkers = updatedHistory;
+	if (pathSwitched && newPathId) {
+		const pathMarker = createPathMarker('path_switch', newPathId, pathState.activePath || undefined);
+		const pathMarkerEntry: HistoryEntry = {
+			role: 'model',
+			parts: [{ text: '' }],
+			timestamp: Date.now(),
+			pathMarker
+		};
+		historyWithMarkers = [...updatedHistory, pathMarkerEntry];
+
+		// Save history with path marker
+		const encryptedHistoryWithMarker = encryptChatHistory(historyWithMarkers);
+		await db.update(chatsTable)
+			.set({
+				history: JSON.stringify(encryptedHistoryWithMarker),
+				updated: new Date().toISOString()
+			})
+			.where(eq(chatsTable.id, chatId));
+	}
+
+	return historyWithMarkers;
+}
+
+/**
+ * Build the response payload shared by /send and the final event of /send/stream
+ */
+function buildSendResponse(turn: PreparedTurn, aiResponse: string, history: HistoryEntry[]) {
+	return {
+		response: aiResponse,
+		timestamp: Date.now(),
+		history,
+		pathSwitched: turn.pathSwitched,
+		newPath: turn.newPathId,
+		pathSwitchReason: turn.pathSwitchAnalysis?.reason,
+		activePath: turn.activePath,
+		memoriesUsed: turn.relevantMemories.length,
+		memories: turn.relevantMemories, // Include the memories that were used
+		nvcKnowledgeUsed: turn.relevantNVCKnowledge.length,
+		nvcKnowledge: turn.relevantNVCKnowledge // Include the NVC knowledge that was used
+	};
+}
+
+/**
+ * Load a chat and verify it belongs to the user
+ */
+async function getOwnedChat(chatId: string, userId: string): Promise<{ chat?: ChatRecord; error?: string; status?: 403 | 404 }> {
+	const chatRecord = await db.select().from(chatsTable)
+		.where(eq(chatsTable.id, chatId))
+		.limit(1);
+
+	if (!chatRecord || chatRecord.length === 0) {
+		return { error: 'Chat not found', status: 404 };
+	}
+
+	if (chatRecord[0].userId !== userId) {
+		return { error: 'Unauthorized', status: 403 };
+	}
+
+	return { chat: chatRecord[0] };
+}
+
+// POST /api/ai/bullshift/send - Send a message and get AI response
+bullshift.post('/send', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const body = await c.req.json();
+		const { chatId, message, history } = body;
+
+		if (!chatId || !message) {
+			return c.json({ error: 'chatId and message are required' }, 400);
 		}
 
-		// Add tool results context to system instruction
-		if (toolResults.length > 0) {
-			const toolResultsText = formatToolResults(toolResults);
-			systemInstruction += `\n\n**TOOL ERGEBNISSE:**\n${toolResultsText}\n\nNutze diese Informationen, um deine Antwort zu kontextualisieren.`;
+		console.log('send called for chat:', chatId);
+
+		// Verify chat belongs to user and get path state
+		const { chat, error, status } = await getOwnedChat(chatId, user.id);
+		if (!chat) {
+			return c.json({ error }, status);
 		}
 
-		console.log('📝 SYSTEM PROMPT:');
-		console.log('='.repeat(80));
-		console.log(systemInstruction);
-		console.log('='.repeat(80));
+		const turn = await prepareTurn(user, chat, message);
 
 		// Add user message to history
 		const userMessage: HistoryEntry = {
@@ -659,7 +911,7 @@ bullshift.post('/send', async (c: Context) => {
 			aiResponse = await getAiResponseWithRetry(
 				message,
 				historyWithUserMessage,
-				systemInstruction,
+				turn.systemInstruction,
 				3 // max retries
 			);
 		} catch (aiError) {
@@ -672,110 +924,87 @@ bullshift.post('/send', async (c: Context) => {
 			}, 500);
 		}
 
-		// Add AI response to history
-		const modelMessage: HistoryEntry = {
-			role: 'model',
-			parts: [{ text: aiResponse }],
-			timestamp: Date.now()
-		};
+		const historyWithMarkers = await persistTurn(chatId, historyWithUserMessage, aiResponse, turn);
 
-		const updatedHistory = [...historyWithUserMessage, modelMessage];
+		// Return AI response with updated history, memories, NVC knowledge, and path switch info
+		return c.json(buildSendResponse(turn, aiResponse, historyWithMarkers));
 
-		// Encrypt and save updated history
-		const encryptedHistory = encryptChatHistory(updatedHistory);
+	} catch (error) {
+		console.error('Error sending message:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
+		return c.json({ error: errorMessage }, 500);
+	}
+});
 
-		// Aggregate NVC components: merge new extraction with existing chat data
-		// (We already loaded existingFeelings and existingNeeds above, reuse them)
-		let aggregatedFeelings: string[] = [...existingFeelings];
-		let aggregatedNeeds: string[] = [...existingNeeds];
-		let latestObservation: string | null = existingObservation;
-		let latestRequest: string | null = existingRequest;
+// POST /api/ai/bullshift/send/stream - Send a message and stream the AI response via Server-Sent Events
+// Events: path_switch, tool_result, token, done (same payload as /send), error
+bullshift.post('/send/stream', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
 
-		// Add new NVC components (avoid duplicates)
-		if (nvcExtraction) {
-			// Merge feelings (avoid duplicates)
-			for (const feeling of nvcExtraction.feelings) {
-				if (!aggregatedFeelings.includes(feeling)) {
-					aggregatedFeelings.push(feeling);
-				}
-			}
-			
-			// Merge needs (avoid duplicates)
-			for (const need of nvcExtraction.needs) {
-				if (!aggregatedNeeds.includes(need)) {
-					aggregatedNeeds.push(need);
-				}
-			}
+	const body = await c.req.json().catch(() => ({}));
+	const { chatId, message, history } = body;
 
-			// Store latest observation and request (overwrite previous if new one exists)
-			if (nvcExtraction.observation) {
-				latestObservation = nvcExtraction.observation;
-			}
-			if (nvcExtraction.request) {
-				latestRequest = nvcExtraction.request;
-			}
-		}
+	if (!chatId || !message) {
+		return c.json({ error: 'chatId and message are required' }, 400);
+	}
 
-		// Prepare update data
-		const updateData: any = {
-			history: JSON.stringify(encryptedHistory),
-			updated: new Date().toISOString()
-		};
+	console.log('send/stream called for chat:', chatId);
 
-		// Update feelings and needs if we have new data
-		if (aggregatedFeelings.length > 0) {
-			updateData.feelings = JSON.stringify(aggregatedFeelings);
-		}
-		if (aggregatedNeeds.length > 0) {
-			updateData.needs = JSON.stringify(aggregatedNeeds);
+	try {
+		const { chat, error, status } = await getOwnedChat(chatId, user.id);
+		if (!chat) {
+			return c.json({ error }, status);
 		}
-		
-		// Note: observation and request columns don't exist in chats table yet
-		// They are stored in analyses table after chat completion
-		// For now, we extract them but don't store in chats table
-		// TODO: Add observation and request columns to chats table if needed
 
-		await db.update(chatsTable)
-			.set(updateData)
-			.where(eq(chatsTable.id, chatId));
-
-		console.log('Message processed successfully, AI responded');
+		return streamSSE(c, async (stream) => {
+			let aborted = false;
+			stream.onAbort(() => {
+				aborted = true;
+				console.log('send/stream client disconnected for chat:', chatId);
+			});
 
-		// Add path markers to history if path was switched
-		let historyWithMarkers = updatedHistory;
-		if (pathSwitched && newPathId) {
-			const pathMarker = createPathMarker('path_switch', newPathId, pathState.activePath);
-			const pathMarkerEntry: HistoryEntry = {
-				role: 'model',
-				parts: [{ text: '' }],
-				timestamp: Date.now(),
-				pathMarker
+			const emit: SendEventEmitter = async (event, data) => {
+				if (aborted) return;
+				await stream.writeSSE({ event, data: JSON.stringify(data) });
 			};
-			historyWithMarkers = [...updatedHistory, pathMarkerEntry];
-
-			// Save history with path marker
-			const encryptedHistoryWithMarker = encryptChatHistory(historyWithMarkers);
-			await db.update(chatsTable)
-				.set({
-					history: JSON.stringify(encryptedHistoryWithMarker),
-					updated: new Date().toISOString()
-				})
-				.where(eq(chatsTable.id, chatId));
-		}
 
-		// Return AI response with updated history, memories, NVC knowledge, and path switch info
-		return c.json({
-			response: aiResponse,
-			timestamp: Date.now(),
-			history: historyWithMarkers,
-			pathSwitched: pathSwitched,
-			newPath: newPathId,
-			pathSwitchReason: pathSwitchAnalysis?.reason,
-			activePath: activePath,
-			memoriesUsed: relevantMemories.length,
-			memories: relevantMemories, // Include the memories that were used
-			nvcKnowledgeUsed: relevantNVCKnowledge.length,
-			nvcKnowledge: relevantNVCKnowledge // Include the NVC knowledge that was used
+			try {
+				const turn = await prepareTurn(user, chat, message, emit);
+
+				const userMessage: HistoryEntry = {
+					role: 'user',
+					parts: [{ text: message }],
+					timestamp: Date.now()
+				};
+
+				const historyWithUserMessage = [...(history || []), userMessage];
+
+				let aiResponse = '';
+				for await (const chunk of streamAiResponseWithRetry(message, historyWithUserMessage, turn.systemInstruction, 3)) {
+					if (aborted) break;
+					aiResponse += chunk;
+					await emit('token', { text: chunk });
+				}
+
+				// Only persist complete turns - an aborted stream leaves the chat untouched
+				if (aborted) {
+					return;
+				}
+
+				const historyWithMarkers = await persistTurn(chatId, historyWithUserMessage, aiResponse, turn);
+
+				await emit('done', buildSendResponse(turn, aiResponse, historyWithMarkers));
+			} catch (streamError) {
+				console.error('Error streaming message:', streamError);
+				const errorMessage = streamError instanceof Error ? streamError.message : 'Failed to send message';
+				await emit('error', {
+					error: errorMessage,
+					fallbackResponse: 'Entschuldigung, ich habe gerade technische Schwierigkeiten. Bitte versuche es noch einmal.'
+				});
+			}
 		});
 
 	} catch (error) {
@@ -785,6 +1014,7 @@ bullshift.post('/send', async (c: Context) => {
 	}
 });
 
+
 // GET /api/ai/bullshift/getHistory - Get chat history (optional, for refresh)
 bullshift.get('/getHistory', async (c: Context) => {
 	const user = c.get('user');
@@ -957,18 +1187,12 @@ bullshift.post('/analyzeChat', async (c: Context) => {
 
 		const systemInstruction = getSystemPromptForPath(pathId, userContext);
 
-		// Step 3: Extract memories from the analyzed chat (pass the specific chatId)
-		console.log('🧠 Triggering memory extraction for chat:', chatId);
+		// Step 3: Queue memory extraction for the analyzed chat; the background worker picks it up
 		try {
-			const memoryResult = await extractMemories(user.id, locale, chatId);
-			console.log('✅ Memory extraction completed, result:', memoryResult);
-		} catch (memError) {
-			console.error('❌ Memory extraction failed:', memError);
-			console.error('❌ Memory extraction error details:', {
-				message: memError instanceof Error ? memError.message : String(memError),
-				stack: memError instanceof Error ? memError.stack : undefined
-			});
-			// Don't fail the whole request if memory extraction fails
+			await enqueueMemoryExtraction(user.id, chatId, locale);
+		} catch (queueError) {
+			console.error('❌ Failed to queue memory extraction:', queueError);
+			// Don't fail the whole request if memory extraction can't be queued
 		}
 
 		// Return both the analysis and the new chat session
@@ -1004,7 +1228,7 @@ bullshift.put('/updateHistory', async (c: Context) => {
 		const body = await c.req.json();
 		const { chatId, history, pathState } = body;
 
-		if (!chatId || !history) {
+		if (!chatId || !Array.isArray(history)) {
 			return c.json({ error: 'chatId and history are required' }, 400);
 		}
 
@@ -1023,8 +1247,8 @@ bullshift.put('/updateHistory', async (c: Context) => {
 			return c.json({ error: 'Unauthorized' }, 403);
 		}
 
-		// Encrypt and save the history
-		const encryptedHistory = encryptChatHistory(history);
+		// Encrypt and save the history, keeping the stored "don't remember this" flags
+		const encryptedHistory = encryptChatHistory(await carryOverMemoryExclusions(chatId, history));
 		const updateData: any = {
 			history: JSON.stringify(encryptedHistory),
 			updated: new Date().toISOString()
@@ -1,5 +1,22 @@
 import { Hono } from 'hono';
 import type { Context } from 'hono';
+import {
+	GardenError,
+	getGarden,
+	getInventory,
+	getSeedLedger,
+	isValidPlot,
+	listShopItems,
+	plantItem,
+	purchaseItem,
+	unplantItem
+} from '../lib/garden.js';
+import {
+	getPublicGardenSnapshot,
+	listPublicGardens,
+	sendGardenAppreciation,
+	setGardenVisibility
+} from '../lib/garden-sharing.js';
 
 const garden = new Hono();
 
@@ -11,18 +28,11 @@ garden.get('/', async (c: Context) => {
 	}
 
 	try {
-		// TODO: Get user's garden from database
-		// const gardenResult = await db.select().from(gardensTable)
-		//   .where(eq(gardensTable.user, user.id))
-		//   .limit(1);
-		//
-		// const userSeedsResult = await db.select().from(userSeedsTable)
-		//   .where(eq(userSeedsTable.user, user.id))
-		//   .limit(1);
+		const { garden: userGarden, userSeeds } = await getGarden(user.id);
 
 		return c.json({
-			garden: null, // TODO: Use gardenResult[0]
-			userSeeds: null // TODO: Use userSeedsResult[0]
+			garden: userGarden,
+			userSeeds
 		});
 	} catch (error) {
 		console.error('Error getting garden:', error);
@@ -30,6 +40,44 @@ garden.get('/', async (c: Context) => {
 	}
 });
 
+// GET /api/garden/items - Get items available in the shop
+garden.get('/items', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const shopItems = await listShopItems();
+
+		return c.json({
+			items: shopItems,
+			count: shopItems.length
+		});
+	} catch (error) {
+		console.error('Error loading items:', error);
+		return c.json({ error: 'Failed to load items' }, 500);
+	}
+});
+
+// GET /api/garden/seeds - Get seed balance and ledger
+garden.get('/seeds', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const limit = Math.min(200, Math.max(1, parseInt(c.req.query('limit') || '50') || 50));
+		const ledger = await getSeedLedger(user.id, limit);
+
+		return c.json(ledger);
+	} catch (error) {
+		console.error('Error loading seed ledger:', error);
+		return c.json({ error: 'Failed to load seed ledger' }, 500);
+	}
+});
+
 // POST /api/garden/plant - Plant an item
 garden.post('/plant', async (c: Context) => {
 	const user = c.get('user');
@@ -41,118 +89,24 @@ garden.post('/plant', async (c: Context) => {
 		const { plotX, plotY, plantId } = await c.req.json();
 
 		// Validate input
-		if (plotX < 0 || plotX > 8 || plotY < 0 || plotY > 8) {
+		if (!isValidPlot(plotX, plotY)) {
 			return c.json({ error: 'Invalid plot coordinates' }, 400);
 		}
 
-		// TODO: Get user's garden from database
-		// const gardenResult = await db.select().from(gardensTable)
-		//   .where(eq(gardensTable.user, user.id))
-		//   .limit(1);
-		// const garden = gardenResult[0];
-
-		// TODO: Get plant info
-		// const plant = await db.select().from(itemsTable)
-		//   .where(eq(itemsTable.id, plantId))
-		//   .limit(1);
-
-		// TODO: Check if user has this item in their inventory
-		// const userItem = await db.select().from(userItemsTable)
-		//   .where(and(
-		//     eq(userItemsTable.user, user.id),
-		//     eq(userItemsTable.item, plantId)
-		//   ))
-		//   .limit(1);
-		//
-		// if (!userItem || userItem.length === 0 || userItem[0].quantity < 1) {
-		//   return c.json({ error: 'Item not in inventory' }, 400);
-		// }
-
-		const plotIndex = plotY * 9 + plotX;
-		// const currentPlot = garden.grid_data.plots[plotIndex];
-
-		// Handle terraform items differently
-		// if (plant[0].category === 'terraform') {
-		//   // Terraform logic
-		//   const newQuantity = userItem[0].quantity - 1;
-		//   if (newQuantity > 0) {
-		//     await db.update(userItemsTable)
-		//       .set({ quantity: newQuantity })
-		//       .where(eq(userItemsTable.id, userItem[0].id));
-		//   } else {
-		//     await db.delete(userItemsTable)
-		//       .where(eq(userItemsTable.id, userItem[0].id));
-		//   }
-		//
-		//   // Update plot terrain
-		//   const gridData = { ...garden.grid_data };
-		//   const newBuildLevel = plant[0].terraform_type === 'dirt'
-		//     ? (currentPlot.build_level || 0) + 1
-		//     : currentPlot.build_level || 0;
-		//
-		//   gridData.plots[plotIndex] = {
-		//     ...gridData.plots[plotIndex],
-		//     type: plant[0].terraform_type,
-		//     build_level: newBuildLevel,
-		//     plant_id: plant[0].terraform_type === 'water' ? null : currentPlot.plant_id,
-		//     planted_at: plant[0].terraform_type === 'water' ? null : currentPlot.planted_at,
-		//     growth_stage: plant[0].terraform_type === 'water' ? 0 : currentPlot.growth_stage
-		//   };
-		//
-		//   await db.update(gardensTable)
-		//     .set({ grid_data: gridData })
-		//     .where(eq(gardensTable.id, garden.id));
-		//
-		//   return c.json({
-		//     success: true,
-		//     plot: gridData.plots[plotIndex],
-		//     remainingQuantity: newQuantity > 0 ? newQuantity : 0,
-		//     terraform: true
-		//   });
-		// }
-
-		// Regular planting logic
-		// if (currentPlot.plant_id) {
-		//   return c.json({ error: 'Plot already occupied' }, 400);
-		// }
-		//
-		// if (currentPlot.type === 'water') {
-		//   return c.json({ error: 'Cannot plant on water' }, 400);
-		// }
-
-		// TODO: Deduct item from inventory and update grid
-		// const newQuantity = userItem[0].quantity - 1;
-		// if (newQuantity > 0) {
-		//   await db.update(userItemsTable)
-		//     .set({ quantity: newQuantity })
-		//     .where(eq(userItemsTable.id, userItem[0].id));
-		// } else {
-		//   await db.delete(userItemsTable)
-		//     .where(eq(userItemsTable.id, userItem[0].id));
-		// }
-		//
-		// const gridData = { ...garden.grid_data };
-		// gridData.plots[plotIndex] = {
-		//   ...gridData.plots[plotIndex],
-		//   plant_id: plantId,
-		//   planted_at: new Date().toISOString(),
-		//   growth_stage: 0
-		// };
-		//
-		// await db.update(gardensTable)
-		//   .set({
-		//     grid_data: gridData,
-		//     total_plants: garden.total_plants + 1
-		//   })
-		//   .where(eq(gardensTable.id, garden.id));
+		if (!plantId) {
+			return c.json({ error: 'Plant ID is required' }, 400);
+		}
+
+		const result = await plantItem(user.id, plotX, plotY, plantId);
 
 		return c.json({
 			success: true,
-			plot: null, // TODO: Use gridData.plots[plotIndex]
-			remainingQuantity: 0, // TODO: Use newQuantity
-			terraform: false
+			...result
 		});
 	} catch (error) {
+		if (error instanceof GardenError) {
+			return c.json({ error: error.message }, error.status);
+		}
 		console.error('Error planting:', error);
 		return c.json({ error: 'Internal server error' }, 500);
 	}
@@ -169,70 +123,20 @@ garden.post('/unplant', async (c: Context) => {
 		const { plotX, plotY } = await c.req.json();
 
 		// Validate input
-		if (plotX < 0 || plotX > 8 || plotY < 0 || plotY > 8) {
+		if (!isValidPlot(plotX, plotY)) {
 			return c.json({ error: 'Invalid plot coordinates' }, 400);
 		}
 
-		// TODO: Get user's garden from database
-		// const gardenResult = await db.select().from(gardensTable)
-		//   .where(eq(gardensTable.user, user.id))
-		//   .limit(1);
-		// const garden = gardenResult[0];
-
-		// Check if plot has a plant
-		const plotIndex = plotY * 9 + plotX;
-		// const plot = garden.grid_data.plots[plotIndex];
-		//
-		// if (!plot.plant_id) {
-		//   return c.json({ error: 'Plot is empty' }, 400);
-		// }
-
-		// const plantId = plot.plant_id;
-
-		// TODO: Check if user already has this item in inventory
-		// let userItem = await db.select().from(userItemsTable)
-		//   .where(and(
-		//     eq(userItemsTable.user, user.id),
-		//     eq(userItemsTable.item, plantId)
-		//   ))
-		//   .limit(1);
-
-		// Update grid data - remove plant
-		// const gridData = { ...garden.grid_data };
-		// gridData.plots[plotIndex] = {
-		//   ...gridData.plots[plotIndex],
-		//   plant_id: null,
-		//   planted_at: null,
-		//   growth_stage: 0
-		// };
-		//
-		// await db.update(gardensTable)
-		//   .set({
-		//     grid_data: gridData,
-		//     total_plants: garden.total_plants - 1
-		//   })
-		//   .where(eq(gardensTable.id, garden.id));
-
-		// Add item back to inventory
-		// if (userItem && userItem.length > 0) {
-		//   await db.update(userItemsTable)
-		//     .set({ quantity: userItem[0].quantity + 1 })
-		//     .where(eq(userItemsTable.id, userItem[0].id));
-		// } else {
-		//   await db.insert(userItemsTable).values({
-		//     user: user.id,
-		//     item: plantId,
-		//     quantity: 1,
-		//     acquired_at: new Date().toISOString()
-		//   });
-		// }
+		const result = await unplantItem(user.id, plotX, plotY);
 
 		return c.json({
 			success: true,
-			plot: null, // TODO: Use gridData.plots[plotIndex]
-			returnedItem: null // TODO: Use plantId
+			...result
 		});
 	} catch (error) {
+		if (error instanceof GardenError) {
+			return c.json({ error: error.message }, error.status);
+		}
 		console.error('Error unplanting:', error);
 		return c.json({ error: 'Internal server error' }, 500);
 	}
@@ -246,27 +150,11 @@ garden.get('/inventory', async (c: Context) => {
 	}
 
 	try {
-		// TODO: Get user's items with item details (using joins)
-		// const userItems = await db.select({
-		//   id: userItemsTable.id,
-		//   item: userItemsTable.item,
-		//   quantity: userItemsTable.quantity,
-		//   acquired_at: userItemsTable.acquired_at,
-		//   itemData: {
-		//     id: itemsTable.id,
-		//     name: itemsTable.name,
-		//     description: itemsTable.description,
-		//     category: itemsTable.category,
-		//     sprite: itemsTable.sprite
-		//   }
-		// })
-		// .from(userItemsTable)
-		// .leftJoin(itemsTable, eq(userItemsTable.item, itemsTable.id))
-		// .where(eq(userItemsTable.user, user.id));
+		const userItems = await getInventory(user.id);
 
 		return c.json({
-			inventory: [], // TODO: Use userItems
-			count: 0 // TODO: Use userItems.length
+			inventory: userItems,
+			count: userItems.length
 		});
 	} catch (error) {
 		console.error('Error loading inventory:', error);
@@ -282,64 +170,118 @@ garden.post('/purchase', async (c: Context) => {
 	}
 
 	try {
-		const { plantId } = await c.req.json();
+		const { plantId, quantity = 1 } = await c.req.json();
 
 		if (!plantId) {
 			return c.json({ error: 'Plant ID is required' }, 400);
 		}
 
-		// TODO: Get the item details
-		// const item = await db.select().from(itemsTable)
-		//   .where(eq(itemsTable.id, plantId))
-		//   .limit(1);
-		//
-		// if (!item || item.length === 0) {
-		//   return c.json({ error: 'Item not found' }, 404);
-		// }
-
-		// TODO: Get user's current seed inventory
-		// const userSeeds = await db.select().from(userSeedsTable)
-		//   .where(eq(userSeedsTable.user, user.id))
-		//   .limit(1);
-		//
-		// if (!userSeeds || userSeeds.length === 0) {
-		//   return c.json({ error: 'No seed inventory found' }, 404);
-		// }
-		//
-		// const currentSeeds = userSeeds[0].seed_inventory.basic || 0;
-		//
-		// if (currentSeeds < item[0].seed_cost) {
-		//   return c.json({ error: 'Not enough seeds' }, 400);
-		// }
-
-		// Deduct seeds from user's inventory
-		// const newSeedCount = currentSeeds - item[0].seed_cost;
-		// const updatedInventory = {
-		//   ...userSeeds[0].seed_inventory,
-		//   basic: newSeedCount
-		// };
-		//
-		// await db.update(userSeedsTable)
-		//   .set({ seed_inventory: updatedInventory })
-		//   .where(eq(userSeedsTable.id, userSeeds[0].id));
-
-		// Add item to user's inventory
-		// await db.insert(userItemsTable).values({
-		//   user: user.id,
-		//   item: plantId,
-		//   quantity: 1,
-		//   acquired_at: new Date().toISOString()
-		// });
+		const result = await purchaseItem(user.id, plantId, quantity);
 
 		return c.json({
 			success: true,
-			message: 'Successfully purchased item', // TODO: Use item[0].name
-			remainingSeeds: 0 // TODO: Use newSeedCount
+			message: `Successfully purchased ${result.item.name}`,
+			quantity: result.quantity,
+			remainingSeeds: result.remainingSeeds
 		});
 	} catch (error) {
+		if (error instanceof GardenError) {
+			return c.json({ error: error.message }, error.status);
+		}
 		console.error('Error processing purchase:', error);
 		return c.json({ error: 'Failed to process purchase' }, 500);
 	}
 });
 
+// PATCH /api/garden/visibility - Make the garden public or private
+garden.patch('/visibility', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const { isPublic } = await c.req.json();
+
+		if (typeof isPublic !== 'boolean') {
+			return c.json({ error: 'isPublic must be a boolean' }, 400);
+		}
+
+		const visibility = await setGardenVisibility(user.id, isPublic);
+
+		return c.json({
+			success: true,
+			...visibility
+		});
+	} catch (error) {
+		console.error('Error updating garden visibility:', error);
+		return c.json({ error: 'Failed to update garden visibility' }, 500);
+	}
+});
+
+// GET /api/garden/public - Browse public gardens
+garden.get('/public', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1);
+		const perPage = Math.min(50, Math.max(1, parseInt(c.req.query('perPage') || '20') || 20));
+
+		const result = await listPublicGardens(page, perPage);
+
+		return c.json(result);
+	} catch (error) {
+		console.error('Error listing public gardens:', error);
+		return c.json({ error: 'Failed to list public gardens' }, 500);
+	}
+});
+
+// GET /api/garden/public/:slug - Read-only snapshot of a public garden
+garden.get('/public/:slug', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const snapshot = await getPublicGardenSnapshot(c.req.param('slug'));
+
+		if (!snapshot) {
+			return c.json({ error: 'Garden not found' }, 404);
+		}
+
+		return c.json({ garden: snapshot });
+	} catch (error) {
+		console.error('Error loading public garden:', error);
+		return c.json({ error: 'Failed to load garden' }, 500);
+	}
+});
+
+// POST /api/garden/public/:slug/appreciation - Leave an appreciation in the owner's inbox
+garden.post('/public/:slug/appreciation', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const body = await c.req.json().catch(() => ({}));
+		const message = await sendGardenAppreciation(user.id, c.req.param('slug'), body.message);
+
+		return c.json({
+			success: true,
+			appreciation: message
+		});
+	} catch (error) {
+		if (error instanceof GardenError) {
+			return c.json({ error: error.message }, error.status);
+		}
+		console.error('Error sending garden appreciation:', error);
+		return c.json({ error: 'Failed to send appreciation' }, 500);
+	}
+});
+
 export default garden;
@@ -0,0 +1,63 @@
+import { Hono } from 'hono';
+import { ensureAdmin } from '../lib/auth.js';
+import { JobNotFoundError, getRegisteredJobs, listJobRuns, runJob } from '../lib/scheduler.js';
+import type { Env } from '../types/hono.js';
+
+/**
+ * Scheduler administration (Admin only)
+ */
+const jobs = new Hono<Env>();
+
+// GET /api/jobs - List registered jobs
+jobs.get('/', async (c) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	return c.json({
+		jobs: getRegisteredJobs().map(job => ({
+			name: job.name,
+			description: job.description,
+			intervalMinutes: job.intervalMinutes
+		}))
+	});
+});
+
+// GET /api/jobs/runs - Run history, optionally filtered by ?job=<name>
+jobs.get('/runs', async (c) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1);
+		const perPage = Math.min(100, Math.max(1, parseInt(c.req.query('perPage') || '50') || 50));
+
+		return c.json(await listJobRuns({ jobName: c.req.query('job') || undefined, page, perPage }));
+	} catch (error) {
+		console.error('Error fetching job runs:', error);
+		return c.json({ error: 'Failed to fetch job runs' }, 500);
+	}
+});
+
+// POST /api/jobs/:name/run - Trigger a job manually
+jobs.post('/:name/run', async (c) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const run = await runJob(c.req.param('name'), 'manual', c.get('user')?.id);
+
+		if (run.status === 'skipped') {
+			return c.json({ error: 'Job is already running', ...run }, 409);
+		}
+
+		return c.json(run);
+	} catch (error) {
+		if (error instanceof JobNotFoundError) {
+			return c.json({ error: error.message }, 404);
+		}
+		console.error('Error running job:', error);
+		return c.json({ error: 'Failed to run job' }, 500);
+	}
+});
+
+export default jobs;
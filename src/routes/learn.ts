@@ -1,95 +1,389 @@
 import { and, desc, eq } from 'drizzle-orm';
 import { Hono } from 'hono';
 import type { Context } from 'hono';
-import { learnSessions, learnTopicVersions, learnTopics } from '../../drizzle/schema.js';
+import { learnSessions } from '../../drizzle/schema.js';
 import { ensureAdmin } from '../lib/auth.js';
 import { db } from '../lib/db.js';
+import {
+  LearnError,
+  createLearnCategory,
+  createLearnTopic,
+  createLearnTopicVersion,
+  deleteLearnCategory,
+  deleteLearnTopic,
+  getLearnTopic,
+  getPublishedLearnTopic,
+  listLearnCategories,
+  listLearnTopics,
+  listPublishedLearnCategories,
+  listPublishedLearnTopics,
+  reorderLearnCategories,
+  reorderLearnTopics,
+  getLearnContentReport,
+  setCurrentLearnTopicVersion,
+  updateLearnCategory,
+  updateLearnTopic,
+  updateLearnTopicVersion
+} from '../lib/learn.js';
+import { gradeLearnSessionResponses } from '../lib/learn-grading.js';
+import { answerLearnBlockReview, listDueLearnReviews, recordLearnSessionReview } from '../lib/learn-reviews.js';
+import {
+  cancelScheduledPublish,
+  deleteLearnTopicVersion,
+  diffLearnTopicVersions,
+  getLearnSessionVersion,
+  publishLearnTopicVersion,
+  resolveSessionTopicVersion,
+  rollbackLearnTopic
+} from '../lib/learn-versions.js';
+import { awardLearnTopicCompletion } from '../lib/seeds.js';
 import type { Env } from '../types/hono.js';
 
 const learn = new Hono<Env>();
 
+function handleLearnError(c: Context<Env>, error: unknown, fallback: string) {
+  if (error instanceof LearnError) {
+    return c.json({ error: error.message, ...(error.issues ? { issues: error.issues } : {}) }, error.status);
+  }
+  console.error(`${fallback}:`, error);
+  return c.json({ error: fallback }, 500);
+}
+
+function parseIds(body: any): string[] | null {
+  if (!Array.isArray(body?.ids) || !body.ids.every((id: unknown) => typeof id === 'string')) {
+    return null;
+  }
+  return body.ids;
+}
+
+/**
+ * Category Management Routes (Admin only)
+ */
+
+// Inactive categories are included so they can be reactivated; ?includeInactive=false hides them
+learn.get('/categories', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    const categories = await listLearnCategories({
+      includeInactive: c.req.query('includeInactive') !== 'false'
+    });
+    return c.json({ categories });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to list categories');
+  }
+});
+
+learn.post('/categories', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    const category = await createLearnCategory(await c.req.json());
+    return c.json({ category }, 201);
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to create category');
+  }
+});
+
+// Body: { ids: string[] } in the new order
+learn.post('/categories/reorder', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    const ids = parseIds(await c.req.json());
+    if (!ids) {
+      return c.json({ error: 'ids must be an array of category ids' }, 400);
+    }
+    return c.json({ categories: await reorderLearnCategories(ids) });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to reorder categories');
+  }
+});
+
+learn.put('/categories/:id', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    const category = await updateLearnCategory(c.req.param('id'), await c.req.json());
+    return c.json({ category });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to update category');
+  }
+});
+
+// Soft delete: sets isActive = false
+learn.delete('/categories/:id', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    await deleteLearnCategory(c.req.param('id'));
+    return c.json({ success: true });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to delete category');
+  }
+});
+
 /**
  * Topic Management Routes (Admin only)
  */
 
-learn.put('/topic-versions/:versionId', async (c) => {
+// ?includeInactive=true, ?includeVersions=true, ?categoryId=
+learn.get('/topics', async (c) => {
   const guard = ensureAdmin(c);
   if (guard) return guard;
 
-  const { versionId } = c.req.param();
-  const body = await c.req.json();
+  try {
+    const topics = await listLearnTopics({
+      includeInactive: c.req.query('includeInactive') === 'true',
+      includeVersions: c.req.query('includeVersions') === 'true',
+      categoryId: c.req.query('categoryId') || undefined
+    });
+    return c.json({ topics });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to list topics');
+  }
+});
 
-  const updates: any = {
-    updated: new Date().toISOString()
-  };
+learn.post('/topics', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
 
-  const fields = [
-    'titleDE',
-    'titleEN',
-    'descriptionDE',
-    'descriptionEN',
-    'language',
-    'image',
-    'status',
-    'versionLabel',
-    'notes'
-  ];
-
-  for (const field of fields) {
-    if (body[field] !== undefined) {
-      updates[field] = body[field];
+  try {
+    const topic = await createLearnTopic(await c.req.json());
+    return c.json({ topic }, 201);
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to create topic');
+  }
+});
+
+// Body: { ids: string[] } in the new order
+learn.post('/topics/reorder', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    const ids = parseIds(await c.req.json());
+    if (!ids) {
+      return c.json({ error: 'ids must be an array of topic ids' }, 400);
     }
+    return c.json({ topics: await reorderLearnTopics(ids) });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to reorder topics');
   }
+});
 
-  if (body.content !== undefined) {
-    updates.content = body.content;
+learn.get('/topics/:id', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    return c.json({ topic: await getLearnTopic(c.req.param('id')) });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to get topic');
+  }
+});
+
+learn.put('/topics/:id', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    const topic = await updateLearnTopic(c.req.param('id'), await c.req.json());
+    return c.json({ topic });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to update topic');
   }
-  if (body.metadata !== undefined) {
-    updates.metadata = body.metadata;
+});
+
+// Soft delete: sets isActive = false
+learn.delete('/topics/:id', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    await deleteLearnTopic(c.req.param('id'));
+    return c.json({ success: true });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to delete topic');
   }
-  if (body.categoryId !== undefined) {
-    updates.categoryId = body.categoryId || null;
+});
+
+learn.post('/topics/:topicId/versions', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    const version = await createLearnTopicVersion(c.req.param('topicId'), await c.req.json(), c.get('user')?.id || null);
+    return c.json({ version }, 201);
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to create version');
   }
-  if (body.isPublished !== undefined) {
-    updates.isPublished = Boolean(body.isPublished);
-    updates.publishedAt = body.isPublished ? new Date().toISOString() : null;
+});
+
+// Body: { versionId }
+learn.post('/topics/:topicId/current-version', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    const body = await c.req.json();
+    if (typeof body.versionId !== 'string') {
+      return c.json({ error: 'versionId is required' }, 400);
+    }
+    const topic = await setCurrentLearnTopicVersion(c.req.param('topicId'), body.versionId);
+    return c.json({ topic });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to set current version');
   }
+});
 
-  const [version] = await db
-    .update(learnTopicVersions)
-    .set(updates)
-    .where(eq(learnTopicVersions.id, versionId))
-    .returning();
+// Republish an earlier version's content as a new current version. Body: { versionId }
+learn.post('/topics/:topicId/rollback', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
 
-  if (!version) {
-    return c.json({ error: 'Version not found' }, 404);
+  try {
+    const body = await c.req.json();
+    if (typeof body.versionId !== 'string') {
+      return c.json({ error: 'versionId is required' }, 400);
+    }
+    const version = await rollbackLearnTopic(c.req.param('topicId'), body.versionId, c.get('user')?.id || null);
+    return c.json({ version }, 201);
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to roll back topic');
   }
+});
+
+// Content is validated against the shared ContentBlock schema (422 with per-block issues)
+learn.put('/topic-versions/:versionId', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
 
-  return c.json({ version });
+  try {
+    const version = await updateLearnTopicVersion(c.req.param('versionId'), await c.req.json());
+    return c.json({ version });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to update version');
+  }
 });
 
+// Versions that learn sessions are pinned to are archived instead of deleted
 learn.delete('/topic-versions/:versionId', async (c) => {
   const guard = ensureAdmin(c);
   if (guard) return guard;
 
-  const { versionId } = c.req.param();
+  try {
+    const { archived } = await deleteLearnTopicVersion(c.req.param('versionId'));
+    return c.json({ success: true, archived });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to delete version');
+  }
+});
 
-  const [version] = await db
-    .delete(learnTopicVersions)
-    .where(eq(learnTopicVersions.id, versionId))
-    .returning();
+// Block-level diff against ?against=<versionId> (default: the topic's current version)
+learn.get('/topic-versions/:versionId/diff', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    const diff = await diffLearnTopicVersions(c.req.param('versionId'), c.req.query('against') || undefined);
+    return c.json(diff);
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to diff versions');
+  }
+});
+
+// Publish now and make current, or schedule with { at: ISO timestamp in the future }
+learn.post('/topic-versions/:versionId/publish', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const version = await publishLearnTopicVersion(c.req.param('versionId'), { at: body.at || null });
+    return c.json({ version });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to publish version');
+  }
+});
+
+learn.delete('/topic-versions/:versionId/schedule', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    const version = await cancelScheduledPublish(c.req.param('versionId'));
+    return c.json({ version });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to cancel scheduled publishing');
+  }
+});
+
+// Versions whose stored content fails validation
+learn.get('/content-report', async (c) => {
+  const guard = ensureAdmin(c);
+  if (guard) return guard;
+
+  try {
+    return c.json(await getLearnContentReport());
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to validate learn content');
+  }
+});
+
+/**
+ * Published Content Routes (app)
+ * Only active topics whose current version is published
+ */
+
+learn.get('/published/categories', async (c: Context<Env>) => {
+  const user = c.get('user');
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    return c.json({ categories: await listPublishedLearnCategories() });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to list categories');
+  }
+});
+
+// ?categoryId=, ?includeContent=true (content is omitted from the list by default)
+learn.get('/published/topics', async (c: Context<Env>) => {
+  const user = c.get('user');
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
 
-  if (!version) {
-    return c.json({ error: 'Version not found' }, 404);
+  try {
+    const topics = await listPublishedLearnTopics({
+      categoryId: c.req.query('categoryId') || undefined,
+      includeContent: c.req.query('includeContent') === 'true'
+    });
+    return c.json({ topics });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to list topics');
   }
+});
 
-  // Remove current version reference if needed
-  await db
-    .update(learnTopics)
-    .set({ currentVersionId: null })
-    .where(eq(learnTopics.currentVersionId, versionId));
+// Topic by id or slug, with the content of its current version
+learn.get('/published/topics/:idOrSlug', async (c: Context<Env>) => {
+  const user = c.get('user');
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
 
-  return c.json({ success: true });
+  try {
+    return c.json({ topic: await getPublishedLearnTopic(c.req.param('idOrSlug')) });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to get topic');
+  }
 });
 
 /**
@@ -105,21 +399,26 @@ learn.get('/sessions/completion-status', async (c: Context<Env>) => {
   }
 
   const completedSessions = await db
-    .select({ topicId: learnSessions.topicId })
+    .select({ topicId: learnSessions.topicId, score: learnSessions.score })
     .from(learnSessions)
     .where(
       and(
         eq(learnSessions.userId, user.id),
         eq(learnSessions.completed, true)
       )
-    );
+    )
+    .orderBy(desc(learnSessions.completedAt));
 
+  // Scores come from the most recently completed session of each topic (null if it has no gradable blocks)
   const completionStatus: Record<string, boolean> = {};
+  const scores: Record<string, number | null> = {};
   completedSessions.forEach((session) => {
+    if (completionStatus[session.topicId]) return;
     completionStatus[session.topicId] = true;
+    scores[session.topicId] = session.score;
   });
 
-  return c.json({ completionStatus });
+  return c.json({ completionStatus, scores });
 });
 
 // Get a learning session by ID
@@ -144,11 +443,26 @@ learn.get('/sessions/by-id/:id', async (c: Context<Env>) => {
     session: {
       ...session,
       responses: session.responses ? JSON.parse(session.responses) : [],
-      feedback: session.feedback ? JSON.parse(session.feedback) : null
+      feedback: session.feedback ? JSON.parse(session.feedback) : null,
+      grading: session.grading ? JSON.parse(session.grading) : null
     }
   });
 });
 
+// Content of the topic version the session is pinned to (stays the same after newer versions are published)
+learn.get('/sessions/by-id/:id/version', async (c: Context<Env>) => {
+  const user = c.get('user');
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    return c.json({ version: await getLearnSessionVersion(user.id, c.req.param('id')) });
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to get session version');
+  }
+});
+
 // Fetch a learning session by user and topic
 learn.get('/sessions', async (c) => {
   const userId = c.req.query('userId');
@@ -173,18 +487,26 @@ learn.get('/sessions', async (c) => {
     session: {
       ...session,
       responses: session.responses ? JSON.parse(session.responses) : [],
-      feedback: session.feedback ? JSON.parse(session.feedback) : null
+      feedback: session.feedback ? JSON.parse(session.feedback) : null,
+      grading: session.grading ? JSON.parse(session.grading) : null
     }
   });
 });
 
-// Basic create endpoint
+// Basic create endpoint; without topicVersionId the session is pinned to the topic's current published version
 learn.post('/sessions', async (c) => {
   const body = await c.req.json().catch(() => ({}));
-  const { userId, topicId, topicVersionId } = body;
+  const { userId, topicId } = body;
 
-  if (!userId || !topicId || !topicVersionId) {
-    return c.json({ error: 'userId, topicId, and topicVersionId are required' }, 400);
+  if (!userId || !topicId) {
+    return c.json({ error: 'userId and topicId are required' }, 400);
+  }
+
+  let topicVersionId: string;
+  try {
+    topicVersionId = await resolveSessionTopicVersion(topicId, body.topicVersionId);
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to resolve topic version');
   }
 
   const [newSession] = await db
@@ -204,7 +526,8 @@ learn.post('/sessions', async (c) => {
     session: {
       ...newSession,
       responses: [],
-      feedback: null
+      feedback: null,
+      grading: null
     }
   });
 });
@@ -244,6 +567,13 @@ learn.patch('/sessions/:id', async (c: Context<Env>) => {
   }
   if (body.responses !== undefined) {
     updates.responses = JSON.stringify(body.responses);
+
+    // Graded against the pinned version; correctness sent by the client is ignored
+    const grading = await gradeLearnSessionResponses(existingSession.topicVersionId, body.responses);
+    if (grading) {
+      updates.grading = JSON.stringify(grading);
+      updates.score = grading.score;
+    }
   }
   if (body.completed !== undefined) {
     updates.completed = Boolean(body.completed);
@@ -255,19 +585,71 @@ learn.patch('/sessions/:id', async (c: Context<Env>) => {
     updates.feedback = JSON.stringify(body.feedback);
   }
 
-  const [updatedSession] = await db
-    .update(learnSessions)
-    .set(updates)
-    .where(eq(learnSessions.id, id))
-    .returning();
+  // Completing a session schedules its reviews in the same transaction; the row lock makes
+  // sure concurrent requests complete it (and schedule reviews) only once
+  const { updatedSession, completedNow } = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ completed: learnSessions.completed })
+      .from(learnSessions)
+      .where(eq(learnSessions.id, id))
+      .for('update');
+
+    const [session] = await tx
+      .update(learnSessions)
+      .set(updates)
+      .where(eq(learnSessions.id, id))
+      .returning();
+
+    const completedNow = Boolean(session.completed && !current?.completed);
+    if (completedNow) {
+      await recordLearnSessionReview(session, tx);
+    }
+    return { updatedSession: session, completedNow };
+  });
+
+  if (completedNow) {
+    await awardLearnTopicCompletion(user.id, existingSession.topicId);
+  }
 
   return c.json({
     session: {
       ...updatedSession,
       responses: updatedSession.responses ? JSON.parse(updatedSession.responses) : [],
-      feedback: updatedSession.feedback ? JSON.parse(updatedSession.feedback) : null
+      feedback: updatedSession.feedback ? JSON.parse(updatedSession.feedback) : null,
+      grading: updatedSession.grading ? JSON.parse(updatedSession.grading) : null
     }
   });
 });
 
+/**
+ * Spaced Repetition Review Routes
+ */
+
+// Topic and quiz block reviews that are due now, most overdue first
+learn.get('/reviews/due', async (c: Context<Env>) => {
+  const user = c.get('user');
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const limit = Number(c.req.query('limit')) || undefined;
+  const reviews = await listDueLearnReviews(user.id, { limit });
+  return c.json({ reviews, count: reviews.length });
+});
+
+// Answer a quiz block review; body: { response } in the same shape as a session response
+learn.post('/reviews/:id/answer', async (c: Context<Env>) => {
+  const user = c.get('user');
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    return c.json(await answerLearnBlockReview(user.id, c.req.param('id'), body.response));
+  } catch (error) {
+    return handleLearnError(c, error, 'Failed to answer review');
+  }
+});
+
 export default learn;
@@ -10,8 +10,26 @@ import {
 	getUserMemories,
 	deleteMemory,
 	deleteMemories,
-	formatMemoriesForPrompt
+	formatMemoriesForPrompt,
+	getMemoryVersions,
+	updateMemory,
+	validateMemoryChanges,
+	MemoryValidationError
 } from '../lib/memory.js';
+import { getMemoryQueueStats, retryFailedMemoryJob } from '../lib/memory-queue.js';
+import { sweepMemories } from '../lib/memory-sweeper.js';
+import { ensureAdmin } from '../lib/auth.js';
+import { getEmbeddingModelUsage } from '../lib/embeddings.js';
+import {
+	cancelEmbeddingReindex,
+	getReindexJob,
+	listReindexJobs,
+	retryReindexFailures,
+	runEmbeddingReindex,
+	startEmbeddingReindex,
+	swapReindexedEmbeddings,
+	ReindexError
+} from '../lib/embedding-reindex.js';
 import type { Env } from '../types/hono.js';
 
 const app = new Hono<Env>();
@@ -72,6 +90,9 @@ app.post('/', async (c: Context<Env>) => {
 			memory
 		});
 	} catch (error) {
+		if (error instanceof MemoryValidationError) {
+			return c.json({ error: error.message }, 400);
+		}
 		console.error('Error creating memory:', error);
 		return c.json({ error: 'Failed to create memory' }, 500);
 	}
@@ -102,6 +123,224 @@ app.get('/', async (c: Context<Env>) => {
 	}
 });
 
+/**
+ * Extraction queue depth and failed jobs (Admin only)
+ * GET /api/memories/extraction-queue
+ */
+app.get('/extraction-queue', async (c: Context<Env>) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const limit = Math.min(200, Math.max(1, parseInt(c.req.query('limit') || '50') || 50));
+		return c.json(await getMemoryQueueStats(limit));
+	} catch (error) {
+		console.error('Error fetching memory extraction queue:', error);
+		return c.json({ error: 'Failed to fetch memory extraction queue' }, 500);
+	}
+});
+
+/**
+ * Re-queue a failed extraction job (Admin only)
+ * POST /api/memories/extraction-queue/:id/retry
+ */
+app.post('/extraction-queue/:id/retry', async (c: Context<Env>) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const job = await retryFailedMemoryJob(c.req.param('id'));
+		if (!job) {
+			return c.json({ error: 'Failed job not found, or its chat already has a queued job' }, 404);
+		}
+
+		return c.json({ job });
+	} catch (error) {
+		console.error('Error retrying memory extraction job:', error);
+		return c.json({ error: 'Failed to retry memory extraction job' }, 500);
+	}
+});
+
+/**
+ * Run the memory sweeper (Admin only)
+ * POST /api/memories/sweep
+ * Body: { dryRun?: boolean } - defaults to a dry run that only reports what would change
+ */
+app.post('/sweep', async (c: Context<Env>) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const body = await c.req.json().catch(() => ({}));
+		const report = await sweepMemories({ dryRun: body.dryRun !== false });
+
+		return c.json({ report });
+	} catch (error) {
+		console.error('Error sweeping memories:', error);
+		return c.json({ error: 'Failed to sweep memories' }, 500);
+	}
+});
+
+/**
+ * Which embedding providers/models produced the stored vectors (Admin only)
+ * GET /api/memories/embeddings - `mixed` is true when some vectors don't match the current provider
+ */
+app.get('/embeddings', async (c: Context<Env>) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		return c.json(await getEmbeddingModelUsage());
+	} catch (error) {
+		console.error('Error fetching embedding usage:', error);
+		return c.json({ error: 'Failed to fetch embedding usage' }, 500);
+	}
+});
+
+function reindexErrorResponse(c: Context<Env>, error: unknown, fallback: string) {
+	if (error instanceof ReindexError) {
+		return c.json({ error: error.message }, error.status);
+	}
+	console.error(`${fallback}:`, error);
+	return c.json({ error: fallback }, 500);
+}
+
+// Pages are processed in the background; the scheduler resumes the job if the process restarts
+function runReindexInBackground(jobId: string) {
+	runEmbeddingReindex(jobId).catch(error => {
+		console.error(`Re-embedding job ${jobId} stopped, the scheduler will resume it:`, error);
+	});
+}
+
+/**
+ * Re-embedding jobs (Admin only)
+ * GET /api/memories/embeddings/reindex
+ */
+app.get('/embeddings/reindex', async (c: Context<Env>) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		return c.json({ jobs: await listReindexJobs() });
+	} catch (error) {
+		return reindexErrorResponse(c, error, 'Failed to fetch re-embedding jobs');
+	}
+});
+
+/**
+ * Start re-embedding memories and NVC knowledge into a shadow column (Admin only)
+ * POST /api/memories/embeddings/reindex
+ * Body: { provider?: string, model?: string, dimensions?: number, tables?: string[], batchSize?: number } - defaults to the active provider
+ */
+app.post('/embeddings/reindex', async (c: Context<Env>) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const body = await c.req.json().catch(() => ({}));
+		const job = await startEmbeddingReindex({
+			provider: typeof body.provider === 'string' ? body.provider : undefined,
+			model: typeof body.model === 'string' ? body.model : undefined,
+			dimensions: typeof body.dimensions === 'number' ? body.dimensions : undefined,
+			tables: Array.isArray(body.tables) ? body.tables : undefined,
+			batchSize: typeof body.batchSize === 'number' ? body.batchSize : undefined,
+			startedBy: c.get('user')?.id
+		});
+
+		runReindexInBackground(job.id);
+		return c.json({ job }, 202);
+	} catch (error) {
+		return reindexErrorResponse(c, error, 'Failed to start re-embedding job');
+	}
+});
+
+/**
+ * Job progress and failed rows (Admin only)
+ * GET /api/memories/embeddings/reindex/:id
+ */
+app.get('/embeddings/reindex/:id', async (c: Context<Env>) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const limit = Math.min(1000, Math.max(1, parseInt(c.req.query('failures') || '100') || 100));
+		return c.json(await getReindexJob(c.req.param('id'), limit));
+	} catch (error) {
+		return reindexErrorResponse(c, error, 'Failed to fetch re-embedding job');
+	}
+});
+
+/**
+ * Continue a stopped job, e.g. after a rate limit (Admin only)
+ * POST /api/memories/embeddings/reindex/:id/resume
+ */
+app.post('/embeddings/reindex/:id/resume', async (c: Context<Env>) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const { job } = await getReindexJob(c.req.param('id'), 0);
+		if (job.status !== 'running') {
+			return c.json({ error: `Re-embedding job is ${job.status}` }, 409);
+		}
+
+		runReindexInBackground(job.id);
+		return c.json({ job }, 202);
+	} catch (error) {
+		return reindexErrorResponse(c, error, 'Failed to resume re-embedding job');
+	}
+});
+
+/**
+ * Re-embed the rows that failed (Admin only)
+ * POST /api/memories/embeddings/reindex/:id/retry-failed
+ */
+app.post('/embeddings/reindex/:id/retry-failed', async (c: Context<Env>) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const job = await retryReindexFailures(c.req.param('id'));
+		runReindexInBackground(job.id);
+		return c.json({ job }, 202);
+	} catch (error) {
+		return reindexErrorResponse(c, error, 'Failed to retry re-embedding failures');
+	}
+});
+
+/**
+ * Swap the shadow column in of a "ready" job and make its provider the active one (Admin only)
+ * POST /api/memories/embeddings/reindex/:id/swap
+ * Body: { force?: boolean } - force drops the vectors of rows that could not be re-embedded
+ */
+app.post('/embeddings/reindex/:id/swap', async (c: Context<Env>) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const body = await c.req.json().catch(() => ({}));
+		const job = await swapReindexedEmbeddings(c.req.param('id'), { force: body.force === true });
+		return c.json({ job });
+	} catch (error) {
+		return reindexErrorResponse(c, error, 'Failed to swap embeddings');
+	}
+});
+
+/**
+ * Cancel a job and drop its shadow column (Admin only)
+ * POST /api/memories/embeddings/reindex/:id/cancel
+ */
+app.post('/embeddings/reindex/:id/cancel', async (c: Context<Env>) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		return c.json({ job: await cancelEmbeddingReindex(c.req.param('id')) });
+	} catch (error) {
+		return reindexErrorResponse(c, error, 'Failed to cancel re-embedding job');
+	}
+});
+
 /**
  * Delete multiple memories
  * DELETE /api/memories/bulk
@@ -133,6 +372,59 @@ app.delete('/bulk', async (c: Context<Env>) => {
 	}
 });
 
+/**
+ * Correct a memory
+ * PATCH /api/memories/:id
+ * Body: { value?, key?, type?, personName?, priority? }
+ */
+app.patch('/:id', async (c: Context<Env>) => {
+	try {
+		const user = c.get('user');
+		if (!user) {
+			return c.json({ error: 'Unauthorized' }, 401);
+		}
+
+		const changes = validateMemoryChanges(await c.req.json());
+		if (Object.keys(changes).length === 0) {
+			return c.json({ error: 'No changes provided' }, 400);
+		}
+
+		const memory = await updateMemory(c.req.param('id'), user.id, changes);
+		if (!memory) {
+			return c.json({ error: 'Memory not found' }, 404);
+		}
+
+		const { embedding, ...memoryWithoutEmbedding } = memory;
+		return c.json({ memory: memoryWithoutEmbedding });
+	} catch (error) {
+		if (error instanceof MemoryValidationError) {
+			return c.json({ error: error.message }, 400);
+		}
+		console.error('Error updating memory:', error);
+		return c.json({ error: 'Failed to update memory' }, 500);
+	}
+});
+
+/**
+ * Version history of a memory: the AI's original inference and all user corrections
+ * GET /api/memories/:id/versions
+ */
+app.get('/:id/versions', async (c: Context<Env>) => {
+	try {
+		const user = c.get('user');
+		if (!user) {
+			return c.json({ error: 'Unauthorized' }, 401);
+		}
+
+		const versions = await getMemoryVersions(c.req.param('id'), user.id);
+
+		return c.json({ versions });
+	} catch (error) {
+		console.error('Error fetching memory versions:', error);
+		return c.json({ error: 'Failed to fetch memory versions' }, 500);
+	}
+});
+
 /**
  * Delete a memory
  * DELETE /api/memories/:id
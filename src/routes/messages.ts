@@ -3,6 +3,7 @@ import type { Context } from 'hono';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import { eq, desc, and, or, lte, sql, count } from 'drizzle-orm';
 import { messages as messagesTable } from '../../drizzle/schema.js';
+import { processScheduled } from '../lib/scheduled-messages.js';
 
 const db = drizzle(process.env.DATABASE_URL!);
 const messages = new Hono();
@@ -266,55 +267,7 @@ messages.post('/process-scheduled', async (c: Context) => {
 			return c.json({ error: 'Unauthorized' }, 401);
 		}
 
-		const now = new Date().toISOString();
-
-		// Find scheduled messages that are ready to be sent
-		const scheduledMessages = await db.select().from(messagesTable)
-			.where(and(
-				sql`${messagesTable.scheduledFor} IS NOT NULL`,
-				lte(messagesTable.scheduledFor, now),
-				sql`${messagesTable.sentAt} IS NULL`
-			))
-			.limit(100);
-
-		const processedMessages: any[] = [];
-
-		// Process messages
-		for (const message of scheduledMessages) {
-			try {
-				await db.update(messagesTable)
-					.set({ sentAt: now, updated: now })
-					.where(eq(messagesTable.id, message.id));
-
-				processedMessages.push({
-					id: message.id,
-					title: message.title,
-					type: message.type,
-					status: 'sent'
-				});
-			} catch (error: any) {
-				processedMessages.push({
-					id: message.id,
-					title: message.title,
-					type: message.type,
-					status: 'error',
-					error: error.message
-				});
-			}
-		}
-
-		// TODO: Process due reminders (requires reminders table queries)
-
-		return c.json({
-			processedMessages,
-			processedReminders: [],
-			summary: {
-				messagesProcessed: processedMessages.length,
-				remindersProcessed: 0,
-				messagesSuccess: processedMessages.filter(m => m.status === 'sent').length,
-				remindersSuccess: 0
-			}
-		});
+		return c.json(await processScheduled());
 	} catch (error) {
 		console.error('Error processing scheduled messages:', error);
 		return c.json({ error: 'Failed to process scheduled messages' }, 500);
@@ -0,0 +1,138 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { ensureAdmin } from '../lib/auth.js';
+import {
+	NVCEvalError,
+	compareEvalRuns,
+	deleteEvalQuery,
+	getEvalRun,
+	listEvalQueries,
+	listEvalRuns,
+	runNVCRetrievalEval,
+	saveEvalQuery,
+	updateEvalQuery,
+	validateEvalConfig,
+	validateEvalQuery
+} from '../lib/nvc-eval.js';
+import type { Env } from '../types/hono.js';
+
+/**
+ * NVC knowledge retrieval evaluation (Admin only)
+ */
+const nvcEval = new Hono<Env>();
+
+function handleEvalError(c: Context<Env>, error: unknown, fallback: string) {
+	if (error instanceof NVCEvalError) {
+		return c.json({ error: error.message }, error.status);
+	}
+	console.error(`${fallback}:`, error);
+	return c.json({ error: fallback }, 500);
+}
+
+// GET /api/nvc-knowledge/eval/queries - Labeled queries
+nvcEval.get('/queries', async (c) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		return c.json({ queries: await listEvalQueries() });
+	} catch (error) {
+		return handleEvalError(c, error, 'Failed to fetch evaluation queries');
+	}
+});
+
+// POST /api/nvc-knowledge/eval/queries - Add a labeled query, or several with { queries: [...] }
+// Body: { query, language?, expectedKnowledgeIds: string[], notes? }
+nvcEval.post('/queries', async (c) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const body = await c.req.json();
+		const inputs = (Array.isArray(body.queries) ? body.queries : [body]).map(validateEvalQuery);
+
+		const saved = [];
+		for (const input of inputs) {
+			saved.push(await saveEvalQuery(input, c.get('user')?.id));
+		}
+		return c.json(Array.isArray(body.queries) ? { queries: saved } : saved, 201);
+	} catch (error) {
+		return handleEvalError(c, error, 'Failed to save evaluation query');
+	}
+});
+
+// PUT /api/nvc-knowledge/eval/queries/:id - Replace a labeled query
+nvcEval.put('/queries/:id', async (c) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const input = validateEvalQuery(await c.req.json());
+		return c.json(await updateEvalQuery(c.req.param('id'), input));
+	} catch (error) {
+		return handleEvalError(c, error, 'Failed to update evaluation query');
+	}
+});
+
+// DELETE /api/nvc-knowledge/eval/queries/:id
+nvcEval.delete('/queries/:id', async (c) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		await deleteEvalQuery(c.req.param('id'));
+		return c.json({ success: true });
+	} catch (error) {
+		return handleEvalError(c, error, 'Failed to delete evaluation query');
+	}
+});
+
+// GET /api/nvc-knowledge/eval/runs - Run history with aggregate metrics
+nvcEval.get('/runs', async (c) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const limit = Math.min(100, Math.max(1, parseInt(c.req.query('limit') || '20') || 20));
+		return c.json({ runs: await listEvalRuns(limit) });
+	} catch (error) {
+		return handleEvalError(c, error, 'Failed to fetch evaluation runs');
+	}
+});
+
+// POST /api/nvc-knowledge/eval/runs - Evaluate the current index
+// Body: { label?, pipeline?: 'search' | 'retrieve', mode?, k?, minSimilarity?, priorityWeight? }
+nvcEval.post('/runs', async (c) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const body = await c.req.json().catch(() => ({}));
+		const run = await runNVCRetrievalEval({
+			...validateEvalConfig(body),
+			label: typeof body.label === 'string' ? body.label : undefined,
+			triggeredBy: c.get('user')?.id
+		});
+		return c.json(run, 201);
+	} catch (error) {
+		return handleEvalError(c, error, 'Failed to run evaluation');
+	}
+});
+
+// GET /api/nvc-knowledge/eval/runs/:id - Run with per-query results; ?compareTo=<runId> adds deltas against that baseline
+nvcEval.get('/runs/:id', async (c) => {
+	const guard = ensureAdmin(c);
+	if (guard) return guard;
+
+	try {
+		const baselineId = c.req.query('compareTo');
+		if (baselineId) {
+			return c.json(await compareEvalRuns(baselineId, c.req.param('id')));
+		}
+		return c.json(await getEvalRun(c.req.param('id')));
+	} catch (error) {
+		return handleEvalError(c, error, 'Failed to fetch evaluation run');
+	}
+});
+
+export default nvcEval;
@@ -11,9 +11,26 @@ import {
 	listNVCKnowledge,
 	getNVCCategories,
 	getNVCTags,
+	setNVCKnowledgeStatus,
+	rollbackNVCKnowledgeEntry,
 	type CreateNVCKnowledgeInput,
+	type UpdateNVCKnowledgeInput,
 	type SearchOptions
 } from '../lib/nvc-knowledge.js';
+import {
+	getNVCRevision,
+	isNVCKnowledgeStatus,
+	listNVCRevisions,
+	NVCRevisionError,
+	NVC_KNOWLEDGE_STATUSES
+} from '../lib/nvc-knowledge-revisions.js';
+import {
+	exportNVCKnowledge,
+	importNVCKnowledge,
+	NVCImportError,
+	type ImportFile,
+	type NVCImportFormat
+} from '../lib/nvc-knowledge-io.js';
 import { retrieveNVCKnowledge } from '../lib/ai-tools.js';
 
 const nvcKnowledge = new Hono();
@@ -24,6 +41,14 @@ function isAdmin(user: any): boolean {
 	return user?.role === 'admin' || user?.email?.endsWith('@admin.com');
 }
 
+function handleRevisionError(c: Context, error: unknown, fallback: string) {
+	if (error instanceof NVCRevisionError) {
+		return c.json({ error: error.message }, error.status);
+	}
+	console.error(`${fallback}:`, error);
+	return c.json({ error: fallback }, 500);
+}
+
 // GET /api/nvc-knowledge - List all entries (with filters)
 nvcKnowledge.get('/', async (c: Context) => {
 	const user = c.get('user');
@@ -36,6 +61,10 @@ nvcKnowledge.get('/', async (c: Context) => {
 		const category = c.req.query('category');
 		const tags = c.req.query('tags')?.split(',');
 		const isActive = c.req.query('isActive') !== 'false'; // Default to true
+		const status = c.req.query('status');
+		if (status && !isNVCKnowledgeStatus(status)) {
+			return c.json({ error: `status must be one of ${NVC_KNOWLEDGE_STATUSES.join(', ')}` }, 400);
+		}
 		const limit = parseInt(c.req.query('limit') || '50');
 		const offset = parseInt(c.req.query('offset') || '0');
 
@@ -44,6 +73,7 @@ nvcKnowledge.get('/', async (c: Context) => {
 			category,
 			tags,
 			isActive: isActive as boolean,
+			status: isNVCKnowledgeStatus(status) ? status : undefined,
 			limit,
 			offset
 		});
@@ -55,6 +85,106 @@ nvcKnowledge.get('/', async (c: Context) => {
 	}
 });
 
+// GET /api/nvc-knowledge/export?format=jsonl|csv - Download the knowledge base (Admin only)
+// Optional: language=de|en, includeInactive=true
+nvcKnowledge.get('/export', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	if (!isAdmin(user)) {
+		return c.json({ error: 'Admin access required' }, 403);
+	}
+
+	try {
+		const format = c.req.query('format') || 'jsonl';
+		if (format !== 'jsonl' && format !== 'csv') {
+			return c.json({ error: 'format must be "jsonl" or "csv"' }, 400);
+		}
+		const language = c.req.query('language');
+		if (language && language !== 'de' && language !== 'en') {
+			return c.json({ error: 'language must be "de" or "en"' }, 400);
+		}
+
+		const body = await exportNVCKnowledge(format, {
+			language: language as 'de' | 'en' | undefined,
+			includeInactive: c.req.query('includeInactive') === 'true'
+		});
+
+		const date = new Date().toISOString().slice(0, 10);
+		return c.body(body, 200, {
+			'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+			'Content-Disposition': `attachment; filename="nvc-knowledge-${date}.${format}"`
+		});
+	} catch (error) {
+		console.error('Error exporting NVC knowledge:', error);
+		return c.json({ error: 'Failed to export NVC knowledge' }, 500);
+	}
+});
+
+function guessImportFormat(fileName: string): NVCImportFormat | null {
+	if (/\.jsonl?$/i.test(fileName) || /\.ndjson$/i.test(fileName)) return 'jsonl';
+	if (/\.csv$/i.test(fileName)) return 'csv';
+	if (/\.md$/i.test(fileName)) return 'markdown';
+	return null;
+}
+
+// POST /api/nvc-knowledge/import?dryRun=false - Upsert entries from JSONL, CSV or Markdown (Admin only)
+// Defaults to a dry run that only returns the new / changed / unchanged diff.
+// Body: multipart with one or more `files`, or JSON { format, content } / { format: 'markdown', files: [{ name, content }] }
+nvcKnowledge.post('/import', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	if (!isAdmin(user)) {
+		return c.json({ error: 'Admin access required' }, 403);
+	}
+
+	try {
+		let format = c.req.query('format') as NVCImportFormat | undefined;
+		let input: string | ImportFile[];
+
+		if ((c.req.header('Content-Type') || '').includes('multipart/form-data')) {
+			const form = await c.req.parseBody({ all: true });
+			const uploads = [form.files, form.file].flat().filter((value): value is File => value instanceof File);
+			if (uploads.length === 0) {
+				return c.json({ error: 'No files uploaded' }, 400);
+			}
+			input = await Promise.all(uploads.map(async file => ({ name: file.name, content: await file.text() })));
+			format = format || (typeof form.format === 'string' ? form.format as NVCImportFormat : undefined) || guessImportFormat(uploads[0].name) || undefined;
+		} else {
+			const body = await c.req.json();
+			format = format || body.format;
+			if (Array.isArray(body.files)) {
+				input = body.files.filter((file: any) => typeof file?.name === 'string' && typeof file?.content === 'string');
+			} else if (typeof body.content === 'string') {
+				input = body.content;
+			} else {
+				return c.json({ error: 'content or files is required' }, 400);
+			}
+		}
+
+		if (format !== 'jsonl' && format !== 'csv' && format !== 'markdown') {
+			return c.json({ error: 'format must be "jsonl", "csv" or "markdown"' }, 400);
+		}
+
+		const report = await importNVCKnowledge(format, input, {
+			dryRun: c.req.query('dryRun') !== 'false',
+			createdBy: user.id
+		});
+		return c.json(report);
+	} catch (error) {
+		if (error instanceof NVCImportError) {
+			return c.json({ error: error.message }, error.status);
+		}
+		console.error('Error importing NVC knowledge:', error);
+		return c.json({ error: 'Failed to import NVC knowledge' }, 500);
+	}
+});
+
 // GET /api/nvc-knowledge/:id - Get single entry
 nvcKnowledge.get('/:id', async (c: Context) => {
 	const user = c.get('user');
@@ -102,6 +232,10 @@ nvcKnowledge.post('/', async (c: Context) => {
 			return c.json({ error: 'Language must be "de" or "en"' }, 400);
 		}
 
+		if (body.status !== undefined && !isNVCKnowledgeStatus(body.status)) {
+			return c.json({ error: `status must be one of ${NVC_KNOWLEDGE_STATUSES.join(', ')}` }, 400);
+		}
+
 		const entry = await createNVCKnowledgeEntry({
 			...body,
 			createdBy: user.id
@@ -128,14 +262,14 @@ nvcKnowledge.put('/:id', async (c: Context) => {
 
 	try {
 		const id = c.req.param('id');
-		const body = await c.req.json() as Partial<CreateNVCKnowledgeInput & { isActive?: boolean }>;
+		const { note, ...body } = await c.req.json() as UpdateNVCKnowledgeInput & { note?: string };
 
 		// Validate language if provided
 		if (body.language && body.language !== 'de' && body.language !== 'en') {
 			return c.json({ error: 'Language must be "de" or "en"' }, 400);
 		}
 
-		const entry = await updateNVCKnowledgeEntry(id, body);
+		const entry = await updateNVCKnowledgeEntry(id, body, { authorId: user.id, note });
 
 		return c.json(entry);
 	} catch (error: any) {
@@ -163,7 +297,7 @@ nvcKnowledge.delete('/:id', async (c: Context) => {
 		const id = c.req.param('id');
 		const hardDelete = c.req.query('hard') === 'true';
 
-		await deleteNVCKnowledgeEntry(id, hardDelete);
+		await deleteNVCKnowledgeEntry(id, hardDelete, { authorId: user.id });
 
 		return c.json({ success: true });
 	} catch (error: any) {
@@ -175,6 +309,107 @@ nvcKnowledge.delete('/:id', async (c: Context) => {
 	}
 });
 
+// GET /api/nvc-knowledge/:id/revisions - Edit history, newest first (Admin only)
+nvcKnowledge.get('/:id/revisions', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	if (!isAdmin(user)) {
+		return c.json({ error: 'Admin access required' }, 403);
+	}
+
+	try {
+		const revisions = await listNVCRevisions(c.req.param('id'));
+		return c.json({ revisions });
+	} catch (error) {
+		return handleRevisionError(c, error, 'Failed to list revisions');
+	}
+});
+
+// GET /api/nvc-knowledge/:id/revisions/:revision - Single revision with snapshot and diff (Admin only)
+nvcKnowledge.get('/:id/revisions/:revision', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	if (!isAdmin(user)) {
+		return c.json({ error: 'Admin access required' }, 403);
+	}
+
+	const revision = parseInt(c.req.param('revision'));
+	if (!Number.isInteger(revision) || revision < 1) {
+		return c.json({ error: 'Invalid revision' }, 400);
+	}
+
+	try {
+		return c.json(await getNVCRevision(c.req.param('id'), revision));
+	} catch (error) {
+		return handleRevisionError(c, error, 'Failed to get revision');
+	}
+});
+
+// POST /api/nvc-knowledge/:id/rollback - Restore an earlier revision (Admin only)
+// Body: { revision: number, note?: string }
+nvcKnowledge.post('/:id/rollback', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	if (!isAdmin(user)) {
+		return c.json({ error: 'Admin access required' }, 403);
+	}
+
+	try {
+		const body = await c.req.json() as { revision?: number; note?: string };
+		if (!Number.isInteger(body.revision) || (body.revision as number) < 1) {
+			return c.json({ error: 'revision is required' }, 400);
+		}
+
+		const entry = await rollbackNVCKnowledgeEntry(c.req.param('id'), body.revision as number, {
+			authorId: user.id,
+			note: body.note
+		});
+		return c.json(entry);
+	} catch (error: any) {
+		if (error?.message === 'Entry not found') {
+			return c.json({ error: 'Entry not found' }, 404);
+		}
+		return handleRevisionError(c, error, 'Failed to roll back NVC knowledge entry');
+	}
+});
+
+// POST /api/nvc-knowledge/:id/status - Review workflow: draft → review → published (Admin only)
+// Body: { status: 'draft' | 'review' | 'published', note?: string }
+nvcKnowledge.post('/:id/status', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	if (!isAdmin(user)) {
+		return c.json({ error: 'Admin access required' }, 403);
+	}
+
+	try {
+		const body = await c.req.json() as { status?: string; note?: string };
+		if (!isNVCKnowledgeStatus(body.status)) {
+			return c.json({ error: `status must be one of ${NVC_KNOWLEDGE_STATUSES.join(', ')}` }, 400);
+		}
+
+		const entry = await setNVCKnowledgeStatus(c.req.param('id'), body.status, {
+			authorId: user.id,
+			note: body.note
+		});
+		return c.json(entry);
+	} catch (error) {
+		return handleRevisionError(c, error, 'Failed to change NVC knowledge status');
+	}
+});
+
 // POST /api/nvc-knowledge/:id/duplicate - Duplicate entry
 nvcKnowledge.post('/:id/duplicate', async (c: Context) => {
 	const user = c.get('user');
@@ -216,7 +451,7 @@ nvcKnowledge.post('/:id/duplicate', async (c: Context) => {
 	}
 });
 
-// POST /api/nvc-knowledge/search - Semantic search
+// POST /api/nvc-knowledge/search - Hybrid full-text + vector search; each result has a scoreBreakdown
 nvcKnowledge.post('/search', async (c: Context) => {
 	const user = c.get('user');
 	if (!user) {
@@ -230,12 +465,23 @@ nvcKnowledge.post('/search', async (c: Context) => {
 			return c.json({ error: 'Query is required' }, 400);
 		}
 
+		if (body.mode && !['hybrid', 'vector', 'lexical'].includes(body.mode)) {
+			return c.json({ error: 'mode must be "hybrid", "vector" or "lexical"' }, 400);
+		}
+
+		if (body.priorityWeight !== undefined && (typeof body.priorityWeight !== 'number' || !Number.isFinite(body.priorityWeight))) {
+			return c.json({ error: 'priorityWeight must be a number between 0 and 1' }, 400);
+		}
+
 		const results = await searchNVCKnowledge(body.query, {
 			language: body.language,
 			category: body.category,
 			limit: body.limit || 10,
-			minSimilarity: body.minSimilarity || 0.7,
-			tags: body.tags
+			minSimilarity: body.minSimilarity,
+			tags: body.tags,
+			mode: body.mode,
+			priorityWeight: body.priorityWeight,
+			includeUnpublished: body.includeUnpublished === true && isAdmin(user)
 		});
 
 		return c.json({ results });
@@ -0,0 +1,179 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import {
+	PeopleError,
+	addAlias,
+	createPerson,
+	deletePerson,
+	getPersonProfile,
+	getPersonTimeline,
+	listPeople,
+	mergePeople,
+	removeAlias,
+	updatePerson
+} from '../lib/people.js';
+
+const people = new Hono();
+
+function handlePeopleError(c: Context, error: unknown, fallback: string) {
+	if (error instanceof PeopleError) {
+		return c.json({ error: error.message }, error.status);
+	}
+	console.error(`${fallback}:`, error);
+	return c.json({ error: fallback }, 500);
+}
+
+// GET /api/people - All people in the user's life
+people.get('/', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		return c.json({ people: await listPeople(user.id) });
+	} catch (error) {
+		return handlePeopleError(c, error, 'Failed to fetch people');
+	}
+});
+
+// POST /api/people - Add a person (or return the existing one for a known name)
+people.post('/', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const body = await c.req.json();
+		if (typeof body.name !== 'string') {
+			return c.json({ error: 'Name is required' }, 400);
+		}
+
+		const person = await createPerson(user.id, {
+			name: body.name,
+			relationship: body.relationship,
+			notes: body.notes
+		});
+		return c.json(person, 201);
+	} catch (error) {
+		return handlePeopleError(c, error, 'Failed to create person');
+	}
+});
+
+// GET /api/people/:id - Person with aliases and linked memories
+people.get('/:id', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		return c.json(await getPersonProfile(user.id, c.req.param('id')));
+	} catch (error) {
+		return handlePeopleError(c, error, 'Failed to fetch person');
+	}
+});
+
+// GET /api/people/:id/timeline - Feelings and needs from conversations about the person
+people.get('/:id/timeline', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const limit = Math.min(200, Math.max(1, parseInt(c.req.query('limit') || '50') || 50));
+		return c.json({ timeline: await getPersonTimeline(user.id, c.req.param('id'), limit) });
+	} catch (error) {
+		return handlePeopleError(c, error, 'Failed to fetch timeline');
+	}
+});
+
+// PATCH /api/people/:id - Rename or update relationship and notes
+people.patch('/:id', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const body = await c.req.json();
+		const person = await updatePerson(user.id, c.req.param('id'), {
+			name: typeof body.name === 'string' ? body.name : undefined,
+			relationship: body.relationship,
+			notes: body.notes
+		});
+		return c.json(person);
+	} catch (error) {
+		return handlePeopleError(c, error, 'Failed to update person');
+	}
+});
+
+// DELETE /api/people/:id - Delete a person and their links (memories stay)
+people.delete('/:id', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		await deletePerson(user.id, c.req.param('id'));
+		return c.json({ success: true });
+	} catch (error) {
+		return handlePeopleError(c, error, 'Failed to delete person');
+	}
+});
+
+// POST /api/people/:id/aliases - Add an alias
+people.post('/:id/aliases', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const body = await c.req.json();
+		if (typeof body.alias !== 'string') {
+			return c.json({ error: 'Alias is required' }, 400);
+		}
+		return c.json(await addAlias(user.id, c.req.param('id'), body.alias), 201);
+	} catch (error) {
+		return handlePeopleError(c, error, 'Failed to add alias');
+	}
+});
+
+// DELETE /api/people/:id/aliases/:aliasId - Remove an alias
+people.delete('/:id/aliases/:aliasId', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		await removeAlias(user.id, c.req.param('id'), c.req.param('aliasId'));
+		return c.json({ success: true });
+	} catch (error) {
+		return handlePeopleError(c, error, 'Failed to remove alias');
+	}
+});
+
+// POST /api/people/:id/merge - Merge another person (duplicate) into this one
+people.post('/:id/merge', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const body = await c.req.json();
+		if (typeof body.sourcePersonId !== 'string') {
+			return c.json({ error: 'sourcePersonId is required' }, 400);
+		}
+		return c.json(await mergePeople(user.id, c.req.param('id'), body.sourcePersonId));
+	} catch (error) {
+		return handlePeopleError(c, error, 'Failed to merge people');
+	}
+});
+
+export default people;
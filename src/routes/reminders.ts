@@ -1,8 +1,52 @@
 import { Hono } from 'hono';
 import type { Context } from 'hono';
+import { and, asc, count, eq } from 'drizzle-orm';
+import { db } from '../lib/db.js';
+import { reminders as remindersTable } from '../../drizzle/schema.js';
+import {
+	DEFAULT_REMINDER_TIMEZONE,
+	ReminderValidationError,
+	getFirstOccurrence,
+	getNextOccurrence,
+	isValidTimezone,
+	normalizeRecurrence,
+	parseRecurrenceRule
+} from '../lib/reminders.js';
 
 const reminders = new Hono();
 
+type ReminderRow = typeof remindersTable.$inferSelect;
+
+function formatReminder(reminder: ReminderRow) {
+	return {
+		...reminder,
+		recurringData: reminder.recurringData ? parseRecurrenceRule(reminder.recurringData) : null
+	};
+}
+
+function parseScheduledFor(value: unknown): string {
+	const date = new Date(value as string);
+	if (typeof value !== 'string' || isNaN(date.getTime())) {
+		throw new ReminderValidationError('scheduledFor must be a valid date');
+	}
+	return date.toISOString();
+}
+
+function parseTimezone(value: unknown): string {
+	if (typeof value !== 'string' || !isValidTimezone(value)) {
+		throw new ReminderValidationError('timezone must be a valid IANA timezone');
+	}
+	return value;
+}
+
+async function getOwnedReminder(id: string, userId: string) {
+	const [reminder] = await db.select().from(remindersTable)
+		.where(and(eq(remindersTable.id, id), eq(remindersTable.userId, userId)))
+		.limit(1);
+
+	return reminder || null;
+}
+
 // GET /api/reminders - Get reminders
 reminders.get('/', async (c: Context) => {
 	const user = c.get('user');
@@ -11,30 +55,27 @@ reminders.get('/', async (c: Context) => {
 	}
 
 	try {
-		const page = parseInt(c.req.query('page') || '1');
-		const perPage = parseInt(c.req.query('perPage') || '20');
+		const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1);
+		const perPage = Math.min(100, Math.max(1, parseInt(c.req.query('perPage') || '20') || 20));
 		const activeOnly = c.req.query('active') !== 'false';
 
-		// TODO: Build filter and query database
-		// let query = db.select().from(remindersTable)
-		//   .where(eq(remindersTable.userId, user.id));
-		//
-		// if (activeOnly) {
-		//   query = query.where(eq(remindersTable.active, true));
-		// }
-		//
-		// const remindersResult = await query
-		//   .orderBy(asc(remindersTable.scheduledFor))
-		//   .limit(perPage)
-		//   .offset((page - 1) * perPage);
-		//
-		// const totalCount = await db.select({ count: count() })
-		//   .from(remindersTable)
-		//   .where(eq(remindersTable.userId, user.id));
+		const filter = activeOnly
+			? and(eq(remindersTable.userId, user.id), eq(remindersTable.active, true))
+			: eq(remindersTable.userId, user.id);
+
+		const remindersResult = await db.select().from(remindersTable)
+			.where(filter)
+			.orderBy(asc(remindersTable.nextOccurrence), asc(remindersTable.scheduledFor))
+			.limit(perPage)
+			.offset((page - 1) * perPage);
+
+		const [{ total }] = await db.select({ total: count() })
+			.from(remindersTable)
+			.where(filter);
 
 		return c.json({
-			reminders: [], // TODO: Use remindersResult
-			totalPages: 0, // TODO: Calculate from totalCount
+			reminders: remindersResult.map(formatReminder),
+			totalPages: Math.ceil(Number(total) / perPage),
 			currentPage: page
 		});
 	} catch (error) {
@@ -51,33 +92,218 @@ reminders.post('/', async (c: Context) => {
 	}
 
 	try {
-		const { title, message, scheduledFor, recurring, recurringData } = await c.req.json();
+		const { title, message, scheduledFor, recurring, recurringData, timezone } = await c.req.json();
 
 		if (!title || !message || !scheduledFor) {
 			return c.json({ error: 'Title, message and scheduledFor are required' }, 400);
 		}
 
+		const recurrence = normalizeRecurrence(recurring, recurringData);
 		const reminderData = {
-			userId: user.id,
-			title,
-			message,
-			scheduledFor,
-			recurring: recurring || '',
-			recurringData: recurringData ? JSON.stringify(recurringData) : '',
-			active: true,
-			lastSent: ''
+			scheduledFor: parseScheduledFor(scheduledFor),
+			timezone: timezone ? parseTimezone(timezone) : DEFAULT_REMINDER_TIMEZONE,
+			recurring: recurrence.recurring,
+			recurringData: recurrence.rule ? JSON.stringify(recurrence.rule) : null
 		};
 
-		// TODO: Create reminder in database
-		// const reminder = await db.insert(remindersTable)
-		//   .values(reminderData)
-		//   .returning();
+		const firstOccurrence = getFirstOccurrence(reminderData);
+		const now = new Date().toISOString();
+
+		const [reminder] = await db.insert(remindersTable)
+			.values({
+				id: crypto.randomUUID(),
+				userId: user.id,
+				title,
+				message,
+				...reminderData,
+				active: true,
+				nextOccurrence: firstOccurrence ? firstOccurrence.toISOString() : null,
+				created: now,
+				updated: now
+			})
+			.returning();
 
-		return c.json({ reminder: reminderData }); // TODO: Use reminder[0]
+		return c.json({ reminder: formatReminder(reminder) });
 	} catch (error) {
+		if (error instanceof ReminderValidationError) {
+			return c.json({ error: error.message }, 400);
+		}
 		console.error('Error creating reminder:', error);
 		return c.json({ error: 'Failed to create reminder' }, 500);
 	}
 });
 
+// GET /api/reminders/:id - Get a single reminder
+reminders.get('/:id', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const reminder = await getOwnedReminder(c.req.param('id'), user.id);
+		if (!reminder) {
+			return c.json({ error: 'Reminder not found' }, 404);
+		}
+
+		return c.json({ reminder: formatReminder(reminder) });
+	} catch (error) {
+		console.error('Error fetching reminder:', error);
+		return c.json({ error: 'Failed to fetch reminder' }, 500);
+	}
+});
+
+// PATCH /api/reminders/:id - Update a reminder
+reminders.patch('/:id', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const existing = await getOwnedReminder(c.req.param('id'), user.id);
+		if (!existing) {
+			return c.json({ error: 'Reminder not found' }, 404);
+		}
+
+		const body = await c.req.json();
+		const updates: Partial<ReminderRow> = {};
+
+		if (body.title !== undefined) {
+			if (!body.title) return c.json({ error: 'Title must not be empty' }, 400);
+			updates.title = body.title;
+		}
+		if (body.message !== undefined) {
+			if (!body.message) return c.json({ error: 'Message must not be empty' }, 400);
+			updates.message = body.message;
+		}
+		if (body.scheduledFor !== undefined) {
+			updates.scheduledFor = parseScheduledFor(body.scheduledFor);
+		}
+		if (body.timezone !== undefined) {
+			updates.timezone = parseTimezone(body.timezone);
+		}
+		if (body.recurring !== undefined || body.recurringData !== undefined) {
+			const recurrence = normalizeRecurrence(
+				body.recurring !== undefined ? body.recurring : existing.recurring,
+				body.recurringData !== undefined ? body.recurringData : parseRecurrenceRule(existing.recurringData)
+			);
+			updates.recurring = recurrence.recurring;
+			updates.recurringData = recurrence.rule ? JSON.stringify(recurrence.rule) : null;
+		}
+
+		const scheduleChanged = ['scheduledFor', 'timezone', 'recurring', 'recurringData']
+			.some(field => field in updates);
+
+		if (scheduleChanged) {
+			const schedule = { ...existing, ...updates };
+			const now = new Date();
+			// A changed schedule never re-sends past occurrences, except an unsent one-off reminder
+			const next = schedule.recurring
+				? getNextOccurrence(schedule, new Date(Math.max(now.getTime(), new Date(schedule.scheduledFor).getTime() - 1)))
+				: getFirstOccurrence(schedule);
+			updates.nextOccurrence = next ? next.toISOString() : null;
+		}
+
+		if (Object.keys(updates).length === 0) {
+			return c.json({ reminder: formatReminder(existing) });
+		}
+
+		const [reminder] = await db.update(remindersTable)
+			.set({ ...updates, updated: new Date().toISOString() })
+			.where(eq(remindersTable.id, existing.id))
+			.returning();
+
+		return c.json({ reminder: formatReminder(reminder) });
+	} catch (error) {
+		if (error instanceof ReminderValidationError) {
+			return c.json({ error: error.message }, 400);
+		}
+		console.error('Error updating reminder:', error);
+		return c.json({ error: 'Failed to update reminder' }, 500);
+	}
+});
+
+// POST /api/reminders/:id/pause - Pause a reminder
+reminders.post('/:id/pause', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const existing = await getOwnedReminder(c.req.param('id'), user.id);
+		if (!existing) {
+			return c.json({ error: 'Reminder not found' }, 404);
+		}
+
+		const [reminder] = await db.update(remindersTable)
+			.set({ active: false, updated: new Date().toISOString() })
+			.where(eq(remindersTable.id, existing.id))
+			.returning();
+
+		return c.json({ reminder: formatReminder(reminder) });
+	} catch (error) {
+		console.error('Error pausing reminder:', error);
+		return c.json({ error: 'Failed to pause reminder' }, 500);
+	}
+});
+
+// POST /api/reminders/:id/resume - Resume a paused reminder
+reminders.post('/:id/resume', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const existing = await getOwnedReminder(c.req.param('id'), user.id);
+		if (!existing) {
+			return c.json({ error: 'Reminder not found' }, 404);
+		}
+
+		// Occurrences that fell into the pause are skipped
+		const next = existing.recurring
+			? getNextOccurrence(existing, new Date())
+			: (existing.lastSent ? null : getFirstOccurrence(existing));
+
+		if (!next) {
+			return c.json({ error: 'Reminder has no upcoming occurrences' }, 400);
+		}
+
+		const [reminder] = await db.update(remindersTable)
+			.set({ active: true, nextOccurrence: next.toISOString(), updated: new Date().toISOString() })
+			.where(eq(remindersTable.id, existing.id))
+			.returning();
+
+		return c.json({ reminder: formatReminder(reminder) });
+	} catch (error) {
+		console.error('Error resuming reminder:', error);
+		return c.json({ error: 'Failed to resume reminder' }, 500);
+	}
+});
+
+// DELETE /api/reminders/:id - Delete a reminder
+reminders.delete('/:id', async (c: Context) => {
+	const user = c.get('user');
+	if (!user) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const deleted = await db.delete(remindersTable)
+			.where(and(eq(remindersTable.id, c.req.param('id')), eq(remindersTable.userId, user.id)))
+			.returning({ id: remindersTable.id });
+
+		if (deleted.length === 0) {
+			return c.json({ error: 'Reminder not found' }, 404);
+		}
+
+		return c.json({ success: true });
+	} catch (error) {
+		console.error('Error deleting reminder:', error);
+		return c.json({ error: 'Failed to delete reminder' }, 500);
+	}
+});
+
 export default reminders;
@@ -3,7 +3,8 @@ import type { Context } from 'hono';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import { eq, desc, and, gte, lte, or, sql } from 'drizzle-orm';
 import { analyses, memories, user as userTable, trackedNeeds, needFillLevels, needs, blindSpots, chats } from '../../drizzle/schema.js';
-import { getAiClient } from '../lib/gemini.js';
+import { generateBlindSpotAnalysis } from '../lib/blind-spots.js';
+import { complete, parseJsonResponse } from '../lib/chat-models.js';
 
 const db = drizzle(process.env.DATABASE_URL!);
 const stats = new Hono();
@@ -1325,9 +1326,7 @@ stats.get('/blind-spots', async (c: Context) => {
 			};
 		});
 
-		// Generate AI analysis using Gemini
-		const ai = getAiClient();
-
+		// Generate AI analysis
 		const systemPrompt = `Du bist ein einfühlsamer Coach für Gewaltfreie Kommunikation und Selbstreflexion.
 
 Analysiere die Chats, Reflexionen und Erinnerungen von ${userFirstName}, um wiederkehrende Muster und Blind Spots zu erkennen.
@@ -1394,26 +1393,15 @@ WICHTIG: Vermeide diese bereits gegebenen Muster und Ratschläge. Finde NEUE Erk
 Identifiziere wiederkehrende Muster, Blind Spots und gib hilfreiche Ratschläge für ${userFirstName}.
 Sprich ${userFirstName} DIREKT an - sage NIEMALS "der Nutzer" oder ähnliches!`;
 
-		const model = ai.chats.create({
-			model: 'gemini-2.5-flash',
-			config: {
-				temperature: 0.7,
-				systemInstruction: systemPrompt
-			}
+		const responseText = await complete({
+			role: 'analysis',
+			geminiModel: 'gemini-2.5-flash',
+			message: contextMessage,
+			systemInstruction: systemPrompt,
+			temperature: 0.7
 		});
 
-		const result = await model.sendMessage({ message: contextMessage });
-		const responseText = result.text || '{}';
-
-		// Clean the response text
-		let cleanedResponseText = responseText.trim();
-		if (cleanedResponseText.startsWith('```json')) {
-			cleanedResponseText = cleanedResponseText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-		} else if (cleanedResponseText.startsWith('```')) {
-			cleanedResponseText = cleanedResponseText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-		}
-
-		const aiAnalysis = JSON.parse(cleanedResponseText);
+		const aiAnalysis = parseJsonResponse<any>(responseText);
 
 		// Store the new analysis in the database
 		const [newBlindSpot] = await db
@@ -1476,13 +1464,13 @@ stats.post('/blind-spots/generate', async (c: Context) => {
 
 		const newestChatDate = new Date(mostRecentChat[0].created);
 
-		// Check if we have existing blind spot analyses (for duplicate detection)
+		// Check if we have an existing blind spot analysis
 		const existingBlindSpots = await db
 			.select()
 			.from(blindSpots)
 			.where(eq(blindSpots.userId, user.id))
 			.orderBy(desc(blindSpots.created))
-			.limit(4);
+			.limit(1);
 
 		const mostRecentBlindSpot = existingBlindSpots.length > 0 ? existingBlindSpots[0] : null;
 
@@ -1510,183 +1498,16 @@ stats.post('/blind-spots/generate', async (c: Context) => {
 
 		console.log(`🔄 Force generating new blind spot analysis (Admin: ${userIsAdmin})`);
 
-		// Fetch data for analysis
-		const userAnalyses = await db
-			.select()
-			.from(analyses)
-			.where(eq(analyses.userId, user.id))
-			.orderBy(desc(analyses.created))
-			.limit(10);
-
-		const userMemories = await db
-			.select()
-			.from(memories)
-			.where(eq(memories.userId, user.id))
-			.orderBy(desc(memories.created))
-			.limit(20);
-
-		// Build context for AI analysis
-		const analysesContext = userAnalyses.map(a => {
-			let feelings: string[] = [];
-			let needs: string[] = [];
-
-			try {
-				if (a.feelings) feelings = JSON.parse(a.feelings);
-				if (a.needs) needs = JSON.parse(a.needs);
-			} catch (e) {
-				// Ignore parse errors
-			}
-
-			return {
-				title: a.title,
-				observation: a.observation,
-				feelings,
-				needs,
-				request: a.request,
-				created: a.created
-			};
-		});
-
-		const memoriesContext = userMemories.map(m => ({
-			type: m.type,
-			key: m.key,
-			value: m.value,
-			confidence: m.confidence
-		}));
-
-		// Get user's name for personalized addressing
-		const userName = user.name || 'du';
-		const userFirstName = user.firstName || userName.split(' ')[0] || 'du';
-
-		// Build context of previous analyses to avoid duplicates
-		const previousAnalyses = existingBlindSpots.map(bs => {
-			let prevPatterns: string[] = [];
-			let prevAdvice = '';
-
-			try {
-				if (bs.patterns) prevPatterns = JSON.parse(bs.patterns);
-				prevAdvice = bs.advice || '';
-			} catch (e) {
-				// Ignore parse errors
-			}
-
-			return {
-				patterns: prevPatterns,
-				advice: prevAdvice,
-				created: bs.created
-			};
-		});
-
-		// Generate AI analysis using Gemini
-		const ai = getAiClient();
-
-		const systemPrompt = `Du bist ein einfühlsamer Coach für Gewaltfreie Kommunikation und Selbstreflexion.
-
-Analysiere die Chats, Reflexionen und Erinnerungen von ${userFirstName}, um wiederkehrende Muster und Blind Spots zu erkennen.
-
-WICHTIG - Personalisierung:
-- Sprich ${userFirstName} DIREKT an (verwende "${userFirstName}" oder "du/dich/dir")
-- Sage NIEMALS "der Nutzer", "die Person" oder ähnliche unpersönliche Formulierungen
-- Beispiel RICHTIG: "${userFirstName}, du zeigst ein Muster von..." oder "Du neigst dazu..."
-- Beispiel FALSCH: "Der Nutzer zeigt ein Muster von..."
-
-WICHTIG - Vermeidung von Duplikaten:
-- Vermeide Ratschläge und Muster, die bereits in früheren Analysen gegeben wurden
-- Finde NEUE Perspektiven und Erkenntnisse
-- Baue auf früheren Analysen auf, wiederhole sie aber nicht
-
-WICHTIG - Inhalt:
-- Fokussiere auf konstruktive, unterstützende Beobachtungen
-- Identifiziere wiederkehrende emotionale Muster
-- Erkenne Situationen, in denen diese Muster auftreten
-- Gib konkrete, umsetzbare Ratschläge für mehr Selbstbewusstsein
-- Sei empathisch und wertschätzend, nie verurteilend
-- Verwende eine warme, persönliche Sprache (du-Form)
-
-WICHTIG - Länge und Stil:
-- Halte ALLES kurz und prägnant
-- Analysis: Maximal 2 kurze Sätze
-- Patterns: Jeweils maximal 8-10 Wörter pro Muster
-- Situations: Jeweils maximal 6-8 Wörter pro Situation
-- Advice: Maximal 1-2 kurze, klare Sätze
-
-WICHTIG - Formatierung:
-- Verwende NUR reinen Text, KEIN Markdown
-- KEINE Sternchen (*), KEINE Unterstriche (_), KEINE #-Zeichen
-- Nur einfacher, gut lesbarer Text
-
-Antworte ausschließlich mit einem JSON-Objekt in diesem Format:
-{
-  "analysis": "Eine SEHR kurze Zusammenfassung (maximal 2 Sätze), DIREKT an ${userFirstName} gerichtet",
-  "patterns": ["Kurzes Muster 1 (max 10 Wörter)", "Kurzes Muster 2", "Kurzes Muster 3"],
-  "situations": ["Kurze Situation 1 (max 8 Wörter)", "Kurze Situation 2"],
-  "advice": "Ein prägnanter Ratschlag (1-2 kurze Sätze) für ${userFirstName}"
-}`;
-
-		let contextMessage = `Analysiere folgende Daten von ${userFirstName}:
-
-REFLEXIONEN (letzte ${analysesContext.length} Analysen):
-${JSON.stringify(analysesContext, null, 2)}
-
-ERINNERUNGEN (letzte ${memoriesContext.length}):
-${JSON.stringify(memoriesContext, null, 2)}`;
-
-		if (previousAnalyses.length > 0) {
-			contextMessage += `
-
-FRÜHERE ANALYSEN (letzte ${previousAnalyses.length}, NICHT WIEDERHOLEN):
-${JSON.stringify(previousAnalyses, null, 2)}
-
-WICHTIG: Vermeide diese bereits gegebenen Muster und Ratschläge. Finde NEUE Erkenntnisse!`;
-		}
-
-		contextMessage += `
-
-Identifiziere wiederkehrende Muster, Blind Spots und gib hilfreiche Ratschläge für ${userFirstName}.
-Sprich ${userFirstName} DIREKT an - sage NIEMALS "der Nutzer" oder ähnliches!`;
-
-		const model = ai.chats.create({
-			model: 'gemini-2.5-flash',
-			config: {
-				temperature: 0.7,
-				systemInstruction: systemPrompt
-			}
-		});
-
-		const result = await model.sendMessage({ message: contextMessage });
-		const responseText = result.text || '{}';
-
-		// Clean the response text
-		let cleanedResponseText = responseText.trim();
-		if (cleanedResponseText.startsWith('```json')) {
-			cleanedResponseText = cleanedResponseText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-		} else if (cleanedResponseText.startsWith('```')) {
-			cleanedResponseText = cleanedResponseText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-		}
-
-		const aiAnalysis = JSON.parse(cleanedResponseText);
-
-		// Store the new analysis in the database
-		const [newBlindSpot] = await db
-			.insert(blindSpots)
-			.values({
-				userId: user.id,
-				analysis: aiAnalysis.analysis,
-				patterns: JSON.stringify(aiAnalysis.patterns || []),
-				situations: JSON.stringify(aiAnalysis.situations || []),
-				advice: aiAnalysis.advice,
-				lastChatCreatedDate: newestChatDate.toISOString()
-			})
-			.returning();
+		const { blindSpot: newBlindSpot, patterns, situations } = await generateBlindSpotAnalysis(user, newestChatDate);
 
 		console.log('✅ Force generated new blind spot analysis:', newBlindSpot.id);
 
 		return c.json({
 			id: newBlindSpot.id,
-			analysis: aiAnalysis.analysis,
-			patterns: aiAnalysis.patterns || [],
-			situations: aiAnalysis.situations || [],
-			advice: aiAnalysis.advice,
+			analysis: newBlindSpot.analysis,
+			patterns,
+			situations,
+			advice: newBlindSpot.advice,
 			created: newBlindSpot.created,
 			hasInsight: true,
 			isAdmin: userIsAdmin,
@@ -1,8 +1,11 @@
 import { Hono } from 'hono';
 import type { Context } from 'hono';
 import { drizzle } from 'drizzle-orm/node-postgres';
-import { eq } from 'drizzle-orm';
-import { user as userTable } from '../../drizzle/schema.js';
+import { and, eq } from 'drizzle-orm';
+import { chats as chatsTable, user as userTable } from '../../drizzle/schema.js';
+import type { HistoryEntry } from '../lib/encryption.js';
+import { MEMORY_TYPES, isMemoryType, parseAllowedMemoryTypes } from '../lib/memory.js';
+import { cancelPendingMemoryExtraction } from '../lib/memory-queue.js';
 
 const db = drizzle(process.env.DATABASE_URL!);
 const user = new Hono();
@@ -21,6 +24,7 @@ user.get('/chat-settings', async (c: Context) => {
 				aiAnswerLength: userTable.aiAnswerLength,
 				toneOfVoice: userTable.toneOfVoice,
 				nvcKnowledge: userTable.nvcKnowledge,
+				allowedMemoryTypes: userTable.allowedMemoryTypes,
 			})
 			.from(userTable)
 			.where(eq(userTable.id, authUser.id))
@@ -37,6 +41,8 @@ user.get('/chat-settings', async (c: Context) => {
 			aiAnswerLength: settings.aiAnswerLength || 'short',
 			toneOfVoice: settings.toneOfVoice || 'heartfelt',
 			nvcKnowledge: settings.nvcKnowledge || 'beginner',
+			allowedMemoryTypes: parseAllowedMemoryTypes(settings.allowedMemoryTypes),
+			availableMemoryTypes: MEMORY_TYPES,
 		});
 	} catch (error) {
 		console.error('Error fetching chat settings:', error);
@@ -53,7 +59,7 @@ user.post('/chat-settings', async (c: Context) => {
 
 	try {
 		const body = await c.req.json();
-		const { aiAnswerLength, toneOfVoice, nvcKnowledge } = body;
+		const { aiAnswerLength, toneOfVoice, nvcKnowledge, allowedMemoryTypes } = body;
 
 		// Validate values
 		const validAnswerLengths = ['short', 'medium', 'long'];
@@ -72,16 +78,26 @@ user.post('/chat-settings', async (c: Context) => {
 			return c.json({ error: 'Invalid nvcKnowledge value' }, 400);
 		}
 
+		// null resets to "all types allowed", an empty array disables memories entirely
+		if (allowedMemoryTypes !== undefined && allowedMemoryTypes !== null
+			&& (!Array.isArray(allowedMemoryTypes) || !allowedMemoryTypes.every(isMemoryType))) {
+			return c.json({ error: `allowedMemoryTypes must be a list of: ${MEMORY_TYPES.join(', ')}` }, 400);
+		}
+
 		// Build update object with only provided fields
 		const updateData: {
 			aiAnswerLength?: string;
 			toneOfVoice?: string;
 			nvcKnowledge?: string;
+			allowedMemoryTypes?: string | null;
 		} = {};
 
 		if (aiAnswerLength) updateData.aiAnswerLength = aiAnswerLength;
 		if (toneOfVoice) updateData.toneOfVoice = toneOfVoice;
 		if (nvcKnowledge) updateData.nvcKnowledge = nvcKnowledge;
+		if (allowedMemoryTypes !== undefined) {
+			updateData.allowedMemoryTypes = allowedMemoryTypes === null ? null : JSON.stringify([...new Set(allowedMemoryTypes)]);
+		}
 
 		// Update user settings
 		await db
@@ -99,4 +115,110 @@ user.post('/chat-settings', async (c: Context) => {
 	}
 });
 
+async function getOwnedChat(chatId: string, userId: string) {
+	const [chat] = await db.select({ id: chatsTable.id, history: chatsTable.history, offTheRecord: chatsTable.offTheRecord })
+		.from(chatsTable)
+		.where(and(eq(chatsTable.id, chatId), eq(chatsTable.userId, userId)))
+		.limit(1);
+
+	return chat || null;
+}
+
+function getExcludedEntries(history: HistoryEntry[]): number[] {
+	return history
+		.map((entry, index) => (entry.excludeFromMemory ? index : -1))
+		.filter(index => index >= 0);
+}
+
+// GET /api/user/chat-settings/chats/:chatId - Memory consent for a single chat
+user.get('/chat-settings/chats/:chatId', async (c: Context) => {
+	const authUser = c.get('user');
+	if (!authUser) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const chat = await getOwnedChat(c.req.param('chatId'), authUser.id);
+		if (!chat) {
+			return c.json({ error: 'Chat not found' }, 404);
+		}
+
+		const history: HistoryEntry[] = chat.history ? JSON.parse(chat.history) : [];
+
+		return c.json({
+			chatId: chat.id,
+			offTheRecord: chat.offTheRecord,
+			excludedEntries: getExcludedEntries(history),
+		});
+	} catch (error) {
+		console.error('Error fetching chat memory settings:', error);
+		return c.json({ error: 'Failed to fetch chat memory settings' }, 500);
+	}
+});
+
+// PATCH /api/user/chat-settings/chats/:chatId - Take a chat off the record or exclude history entries
+// Body: { offTheRecord?: boolean, excludeEntries?: number[], includeEntries?: number[] } (history indices)
+user.patch('/chat-settings/chats/:chatId', async (c: Context) => {
+	const authUser = c.get('user');
+	if (!authUser) {
+		return c.json({ error: 'Unauthorized' }, 401);
+	}
+
+	try {
+		const body = await c.req.json();
+		const { offTheRecord, excludeEntries = [], includeEntries = [] } = body;
+
+		if (offTheRecord !== undefined && typeof offTheRecord !== 'boolean') {
+			return c.json({ error: 'offTheRecord must be a boolean' }, 400);
+		}
+
+		const isIndexList = (value: unknown) => Array.isArray(value) && value.every(index => Number.isInteger(index) && index >= 0);
+		if (!isIndexList(excludeEntries) || !isIndexList(includeEntries)) {
+			return c.json({ error: 'excludeEntries and includeEntries must be lists of history indices' }, 400);
+		}
+
+		const chat = await getOwnedChat(c.req.param('chatId'), authUser.id);
+		if (!chat) {
+			return c.json({ error: 'Chat not found' }, 404);
+		}
+
+		// Only the flag changes, so the (encrypted) entry texts are left untouched
+		const history: HistoryEntry[] = chat.history ? JSON.parse(chat.history) : [];
+		for (const index of [...excludeEntries, ...includeEntries]) {
+			if (index >= history.length) {
+				return c.json({ error: `History entry ${index} does not exist` }, 400);
+			}
+		}
+		excludeEntries.forEach((index: number) => { history[index].excludeFromMemory = true; });
+		includeEntries.forEach((index: number) => { delete history[index].excludeFromMemory; });
+
+		const updateData: { history?: string; offTheRecord?: boolean; updated: string } = {
+			updated: new Date().toISOString()
+		};
+		if (excludeEntries.length > 0 || includeEntries.length > 0) {
+			updateData.history = JSON.stringify(history);
+		}
+		if (offTheRecord !== undefined) {
+			updateData.offTheRecord = offTheRecord;
+		}
+
+		await db.update(chatsTable)
+			.set(updateData)
+			.where(eq(chatsTable.id, chat.id));
+
+		if (offTheRecord) {
+			await cancelPendingMemoryExtraction(chat.id);
+		}
+
+		return c.json({
+			chatId: chat.id,
+			offTheRecord: offTheRecord ?? chat.offTheRecord,
+			excludedEntries: getExcludedEntries(history),
+		});
+	} catch (error) {
+		console.error('Error updating chat memory settings:', error);
+		return c.json({ error: 'Failed to update chat memory settings' }, 500);
+	}
+});
+
 export default user;